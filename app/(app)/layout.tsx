@@ -0,0 +1,15 @@
+import { AuthGuard } from "@/components/auth";
+import { AppShell } from "@/components/app-shell";
+
+// Every page in this route group requires a session and shares the app chrome
+export default function SignedInLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <AuthGuard>
+      <AppShell>{children}</AppShell>
+    </AuthGuard>
+  );
+}
@@ -0,0 +1,49 @@
+'use client'
+
+import { Mail, Phone, User as UserIcon } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+
+export default function DashboardPage() {
+  const { user } = useAuth()
+  const t = useTranslations()
+
+  // The layout's AuthGuard only renders this page once the user is loaded
+  if (!user) return null
+
+  const firstName = user.name.trim().split(/\s+/)[0] || user.name
+  const details = [
+    { icon: UserIcon, label: t('dashboard.name'), value: user.name },
+    { icon: Mail, label: t('dashboard.email'), value: user.email },
+    { icon: Phone, label: t('dashboard.mobile'), value: user.mobileNumber || t('dashboard.notProvided') },
+  ]
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">{t('dashboard.greeting', { name: firstName })}</h1>
+        <p className="text-sm text-muted-foreground">{t('dashboard.subtitle')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('dashboard.account')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="grid gap-4 sm:grid-cols-3">
+            {details.map(({ icon: Icon, label, value }) => (
+              <div key={label} className="flex items-start gap-3">
+                <Icon className="mt-0.5 h-4 w-4 text-muted-foreground" aria-hidden="true" />
+                <div className="min-w-0">
+                  <dt className="text-xs text-muted-foreground">{label}</dt>
+                  <dd className="truncate text-sm font-medium text-foreground">{value}</dd>
+                </div>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
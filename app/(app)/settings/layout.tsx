@@ -0,0 +1,19 @@
+'use client'
+
+import { SettingsNav } from '@/components/settings'
+import { useTranslations } from '@/components/i18n'
+
+export default function SettingsLayout({ children }: { children: React.ReactNode }) {
+  const t = useTranslations()
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">{t('settings.title')}</h1>
+        <p className="text-sm text-muted-foreground">{t('settings.subtitle')}</p>
+      </div>
+      <SettingsNav />
+      <div className="space-y-6">{children}</div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+'use client'
+
+import { useAuth } from '@/components/auth'
+import { ChangeEmailForm, DeleteAccountForm, ProfileForm } from '@/components/settings'
+
+export default function ProfileSettingsPage() {
+  const { user } = useAuth()
+  if (!user) return null
+
+  // Each section is its own form and saves on its own
+  return (
+    <>
+      <ProfileForm user={user} />
+      <ChangeEmailForm user={user} />
+      <DeleteAccountForm />
+    </>
+  )
+}
@@ -0,0 +1,19 @@
+'use client'
+
+import { useAuth } from '@/components/auth'
+import { useConfig } from '@/components/config'
+import { ChangePasswordForm, PasskeySettings, TwoFactorSettings } from '@/components/settings'
+
+export default function SecuritySettingsPage() {
+  const { user } = useAuth()
+  const { features } = useConfig()
+  if (!user) return null
+
+  return (
+    <>
+      <ChangePasswordForm user={user} />
+      <TwoFactorSettings user={user} />
+      {features.passkeys && <PasskeySettings />}
+    </>
+  )
+}
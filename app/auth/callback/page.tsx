@@ -0,0 +1,241 @@
+'use client'
+
+import React, { Suspense, useEffect, useMemo, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, PasswordInput, useSchemaRevalidation } from '@/components/form'
+import { Link2, Loader2, ShieldAlert, XCircle } from 'lucide-react'
+import { linkOAuthAccount, isApiError, oauthProviderNames, type OAuthProvider } from '@/lib/api'
+import { track } from '@/lib/analytics'
+import { notify } from '@/lib/notify'
+import { takePendingOAuth } from '@/lib/oauth'
+import { DEFAULT_REDIRECT, withRedirect } from '@/lib/redirect'
+import { createLinkAccountSchema, type LinkAccountFormData } from '@/lib/schemas/auth'
+import { useAuth, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+
+/*
+ * The backend redirects here once the provider is done, always echoing `state`:
+ *   ?status=success                                 session cookie is set
+ *   ?status=link_required&email=…&link_token=…      the email belongs to an existing account
+ *   ?error=<code>[&error_description=…]             e.g. error=access_denied when the user declined
+ */
+
+type CallbackState =
+  | { status: 'processing' }
+  | { status: 'mismatch' }
+  | { status: 'error'; title: string; message: string }
+  | { status: 'link'; provider: OAuthProvider; email: string; linkToken: string }
+
+const primaryButtonClass = "w-full h-12 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white shadow-lg transition-all duration-200 hover:shadow-xl disabled:opacity-70 disabled:cursor-not-allowed"
+
+interface LinkAccountFormProps {
+  provider: OAuthProvider
+  email: string
+  linkToken: string
+  onSignedIn: () => void
+  onExpired: () => void
+}
+
+function LinkAccountForm({ provider, email, linkToken, onSignedIn, onExpired }: LinkAccountFormProps) {
+  const t = useTranslations()
+  const { refresh } = useAuth()
+  const schema = useMemo(() => createLinkAccountSchema(t), [t])
+  const providerName = oauthProviderNames[provider]
+
+  const form = useForm<LinkAccountFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { password: '' },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleLink = async ({ password }: LinkAccountFormData) => {
+    try {
+      await notify.promise(linkOAuthAccount({ linkToken, password }).then(() => refresh()), {
+        loading: t('oauth.callback.toastLinking'),
+        success: t('oauth.callback.toastLinked', { provider: providerName }),
+        error: err => ({
+          title: t('oauth.callback.toastLinkFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      track('login_succeeded', { method: 'oauth' })
+      onSignedIn()
+    } catch (err) {
+      track('login_failed', { method: 'oauth', code: isApiError(err) ? err.code : 'UNKNOWN' })
+      if (isApiError(err) && (err.code === 'TOKEN_EXPIRED' || err.status === 410)) {
+        onExpired()
+      } else if (isApiError(err) && err.status > 0) {
+        form.setError('password', { type: 'server', message: err.message }, { shouldFocus: true })
+      }
+    }
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <div className="p-8">
+      <div className="w-16 h-16 rounded-full bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center mb-6 mx-auto">
+        <Link2 className="h-8 w-8 text-indigo-600 dark:text-indigo-400" />
+      </div>
+      <h1 className="text-2xl font-bold text-foreground mb-2 text-center">
+        {t('oauth.callback.linkTitle', { provider: providerName })}
+      </h1>
+      <p className="text-sm text-muted-foreground mb-6 text-center">
+        {t('oauth.callback.linkDescription', { email, provider: providerName })}
+      </p>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleLink)} className="space-y-4" noValidate>
+          {/* Lets password managers match the saved credentials */}
+          <input type="email" name="email" value={email} autoComplete="username" readOnly hidden />
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem className="space-y-1">
+                <FormLabel className="text-xs font-medium text-foreground">{t('oauth.callback.password')}</FormLabel>
+                <FormControl>
+                  <PasswordInput
+                    placeholder={t('oauth.callback.passwordPlaceholder')}
+                    autoComplete="current-password"
+                    className="h-12 text-sm font-medium rounded-lg shadow-sm"
+                    autoFocus
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" disabled={isSubmitting} className={primaryButtonClass}>
+            {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+            {isSubmitting ? t('oauth.callback.linkSubmitting') : t('oauth.callback.linkSubmit')}
+          </Button>
+        </form>
+      </Form>
+    </div>
+  )
+}
+
+function OAuthCallbackContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { refresh } = useAuth()
+  const t = useTranslations()
+  const [state, setState] = useState<CallbackState>({ status: 'processing' })
+  // Kept for "Back to sign in", so a second attempt still ends up at the original target
+  const [returnTo, setReturnTo] = useState(DEFAULT_REDIRECT)
+
+  // The pending state is single-use, so never handle the same response twice (e.g. StrictMode re-running effects)
+  const handled = useRef(false)
+
+  useEffect(() => {
+    if (handled.current) return
+    handled.current = true
+
+    const pending = takePendingOAuth(searchParams.get('state'))
+    if (!pending) {
+      track('login_failed', { method: 'oauth', code: 'STATE_MISMATCH' })
+      setState({ status: 'mismatch' })
+      return
+    }
+    const { provider, returnTo } = pending
+    setReturnTo(returnTo)
+    const providerName = oauthProviderNames[provider]
+
+    const error = searchParams.get('error')
+    if (error) {
+      track('login_failed', { method: 'oauth', code: error })
+      const denied = error === 'access_denied'
+      setState({
+        status: 'error',
+        title: denied ? t('oauth.callback.deniedTitle') : t('oauth.callback.errorTitle'),
+        message: denied
+          ? t('oauth.callback.denied', { provider: providerName })
+          : searchParams.get('error_description') || t('oauth.callback.error', { provider: providerName }),
+      })
+      return
+    }
+
+    const email = searchParams.get('email')
+    const linkToken = searchParams.get('link_token')
+    if (searchParams.get('status') === 'link_required' && email && linkToken) {
+      setState({ status: 'link', provider, email, linkToken })
+      return
+    }
+
+    refresh().then(user => {
+      if (user) {
+        track('login_succeeded', { method: 'oauth' })
+        router.replace(returnTo)
+      } else {
+        track('login_failed', { method: 'oauth', code: 'SESSION_FAILED' })
+        setState({
+          status: 'error',
+          title: t('oauth.callback.errorTitle'),
+          message: t('oauth.callback.sessionFailed', { provider: providerName }),
+        })
+      }
+    })
+    // Runs once per visit; the ref above keeps later renders from repeating it
+  }, [searchParams, refresh, router, t])
+
+  if (state.status === 'processing') {
+    return (
+      <div className="p-8 flex flex-col items-center text-center" role="status" aria-live="polite">
+        <Loader2 className="h-10 w-10 animate-spin text-indigo-600 dark:text-indigo-400 mb-6" />
+        <h1 className="text-2xl font-bold text-foreground">{t('oauth.callback.signingIn')}</h1>
+      </div>
+    )
+  }
+
+  if (state.status === 'link') {
+    return (
+      <LinkAccountForm
+        provider={state.provider}
+        email={state.email}
+        linkToken={state.linkToken}
+        onSignedIn={() => router.replace(returnTo)}
+        onExpired={() => setState({
+          status: 'error',
+          title: t('oauth.callback.errorTitle'),
+          message: t('oauth.callback.linkExpired'),
+        })}
+      />
+    )
+  }
+
+  const mismatch = state.status === 'mismatch'
+  return (
+    <div className="p-8 flex flex-col items-center text-center">
+      <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-6">
+        {mismatch ? <ShieldAlert className="h-8 w-8 text-destructive" /> : <XCircle className="h-8 w-8 text-destructive" />}
+      </div>
+      <h1 className="text-2xl font-bold text-foreground mb-2">
+        {mismatch ? t('oauth.callback.mismatchTitle') : state.title}
+      </h1>
+      <p className="text-sm text-muted-foreground mb-6" role="alert">
+        {mismatch ? t('oauth.callback.mismatchDescription') : state.message}
+      </p>
+      <Button type="button" onClick={() => router.replace(withRedirect('/login', returnTo))} className={primaryButtonClass}>
+        {t('oauth.callback.backToLogin')}
+      </Button>
+    </div>
+  )
+}
+
+export default function OAuthCallbackPage() {
+  return (
+    <div className="min-h-screen bg-muted flex items-center justify-center p-4">
+      <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+        {/* useSearchParams needs a Suspense boundary in the static export */}
+        <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin text-muted-foreground m-8 self-center" />}>
+          <OAuthCallbackContent />
+        </Suspense>
+      </Card>
+    </div>
+  )
+}
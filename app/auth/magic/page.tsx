@@ -0,0 +1,167 @@
+'use client'
+
+import React, { Suspense, useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Loader2, MonitorSmartphone, XCircle } from 'lucide-react'
+import { verifyMagicLink, isApiError, isTwoFactorChallenge, type TwoFactorChallenge as Challenge } from '@/lib/api'
+import { track } from '@/lib/analytics'
+import { takeMagicLinkRequest } from '@/lib/magic-link'
+import { getRedirectTarget, withRedirect } from '@/lib/redirect'
+import { useAuth, MagicLinkForm, TwoFactorChallenge, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+
+/*
+ * Sign-in links from the email look like /auth/magic?token=…&email=…[&next=/path].
+ * The token works once, for a limited time, and counts as the password: a 2FA
+ * account still asks for its code before the session starts.
+ */
+
+type MagicLinkState =
+  | { status: 'verifying' }
+  /** The link was requested from another browser; signing in here needs a confirmation. */
+  | { status: 'other-device' }
+  | { status: 'challenge'; challenge: Challenge }
+  | { status: 'expired' }
+  | { status: 'invalid'; message: string }
+
+const primaryButtonClass = "w-full h-12 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white shadow-lg transition-all duration-200 hover:shadow-xl disabled:opacity-70 disabled:cursor-not-allowed"
+
+function MagicLinkContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { refresh } = useAuth()
+  const t = useTranslations()
+  const token = searchParams.get('token')
+  const [state, setState] = useState<MagicLinkState>({ status: 'verifying' })
+  // Where the user was headed when they asked for the link
+  const redirectTo = getRedirectTarget(searchParams)
+  const loginHref = withRedirect('/login', redirectTo)
+
+  // Tokens are single-use, so never submit the same one twice (e.g. StrictMode re-running effects)
+  const started = useRef(false)
+
+  const signIn = useCallback(async (token: string) => {
+    setState({ status: 'verifying' })
+    try {
+      const response = await verifyMagicLink({ token })
+      if (isTwoFactorChallenge(response)) {
+        setState({ status: 'challenge', challenge: response })
+        return
+      }
+      if (await refresh()) {
+        track('login_succeeded', { method: 'magic_link' })
+        router.replace(redirectTo)
+      } else {
+        setState({ status: 'invalid', message: t('magicLink.callback.sessionFailed') })
+      }
+    } catch (err) {
+      track('login_failed', { method: 'magic_link', code: isApiError(err) ? err.code : 'UNKNOWN' })
+      if (isApiError(err) && (err.code === 'TOKEN_EXPIRED' || err.status === 410)) {
+        setState({ status: 'expired' })
+      } else if (isApiError(err) && err.status > 0) {
+        setState({ status: 'invalid', message: t('magicLink.callback.invalid') })
+      } else {
+        setState({ status: 'invalid', message: apiErrorMessage(err, t) })
+      }
+    }
+  }, [redirectTo, refresh, router, t])
+
+  useEffect(() => {
+    if (started.current) return
+    started.current = true
+
+    if (!token) {
+      setState({ status: 'invalid', message: t('magicLink.callback.missingToken') })
+      return
+    }
+    // Someone else's link would sign this browser in to their account, so ask before using it
+    if (!takeMagicLinkRequest(searchParams.get('email'))) {
+      setState({ status: 'other-device' })
+      return
+    }
+    signIn(token)
+    // Runs once per visit; the ref above keeps later renders from repeating it
+  }, [token, searchParams, signIn, t])
+
+  if (state.status === 'verifying') {
+    return (
+      <div className="p-8 flex flex-col items-center text-center" role="status" aria-live="polite">
+        <Loader2 className="h-10 w-10 animate-spin text-indigo-600 dark:text-indigo-400 mb-6" />
+        <h1 className="text-2xl font-bold text-foreground">{t('magicLink.callback.signingIn')}</h1>
+      </div>
+    )
+  }
+
+  if (state.status === 'challenge') {
+    return (
+      <div className="p-8">
+        <TwoFactorChallenge
+          challenge={state.challenge}
+          method="magic_link"
+          onVerified={() => router.replace(redirectTo)}
+          onCancel={() => router.replace(loginHref)}
+        />
+      </div>
+    )
+  }
+
+  if (state.status === 'other-device') {
+    return (
+      <div className="p-8 flex flex-col items-center text-center">
+        <div className="w-16 h-16 rounded-full bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center mb-6">
+          <MonitorSmartphone className="h-8 w-8 text-amber-600 dark:text-amber-400" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground mb-2">{t('magicLink.callback.otherDeviceTitle')}</h1>
+        <p className="text-sm text-muted-foreground mb-6">{t('magicLink.callback.otherDeviceDescription')}</p>
+        <Button type="button" onClick={() => token && signIn(token)} className={primaryButtonClass}>
+          {t('magicLink.callback.continue')}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => router.replace(loginHref)} className="w-full h-12 text-sm font-semibold rounded-lg mt-3">
+          {t('magicLink.callback.backToLogin')}
+        </Button>
+      </div>
+    )
+  }
+
+  if (state.status === 'expired') {
+    return (
+      <div className="p-8">
+        <MagicLinkForm
+          title={t('magicLink.callback.expiredTitle')}
+          description={t('magicLink.callback.expiredDescription')}
+          redirectTo={redirectTo}
+          cancelLabel={t('magicLink.callback.backToLogin')}
+          onCancel={() => router.replace(loginHref)}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8 flex flex-col items-center text-center">
+      <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-6">
+        <XCircle className="h-8 w-8 text-destructive" />
+      </div>
+      <h1 className="text-2xl font-bold text-foreground mb-2">{t('magicLink.callback.invalidTitle')}</h1>
+      <p className="text-sm text-muted-foreground mb-6" role="alert">{state.message}</p>
+      <Button type="button" onClick={() => router.replace(loginHref)} className={primaryButtonClass}>
+        {t('magicLink.callback.backToLogin')}
+      </Button>
+    </div>
+  )
+}
+
+export default function MagicLinkPage() {
+  return (
+    <div className="min-h-screen bg-muted flex items-center justify-center p-4">
+      <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+        {/* useSearchParams needs a Suspense boundary in the static export */}
+        <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin text-muted-foreground m-8 self-center" />}>
+          <MagicLinkContent />
+        </Suspense>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,9 @@
+import { AuthGuard } from "@/components/auth";
+
+export default function GuestLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <AuthGuard require="guest">{children}</AuthGuard>;
+}
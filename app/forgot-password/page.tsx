@@ -0,0 +1,186 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { createForgotPasswordSchema, type ForgotPasswordFormData } from '@/lib/schemas/auth'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, useSchemaRevalidation } from '@/components/form'
+import { apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+import { Loader2, KeyRound, Mail, ArrowLeft } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { notify } from '@/lib/notify'
+import { requestPasswordReset } from '@/lib/api'
+
+export default function ForgotPasswordPage() {
+  const t = useTranslations()
+  const schema = useMemo(() => createForgotPasswordSchema(t), [t])
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: '' },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleSubmit = async (data: ForgotPasswordFormData) => {
+    setError(null)
+    try {
+      await notify.promise(requestPasswordReset(data), {
+        loading: t('forgotPassword.toastSending'),
+        success: { title: t('forgotPassword.toastSent'), description: t('forgotPassword.toastSentDescription') },
+        error: err => ({
+          title: t('forgotPassword.toastFailed'),
+          description: apiErrorMessage(err, t),
+          action: { label: t('notify.retry'), onClick: () => form.handleSubmit(handleSubmit, handleInvalid)() },
+        }),
+      })
+      setSentTo(data.email)
+    } catch (err) {
+      console.error("Forgot Password Error:", err)
+      setError(apiErrorMessage(err, t))
+    }
+  }
+
+  const handleInvalid = () => {
+    notify.error(t('forgotPassword.invalidForm'))
+  }
+
+  // Success screen
+  if (sentTo) {
+    return (
+      <div className="h-screen w-screen fixed inset-0 bg-muted flex items-center justify-center overflow-hidden">
+        <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+          <div className="p-8 flex flex-col items-center text-center">
+            <div className="w-16 h-16 rounded-full bg-indigo-100 dark:bg-indigo-900/30 flex items-center justify-center mb-6">
+              <Mail className="h-8 w-8 text-indigo-600 dark:text-indigo-400" />
+            </div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">{t('forgotPassword.sent.title')}</h1>
+            <div className="w-full max-w-md my-6">
+              <div className="p-6 rounded-xl bg-muted border border-border text-center">
+                <p className="text-foreground font-medium mb-2">
+                  {t('forgotPassword.sent.sentTo')}
+                </p>
+                <p className="text-indigo-600 dark:text-indigo-400 font-bold mb-4">
+                  {sentTo}
+                </p>
+                <p className="text-sm text-muted-foreground mb-3">
+                  {t('forgotPassword.sent.instructions')}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {t('forgotPassword.sent.spamHint')}
+                </p>
+              </div>
+            </div>
+
+            <Button
+              type="button"
+              onClick={() => setSentTo(null)}
+              variant="outline"
+              className="w-full h-12 text-sm font-semibold rounded-lg"
+            >
+              {t('forgotPassword.sent.differentEmail')}
+            </Button>
+
+            <p className="text-sm text-muted-foreground mt-4">
+              {t('forgotPassword.sent.remembered')} <Link href="/login" className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium">{t('forgotPassword.backToLogin')}</Link>
+            </p>
+          </div>
+        </Card>
+      </div>
+    )
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <div className="h-screen w-screen fixed inset-0 bg-muted flex items-center justify-center overflow-hidden">
+      <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+        <div className="p-8">
+          <h1 className="text-2xl font-bold text-foreground mb-2">{t('forgotPassword.title')}</h1>
+          <p className="text-sm text-muted-foreground mb-6">
+            {t('forgotPassword.description')}
+          </p>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)} className="space-y-4" noValidate>
+              {error && (
+                <div className="p-2 rounded-md bg-destructive/10 border border-destructive/30 text-xs text-destructive" role="alert">
+                  {error}
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field, fieldState }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className="block text-xs font-medium text-foreground">{t('forgotPassword.email')}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="email"
+                        placeholder={t('forgotPassword.emailPlaceholder')}
+                        autoComplete="email"
+                        className={cn(
+                          "h-12 text-sm font-medium rounded-lg shadow-sm",
+                          "focus:border-indigo-500 focus:ring-indigo-500",
+                          fieldState.error ? "border-destructive" : undefined
+                        )}
+                        autoFocus
+                        {...field}
+                        onChange={(e) => {
+                          field.onChange(e)
+                          if (error) setError(null)
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage className="text-destructive mt-1" />
+                  </FormItem>
+                )}
+              />
+
+              <div className="pt-4">
+                <Button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className={cn(
+                    "w-full h-12 text-sm font-semibold rounded-lg",
+                    "bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white",
+                    "disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+                  )}
+                >
+                  {isSubmitting ? (
+                    <span className="flex items-center justify-center">
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                      {t('forgotPassword.submitting')}
+                    </span>
+                  ) : (
+                    <span className="flex items-center justify-center">
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      {t('forgotPassword.submit')}
+                    </span>
+                  )}
+                </Button>
+              </div>
+
+              <div className="text-center pt-1">
+                <Link
+                  href="/login"
+                  className="inline-flex items-center font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-1" />
+                  {t('forgotPassword.backToLogin')}
+                </Link>
+              </div>
+            </form>
+          </Form>
+        </div>
+      </Card>
+    </div>
+  )
+}
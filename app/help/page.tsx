@@ -0,0 +1,11 @@
+import type { Metadata } from 'next'
+import { ContentPage } from '@/components/content'
+import { renderContent } from '@/lib/content'
+
+export const metadata: Metadata = {
+  title: 'Help',
+}
+
+export default function HelpPage() {
+  return <ContentPage page="help" html={renderContent('help.md')} />
+}
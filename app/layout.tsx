@@ -1,5 +1,11 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { ConsentBanner } from "@/components/analytics";
+import { AuthProvider } from "@/components/auth";
+import { ConfigProvider } from "@/components/config";
+import { I18nProvider } from "@/components/i18n";
+import { ThemeProvider } from "@/components/theme";
+import { Notifications } from "@/components/notifications";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -23,11 +29,19 @@ export default function RootLayout({
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="en" suppressHydrationWarning>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <ThemeProvider>
+          <I18nProvider>
+            <ConfigProvider>
+              <AuthProvider>{children}</AuthProvider>
+              <ConsentBanner />
+            </ConfigProvider>
+            <Notifications />
+          </I18nProvider>
+        </ThemeProvider>
       </body>
     </html>
   );
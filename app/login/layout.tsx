@@ -0,0 +1,15 @@
+import { Suspense } from "react";
+import { AuthGuard } from "@/components/auth";
+
+export default function GuestLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  // The page reads its redirect target with useSearchParams, which needs a Suspense boundary in the static export
+  return (
+    <AuthGuard require="guest">
+      <Suspense>{children}</Suspense>
+    </AuthGuard>
+  );
+}
@@ -1,70 +1,116 @@
 'use client'
 
-import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
 import Link from 'next/link'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
-import { toast } from 'sonner'
-import { Loader2, LogIn, Eye, EyeOff } from 'lucide-react'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, PasswordInput } from '@/components/form'
+import { notify } from '@/lib/notify'
+import { track } from '@/lib/analytics'
+import { Clock, Loader2, LogIn } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { login, isApiError, isTwoFactorChallenge, type TwoFactorChallenge as Challenge } from '@/lib/api'
+import { createLoginSchema, type LoginFormData } from '@/lib/schemas/auth'
+import { useAuth, ResendVerificationButton, sendVerificationEmail, MagicLinkForm, OAuthButtons, PasskeySignIn, TwoFactorChallenge, RateLimitNotice, apiErrorMessage } from '@/components/auth'
+import { useConfig } from '@/components/config'
+import { LanguageSelect, useTranslations } from '@/components/i18n'
+import { ThemeToggle } from '@/components/theme'
+import { useRedirectTarget } from '@/hooks/use-redirect-target'
+import { useRateLimitGuard } from '@/hooks/use-rate-limit-guard'
+import { withRedirect } from '@/lib/redirect'
 
 export default function LoginPage() {
-  const [email, setEmail] = useState('')
-  const [password, setPassword] = useState('')
-  const [showPassword, setShowPassword] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
-  const router = useRouter()
+  const [unverified, setUnverified] = useState(false)
+  const [challenge, setChallenge] = useState<Challenge | null>(null)
+  // Passwordless sign-in replaces the form with "Email me a sign-in link"
+  const [magicLink, setMagicLink] = useState(false)
+  const searchParams = useSearchParams()
+  const { refresh } = useAuth()
+  const t = useTranslations()
+  const { features } = useConfig()
+  // Set by the auth guard when a session ended without the user signing out
+  const sessionReason = searchParams.get('reason')
+  const sessionNotice = sessionReason === 'expired'
+    ? t('login.sessionExpired')
+    : sessionReason === 'idle' ? t('login.signedOutIdle') : null
+  // Where the user was headed before being asked to sign in
+  const redirectTo = useRedirectTarget()
+  // Countdown and CAPTCHA once the backend starts refusing attempts
+  const guard = useRateLimitGuard()
+  const loginSchema = useMemo(() => createLoginSchema(t), [t])
 
-  // API Base URL from environment
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL
+  const form = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: '', password: '', rememberMe: false },
+    // Validate once a field has been left, then on every change
+    mode: 'onTouched',
+  })
 
-  const handleSubmit = async (e: { preventDefault: () => void }) => {
-    e.preventDefault()
-    
-    if (!email || !password) {
-      toast.error("Please enter your email and password")
-      return
-    }
+  // Re-run validation so errors already on screen follow a language change
+  useEffect(() => {
+    const invalidFields = Object.keys(form.formState.errors) as (keyof LoginFormData)[]
+    if (invalidFields.length > 0) form.trigger(invalidFields)
+  }, [form, loginSchema])
 
-    if (!API_BASE_URL) {
-      toast.error("Configuration error: Cannot connect to services")
-      return
-    }
+  const handleLogin = async (data: LoginFormData) => {
+    if (guard.blocked) return
 
     setError(null)
+    setUnverified(false)
     setLoading(true)
-    const toastId = toast.loading("Signing you in...")
 
     try {
-      const res = await fetch(`${API_BASE_URL}/api/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email, password }),
-        credentials: 'include'
+      // Accounts with 2FA only get a session after the code step, so there is nothing to refresh yet
+      const signIn = login({ ...data, captchaToken: guard.captchaToken }).then(async response => {
+        if (isTwoFactorChallenge(response)) return response
+        await refresh()
+        return null
       })
-
-      if (res.ok) {
-        toast.success('Login successful', { id: toastId })
-        router.push('/')
-      } else {
-        const errorData = await res.json().catch(() => ({}))
-        const errorMessage = errorData.error || "Invalid credentials"
-        toast.error("Login Failed", { id: toastId, description: errorMessage })
-        setError(errorMessage)
+      const pending = await notify.promise(signIn, {
+        loading: t('login.toastSigningIn'),
+        success: response => (response ? t('login.toastCodeRequired') : t('login.toastSuccess')),
+        error: err => isApiError(err) && err.status > 0
+          ? {
+              title: t('login.toastFailed'),
+              description: apiErrorMessage(err, t),
+              action: err.code === 'EMAIL_NOT_VERIFIED'
+                ? { label: t('notify.resendEmail'), onClick: () => sendVerificationEmail(data.email, t, { redirectTo }).catch(() => {}) }
+                : undefined,
+            }
+          : { title: t('login.toastConnectionError'), description: apiErrorMessage(err, t), action: { label: t('notify.retry'), onClick: retry } },
+      })
+      if (pending) {
+        setChallenge(pending)
+        return
       }
-    } catch (error) {
-      toast.error('Connection error', { id: toastId })
-      setError('Please check your connection and try again')
+      // The guest guard around this page sends the user on now that the session is loaded
+      track('login_succeeded', { method: 'password' })
+    } catch (err) {
+      track('login_failed', { method: 'password', code: isApiError(err) ? err.code : 'UNKNOWN' })
+      if (guard.handleError(err)) return
+      setError(apiErrorMessage(err, t))
+      setUnverified(isApiError(err) && err.code === 'EMAIL_NOT_VERIFIED')
     } finally {
       setLoading(false)
     }
   }
 
+  const handleInvalid = () => {
+    notify.error(t('login.missingCredentials'))
+  }
+
+  const retry = () => {
+    form.handleSubmit(handleLogin, handleInvalid)()
+  }
+
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 p-4">
+    <div className="min-h-screen flex items-center justify-center bg-muted p-4">
       <Card className="shadow-xl border-0 w-full max-w-4xl overflow-hidden rounded-2xl">
         <div className="flex flex-col md:flex-row">
           {/* Left side - Brand */}
@@ -75,110 +121,197 @@ export default function LoginPage() {
                 LOGO
               </div>
             </div>
-            <h1 className="text-4xl font-bold mb-4">Welcome Back</h1>
-            <p className="text-white/80 text-lg">Sign in to your account</p>
+            <h1 className="text-4xl font-bold mb-4">{t('login.title')}</h1>
+            <p className="text-white/80 text-lg">{t('login.subtitle')}</p>
           </div>
           
           {/* Right side - Form */}
-          <div className="p-10 bg-white md:w-1/2 border-t md:border-t-0 md:border-l border-gray-100">
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {error && (
-                <div className="p-3 rounded-md bg-red-50 border border-red-200 text-sm text-red-700">
-                  {error}
-                </div>
-              )}
+          <div className="p-10 bg-card md:w-1/2 border-t md:border-t-0 md:border-l border-border">
+            {challenge ? (
+              <TwoFactorChallenge
+                key={challenge.challengeToken}
+                challenge={challenge}
+                method="password"
+                onCancel={() => {
+                  setChallenge(null)
+                  form.resetField('password')
+                }}
+              />
+            ) : magicLink ? (
+              <MagicLinkForm
+                title={t('magicLink.title')}
+                description={t('magicLink.description')}
+                defaultEmail={form.getValues('email').trim()}
+                redirectTo={redirectTo}
+                cancelLabel={t('magicLink.usePassword')}
+                onCancel={() => setMagicLink(false)}
+              />
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleLogin, handleInvalid)} className="space-y-6" noValidate>
+                  {sessionNotice && !error && (
+                    <div role="status" className="flex items-start gap-2 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-900 dark:bg-amber-950/40 dark:border-amber-900 dark:text-amber-200">
+                      <Clock className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+                      {sessionNotice}
+                    </div>
+                  )}
+
+                  {error && (
+                    <div className="p-3 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive">
+                      {error}
+                    </div>
+                  )}
+
+                  {unverified && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        {t('login.unverified')}
+                      </p>
+                      <ResendVerificationButton email={form.getValues('email').trim()} redirectTo={redirectTo} />
+                    </div>
+                  )}
               
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
-                <Input 
-                  type="email"
-                  placeholder="Enter your email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="h-14 text-lg font-medium rounded-xl border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
-                  autoFocus
-                />
-              </div>
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel className="block text-sm font-medium text-foreground mb-1">{t('login.email')}</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="email"
+                            placeholder={t('login.emailPlaceholder')}
+                            // "webauthn" lets the browser offer saved passkeys in the autofill menu too
+                            autoComplete="username webauthn"
+                            className="h-14 text-lg font-medium rounded-xl focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
+                            autoFocus
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-              <div className="space-y-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
-                <div className="relative">
-                  <Input 
-                    type={showPassword ? "text" : "password"}
-                    placeholder="Enter your password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    className="h-14 text-lg font-medium rounded-xl border-gray-300 focus:border-indigo-500 focus:ring-indigo-500 shadow-sm pr-10"
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem className="space-y-2">
+                        <FormLabel className="block text-sm font-medium text-foreground mb-1">{t('login.password')}</FormLabel>
+                        <FormControl>
+                          <PasswordInput 
+                            placeholder={t('login.passwordPlaceholder')}
+                            autoComplete="current-password"
+                            className="h-14 text-lg font-medium rounded-xl focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
-                  <button 
-                    type="button"
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    {showPassword ? <EyeOff size={20} /> : <Eye size={20} />}
-                  </button>
-                </div>
-                <div className="flex justify-end">
-                  <Link 
-                    href="/forgot-password" 
-                    className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
-                  >
-                    Forgot Password?
-                  </Link>
-                </div>
-              </div>
 
-              <div className="pt-6">
-                <Button 
-                  type="submit" 
-                  disabled={loading}
-                  className={cn(
-                    "w-full h-14 text-base font-semibold rounded-xl",
-                    "bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white",
-                    "disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+                  <div className="flex items-center justify-between gap-4">
+                    <FormField
+                      control={form.control}
+                      name="rememberMe"
+                      render={({ field: { value, onChange, ...field } }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0">
+                          <FormControl>
+                            <input
+                              type="checkbox"
+                              checked={value}
+                              onChange={(e) => onChange(e.target.checked)}
+                              className="h-4 w-4 accent-indigo-600"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormLabel className="text-sm font-normal text-foreground">{t('login.rememberMe')}</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+                    <Link 
+                      href="/forgot-password" 
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+                    >
+                      {t('login.forgotPassword')}
+                    </Link>
+                  </div>
+
+                  <RateLimitNotice guard={guard} />
+
+                  <div className="pt-6">
+                    <Button 
+                      type="submit" 
+                      disabled={loading || guard.blocked}
+                      className={cn(
+                        "w-full h-14 text-base font-semibold rounded-xl",
+                        "bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white",
+                        "disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+                      )}
+                    >
+                      {loading ? (
+                        <span className="flex items-center justify-center">
+                          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+                          {t('login.submitting')}
+                        </span>
+                      ) : (
+                        <span className="flex items-center justify-center">
+                          <LogIn className="h-5 w-5 mr-2" />
+                          {t('login.submit')}
+                        </span>
+                      )}
+                    </Button>
+                  </div>
+
+                  {features.magicLink && (
+                    <div className="text-center">
+                      <button
+                        type="button"
+                        onClick={() => setMagicLink(true)}
+                        className="text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+                      >
+                        {t('magicLink.switch')}
+                      </button>
+                    </div>
                   )}
-                >
-                  {loading ? (
-                    <span className="flex items-center justify-center">
-                      <Loader2 className="h-5 w-5 animate-spin mr-2" />
-                      Signing In...
-                    </span>
-                  ) : (
-                    <span className="flex items-center justify-center">
-                      <LogIn className="h-5 w-5 mr-2" />
-                      Sign In
-                    </span>
+
+                  {features.passkeys && (
+                    <PasskeySignIn
+                      disabled={loading}
+                      rememberMe={form.watch('rememberMe')}
+                    />
                   )}
-                </Button>
-              </div>
+
+                  <OAuthButtons disabled={loading} redirectTo={redirectTo} divider={!features.passkeys} />
               
-              <div className="text-center pt-4">
-                <span className="text-gray-600">Don't have an account?</span>{" "}
-                <Link 
-                  href="/signup" 
-                  className="font-semibold text-indigo-600 hover:text-indigo-800"
-                >
-                  Create Account
-                </Link>
-              </div>
-            </form>
+                  <div className="text-center pt-4">
+                    <span className="text-muted-foreground">{t('login.noAccount')}</span>{" "}
+                    <Link 
+                      href={withRedirect('/signup', redirectTo)} 
+                      className="font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+                    >
+                      {t('login.createAccount')}
+                    </Link>
+                  </div>
+                </form>
+              </Form>
+            )}
           </div>
         </div>
       </Card>
       
       {/* Footer */}
-      <div className="absolute bottom-4 w-full max-w-4xl flex justify-between text-xs text-gray-600 px-4">
-        <div className="flex gap-4">
-          <select className="bg-transparent border-0 text-gray-600 text-xs focus:outline-none focus:ring-0">
-            <option>English (United States)</option>
-            <option>Español</option>
-            <option>Français</option>
-          </select>
+      <div className="absolute bottom-4 w-full max-w-4xl flex justify-between text-xs text-muted-foreground px-4">
+        <div className="flex items-center gap-4">
+          <LanguageSelect />
+          <ThemeToggle />
         </div>
         <div className="flex gap-4">
-          <Link href="#" className="hover:text-gray-800">Help</Link>
-          <Link href="#" className="hover:text-gray-800">Privacy</Link>
-          <Link href="#" className="hover:text-gray-800">Terms</Link>
+          <Link href="/help" className="hover:text-foreground">{t('footer.help')}</Link>
+          <Link href="/privacy" className="hover:text-foreground">{t('footer.privacy')}</Link>
+          <Link href="/terms" className="hover:text-foreground">{t('footer.terms')}</Link>
         </div>
       </div>
     </div>
@@ -0,0 +1,13 @@
+import type { Metadata } from 'next'
+import { ContentPage } from '@/components/content'
+import { renderContent } from '@/lib/content'
+import { legalContentPath, legalDocuments } from '@/lib/legal'
+
+export const metadata: Metadata = {
+  title: 'Privacy Policy',
+}
+
+export default function PrivacyPage() {
+  const { version } = legalDocuments.privacy
+  return <ContentPage page="privacy" version={version} html={renderContent(legalContentPath('privacy', version))} />
+}
@@ -0,0 +1,244 @@
+'use client'
+
+import { Suspense, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { createResetPasswordSchema, type ResetPasswordFormData } from '@/lib/schemas/auth'
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, PasswordInput, useSchemaRevalidation } from '@/components/form'
+import { Loader2, KeyRound, CheckCircle, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { notify } from '@/lib/notify'
+import { resetPassword } from '@/lib/api'
+import { PasswordStrengthMeter, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+
+const initialState: ResetPasswordFormData = {
+  password: '',
+  confirmPassword: '',
+};
+
+const fieldInputClass = "h-12 text-sm font-medium rounded-lg shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+
+function ResetPasswordForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const t = useTranslations()
+  const schema = useMemo(() => createResetPasswordSchema(t), [t])
+
+  const [showPassword, setShowPassword] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: initialState,
+    mode: 'onTouched',
+  })
+  useSchemaRevalidation(form, schema)
+
+  const password = useWatch({ control: form.control, name: 'password' })
+
+  // Keep the mismatch message on confirmPassword in sync while the password is edited
+  const revalidateConfirmation = () => {
+    if (form.getFieldState('confirmPassword').isTouched) {
+      form.trigger('confirmPassword')
+    }
+  }
+
+  const handleSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return
+    setError(null)
+
+    try {
+      await notify.promise(resetPassword({ token, password: data.password }), {
+        loading: t('resetPassword.toastUpdating'),
+        success: { title: t('resetPassword.toastUpdated'), description: t('resetPassword.toastUpdatedDescription') },
+        error: err => ({
+          title: t('resetPassword.toastFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      setSuccess(true)
+    } catch (err) {
+      console.error("Reset Password Error:", err)
+      setError(apiErrorMessage(err, t))
+    }
+  }
+
+  const handleInvalid = () => {
+    notify.error(t('resetPassword.invalidForm'))
+  }
+
+  // Missing token - the link is broken or was copied incompletely
+  if (!token) {
+    return (
+      <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+        <div className="p-8 flex flex-col items-center text-center">
+          <div className="w-16 h-16 rounded-full bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center mb-6">
+            <AlertTriangle className="h-8 w-8 text-amber-600 dark:text-amber-400" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">{t('resetPassword.missingToken.title')}</h1>
+          <p className="text-sm text-muted-foreground mb-6">
+            {t('resetPassword.missingToken.description')}
+          </p>
+          <Button
+            type="button"
+            onClick={() => router.push('/forgot-password')}
+            className="w-full h-12 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white shadow-lg transition-all duration-200 hover:shadow-xl"
+          >
+            {t('resetPassword.missingToken.requestNew')}
+          </Button>
+        </div>
+      </Card>
+    )
+  }
+
+  // Success screen
+  if (success) {
+    return (
+      <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+        <div className="p-8 flex flex-col items-center text-center">
+          <div className="w-16 h-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center mb-6">
+            <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground mb-2">{t('resetPassword.success.title')}</h1>
+          <p className="text-sm text-muted-foreground mb-6">
+            {t('resetPassword.success.description')}
+          </p>
+          <Button
+            type="button"
+            onClick={() => router.push('/login')}
+            className="w-full h-12 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white shadow-lg transition-all duration-200 hover:shadow-xl"
+          >
+            {t('resetPassword.success.goToLogin')}
+          </Button>
+        </div>
+      </Card>
+    )
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+      <div className="p-8">
+        <h1 className="text-2xl font-bold text-foreground mb-2">{t('resetPassword.title')}</h1>
+        <p className="text-sm text-muted-foreground mb-6">
+          {t('resetPassword.description')}
+        </p>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)} className="space-y-4" noValidate>
+            {error && (
+              <div className="p-2 rounded-md bg-destructive/10 border border-destructive/30 text-xs text-destructive" role="alert">
+                {error}
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field, fieldState }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className="block text-xs font-medium text-foreground">{t('resetPassword.password')}</FormLabel>
+                  <FormControl>
+                    <PasswordInput
+                      placeholder={t('resetPassword.passwordPlaceholder')}
+                      autoComplete="new-password"
+                      className={cn(fieldInputClass, fieldState.error && "border-destructive")}
+                      visible={showPassword}
+                      onVisibleChange={setShowPassword}
+                      autoFocus
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e)
+                        revalidateConfirmation()
+                        setError(null)
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-destructive mt-1" />
+                  <PasswordStrengthMeter password={password} className="pt-1" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field, fieldState }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className="block text-xs font-medium text-foreground">{t('resetPassword.confirmPassword')}</FormLabel>
+                  <FormControl>
+                    <PasswordInput
+                      placeholder={t('resetPassword.confirmPasswordPlaceholder')}
+                      autoComplete="new-password"
+                      className={cn(fieldInputClass, fieldState.error && "border-destructive")}
+                      visible={showPassword}
+                      hideToggle
+                      {...field}
+                      onChange={(e) => {
+                        field.onChange(e)
+                        setError(null)
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-destructive mt-1" />
+                </FormItem>
+              )}
+            />
+
+            <div className="pt-4">
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className={cn(
+                  "w-full h-12 text-sm font-semibold rounded-lg",
+                  "bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white",
+                  "disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+                )}
+              >
+                {isSubmitting ? (
+                  <span className="flex items-center justify-center">
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    {t('resetPassword.submitting')}
+                  </span>
+                ) : (
+                  <span className="flex items-center justify-center">
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    {t('resetPassword.submit')}
+                  </span>
+                )}
+              </Button>
+            </div>
+
+            <div className="text-center pt-1">
+              <Link
+                href="/login"
+                className="font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm"
+              >
+                {t('resetPassword.backToLogin')}
+              </Link>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </Card>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="h-screen w-screen fixed inset-0 bg-muted flex items-center justify-center overflow-hidden">
+      {/* useSearchParams needs a Suspense boundary in the static export */}
+      <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}>
+        <ResetPasswordForm />
+      </Suspense>
+    </div>
+  )
+}
@@ -1,33 +1,49 @@
 'use client'
 
-import React, { useState, useCallback, useMemo } from 'react'
-import { useRouter } from 'next/navigation'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
-import { z } from 'zod'
+import { useForm, type FieldErrors, type Resolver } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import type { z } from 'zod'
+import {
+  createSignUpSchema,
+  createSignUpStepSchemas,
+  signUpStepFields,
+  signUpSteps,
+  type SignUpFormData,
+  type SignUpStep,
+} from '@/lib/schemas/auth'
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Card } from "@/components/ui/card"
-import { Loader2, UserPlus, Eye, EyeOff, CheckCircle, Mail } from 'lucide-react'
+import { Form } from '@/components/form'
+import { Loader2, UserPlus, CheckCircle, Mail, ArrowLeft, ArrowRight } from 'lucide-react'
 import { cn } from '@/lib/utils'
-import { toast } from 'sonner'
-
-// --- Zod Schema ---
-const signUpSchema = z.object({
-  name: z.string().trim().min(1, "Full name is required"),
-  email: z.string().trim().min(1, "Email is required").email("Email address is invalid"),
-  mobileNumber: z.string().trim()
-    .min(8, "Please enter a valid mobile number.")
-    .regex(/^\+?[\d\s-]{8,}$/, "Please enter a valid mobile number."),
-  password: z.string().min(6, "Password must be at least 6 characters"),
-  confirmPassword: z.string().min(1, "Please confirm your password."),
-}).refine(data => data.password === data.confirmPassword, {
-  message: "Passwords do not match",
-  path: ["confirmPassword"],
-});
-
-// --- Types ---
-type SignUpFormData = z.infer<typeof signUpSchema>;
-type FormErrors = z.inferFlattenedErrors<typeof signUpSchema>['fieldErrors'];
+import { toE164 } from '@/lib/phone'
+import { notify } from '@/lib/notify'
+import { track } from '@/lib/analytics'
+import { signUp, isApiError } from '@/lib/api'
+import {
+  AcceptTermsField,
+  apiErrorMessage,
+  EmailField,
+  MarketingOptInField,
+  MobileNumberField,
+  NameField,
+  OAuthButtons,
+  PasswordFields,
+  RateLimitNotice,
+  ResendVerificationButton,
+  SignUpProgress,
+} from '@/components/auth'
+import { useConfig } from '@/components/config'
+import { LanguageSelect, useTranslations } from '@/components/i18n'
+import { ThemeToggle } from '@/components/theme'
+import { useRedirectTarget } from '@/hooks/use-redirect-target'
+import { useRateLimitGuard } from '@/hooks/use-rate-limit-guard'
+import { useFormDraft } from '@/hooks/use-form-draft'
+import { DEFAULT_REDIRECT, withRedirect } from '@/lib/redirect'
+import { legalDocuments } from '@/lib/legal'
 
 // --- Initial State ---
 const initialState: SignUpFormData = {
@@ -36,197 +52,232 @@ const initialState: SignUpFormData = {
   mobileNumber: '',
   password: '',
   confirmPassword: '',
+  acceptTerms: false,
+  marketingOptIn: false,
 };
 
+type SignUpField = keyof SignUpFormData
+
+// Only what is harmless to keep in the tab: never the passwords
+const DRAFT_KEY = 'signup:draft'
+const DRAFT_FIELDS: SignUpField[] = ['name', 'email', 'mobileNumber']
+
+// Each wizard step validates only its own fields; raw keeps the other steps' values in the submitted data
+const stepResolver = (schema: z.ZodTypeAny): Resolver<SignUpFormData> => zodResolver(schema, undefined, { raw: true })
+
+const isSignUpStep = (value: string | null): value is SignUpStep =>
+  signUpSteps.some(step => step === value)
+
 export default function SignUpPage() {
   const router = useRouter()
-  const [formData, setFormData] = useState<SignUpFormData>(initialState)
-  const [showPassword, setShowPassword] = useState(false)
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const t = useTranslations()
+  // Carried through the verification email and back to login
+  const redirectTo = useRedirectTarget()
+  // Countdown and CAPTCHA once the backend starts refusing attempts
+  const guard = useRateLimitGuard()
+  const { blocked, captchaToken, handleError: handleGuardError } = guard
+  const signUpSchema = useMemo(() => createSignUpSchema(t), [t])
+  const stepSchemas = useMemo(() => createSignUpStepSchemas(t), [t])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [formErrors, setFormErrors] = useState<FormErrors>({})
   const [success, setSuccess] = useState(false)
-  
-  // API Base URL
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL
-
-  // Check API configuration
-  const isApiConfigured = useMemo(() => {
-    if (!API_BASE_URL) {
-      console.error("Configuration Error: NEXT_PUBLIC_API_URL is not set.")
-      return false
-    }
-    return true
-  }, [API_BASE_URL])
-  
-  // Form validation state
-  const isFormValid = useMemo(() => {
-    // Check if all fields are filled and no errors exist
-    const allFieldsFilled = Object.values(formData).every(value => value.trim() !== '')
-    const noErrors = Object.keys(formErrors).length === 0
-    
-    return allFieldsFilled && noErrors
-  }, [formData, formErrors])
-
-  // Handle input changes
-  const handleChange = useCallback((field: keyof SignUpFormData, value: string) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: value
-    }))
-    
-    // Clear specific field error
-    if (formErrors[field]) {
-      setFormErrors(prev => {
-        const newErrors = { ...prev }
-        delete newErrors[field]
-        return newErrors
-      })
-    }
-    
-    // Clear password mismatch error when editing either password field
-    if ((field === 'password' || field === 'confirmPassword') && 
-        formErrors.confirmPassword?.[0] === "Passwords do not match") {
-      setFormErrors(prev => {
-        const newErrors = { ...prev }
-        delete newErrors.confirmPassword
-        return newErrors
-      })
-    }
-    
-    // Clear error message
-    if (error) setError(null)
-  }, [formErrors, error])
+
+  // The signupWizard feature asks for the details one step at a time. The
+  // current step lives in the URL, so the browser's back and forward buttons move between steps
+  const wizard = useConfig().features.signupWizard
+  const stepParam = searchParams.get('step')
+  const step: SignUpStep = isSignUpStep(stepParam) ? stepParam : signUpSteps[0]
+  const stepIndex = signUpSteps.indexOf(step)
+  const isLastStep = !wizard || stepIndex === signUpSteps.length - 1
+  const mode = wizard ? 'wizard' : 'single'
+
+  const form = useForm<SignUpFormData>({
+    resolver: wizard ? stepResolver(stepSchemas[step]) : zodResolver(signUpSchema),
+    defaultValues: initialState,
+    // Validate once a field has been left, then on every change
+    mode: 'onTouched',
+  })
+
+  const draft = useFormDraft(form, DRAFT_KEY, DRAFT_FIELDS)
+
+  // Each wizard step counts as its own view, so the funnel shows which step people leave on
+  useEffect(() => {
+    track('signup_viewed', wizard ? { mode: 'wizard', step } : { mode: 'single' })
+  }, [wizard, step])
+
+  // Re-run validation so errors already on screen follow a language change
+  useEffect(() => {
+    const invalidFields = Object.keys(form.formState.errors) as SignUpField[]
+    if (invalidFields.length > 0) form.trigger(invalidFields)
+  }, [form, signUpSchema])
+
+  // Clear the server error message as soon as the user edits the form
+  useEffect(() => {
+    // Only user edits count: setError and submit state updates notify watchers too
+    const subscription = form.watch((_, { type }) => {
+      if (type === 'change') setError(null)
+    })
+    return () => subscription.unsubscribe()
+  }, [form])
+
+  const stepHref = useCallback((target: SignUpStep) => {
+    const params = new URLSearchParams(searchParams.toString())
+    if (target === signUpSteps[0]) params.delete('step')
+    else params.set('step', target)
+    const query = params.toString()
+    return query ? `${pathname}?${query}` : pathname
+  }, [pathname, searchParams])
+
+  // Steps reached with Next, so Back can return through history instead of piling up entries
+  const visitedSteps = useRef<SignUpStep[]>([])
+  useEffect(() => {
+    if (!wizard) return
+    const visited = visitedSteps.current
+    if (visited[visited.length - 2] === step) visited.pop()
+    else if (visited[visited.length - 1] !== step) visited.push(step)
+  }, [wizard, step])
+
+  // A step opened directly (bookmark, refresh, history) needs the ones before it filled in first
+  useEffect(() => {
+    if (!wizard) return
+    const values = form.getValues()
+    const incomplete = signUpSteps.slice(0, stepIndex).find(earlier => !stepSchemas[earlier].safeParse(values).success)
+    if (incomplete) router.replace(stepHref(incomplete))
+  }, [wizard, form, router, stepHref, stepIndex, stepSchemas])
+
+  const handleNext = useCallback(() => {
+    router.push(stepHref(signUpSteps[stepIndex + 1]))
+  }, [router, stepHref, stepIndex])
+
+  const handleBack = () => {
+    const previous = signUpSteps[stepIndex - 1]
+    const visited = visitedSteps.current
+    if (visited[visited.length - 2] === previous) router.back()
+    else router.replace(stepHref(previous))
+  }
+
+  // Client-side validation failed; react-hook-form focuses the first invalid field
+  const handleInvalid = useCallback((errors: FieldErrors<SignUpFormData>) => {
+    setError(null)
+    notify.error(t('signup.invalidForm'))
+    // Which fields, never what was in them
+    const fields = Object.keys(errors)
+    track('signup_validation_failed', wizard ? { mode: 'wizard', step, fields } : { mode: 'single', fields })
+  }, [step, t, wizard])
 
   // Form submission handler
-  const handleSignUp = useCallback(async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault()
+  const handleSignUp = useCallback(async (data: SignUpFormData) => {
     setError(null)
-    setFormErrors({})
-    
-    // Validate with Zod
-    const validationResult = signUpSchema.safeParse(formData)
-    
-    if (!validationResult.success) {
-      const flattenedErrors = validationResult.error.flatten().fieldErrors
-      setFormErrors(flattenedErrors)
-      toast.error("Please fix the errors marked below.")
-      
-      // Focus first error field
-      const firstErrorField = Object.keys(flattenedErrors)[0] as keyof FormErrors | undefined
-      if (firstErrorField) {
-        document.getElementById(firstErrorField)?.focus({ preventScroll: true })
-      }
-      return
-    }
-    
-    if (!isApiConfigured) {
-      setError("Configuration error. Cannot proceed with signup.")
-      toast.error("Configuration Error")
-      return
-    }
+    if (blocked) return
 
     setLoading(true)
-    const toastId = toast.loading("Creating your account...")
+    track('signup_submitted', { mode })
 
     try {
       // Prepare payload
-      const { confirmPassword, ...payload } = validationResult.data
+      const { confirmPassword, acceptTerms, ...payload } = data
       
-      // Clean mobile number
-      payload.mobileNumber = payload.mobileNumber.trim().replace(/\s+/g, '')
+      // Send the mobile number in E.164 format
+      payload.mobileNumber = toE164(payload.mobileNumber)
 
-      const response = await fetch(`${API_BASE_URL}/api/auth/signup`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload)
-      })
-
-      let responseData
-      try {
-        responseData = await response.json()
-      } catch (e) {
-        responseData = { error: "Could not parse server response" }
+      const request = {
+        ...payload,
+        // The box can only be ticked to get here, so submitting is when the user agreed
+        termsVersion: legalDocuments.terms.version,
+        privacyVersion: legalDocuments.privacy.version,
+        termsAcceptedAt: new Date().toISOString(),
+        ...(redirectTo === DEFAULT_REDIRECT ? {} : { redirectTo }),
+        ...(captchaToken ? { captchaToken } : {}),
       }
-
-      if (!response.ok) {
-        throw new Error(responseData.error || `Signup failed (status ${response.status})`)
-      }
-
-      // Success
-      toast.success("Account Created!", {
-        id: toastId,
-        description: "Please check your email to verify your account."
+      await notify.promise(signUp(request), {
+        loading: t('signup.toastCreating'),
+        success: { title: t('signup.toastSuccess'), description: t('signup.toastSuccessDescription') },
+        error: err => ({
+          title: t('signup.toastFailed'),
+          description: apiErrorMessage(err, t),
+          // Only transport failures are worth retrying as-is; server rejections need edits
+          action: isApiError(err) && err.status > 0
+            ? undefined
+            : { label: t('notify.retry'), onClick: () => form.handleSubmit(handleSignUp, handleInvalid)() },
+        }),
       })
       
       // Show success screen instead of redirecting
+      track('signup_succeeded', { mode })
+      draft.clear()
       setSuccess(true)
       
-    } catch (err: any) {
+    } catch (err) {
       console.error("Signup Error:", err)
-      const errorMessage = err.message || "An unexpected error occurred"
-      
-      toast.error("Signup Failed", { 
-        id: toastId, 
-        description: errorMessage 
-      })
-      
+      track('signup_failed', { mode, code: isApiError(err) ? err.code : 'UNKNOWN' })
+      if (handleGuardError(err)) return
+
+      const errorMessage = apiErrorMessage(err, t)
       setError(errorMessage)
+
+      // Field errors reported by the server
+      if (isApiError(err)) {
+        for (const [field, messages] of Object.entries(err.fieldErrors)) {
+          if (field in initialState) {
+            form.setError(field as SignUpField, { type: 'server', message: messages[0] })
+          }
+        }
+      }
       
       // Email already registered handling
       if (errorMessage.toLowerCase().includes("already registered") || 
           errorMessage.toLowerCase().includes("email_1")) {
-        setFormErrors(prev => ({ 
-          ...prev, 
-          email: ["This email is already registered."] 
-        }))
-        document.getElementById("email")?.focus({ preventScroll: true })
+        form.setError('email', { type: 'server', message: t('signup.emailTaken') }, { shouldFocus: true })
+      }
+
+      // In the wizard, take the user back to the first step with something to fix
+      if (wizard) {
+        const invalid = Object.keys(form.formState.errors)
+        const target = signUpSteps.find(id => signUpStepFields[id].some(field => invalid.includes(field)))
+        if (target && target !== step) router.replace(stepHref(target))
       }
     } finally {
       setLoading(false)
     }
-  }, [formData, isApiConfigured, API_BASE_URL])
-
-  // Error message display helper
-  const getErrorMessage = (field: keyof SignUpFormData): string | null => {
-    return formErrors[field]?.[0] || null
-  }
+  }, [blocked, captchaToken, draft, form, handleGuardError, handleInvalid, mode, redirectTo, router, step, stepHref, t, wizard])
 
   // Go to login handler
   const handleGoToLogin = () => {
-    router.push('/login')
+    router.push(withRedirect('/login', redirectTo))
   }
 
   // Success screen
   if (success) {
     return (
-      <div className="h-screen w-screen fixed inset-0 bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 flex items-center justify-center overflow-hidden">
+      <div className="h-screen w-screen fixed inset-0 bg-muted flex items-center justify-center overflow-hidden">
         <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
           <div className="p-8 flex flex-col items-center text-center">
-            <div className="w-16 h-16 rounded-full bg-green-100 flex items-center justify-center mb-6">
-              <CheckCircle className="h-8 w-8 text-green-600" />
+            <div className="w-16 h-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center mb-6">
+              <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" />
             </div>
-            <h1 className="text-2xl font-bold text-gray-900 mb-2">Account Created Successfully!</h1>
+            <h1 className="text-2xl font-bold text-foreground mb-2">{t('signup.success.title')}</h1>
             <div className="w-full max-w-md space-y-4 my-6">
               <div className="flex items-center justify-center w-full">
-                <div className="h-px bg-gray-200 w-full" />
-                <div className="px-4 text-gray-500 whitespace-nowrap">Verify Your Email</div>
-                <div className="h-px bg-gray-200 w-full" />
+                <div className="h-px bg-border w-full" />
+                <div className="px-4 text-muted-foreground whitespace-nowrap">{t('signup.success.verifyHeading')}</div>
+                <div className="h-px bg-border w-full" />
               </div>
               
-              <div className="p-6 rounded-xl bg-blue-50 border border-blue-100 text-center">
-                <Mail className="h-10 w-10 text-blue-500 mx-auto mb-3" />
-                <p className="text-gray-700 font-medium mb-2">
-                  We've sent a verification email to:
+              <div className="p-6 rounded-xl bg-muted border border-border text-center">
+                <Mail className="h-10 w-10 text-indigo-500 dark:text-indigo-400 mx-auto mb-3" />
+                <p className="text-foreground font-medium mb-2">
+                  {t('signup.success.sentTo')}
                 </p>
-                <p className="text-blue-600 font-bold mb-4">
-                  {formData.email}
+                <p className="text-indigo-600 dark:text-indigo-400 font-bold mb-4">
+                  {form.getValues('email')}
                 </p>
-                <p className="text-sm text-gray-600 mb-3">
-                  Please check your inbox and click on the verification link to complete your registration.
+                <p className="text-sm text-muted-foreground mb-3">
+                  {t('signup.success.instructions')}
                 </p>
-                <p className="text-xs text-gray-500">
-                  If you don't see the email, check your spam folder or promotions tab.
+                <p className="text-xs text-muted-foreground">
+                  {t('signup.success.spamHint')}
                 </p>
               </div>
             </div>
@@ -236,11 +287,13 @@ export default function SignUpPage() {
               onClick={handleGoToLogin} 
               className="w-full h-12 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white shadow-lg transition-all duration-200 hover:shadow-xl"
             >
-              Go to Login Page
+              {t('signup.success.goToLogin')}
             </Button>
+
+            <ResendVerificationButton email={form.getValues('email').trim()} redirectTo={redirectTo} startInCooldown className="mt-3" />
             
-            <p className="text-sm text-gray-500 mt-4">
-              Need help? <Link href="#" className="text-indigo-600 hover:text-indigo-800 font-medium">Contact Support</Link>
+            <p className="text-sm text-muted-foreground mt-4">
+              {t('signup.success.needHelp')} <Link href="/help#contact" className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium">{t('signup.success.contactSupport')}</Link>
             </p>
           </div>
         </Card>
@@ -249,7 +302,7 @@ export default function SignUpPage() {
   }
 
   return (
-    <div className="h-screen w-screen fixed inset-0 bg-gradient-to-br from-indigo-100 via-purple-50 to-pink-100 flex items-center justify-center overflow-hidden">
+    <div className="h-screen w-screen fixed inset-0 bg-muted flex items-center justify-center overflow-hidden">
       <Card className="shadow-xl border-0 w-full max-w-5xl h-auto rounded-2xl overflow-hidden">
         <div className="flex flex-col md:flex-row h-full">
           {/* Left side - Brand */}
@@ -260,200 +313,130 @@ export default function SignUpPage() {
                 LOGO
               </div>
             </div>
-            <h1 className="text-3xl font-bold mb-2">Create Account</h1>
-            <p className="text-white/80 text-base">Join our community today</p>
+            <h1 className="text-3xl font-bold mb-2">{t('signup.title')}</h1>
+            <p className="text-white/80 text-base">{t('signup.subtitle')}</p>
           </div>
           
           {/* Right side - Form */}
-          <div className="py-5 px-6 bg-white md:w-3/5 border-t md:border-t-0 md:border-l border-gray-100">
-            <form onSubmit={handleSignUp} className="space-y-4" noValidate>
-              {error && (
-                <div className="p-2 rounded-md bg-red-50 border border-red-200 text-xs text-red-700">
-                  {error}
-                </div>
-              )}
-              
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                {/* Full Name */}
-                <div className="space-y-1">
-                  <label className="block text-xs font-medium text-gray-700" htmlFor="name">Full Name</label>
-                  <Input 
-                    id="name"
-                    placeholder="Enter your full name"
-                    value={formData.name}
-                    onChange={(e) => handleChange('name', e.target.value)}
-                    className={cn(
-                      "h-12 text-sm font-medium rounded-lg shadow-sm",
-                      "focus:border-indigo-500 focus:ring-indigo-500",
-                      getErrorMessage('name') ? "border-red-500" : "border-gray-300"
-                    )}
-                    aria-invalid={!!getErrorMessage('name')}
-                    aria-describedby={getErrorMessage('name') ? "name-error" : undefined}
-                    autoFocus
-                  />
-                  {getErrorMessage('name') && (
-                    <p id="name-error" className="text-xs text-red-600 mt-1">
-                      {getErrorMessage('name')}
-                    </p>
-                  )}
-                </div>
-                
-                {/* Mobile Number */}
-                <div className="space-y-1">
-                  <label className="block text-xs font-medium text-gray-700" htmlFor="mobileNumber">Mobile Number</label>
-                  <Input 
-                    id="mobileNumber"
-                    placeholder="Enter your mobile number"
-                    type="tel"
-                    value={formData.mobileNumber}
-                    onChange={(e) => handleChange('mobileNumber', e.target.value)}
-                    className={cn(
-                      "h-12 text-sm font-medium rounded-lg shadow-sm",
-                      "focus:border-indigo-500 focus:ring-indigo-500",
-                      getErrorMessage('mobileNumber') ? "border-red-500" : "border-gray-300" 
-                    )}
-                    aria-invalid={!!getErrorMessage('mobileNumber')}
-                    aria-describedby={getErrorMessage('mobileNumber') ? "mobile-error" : undefined}
-                  />
-                  {getErrorMessage('mobileNumber') && (
-                    <p id="mobile-error" className="text-xs text-red-600 mt-1">
-                      {getErrorMessage('mobileNumber')}
-                    </p>
-                  )}
-                </div>
-              </div>
-              
-              {/* Email */}
-              <div className="space-y-1">
-                <label className="block text-xs font-medium text-gray-700" htmlFor="email">Email</label>
-                <Input 
-                  id="email"
-                  type="email"
-                  placeholder="Enter your email address"
-                  value={formData.email}
-                  onChange={(e) => handleChange('email', e.target.value)}
-                  className={cn(
-                    "h-12 text-sm font-medium rounded-lg shadow-sm",
-                    "focus:border-indigo-500 focus:ring-indigo-500",
-                    getErrorMessage('email') ? "border-red-500" : "border-gray-300"
-                  )}
-                  aria-invalid={!!getErrorMessage('email')}
-                  aria-describedby={getErrorMessage('email') ? "email-error" : undefined}
-                />
-                {getErrorMessage('email') && (
-                  <p id="email-error" className="text-xs text-red-600 mt-1">
-                    {getErrorMessage('email')}
-                  </p>
+          <div className="py-5 px-6 bg-card md:w-3/5 border-t md:border-t-0 md:border-l border-border">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(isLastStep ? handleSignUp : handleNext, handleInvalid)} className="space-y-4" noValidate>
+                {wizard && <SignUpProgress step={step} />}
+
+                {error && (
+                  <div className="p-2 rounded-md bg-destructive/10 border border-destructive/30 text-xs text-destructive">
+                    {error}
+                  </div>
                 )}
-              </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                {/* Password */}
-                <div className="space-y-1">
-                  <label className="block text-xs font-medium text-gray-700" htmlFor="password">Password</label>
-                  <div className="relative">
-                    <Input 
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="Create a password"
-                      value={formData.password}
-                      onChange={(e) => handleChange('password', e.target.value)}
-                      className={cn(
-                        "h-12 text-sm font-medium rounded-lg shadow-sm pr-10",
-                        "focus:border-indigo-500 focus:ring-indigo-500",
-                        getErrorMessage('password') ? "border-red-500" : "border-gray-300"
-                      )}
-                      aria-invalid={!!getErrorMessage('password')}
-                      aria-describedby={getErrorMessage('password') ? "password-error" : undefined}
-                    />
-                    <button 
+                {!wizard && (
+                  <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <NameField autoFocus />
+                      <MobileNumberField />
+                    </div>
+                    <EmailField />
+                    <PasswordFields />
+                    <AcceptTermsField />
+                    <MarketingOptInField />
+                  </>
+                )}
+
+                {/* Each step mounts fresh, so its first field takes the focus */}
+                {wizard && step === 'personal' && <NameField autoFocus />}
+                {wizard && step === 'contact' && (
+                  <>
+                    <EmailField autoFocus />
+                    <MobileNumberField />
+                  </>
+                )}
+                {wizard && step === 'password' && <PasswordFields autoFocus />}
+                {wizard && step === 'terms' && (
+                  <>
+                    <AcceptTermsField autoFocus />
+                    <MarketingOptInField />
+                  </>
+                )}
+
+                {isLastStep && <RateLimitNotice guard={guard} />}
+
+                <div className="pt-4 flex gap-3">
+                  {wizard && stepIndex > 0 && (
+                    <Button
                       type="button"
-                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                      onClick={() => setShowPassword(!showPassword)}
+                      variant="outline"
+                      onClick={handleBack}
+                      disabled={loading}
+                      className="h-12 px-6 text-sm font-semibold rounded-lg"
                     >
-                      {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
-                    </button>
-                  </div>
-                  {getErrorMessage('password') && (
-                    <p id="password-error" className="text-xs text-red-600 mt-1">
-                      {getErrorMessage('password')}
-                    </p>
-                  )}
-                </div>
-                
-                {/* Confirm Password */}
-                <div className="space-y-1">
-                  <label className="block text-xs font-medium text-gray-700" htmlFor="confirmPassword">Confirm Password</label>
-                  <Input 
-                    id="confirmPassword"
-                    type={showPassword ? "text" : "password"}
-                    placeholder="Confirm your password"
-                    value={formData.confirmPassword}
-                    onChange={(e) => handleChange('confirmPassword', e.target.value)}
-                    className={cn(
-                      "h-12 text-sm font-medium rounded-lg shadow-sm",
-                      "focus:border-indigo-500 focus:ring-indigo-500",
-                      getErrorMessage('confirmPassword') ? "border-red-500" : "border-gray-300"
-                    )}
-                    aria-invalid={!!getErrorMessage('confirmPassword')}
-                    aria-describedby={getErrorMessage('confirmPassword') ? "confirm-error" : undefined}
-                  />
-                  {getErrorMessage('confirmPassword') && (
-                    <p id="confirm-error" className="text-xs text-red-600 mt-1">
-                      {getErrorMessage('confirmPassword')}
-                    </p>
-                  )}
-                </div>
-              </div>
-              
-              <p className="text-xs text-gray-500">
-                Use 6 or more characters with a mix of letters, numbers & symbols
-              </p>
-
-              <div className="pt-4">
-                <Button 
-                  type="submit" 
-                  disabled={loading || !isApiConfigured}
-                  className={cn(
-                    "w-full h-12 text-sm font-semibold rounded-lg",
-                    "bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white",
-                    "disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+                      <ArrowLeft className="h-4 w-4 mr-2" />
+                      {t('signup.back')}
+                    </Button>
                   )}
-                >
-                  {loading ? (
-                    <span className="flex items-center justify-center">
-                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                      Creating Account...
-                    </span>
+                  {isLastStep ? (
+                    <Button 
+                      type="submit" 
+                      disabled={loading || blocked}
+                      className={cn(
+                        "flex-1 h-12 text-sm font-semibold rounded-lg",
+                        "bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white",
+                        "disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+                      )}
+                    >
+                      {loading ? (
+                        <span className="flex items-center justify-center">
+                          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                          {t('signup.submitting')}
+                        </span>
+                      ) : (
+                        <span className="flex items-center justify-center">
+                          <UserPlus className="h-4 w-4 mr-2" />
+                          {t('signup.submit')}
+                        </span>
+                      )}
+                    </Button>
                   ) : (
-                    <span className="flex items-center justify-center">
-                      <UserPlus className="h-4 w-4 mr-2" />
-                      Create Account
-                    </span>
+                    <Button
+                      type="submit"
+                      className={cn(
+                        "flex-1 h-12 text-sm font-semibold rounded-lg",
+                        "bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white",
+                        "shadow-lg transition-all duration-200 hover:shadow-xl"
+                      )}
+                    >
+                      {t('signup.next')}
+                      <ArrowRight className="h-4 w-4 ml-2" />
+                    </Button>
                   )}
-                </Button>
-              </div>
+                </div>
+
+                <OAuthButtons disabled={loading} redirectTo={redirectTo} />
               
-              <div className="text-center pt-1">
-                <span className="text-gray-600 text-sm">Already have an account?</span>{" "}
-                <Link 
-                  href="/login" 
-                  className="font-semibold text-indigo-600 hover:text-indigo-800 text-sm"
-                >
-                  Sign In
-                </Link>
-              </div>
-            </form>
+                <div className="text-center pt-1">
+                  <span className="text-muted-foreground text-sm">{t('signup.haveAccount')}</span>{" "}
+                  <Link 
+                    href={withRedirect('/login', redirectTo)} 
+                    className="font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 text-sm"
+                  >
+                    {t('signup.signIn')}
+                  </Link>
+                </div>
+              </form>
+            </Form>
           </div>
         </div>
       </Card>
       
       {/* Footer */}
-      <div className="fixed bottom-2 right-4 flex justify-end text-xs text-gray-600">
+      <div className="fixed bottom-2 left-4 flex items-center gap-4 text-xs text-muted-foreground">
+        <LanguageSelect />
+        <ThemeToggle />
+      </div>
+      <div className="fixed bottom-2 right-4 flex justify-end text-xs text-muted-foreground">
         <div className="flex gap-4">
-          <Link href="#" className="hover:text-gray-800">Help</Link>
-          <Link href="#" className="hover:text-gray-800">Privacy</Link>
-          <Link href="#" className="hover:text-gray-800">Terms</Link>
+          <Link href="/help" className="hover:text-foreground">{t('footer.help')}</Link>
+          <Link href="/privacy" className="hover:text-foreground">{t('footer.privacy')}</Link>
+          <Link href="/terms" className="hover:text-foreground">{t('footer.terms')}</Link>
         </div>
       </div>
     </div>
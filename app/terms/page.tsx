@@ -0,0 +1,13 @@
+import type { Metadata } from 'next'
+import { ContentPage } from '@/components/content'
+import { renderContent } from '@/lib/content'
+import { legalContentPath, legalDocuments } from '@/lib/legal'
+
+export const metadata: Metadata = {
+  title: 'Terms of Service',
+}
+
+export default function TermsPage() {
+  const { version } = legalDocuments.terms
+  return <ContentPage page="terms" version={version} html={renderContent(legalContentPath('terms', version))} />
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import React, { Suspense, useEffect, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card } from "@/components/ui/card"
+import { Loader2, CheckCircle, Clock, XCircle, MailCheck } from 'lucide-react'
+import { verifyEmail, isApiError } from '@/lib/api'
+import { ResendVerificationButton } from '@/components/auth'
+import { track } from '@/lib/analytics'
+import { getRedirectTarget, withRedirect } from '@/lib/redirect'
+
+type VerificationState =
+  | { status: 'verifying' }
+  | { status: 'verified' }
+  | { status: 'already_verified' }
+  | { status: 'expired' }
+  | { status: 'invalid'; message: string }
+
+const primaryButtonClass = "w-full h-12 text-sm font-semibold rounded-lg bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white shadow-lg transition-all duration-200 hover:shadow-xl"
+
+function VerifyEmailContent() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token')
+  const [state, setState] = useState<VerificationState>({ status: 'verifying' })
+  const [email, setEmail] = useState(searchParams.get('email') ?? '')
+  // Set when the user signed up on their way to a specific page
+  const redirectTo = getRedirectTarget(searchParams)
+  const loginHref = withRedirect('/login', redirectTo)
+
+  // Tokens are single-use, so never submit the same one twice (e.g. StrictMode re-running effects)
+  const submittedToken = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!token) {
+      setState({ status: 'invalid', message: "This verification link is missing its token." })
+      return
+    }
+    if (submittedToken.current === token) return
+    submittedToken.current = token
+    track('verification_link_clicked')
+
+    verifyEmail({ token })
+      .then(result => {
+        setState({ status: result.status === 'already_verified' ? 'already_verified' : 'verified' })
+      })
+      .catch(err => {
+        console.error("Verify Email Error:", err)
+        if (isApiError(err) && (err.code === 'TOKEN_EXPIRED' || err.status === 410)) {
+          setState({ status: 'expired' })
+        } else if (isApiError(err) && err.code === 'ALREADY_VERIFIED') {
+          setState({ status: 'already_verified' })
+        } else {
+          const message = (err instanceof Error && err.message) || "This verification link is not valid."
+          setState({ status: 'invalid', message })
+        }
+      })
+  }, [token])
+
+  if (state.status === 'verifying') {
+    return (
+      <div className="p-8 flex flex-col items-center text-center" role="status" aria-live="polite">
+        <Loader2 className="h-10 w-10 animate-spin text-indigo-600 dark:text-indigo-400 mb-6" />
+        <h1 className="text-2xl font-bold text-foreground mb-2">Verifying your email...</h1>
+        <p className="text-sm text-muted-foreground">This will only take a moment.</p>
+      </div>
+    )
+  }
+
+  if (state.status === 'verified' || state.status === 'already_verified') {
+    const verified = state.status === 'verified'
+    return (
+      <div className="p-8 flex flex-col items-center text-center">
+        <div className="w-16 h-16 rounded-full bg-green-100 dark:bg-green-900/30 flex items-center justify-center mb-6">
+          {verified ? <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" /> : <MailCheck className="h-8 w-8 text-green-600 dark:text-green-400" />}
+        </div>
+        <h1 className="text-2xl font-bold text-foreground mb-2">
+          {verified ? "Email Verified!" : "Already Verified"}
+        </h1>
+        <p className="text-sm text-muted-foreground mb-6">
+          {verified
+            ? "Your account is now active. Sign in to get started."
+            : "This email address has already been verified. You can sign in right away."}
+        </p>
+        <Button type="button" onClick={() => router.push(loginHref)} className={primaryButtonClass}>
+          Go to Login Page
+        </Button>
+      </div>
+    )
+  }
+
+  if (state.status === 'expired') {
+    return (
+      <div className="p-8 flex flex-col items-center text-center">
+        <div className="w-16 h-16 rounded-full bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center mb-6">
+          <Clock className="h-8 w-8 text-amber-600 dark:text-amber-400" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground mb-2">Link Expired</h1>
+        <p className="text-sm text-muted-foreground mb-6">
+          Verification links are only valid for a limited time. Enter your email and we'll send you a new one.
+        </p>
+        <div className="w-full space-y-3 text-left">
+          <label className="block text-xs font-medium text-foreground" htmlFor="email">Email</label>
+          <Input
+            id="email"
+            type="email"
+            placeholder="Enter your email address"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="h-12 text-sm font-medium rounded-lg shadow-sm"
+          />
+          <ResendVerificationButton email={email.trim()} redirectTo={redirectTo} />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8 flex flex-col items-center text-center">
+      <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mb-6">
+        <XCircle className="h-8 w-8 text-destructive" />
+      </div>
+      <h1 className="text-2xl font-bold text-foreground mb-2">Invalid Link</h1>
+      <p className="text-sm text-muted-foreground mb-6">{state.message}</p>
+      <p className="text-sm text-muted-foreground mb-6">
+        Make sure you opened the most recent email we sent you. If you already verified your account, you can sign in.
+      </p>
+      <Button type="button" onClick={() => router.push(loginHref)} className={primaryButtonClass}>
+        Go to Login Page
+      </Button>
+      <p className="text-sm text-muted-foreground mt-4">
+        Don't have an account? <Link href={withRedirect('/signup', redirectTo)} className="text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium">Sign Up</Link>
+      </p>
+    </div>
+  )
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="h-screen w-screen fixed inset-0 bg-muted flex items-center justify-center overflow-hidden">
+      <Card className="shadow-xl border-0 w-full max-w-lg h-auto rounded-2xl overflow-hidden">
+        {/* useSearchParams needs a Suspense boundary in the static export */}
+        <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin text-muted-foreground m-8 self-center" />}>
+          <VerifyEmailContent />
+        </Suspense>
+      </Card>
+    </div>
+  )
+}
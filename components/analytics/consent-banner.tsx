@@ -0,0 +1,49 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import Link from 'next/link'
+import { Cookie } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useConfig } from '@/components/config'
+import { useTranslations } from '@/components/i18n'
+import { getAnalyticsConsent, getServerAnalyticsConsent, setAnalyticsConsent, subscribeAnalyticsConsent } from '@/lib/analytics'
+
+/**
+ * Asks once whether analytics may be sent, when the config turns analytics
+ * on. Until the user answers, tracked events are held back in memory.
+ */
+export function ConsentBanner() {
+  const t = useTranslations()
+  const { analytics } = useConfig()
+  const consent = useSyncExternalStore(subscribeAnalyticsConsent, getAnalyticsConsent, getServerAnalyticsConsent)
+
+  if (!analytics || consent !== null) return null
+
+  return (
+    <section
+      aria-label={t('consent.label')}
+      className="fixed inset-x-0 bottom-0 z-40 border-t border-border bg-card/95 backdrop-blur px-4 py-4 shadow-[0_-4px_12px_rgba(0,0,0,0.08)]"
+    >
+      <div className="mx-auto flex max-w-4xl flex-col gap-4 sm:flex-row sm:items-center">
+        <Cookie className="hidden h-6 w-6 shrink-0 text-indigo-600 dark:text-indigo-400 sm:block" aria-hidden="true" />
+        <div className="flex-1 text-sm">
+          <p className="font-semibold text-foreground">{t('consent.title')}</p>
+          <p className="text-muted-foreground">
+            {t('consent.description')}{" "}
+            <Link href="/privacy" className="font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300">
+              {t('consent.privacy')}
+            </Link>
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          <Button type="button" variant="outline" onClick={() => setAnalyticsConsent('denied')}>
+            {t('consent.decline')}
+          </Button>
+          <Button type="button" onClick={() => setAnalyticsConsent('granted')}>
+            {t('consent.accept')}
+          </Button>
+        </div>
+      </div>
+    </section>
+  )
+}
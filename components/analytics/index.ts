@@ -0,0 +1 @@
+export { ConsentBanner } from './consent-banner'
@@ -0,0 +1,106 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { Menu, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { LanguageSelect, useTranslations } from '@/components/i18n'
+import { ThemeToggle } from '@/components/theme'
+import { SidebarNav } from './app-sidebar'
+import { UserMenu } from './user-menu'
+import { APP_NAME } from './nav-items'
+
+function Brand() {
+  return (
+    <Link href="/" className="flex items-center gap-2 font-semibold">
+      <span
+        aria-hidden="true"
+        className="h-7 w-7 rounded-lg bg-gradient-to-br from-indigo-600 via-purple-600 to-pink-600"
+      />
+      {APP_NAME}
+    </Link>
+  )
+}
+
+/** Header, sidebar and content area shared by every signed-in page. */
+export function AppShell({ children }: { children: React.ReactNode }) {
+  const t = useTranslations()
+  const pathname = usePathname()
+  const [sidebarOpen, setSidebarOpen] = useState(false)
+
+  // The mobile drawer closes whenever the route changes
+  useEffect(() => {
+    setSidebarOpen(false)
+  }, [pathname])
+
+  useEffect(() => {
+    if (!sidebarOpen) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setSidebarOpen(false)
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [sidebarOpen])
+
+  return (
+    <div className="min-h-screen bg-muted/40">
+      <header className="sticky top-0 z-30 flex h-14 items-center gap-3 border-b bg-background px-4">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="md:hidden"
+          onClick={() => setSidebarOpen(true)}
+          aria-label={t('shell.openNavigation')}
+          aria-expanded={sidebarOpen}
+        >
+          <Menu />
+        </Button>
+        <Brand />
+        <div className="ml-auto flex items-center gap-3">
+          <LanguageSelect className="hidden sm:block" />
+          <ThemeToggle />
+          <UserMenu />
+        </div>
+      </header>
+
+      <div className="flex">
+        {/* Desktop sidebar */}
+        <aside className="sticky top-14 hidden h-[calc(100vh-3.5rem)] w-60 shrink-0 border-r bg-sidebar md:block">
+          <SidebarNav />
+        </aside>
+
+        {/* Mobile drawer */}
+        {sidebarOpen && (
+          <div className="fixed inset-0 z-40 md:hidden">
+            <div className="absolute inset-0 bg-black/50" onClick={() => setSidebarOpen(false)} aria-hidden="true" />
+            <aside
+              role="dialog"
+              aria-modal="true"
+              aria-label={t('shell.navigation')}
+              className="absolute inset-y-0 left-0 flex w-64 flex-col bg-sidebar shadow-xl"
+            >
+              <div className="flex h-14 items-center justify-between border-b px-4">
+                <Brand />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setSidebarOpen(false)}
+                  aria-label={t('shell.closeNavigation')}
+                  autoFocus
+                >
+                  <X />
+                </Button>
+              </div>
+              <SidebarNav onNavigate={() => setSidebarOpen(false)} />
+            </aside>
+          </div>
+        )}
+
+        <main className="min-w-0 flex-1 p-4 sm:p-6 lg:p-8">{children}</main>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { cn } from '@/lib/utils'
+import { useTranslations } from '@/components/i18n'
+import { isActivePath, navItems } from './nav-items'
+
+export function SidebarNav({ onNavigate }: { onNavigate?: () => void }) {
+  const t = useTranslations()
+  const pathname = usePathname()
+
+  return (
+    <nav aria-label={t('shell.navigation')} className="flex flex-col gap-1 p-3">
+      {navItems.map(({ href, labelKey, icon: Icon }) => {
+        const active = isActivePath(pathname, href)
+        return (
+          <Link
+            key={href}
+            href={href}
+            onClick={onNavigate}
+            aria-current={active ? 'page' : undefined}
+            className={cn(
+              "flex items-center gap-3 rounded-md px-3 py-2 text-sm font-medium transition-colors",
+              active
+                ? "bg-sidebar-accent text-sidebar-accent-foreground"
+                : "text-muted-foreground hover:bg-sidebar-accent/60 hover:text-sidebar-accent-foreground"
+            )}
+          >
+            <Icon className="h-4 w-4" aria-hidden="true" />
+            {t(labelKey)}
+          </Link>
+        )
+      })}
+    </nav>
+  )
+}
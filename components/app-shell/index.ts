@@ -0,0 +1,4 @@
+export { AppShell } from './app-shell'
+export { SidebarNav } from './app-sidebar'
+export { UserMenu } from './user-menu'
+export { APP_NAME, navItems, isActivePath, type NavItem } from './nav-items'
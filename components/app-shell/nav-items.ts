@@ -0,0 +1,22 @@
+import type { LucideIcon } from 'lucide-react'
+import { LayoutDashboard, Settings } from 'lucide-react'
+import type { MessageKey } from '@/lib/i18n'
+
+export const APP_NAME = 'DigiSaga'
+
+export interface NavItem {
+  href: string
+  labelKey: MessageKey
+  icon: LucideIcon
+}
+
+/** Sidebar entries, in display order. Pages under app/(app) add themselves here. */
+export const navItems: NavItem[] = [
+  { href: '/', labelKey: 'shell.nav.dashboard', icon: LayoutDashboard },
+  { href: '/settings', labelKey: 'shell.nav.settings', icon: Settings },
+]
+
+/** Exact match for the home page, prefix match for sections with sub-pages. */
+export function isActivePath(pathname: string, href: string) {
+  return href === '/' ? pathname === '/' : pathname === href || pathname.startsWith(`${href}/`)
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useId, useRef, useState } from 'react'
+import { ChevronDown, Loader2, LogOut } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAuth } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+
+/** Up to two initials for the avatar, e.g. "Ada Lovelace" -> "AL". */
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('')
+}
+
+export function UserMenu() {
+  const t = useTranslations()
+  const { user, logout } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [loggingOut, setLoggingOut] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const triggerRef = useRef<HTMLButtonElement>(null)
+  const menuId = useId()
+
+  // Close on outside click and on Escape, returning focus to the trigger
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setOpen(false)
+        triggerRef.current?.focus()
+      }
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown)
+      document.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [open])
+
+  if (!user) return null
+
+  const handleLogout = async () => {
+    setLoggingOut(true)
+    await logout()
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        ref={triggerRef}
+        type="button"
+        onClick={() => setOpen(value => !value)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-controls={menuId}
+        aria-label={t('shell.userMenu')}
+        className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-accent focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        <span
+          aria-hidden="true"
+          className="flex h-8 w-8 items-center justify-center rounded-full bg-gradient-to-br from-indigo-600 via-purple-600 to-pink-600 text-xs font-semibold text-white"
+        >
+          {initials(user.name)}
+        </span>
+        <span className="hidden max-w-40 truncate font-medium sm:inline">{user.name}</span>
+        <ChevronDown className={cn("h-4 w-4 text-muted-foreground transition-transform", open && "rotate-180")} aria-hidden="true" />
+      </button>
+
+      {open && (
+        <div
+          id={menuId}
+          role="menu"
+          aria-label={t('shell.userMenu')}
+          className="absolute right-0 z-50 mt-2 w-64 rounded-md border bg-popover p-1 text-popover-foreground shadow-lg"
+        >
+          <div className="px-3 py-2">
+            <p className="truncate text-sm font-medium">{user.name}</p>
+            <p className="truncate text-xs text-muted-foreground">{user.email}</p>
+          </div>
+          <div className="my-1 h-px bg-border" role="separator" />
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handleLogout}
+            disabled={loggingOut}
+            autoFocus
+            className="flex w-full items-center gap-2 rounded-sm px-3 py-2 text-sm hover:bg-accent focus-visible:bg-accent focus-visible:outline-none disabled:opacity-50"
+          >
+            {loggingOut ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+            {loggingOut ? t('shell.loggingOut') : t('shell.logOut')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
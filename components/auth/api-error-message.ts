@@ -0,0 +1,23 @@
+import { isApiError } from '@/lib/api'
+import type { Translate } from '@/lib/i18n'
+
+/**
+ * What to tell the user about a failed request. The client's own errors carry
+ * English messages, so they are translated from their code; anything else the
+ * backend answered keeps the backend's message.
+ */
+export function apiErrorMessage(err: unknown, t: Translate): string {
+  if (!isApiError(err)) return t('common.unexpectedError')
+  switch (err.code) {
+    case 'NETWORK_ERROR':
+      return t('login.connectionError')
+    case 'TIMEOUT':
+      return t('common.timeout')
+    case 'ABORTED':
+      return t('common.aborted')
+    case 'INVALID_RESPONSE':
+      return t('common.invalidResponse')
+    default:
+      return err.status > 0 ? err.message : t('login.connectionError')
+  }
+}
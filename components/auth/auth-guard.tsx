@@ -0,0 +1,92 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { AlertTriangle, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useConfig } from '@/components/config'
+import { useTranslations } from '@/components/i18n'
+import { getRedirectTarget } from '@/lib/redirect'
+import { getIdleTimeoutMs } from '@/lib/session'
+import { useAuth } from './auth-provider'
+import { IdleTimeoutDialog } from './idle-timeout-dialog'
+
+interface AuthGuardProps {
+  children: React.ReactNode
+  /**
+   * 'authenticated' (default) sends signed-out visitors to the login page;
+   * 'guest' sends signed-in users away from pages like login and signup.
+   */
+  require?: 'authenticated' | 'guest'
+}
+
+/**
+ * Client-side route protection. The app is statically exported, so there is
+ * no middleware to do this on the server. Protected pages also get the idle
+ * timeout.
+ */
+export function AuthGuard({ children, require = 'authenticated' }: AuthGuardProps) {
+  const { status, error, endReason, refresh } = useAuth()
+  const router = useRouter()
+  const pathname = usePathname()
+  const t = useTranslations()
+  const { idleTimeoutMinutes } = useConfig()
+  const [retrying, setRetrying] = useState(false)
+
+  const allowed = require === 'authenticated' ? status === 'authenticated' : status === 'unauthenticated'
+  // A failed session check (server down, network error) is not the same as being signed out
+  const checkFailed = require === 'authenticated' && status === 'unauthenticated' && error !== null
+
+  useEffect(() => {
+    if (status === 'loading' || allowed || checkFailed) return
+
+    if (require === 'authenticated') {
+      const next = `${pathname}${window.location.search}`
+      // The login page explains a session that ended without the user signing out
+      const reason = endReason === 'idle' || endReason === 'expired' ? `&reason=${endReason}` : ''
+      router.replace(`/login?next=${encodeURIComponent(next)}${reason}`)
+    } else {
+      // Honour the target a signed-out visitor was bounced with, now that they are signed in
+      router.replace(getRedirectTarget(new URLSearchParams(window.location.search)))
+    }
+  }, [status, allowed, checkFailed, require, pathname, router, endReason])
+
+  const handleRetry = async () => {
+    setRetrying(true)
+    await refresh()
+    setRetrying(false)
+  }
+
+  if (checkFailed && !retrying) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div role="alert" className="max-w-sm text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full bg-destructive/10">
+            <AlertTriangle className="h-6 w-6 text-destructive" />
+          </div>
+          <h1 className="text-lg font-semibold text-foreground">{t('shell.sessionError')}</h1>
+          <p className="mt-1 mb-4 text-sm text-muted-foreground">{error.message}</p>
+          <Button type="button" onClick={handleRetry}>{t('shell.retry')}</Button>
+        </div>
+      </div>
+    )
+  }
+
+  if (!allowed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center" role="status" aria-live="polite">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        <span className="sr-only">Loading...</span>
+      </div>
+    )
+  }
+
+  const idleTimeoutMs = require === 'authenticated' ? getIdleTimeoutMs(idleTimeoutMinutes) : null
+
+  return (
+    <>
+      {children}
+      {idleTimeoutMs !== null && <IdleTimeoutDialog timeoutMs={idleTimeoutMs} />}
+    </>
+  )
+}
@@ -0,0 +1,156 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  getCurrentUser,
+  logout as logoutRequest,
+  refreshSession,
+  isApiError,
+  onUnauthorized,
+  type ApiError,
+  type User,
+} from '@/lib/api'
+import { broadcastSession, refreshDelay, REFRESH_RETRY_MS, subscribeSession, type SessionEndReason } from '@/lib/session'
+
+export type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated'
+
+interface AuthContextValue {
+  user: User | null
+  status: AuthStatus
+  /** Set when the session could not be checked for a reason other than being signed out. */
+  error: ApiError | null
+  /** Why the last session ended, so the login page can explain it. Null while signed in. */
+  endReason: SessionEndReason | null
+  /** Reloads the current user, e.g. right after a successful login. */
+  refresh: () => Promise<User | null>
+  /**
+   * Ends the session, in every open tab. Guarded pages then redirect to the
+   * login page on their own. `reason` defaults to the user signing out.
+   */
+  logout: (reason?: SessionEndReason) => Promise<void>
+  /** Forgets the session locally, e.g. after the server has already ended it. */
+  clearSession: () => void
+  /** Patches the cached user, e.g. to show an edit before the server confirms it. */
+  updateUser: (patch: Partial<User>) => void
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null)
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null)
+  const [status, setStatus] = useState<AuthStatus>('loading')
+  const [error, setError] = useState<ApiError | null>(null)
+  const [endReason, setEndReason] = useState<SessionEndReason | null>(null)
+  const requestRef = useRef<AbortController | null>(null)
+  // Read by listeners that outlive a render
+  const statusRef = useRef(status)
+
+  useEffect(() => {
+    statusRef.current = status
+  }, [status])
+
+  const refresh = useCallback(async () => {
+    // Only the latest check may update the state
+    requestRef.current?.abort()
+    const controller = new AbortController()
+    requestRef.current = controller
+
+    try {
+      const currentUser = await getCurrentUser({ signal: controller.signal })
+      setUser(currentUser)
+      setError(null)
+      setEndReason(null)
+      setStatus('authenticated')
+      return currentUser
+    } catch (err) {
+      if (controller.signal.aborted) return null
+      setUser(null)
+      setError(isApiError(err) && err.status !== 401 ? err : null)
+      setStatus('unauthenticated')
+      return null
+    }
+  }, [])
+
+  const clearSession = useCallback(() => {
+    requestRef.current?.abort()
+    setUser(null)
+    setStatus('unauthenticated')
+  }, [])
+
+  const endSession = useCallback((reason: SessionEndReason) => {
+    clearSession()
+    setEndReason(reason)
+  }, [clearSession])
+
+  const logout = useCallback(async (reason: SessionEndReason = 'user') => {
+    try {
+      await logoutRequest()
+    } catch (err) {
+      // The local session is cleared either way
+      console.error("Logout Error:", err)
+    }
+    broadcastSession({ type: 'logout', reason })
+    endSession(reason)
+  }, [endSession])
+
+  const updateUser = useCallback((patch: Partial<User>) => {
+    setUser(current => (current ? { ...current, ...patch } : current))
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return () => requestRef.current?.abort()
+  }, [refresh])
+
+  // Signing out in one tab signs out the others
+  useEffect(() => subscribeSession(message => {
+    if (message.type === 'logout' && statusRef.current === 'authenticated') endSession(message.reason)
+  }), [endSession])
+
+  // A 401 while signed in means the backend ended the session, e.g. it expired while the tab slept
+  useEffect(() => onUnauthorized(() => {
+    if (statusRef.current !== 'authenticated') return
+    broadcastSession({ type: 'logout', reason: 'expired' })
+    endSession('expired')
+  }), [endSession])
+
+  // Renew the session in the background before it expires
+  useEffect(() => {
+    if (status !== 'authenticated') return
+    const controller = new AbortController()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const renew = async () => {
+      try {
+        const { expiresIn } = await refreshSession({ signal: controller.signal })
+        timer = setTimeout(renew, refreshDelay(expiresIn))
+      } catch (err) {
+        // A 401 has already ended the session through onUnauthorized
+        if (controller.signal.aborted || (isApiError(err) && err.status === 401)) return
+        timer = setTimeout(renew, REFRESH_RETRY_MS)
+      }
+    }
+    // The first refresh also tells us how long the session lasts
+    renew()
+
+    return () => {
+      controller.abort()
+      clearTimeout(timer)
+    }
+  }, [status])
+
+  const value = useMemo(
+    () => ({ user, status, error, endReason, refresh, logout, clearSession, updateUser }),
+    [user, status, error, endReason, refresh, logout, clearSession, updateUser]
+  )
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return context
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useId } from 'react'
+import { Clock } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { useTranslations } from '@/components/i18n'
+import { useIdleTimer } from '@/hooks/use-idle-timer'
+import { refreshSession } from '@/lib/api'
+import { IDLE_WARNING_MS } from '@/lib/session'
+import { useAuth } from './auth-provider'
+
+/**
+ * Signs the user out after `timeoutMs` without activity in any tab, with a
+ * warning for the last minute that lets them stay.
+ */
+export function IdleTimeoutDialog({ timeoutMs }: { timeoutMs: number }) {
+  const t = useTranslations()
+  const { logout } = useAuth()
+  const titleId = useId()
+  const descriptionId = useId()
+  const { warning, secondsLeft, stayActive } = useIdleTimer({
+    timeoutMs,
+    warningMs: Math.min(IDLE_WARNING_MS, timeoutMs),
+    onIdle: () => logout('idle'),
+  })
+
+  const staySignedIn = () => {
+    stayActive()
+    // The session is renewed in the background anyway; this makes sure it is right now. A 401 signs out.
+    refreshSession().catch(() => {})
+  }
+
+  useEffect(() => {
+    if (!warning) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') staySignedIn()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  })
+
+  if (!warning) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <Card
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        aria-describedby={descriptionId}
+        className="w-full max-w-sm gap-4 rounded-2xl border-0 p-6 shadow-xl"
+      >
+        <div className="flex h-12 w-12 items-center justify-center rounded-full bg-amber-100 dark:bg-amber-900/30">
+          <Clock className="h-6 w-6 text-amber-600 dark:text-amber-400" aria-hidden="true" />
+        </div>
+        <div className="space-y-1">
+          <h2 id={titleId} className="text-lg font-semibold text-foreground">{t('session.idleTitle')}</h2>
+          <p id={descriptionId} className="text-sm text-muted-foreground">{t('session.idleDescription')}</p>
+        </div>
+        {/* Read out once when the dialog opens, not on every tick */}
+        <p className="text-sm font-medium text-foreground tabular-nums" aria-live="off">
+          {t('session.idleCountdown', { seconds: secondsLeft })}
+        </p>
+        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+          <Button type="button" variant="outline" onClick={() => logout('user')}>
+            {t('session.signOut')}
+          </Button>
+          <Button type="button" onClick={staySignedIn} autoFocus>
+            {t('session.staySignedIn')}
+          </Button>
+        </div>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,12 @@
+export { AuthProvider, useAuth, type AuthStatus } from './auth-provider'
+export { AuthGuard } from './auth-guard'
+export { ResendVerificationButton, sendVerificationEmail } from './resend-verification-button'
+export { PasswordStrengthMeter } from './password-strength-meter'
+export { OAuthButtons } from './oauth-buttons'
+export { TwoFactorChallenge } from './two-factor-challenge'
+export { RateLimitNotice } from './rate-limit-notice'
+export { AcceptTermsField, EmailField, MarketingOptInField, MobileNumberField, NameField, PasswordFields } from './signup-fields'
+export { SignUpProgress } from './signup-progress'
+export { PasskeySignIn, passkeyErrorMessage } from './passkey-sign-in'
+export { MagicLinkForm } from './magic-link-form'
+export { apiErrorMessage } from './api-error-message'
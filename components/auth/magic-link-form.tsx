@@ -0,0 +1,179 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2, Mail, RefreshCw, Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, useSchemaRevalidation } from '@/components/form'
+import { useTranslations } from '@/components/i18n'
+import { useCooldown } from '@/hooks/use-cooldown'
+import { requestMagicLink } from '@/lib/api'
+import type { Translate } from '@/lib/i18n'
+import { rememberMagicLinkRequest } from '@/lib/magic-link'
+import { notify } from '@/lib/notify'
+import { DEFAULT_REDIRECT } from '@/lib/redirect'
+import { createMagicLinkSchema, type MagicLinkFormData } from '@/lib/schemas/auth'
+import { apiErrorMessage } from './api-error-message'
+
+const RESEND_COOLDOWN_SECONDS = 60
+
+const submitButtonClass = "w-full h-14 text-base font-semibold rounded-xl bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+const linkButtonClass = "text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+
+/** Emails a sign-in link, reporting progress and the outcome as a toast. */
+function sendMagicLink(email: string, t: Translate, redirectTo?: string) {
+  const target = redirectTo && redirectTo !== DEFAULT_REDIRECT ? redirectTo : undefined
+  const sent = requestMagicLink({ email, redirectTo: target }).then(() => rememberMagicLinkRequest(email))
+  return notify.promise(sent, {
+    loading: t('magicLink.toastSending'),
+    success: { title: t('magicLink.toastSent'), description: t('magicLink.toastSentDescription', { email }) },
+    error: err => ({
+      title: t('magicLink.toastFailed'),
+      description: apiErrorMessage(err, t),
+    }),
+  })
+}
+
+function MagicLinkSent({ email, redirectTo, onCancel, cancelLabel }: { email: string; redirectTo?: string; onCancel: () => void; cancelLabel: string }) {
+  const t = useTranslations()
+  const [sending, setSending] = useState(false)
+  const cooldown = useCooldown(RESEND_COOLDOWN_SECONDS, true)
+
+  const handleResend = async () => {
+    setSending(true)
+    try {
+      await sendMagicLink(email, t, redirectTo)
+      cooldown.start()
+    } catch {
+      // Already reported by the toast
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 text-center">
+      <h2 className="text-xl font-semibold text-foreground">{t('magicLink.sent.title')}</h2>
+      <div className="p-6 rounded-xl bg-muted border border-border" role="status">
+        <Mail className="h-10 w-10 text-indigo-500 dark:text-indigo-400 mx-auto mb-3" aria-hidden="true" />
+        <p className="text-foreground font-medium mb-2">{t('magicLink.sent.sentTo')}</p>
+        <p className="text-indigo-600 dark:text-indigo-400 font-bold mb-4 break-all">{email}</p>
+        <p className="text-sm text-muted-foreground mb-3">{t('magicLink.sent.instructions')}</p>
+        <p className="text-xs text-muted-foreground">{t('magicLink.sent.spamHint')}</p>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={handleResend}
+        disabled={sending || cooldown.active}
+        className="w-full h-12 text-sm font-semibold rounded-lg"
+      >
+        {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+        {sending
+          ? t('magicLink.sending')
+          : cooldown.active ? t('magicLink.resendIn', { seconds: cooldown.remaining }) : t('magicLink.resend')}
+      </Button>
+      <button type="button" onClick={onCancel} className={linkButtonClass}>
+        {cancelLabel}
+      </button>
+    </div>
+  )
+}
+
+interface MagicLinkFormProps {
+  title: string
+  description: string
+  /** Pre-fills the email field, e.g. with what was typed for the password sign-in. */
+  defaultEmail?: string
+  /** Post-login target the link should carry. */
+  redirectTo?: string
+  /** Label of the way out, e.g. back to the password form. */
+  cancelLabel: string
+  onCancel: () => void
+}
+
+/**
+ * Asks for an email address and sends a passwordless sign-in link to it, then
+ * shows a "check your inbox" screen that can send the link again after a
+ * cooldown.
+ */
+export function MagicLinkForm({ title, description, defaultEmail = '', redirectTo, cancelLabel, onCancel }: MagicLinkFormProps) {
+  const t = useTranslations()
+  const schema = useMemo(() => createMagicLinkSchema(t), [t])
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const form = useForm<MagicLinkFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: defaultEmail },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleSend = async ({ email }: MagicLinkFormData) => {
+    setError(null)
+    try {
+      await sendMagicLink(email, t, redirectTo)
+      setSentTo(email)
+    } catch (err) {
+      setError(apiErrorMessage(err, t))
+    }
+  }
+
+  if (sentTo) {
+    return <MagicLinkSent email={sentTo} redirectTo={redirectTo} onCancel={onCancel} cancelLabel={cancelLabel} />
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-foreground">{title}</h2>
+        <p className="mt-1 text-sm text-muted-foreground">{description}</p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive" role="alert">
+          {error}
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSend)} className="space-y-6" noValidate>
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem className="space-y-2">
+                <FormLabel className="block text-sm font-medium text-foreground mb-1">{t('login.email')}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="email"
+                    placeholder={t('login.emailPlaceholder')}
+                    autoComplete="email"
+                    className="h-14 text-lg font-medium rounded-xl focus:border-indigo-500 focus:ring-indigo-500 shadow-sm"
+                    autoFocus
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" disabled={isSubmitting} className={submitButtonClass}>
+            {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+            {isSubmitting ? t('magicLink.sending') : t('magicLink.submit')}
+          </Button>
+        </form>
+      </Form>
+
+      <div className="text-center">
+        <button type="button" onClick={onCancel} className={linkButtonClass}>
+          {cancelLabel}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useState } from 'react'
+import { Github, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { oauthProviderNames, type OAuthProvider } from '@/lib/api'
+import { startOAuth } from '@/lib/oauth'
+import { useConfig } from '@/components/config'
+import { useTranslations } from '@/components/i18n'
+
+function GoogleIcon({ className }: { className?: string }) {
+  return (
+    <svg viewBox="0 0 24 24" aria-hidden="true" className={className}>
+      <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92a5.06 5.06 0 0 1-2.2 3.32v2.77h3.57c2.08-1.92 3.27-4.74 3.27-8.1z" />
+      <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84A11 11 0 0 0 12 23z" />
+      <path fill="#FBBC05" d="M5.84 14.1A6.6 6.6 0 0 1 5.5 12c0-.73.13-1.44.34-2.1V7.06H2.18A11 11 0 0 0 1 12c0 1.77.43 3.45 1.18 4.94l3.66-2.84z" />
+      <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1A11 11 0 0 0 2.18 7.06l3.66 2.84C6.71 7.31 9.14 5.38 12 5.38z" />
+    </svg>
+  )
+}
+
+function MicrosoftIcon({ className }: { className?: string }) {
+  return (
+    <svg viewBox="0 0 24 24" aria-hidden="true" className={className}>
+      <path fill="#F25022" d="M2 2h9.5v9.5H2z" />
+      <path fill="#7FBA00" d="M12.5 2H22v9.5h-9.5z" />
+      <path fill="#00A4EF" d="M2 12.5h9.5V22H2z" />
+      <path fill="#FFB900" d="M12.5 12.5H22V22h-9.5z" />
+    </svg>
+  )
+}
+
+const providerIcons: Record<OAuthProvider, React.ComponentType<{ className?: string }>> = {
+  google: GoogleIcon,
+  github: Github,
+  microsoft: MicrosoftIcon,
+}
+
+interface OAuthButtonsProps {
+  className?: string
+  /** Disable the buttons, e.g. while the email and password form is submitting. */
+  disabled?: boolean
+  /** Where the callback sends the user once signed in. */
+  redirectTo?: string
+  /** Show the "or" line above the buttons. Off when another sign-in option already drew one. */
+  divider?: boolean
+}
+
+/**
+ * "Continue with …" buttons for the providers enabled in this environment.
+ * Renders nothing when none are, so pages can include it unconditionally.
+ */
+export function OAuthButtons({ className, disabled = false, redirectTo, divider = true }: OAuthButtonsProps) {
+  const t = useTranslations()
+  const providers = useConfig().authProviders
+  const [redirecting, setRedirecting] = useState<OAuthProvider | null>(null)
+
+  if (providers.length === 0) return null
+
+  const handleClick = (provider: OAuthProvider) => {
+    // The page is about to unload; keep the buttons from being clicked twice meanwhile
+    if (startOAuth(provider, redirectTo)) setRedirecting(provider)
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {divider && (
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          <span className="h-px flex-1 bg-border" />
+          {t('oauth.divider')}
+          <span className="h-px flex-1 bg-border" />
+        </div>
+      )}
+      <div className="grid gap-2">
+        {providers.map(provider => {
+          const Icon = providerIcons[provider]
+          return (
+            <Button
+              key={provider}
+              type="button"
+              variant="outline"
+              disabled={disabled || redirecting !== null}
+              onClick={() => handleClick(provider)}
+              className="w-full h-11 rounded-xl font-medium"
+            >
+              {redirecting === provider
+                ? <Loader2 className="h-4 w-4 animate-spin" />
+                : <Icon className="h-4 w-4" />}
+              {t('oauth.continueWith', { provider: oauthProviderNames[provider] })}
+            </Button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
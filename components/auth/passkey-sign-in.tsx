@@ -0,0 +1,151 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { KeyRound, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useTranslations } from '@/components/i18n'
+import { track } from '@/lib/analytics'
+import { getPasskeyLoginOptions, isApiError, loginWithPasskey } from '@/lib/api'
+import type { Translate } from '@/lib/i18n'
+import { notify } from '@/lib/notify'
+import { cn } from '@/lib/utils'
+import { getPasskey, isConditionalMediationAvailable, isPasskeyError, type PasskeyAssertion } from '@/lib/webauthn'
+import { apiErrorMessage } from './api-error-message'
+import { useAuth } from './auth-provider'
+
+/** What to tell the user when creating or using a passkey failed. */
+export function passkeyErrorMessage(err: unknown, t: Translate): string {
+  if (isPasskeyError(err)) {
+    switch (err.code) {
+      case 'UNSUPPORTED':
+        return t('passkey.errors.unsupported')
+      case 'CANCELLED':
+      case 'ABORTED':
+        return t('passkey.errors.cancelled')
+      case 'ALREADY_REGISTERED':
+        return t('passkey.errors.alreadyRegistered')
+      case 'INVALID_DOMAIN':
+        return t('passkey.errors.invalidDomain')
+      default:
+        return t('passkey.errors.failed')
+    }
+  }
+  if (isApiError(err) && err.code === 'INVALID_PASSKEY') return t('passkey.errors.invalid')
+  if (isApiError(err) && (err.code === 'CHALLENGE_EXPIRED' || err.status === 410)) return t('passkey.errors.expired')
+  return apiErrorMessage(err, t)
+}
+
+interface PasskeySignInProps {
+  className?: string
+  /** Disable the button, e.g. while the email and password form is submitting. */
+  disabled?: boolean
+  /** Whether "Remember me" is ticked when the passkey is used. */
+  rememberMe?: boolean
+  /** Called once the session has started. Behind a guest AuthGuard, leave the redirect to it. */
+  onSignedIn?: () => void
+}
+
+/**
+ * "Sign in with a passkey" button. Where the browser supports it, passkeys are
+ * also offered in the autofill menu of the email field, which needs
+ * autocomplete="username webauthn" on that input.
+ */
+export function PasskeySignIn({ className, disabled = false, rememberMe = false, onSignedIn }: PasskeySignInProps) {
+  const t = useTranslations()
+  const { refresh } = useAuth()
+  const [pending, setPending] = useState(false)
+  // Kept as the error itself, so the message follows a language change
+  const [error, setError] = useState<unknown>(null)
+  // Bumped to restart the autofill request after the button's own request has finished
+  const [autofillRun, setAutofillRun] = useState(0)
+  const autofill = useRef<AbortController | null>(null)
+
+  const complete = async (credential: PasskeyAssertion) => {
+    try {
+      await notify.promise(loginWithPasskey({ credential, rememberMe }).then(() => refresh()), {
+        loading: t('passkey.toastSigningIn'),
+        success: t('login.toastSuccess'),
+        error: err => ({ title: t('passkey.toastFailed'), description: passkeyErrorMessage(err, t) }),
+      })
+    } catch (err) {
+      track('login_failed', { method: 'passkey', code: isApiError(err) ? err.code : 'UNKNOWN' })
+      throw err
+    }
+    track('login_succeeded', { method: 'passkey' })
+    onSignedIn?.()
+  }
+  // The autofill request can finish long after it started, with whatever the form says by then
+  const completeRef = useRef(complete)
+  useEffect(() => {
+    completeRef.current = complete
+  })
+
+  useEffect(() => {
+    const controller = new AbortController()
+    autofill.current = controller
+
+    const offerInAutofill = async () => {
+      if (!(await isConditionalMediationAvailable()) || controller.signal.aborted) return
+      const options = await getPasskeyLoginOptions({}, { signal: controller.signal })
+      // Waits, possibly for the whole visit, until the user picks a passkey from the autofill menu
+      const credential = await getPasskey(options, { conditional: true, signal: controller.signal })
+      setError(null)
+      setPending(true)
+      try {
+        await completeRef.current(credential)
+      } catch (err) {
+        setError(err)
+        // Offer the passkeys again, e.g. to pick another one
+        setAutofillRun(run => run + 1)
+      } finally {
+        setPending(false)
+      }
+    }
+    // Failing to set up the autofill (options endpoint down, offline, aborted for the button or
+    // on leaving the page) is not something the user tried, so it is not shown; the button still works
+    offerInAutofill().catch(() => {})
+
+    return () => controller.abort()
+  }, [autofillRun])
+
+  const handleClick = async () => {
+    // Browsers allow one WebAuthn request at a time
+    autofill.current?.abort()
+    setError(null)
+    setPending(true)
+    try {
+      const options = await getPasskeyLoginOptions()
+      await complete(await getPasskey(options))
+    } catch (err) {
+      setError(err)
+      setAutofillRun(run => run + 1)
+    } finally {
+      setPending(false)
+    }
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="h-px flex-1 bg-border" />
+        {t('oauth.divider')}
+        <span className="h-px flex-1 bg-border" />
+      </div>
+      {error !== null && (
+        <p role="alert" className="p-3 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive">
+          {passkeyErrorMessage(error, t)}
+        </p>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        disabled={disabled || pending}
+        onClick={handleClick}
+        className="w-full h-11 rounded-xl font-medium"
+      >
+        {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound className="h-4 w-4" />}
+        {pending ? t('passkey.signingIn') : t('passkey.signIn')}
+      </Button>
+    </div>
+  )
+}
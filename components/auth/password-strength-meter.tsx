@@ -0,0 +1,87 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  checkPassword,
+  defaultPasswordPolicy,
+  scorePassword,
+  ruleLabelKey,
+  PASSWORD_STRENGTH_KEYS,
+  type PasswordContext,
+  type PasswordPolicy,
+} from '@/lib/password-policy'
+import { useTranslations } from '@/components/i18n'
+
+const STRENGTH_COLORS = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-lime-500', 'bg-green-600']
+
+interface PasswordStrengthMeterProps {
+  password: string
+  context?: PasswordContext
+  policy?: PasswordPolicy
+  id?: string
+  className?: string
+}
+
+/** Live strength bar and rule checklist for a password field. */
+export function PasswordStrengthMeter({
+  password,
+  context,
+  policy = defaultPasswordPolicy,
+  id,
+  className,
+}: PasswordStrengthMeterProps) {
+  const t = useTranslations()
+  const results = useMemo(() => checkPassword(password, context, policy), [password, context, policy])
+  const strength = scorePassword(password, results)
+
+  return (
+    <div id={id} className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2">
+        <div
+          className="flex flex-1 gap-1"
+          role="meter"
+          aria-label={t('password.strengthLabel')}
+          aria-valuemin={0}
+          aria-valuemax={4}
+          aria-valuenow={strength}
+          aria-valuetext={t(PASSWORD_STRENGTH_KEYS[strength])}
+        >
+          {[1, 2, 3, 4].map(segment => (
+            <div
+              key={segment}
+              className={cn(
+                "h-1.5 flex-1 rounded-full transition-colors",
+                password && strength >= segment ? STRENGTH_COLORS[strength] : "bg-border"
+              )}
+            />
+          ))}
+        </div>
+        {password && (
+          <span className="text-xs font-medium text-muted-foreground w-16 text-right">
+            {t(PASSWORD_STRENGTH_KEYS[strength])}
+          </span>
+        )}
+      </div>
+
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+        {results.map(result => (
+          <li
+            key={result.id}
+            className={cn(
+              "flex items-center gap-1.5 text-xs",
+              result.passed ? "text-green-700 dark:text-green-400" : "text-muted-foreground"
+            )}
+          >
+            {result.passed
+              ? <Check className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+              : <X className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />}
+            <span>{t(ruleLabelKey(result.id), result.params)}</span>
+            <span className="sr-only">{result.passed ? t('password.met') : t('password.notMet')}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+'use client'
+
+import { Clock } from 'lucide-react'
+import { CaptchaChallenge } from '@/components/captcha'
+import { useTranslations } from '@/components/i18n'
+import type { RateLimitGuard } from '@/hooks/use-rate-limit-guard'
+import { cn, formatCountdown } from '@/lib/utils'
+
+/**
+ * Shows why an auth form can't be submitted right now: the countdown while
+ * the server throttles us, and the CAPTCHA once it asks for one.
+ */
+export function RateLimitNotice({ guard, className }: { guard: RateLimitGuard; className?: string }) {
+  const t = useTranslations()
+  if (!guard.throttled && !guard.captchaRequired) return null
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {guard.throttled && (
+        <div role="status" className="flex gap-3 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-900 dark:bg-amber-900/20 dark:border-amber-800 dark:text-amber-200">
+          <Clock className="h-5 w-5 shrink-0" aria-hidden="true" />
+          <div>
+            <p>{guard.message || t('rateLimit.tooManyAttempts')}</p>
+            {/* The message is announced once; a ticking clock would be read out every second */}
+            <p aria-live="off" className="font-medium tabular-nums">
+              {t('rateLimit.retryIn', { time: formatCountdown(guard.retryIn) })}
+            </p>
+          </div>
+        </div>
+      )}
+      {guard.captchaRequired && (
+        <CaptchaChallenge key={guard.captchaKey} onVerify={guard.onCaptchaVerify} onExpire={guard.onCaptchaExpire} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { resendVerification } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import type { Translate } from '@/lib/i18n'
+import { DEFAULT_REDIRECT } from '@/lib/redirect'
+import { useCooldown } from '@/hooks/use-cooldown'
+import { useTranslations } from '@/components/i18n'
+import { apiErrorMessage } from './api-error-message'
+
+const RESEND_COOLDOWN_SECONDS = 60
+
+interface ResendVerificationButtonProps {
+  email: string
+  className?: string
+  /** Start in cooldown, e.g. right after the signup email was sent. */
+  startInCooldown?: boolean
+  /** Post-login target the new link should carry. */
+  redirectTo?: string
+}
+
+interface SendVerificationOptions {
+  redirectTo?: string
+  onRetry?: () => void
+}
+
+/** Sends a new verification email, reporting progress and the outcome as a toast. */
+export function sendVerificationEmail(email: string, t: Translate, { redirectTo, onRetry }: SendVerificationOptions = {}) {
+  const target = redirectTo && redirectTo !== DEFAULT_REDIRECT ? redirectTo : undefined
+  return notify.promise(resendVerification({ email, redirectTo: target }), {
+    loading: t('verification.toastSending'),
+    success: { title: t('verification.toastSent'), description: t('verification.toastSentDescription', { email }) },
+    error: err => ({
+      title: t('verification.toastFailed'),
+      description: apiErrorMessage(err, t),
+      action: onRetry && { label: t('notify.retry'), onClick: onRetry },
+    }),
+  })
+}
+
+export function ResendVerificationButton({ email, className, startInCooldown = false, redirectTo }: ResendVerificationButtonProps) {
+  const t = useTranslations()
+  const [sending, setSending] = useState(false)
+  const cooldown = useCooldown(RESEND_COOLDOWN_SECONDS, startInCooldown)
+
+  const handleResend = async () => {
+    if (!email) {
+      notify.error(t('verification.emailRequired'))
+      return
+    }
+
+    setSending(true)
+    try {
+      await sendVerificationEmail(email, t, { redirectTo, onRetry: handleResend })
+      cooldown.start()
+    } catch {
+      // Already reported by the toast
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      onClick={handleResend}
+      disabled={sending || cooldown.active}
+      className={cn("w-full h-12 text-sm font-semibold rounded-lg", className)}
+    >
+      {sending ? (
+        <>
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {t('verification.sending')}
+        </>
+      ) : (
+        <>
+          <RefreshCw className="h-4 w-4" />
+          {cooldown.active
+            ? t('verification.resendIn', { seconds: cooldown.remaining })
+            : t('verification.resend')}
+        </>
+      )}
+    </Button>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useFormContext, useWatch } from 'react-hook-form'
+import { Input } from '@/components/ui/input'
+import { FormControl, FormField, FormItem, FormLabel, FormMessage, PasswordInput, PhoneInput } from '@/components/form'
+import { RichMessage, useTranslations } from '@/components/i18n'
+import type { SignUpFormData } from '@/lib/schemas/auth'
+import { legalDocuments } from '@/lib/legal'
+import { cn } from '@/lib/utils'
+import { PasswordStrengthMeter } from './password-strength-meter'
+
+// The signup fields, shared by the single-page form and the wizard's steps
+
+const fieldInputClass = cn(
+  "h-12 text-sm font-medium rounded-lg shadow-sm",
+  "focus:border-indigo-500 focus:ring-indigo-500"
+)
+
+interface FieldProps {
+  autoFocus?: boolean
+}
+
+export function NameField({ autoFocus }: FieldProps) {
+  const t = useTranslations()
+  const { control } = useFormContext<SignUpFormData>()
+
+  return (
+    <FormField
+      control={control}
+      name="name"
+      render={({ field }) => (
+        <FormItem className="space-y-1">
+          <FormLabel className="block text-xs font-medium text-foreground">{t('signup.name')}</FormLabel>
+          <FormControl>
+            <Input
+              placeholder={t('signup.namePlaceholder')}
+              autoComplete="name"
+              className={fieldInputClass}
+              autoFocus={autoFocus}
+              {...field}
+            />
+          </FormControl>
+          <FormMessage className="text-destructive mt-1" />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function MobileNumberField({ autoFocus }: FieldProps) {
+  const t = useTranslations()
+  const { control } = useFormContext<SignUpFormData>()
+
+  return (
+    <FormField
+      control={control}
+      name="mobileNumber"
+      render={({ field }) => (
+        <FormItem className="space-y-1">
+          <FormLabel className="block text-xs font-medium text-foreground">{t('signup.mobile')}</FormLabel>
+          <FormControl>
+            <PhoneInput
+              placeholder={t('signup.mobilePlaceholder')}
+              autoComplete="tel-national"
+              className={fieldInputClass}
+              autoFocus={autoFocus}
+              {...field}
+            />
+          </FormControl>
+          <FormMessage className="text-destructive mt-1" />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+export function EmailField({ autoFocus }: FieldProps) {
+  const t = useTranslations()
+  const { control } = useFormContext<SignUpFormData>()
+
+  return (
+    <FormField
+      control={control}
+      name="email"
+      render={({ field }) => (
+        <FormItem className="space-y-1">
+          <FormLabel className="block text-xs font-medium text-foreground">{t('signup.email')}</FormLabel>
+          <FormControl>
+            <Input
+              type="email"
+              placeholder={t('signup.emailPlaceholder')}
+              autoComplete="email"
+              className={fieldInputClass}
+              autoFocus={autoFocus}
+              {...field}
+            />
+          </FormControl>
+          <FormMessage className="text-destructive mt-1" />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+/** Password and confirmation side by side, with the strength meter underneath. */
+export function PasswordFields({ autoFocus }: FieldProps) {
+  const t = useTranslations()
+  const form = useFormContext<SignUpFormData>()
+  const [showPassword, setShowPassword] = useState(false)
+  const [name, email, password] = useWatch({ control: form.control, name: ['name', 'email', 'password'] })
+
+  // Keep the mismatch message on confirmPassword in sync while the password is edited
+  const revalidateConfirmation = () => {
+    if (form.getFieldState('confirmPassword').isTouched) {
+      form.trigger('confirmPassword')
+    }
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem className="space-y-1">
+              <FormLabel className="block text-xs font-medium text-foreground">{t('signup.password')}</FormLabel>
+              <FormControl>
+                <PasswordInput
+                  placeholder={t('signup.passwordPlaceholder')}
+                  autoComplete="new-password"
+                  className={fieldInputClass}
+                  visible={showPassword}
+                  onVisibleChange={setShowPassword}
+                  autoFocus={autoFocus}
+                  {...field}
+                  onChange={(e) => {
+                    field.onChange(e)
+                    revalidateConfirmation()
+                  }}
+                />
+              </FormControl>
+              <FormMessage className="text-destructive mt-1" />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem className="space-y-1">
+              <FormLabel className="block text-xs font-medium text-foreground">{t('signup.confirmPassword')}</FormLabel>
+              <FormControl>
+                <PasswordInput
+                  placeholder={t('signup.confirmPasswordPlaceholder')}
+                  autoComplete="new-password"
+                  className={fieldInputClass}
+                  visible={showPassword}
+                  hideToggle
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage className="text-destructive mt-1" />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <PasswordStrengthMeter password={password} context={{ name, email }} />
+    </>
+  )
+}
+
+export function AcceptTermsField({ autoFocus }: FieldProps) {
+  const t = useTranslations()
+  const { control } = useFormContext<SignUpFormData>()
+
+  return (
+    <FormField
+      control={control}
+      name="acceptTerms"
+      render={({ field: { value, onChange, ...field } }) => (
+        <FormItem className="space-y-1">
+          <div className="flex items-start gap-3">
+            <FormControl>
+              <input
+                type="checkbox"
+                checked={value}
+                onChange={(e) => onChange(e.target.checked)}
+                className="mt-0.5 h-4 w-4 shrink-0 accent-indigo-600"
+                autoFocus={autoFocus}
+                {...field}
+              />
+            </FormControl>
+            <FormLabel className="text-sm font-normal text-foreground">
+              <RichMessage
+                text={t('signup.acceptTerms')}
+                values={{
+                  terms: <LegalLink href={legalDocuments.terms.href}>{t('signup.termsLink')}</LegalLink>,
+                  privacy: <LegalLink href={legalDocuments.privacy.href}>{t('signup.privacyLink')}</LegalLink>,
+                }}
+              />
+            </FormLabel>
+          </div>
+          <FormMessage className="text-destructive mt-1" />
+        </FormItem>
+      )}
+    />
+  )
+}
+
+// Opens in a new tab so the form, and what's been typed into it, stays put
+function LegalLink({ href, children }: { href: string; children: React.ReactNode }) {
+  return (
+    <Link
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 underline-offset-2 hover:underline"
+    >
+      {children}
+    </Link>
+  )
+}
+
+export function MarketingOptInField() {
+  const t = useTranslations()
+  const { control } = useFormContext<SignUpFormData>()
+
+  return (
+    <FormField
+      control={control}
+      name="marketingOptIn"
+      render={({ field: { value, onChange, ...field } }) => (
+        <FormItem className="flex items-start gap-3 space-y-0">
+          <FormControl>
+            <input
+              type="checkbox"
+              checked={value}
+              onChange={(e) => onChange(e.target.checked)}
+              className="mt-0.5 h-4 w-4 shrink-0 accent-indigo-600"
+              {...field}
+            />
+          </FormControl>
+          <FormLabel className="text-sm font-normal text-muted-foreground">{t('signup.marketingOptIn')}</FormLabel>
+        </FormItem>
+      )}
+    />
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { Check } from 'lucide-react'
+import { useTranslations } from '@/components/i18n'
+import { signUpSteps, type SignUpStep } from '@/lib/schemas/auth'
+import { cn } from '@/lib/utils'
+
+/** Numbered steps of the signup wizard; earlier ones are ticked off. */
+export function SignUpProgress({ step, className }: { step: SignUpStep; className?: string }) {
+  const t = useTranslations()
+  const current = signUpSteps.indexOf(step)
+
+  return (
+    <nav aria-label={t('signup.progress')} className={cn("space-y-2", className)}>
+      <p className="text-xs font-medium text-muted-foreground">
+        {t('signup.stepOf', { current: current + 1, total: signUpSteps.length })}
+      </p>
+      <ol className="flex items-center gap-2">
+        {signUpSteps.map((id, index) => (
+          <li
+            key={id}
+            aria-current={index === current ? 'step' : undefined}
+            className="flex flex-1 items-center gap-2 text-xs"
+          >
+            <span
+              className={cn(
+                "flex h-6 w-6 shrink-0 items-center justify-center rounded-full border text-[11px] font-semibold",
+                index < current && "border-indigo-600 bg-indigo-600 text-white",
+                index === current && "border-indigo-600 text-indigo-600 dark:border-indigo-400 dark:text-indigo-400",
+                index > current && "border-border text-muted-foreground"
+              )}
+            >
+              {index < current ? <Check className="h-3.5 w-3.5" aria-hidden="true" /> : index + 1}
+            </span>
+            <span className={cn("hidden sm:inline truncate", index === current ? "font-medium text-foreground" : "text-muted-foreground")}>
+              {t(`signup.steps.${id}`)}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  )
+}
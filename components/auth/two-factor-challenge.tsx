@@ -0,0 +1,239 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Clock, Loader2, ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, OneTimeCodeInput, useSchemaRevalidation } from '@/components/form'
+import { useTranslations } from '@/components/i18n'
+import { useCooldown } from '@/hooks/use-cooldown'
+import { track, type LoginMethod } from '@/lib/analytics'
+import { isApiError, verifyTwoFactor, type TwoFactorChallenge as Challenge, type VerifyTwoFactorRequest } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import { formatCountdown } from '@/lib/utils'
+import {
+  createRecoveryCodeSchema,
+  createTwoFactorCodeSchema,
+  TWO_FACTOR_CODE_LENGTH,
+  type RecoveryCodeFormData,
+  type TwoFactorCodeFormData,
+} from '@/lib/schemas/auth'
+import { apiErrorMessage } from './api-error-message'
+import { useAuth } from './auth-provider'
+
+const submitButtonClass = "w-full h-14 text-base font-semibold rounded-xl bg-gradient-to-r from-indigo-600 via-purple-600 to-pink-600 hover:from-indigo-700 hover:via-purple-700 hover:to-pink-700 text-white disabled:opacity-70 disabled:cursor-not-allowed shadow-lg transition-all duration-200 hover:shadow-xl"
+const linkButtonClass = "text-sm font-medium text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300"
+
+/** Submits a code and reports whether the challenge is still usable. */
+type Verify = (data: VerifyTwoFactorRequest) => Promise<'verified' | 'rejected' | 'expired'>
+
+function AppCodeForm({ challengeToken, verify }: { challengeToken: string; verify: Verify }) {
+  const t = useTranslations()
+  const schema = useMemo(() => createTwoFactorCodeSchema(t), [t])
+  const form = useForm<TwoFactorCodeFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { code: '' },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleVerify = async ({ code }: TwoFactorCodeFormData) => {
+    if (await verify({ challengeToken, code }) === 'rejected') {
+      // Codes are short-lived; start the next attempt from an empty field
+      form.reset({ code: '' })
+      form.setFocus('code')
+    }
+  }
+  const submit = form.handleSubmit(handleVerify)
+  const { isSubmitting } = form.formState
+
+  return (
+    <Form {...form}>
+      <form onSubmit={submit} className="space-y-6" noValidate>
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem className="space-y-2">
+              <FormLabel className="block text-sm font-medium text-foreground">{t('twoFactor.codeLabel')}</FormLabel>
+              <FormControl>
+                <OneTimeCodeInput
+                  ref={field.ref}
+                  value={field.value}
+                  onChange={value => {
+                    field.onChange(value)
+                    if (form.formState.errors.code) form.clearErrors('code')
+                  }}
+                  onComplete={() => {
+                    if (!isSubmitting) submit()
+                  }}
+                  length={TWO_FACTOR_CODE_LENGTH}
+                  autoFocus
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSubmitting} className={submitButtonClass}>
+          {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin" /> : <ShieldCheck className="h-5 w-5" />}
+          {isSubmitting ? t('twoFactor.submitting') : t('twoFactor.submit')}
+        </Button>
+      </form>
+    </Form>
+  )
+}
+
+function RecoveryCodeForm({ challengeToken, verify }: { challengeToken: string; verify: Verify }) {
+  const t = useTranslations()
+  const schema = useMemo(() => createRecoveryCodeSchema(t), [t])
+  const form = useForm<RecoveryCodeFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { recoveryCode: '' },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleVerify = async ({ recoveryCode }: RecoveryCodeFormData) => {
+    await verify({ challengeToken, recoveryCode })
+  }
+  const { isSubmitting } = form.formState
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleVerify)} className="space-y-6" noValidate>
+        <FormField
+          control={form.control}
+          name="recoveryCode"
+          render={({ field }) => (
+            <FormItem className="space-y-2">
+              <FormLabel className="block text-sm font-medium text-foreground">{t('twoFactor.recoveryLabel')}</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder={t('twoFactor.recoveryPlaceholder')}
+                  autoComplete="off"
+                  autoCapitalize="none"
+                  spellCheck={false}
+                  className="h-14 text-lg font-mono rounded-xl shadow-sm"
+                  autoFocus
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isSubmitting} className={submitButtonClass}>
+          {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin" /> : <ShieldCheck className="h-5 w-5" />}
+          {isSubmitting ? t('twoFactor.submitting') : t('twoFactor.submit')}
+        </Button>
+      </form>
+    </Form>
+  )
+}
+
+interface TwoFactorChallengeProps {
+  challenge: Challenge
+  /** How the first step was passed, which the sign-in is tracked under. */
+  method: LoginMethod
+  /** Called once the session has started. Behind a guest AuthGuard, leave the redirect to it. */
+  onVerified?: () => void
+  /** Returns to the password step, e.g. after the challenge expired. */
+  onCancel: () => void
+}
+
+/**
+ * Second sign-in step for accounts with 2FA: a code from the authenticator
+ * app, or a recovery code as a fallback, before the challenge runs out.
+ */
+export function TwoFactorChallenge({ challenge, method, onVerified, onCancel }: TwoFactorChallengeProps) {
+  const t = useTranslations()
+  const { refresh } = useAuth()
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expiredByServer, setExpiredByServer] = useState(false)
+  const countdown = useCooldown(challenge.expiresIn, true)
+  const expired = expiredByServer || !countdown.active
+
+  const verify: Verify = async data => {
+    setError(null)
+    try {
+      await notify.promise(verifyTwoFactor(data).then(() => refresh()), {
+        loading: t('twoFactor.toastVerifying'),
+        success: t('login.toastSuccess'),
+        error: err => ({
+          title: t('twoFactor.toastFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      track('login_succeeded', { method })
+      onVerified?.()
+      return 'verified'
+    } catch (err) {
+      track('login_failed', { method, code: isApiError(err) ? err.code : 'UNKNOWN' })
+      if (isApiError(err) && (err.code === 'CHALLENGE_EXPIRED' || err.status === 410)) {
+        setExpiredByServer(true)
+        return 'expired'
+      }
+      setError(apiErrorMessage(err, t))
+      return 'rejected'
+    }
+  }
+
+  if (expired) {
+    return (
+      <div className="space-y-6 text-center">
+        <div className="mx-auto w-14 h-14 rounded-full bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center">
+          <Clock className="h-7 w-7 text-amber-600 dark:text-amber-400" />
+        </div>
+        <p className="text-sm text-muted-foreground" role="alert">{t('twoFactor.expired')}</p>
+        <Button type="button" onClick={onCancel} className={submitButtonClass}>
+          {t('twoFactor.startOver')}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-foreground">{t('twoFactor.title')}</h2>
+        <p className="mt-1 text-sm text-muted-foreground">
+          {useRecoveryCode ? t('twoFactor.recoveryDescription') : t('twoFactor.codeDescription')}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-destructive/10 border border-destructive/30 text-sm text-destructive" role="alert">
+          {error}
+        </div>
+      )}
+
+      {useRecoveryCode
+        ? <RecoveryCodeForm challengeToken={challenge.challengeToken} verify={verify} />
+        : <AppCodeForm challengeToken={challenge.challengeToken} verify={verify} />}
+
+      <div className="flex items-center justify-between gap-4">
+        <button
+          type="button"
+          className={linkButtonClass}
+          onClick={() => {
+            setUseRecoveryCode(value => !value)
+            setError(null)
+          }}
+        >
+          {useRecoveryCode ? t('twoFactor.useApp') : t('twoFactor.useRecovery')}
+        </button>
+        <span className="text-xs text-muted-foreground tabular-nums" aria-live="off">
+          {t('twoFactor.expiresIn', { time: formatCountdown(countdown.remaining) })}
+        </span>
+      </div>
+
+      <div className="text-center">
+        <button type="button" className={linkButtonClass} onClick={onCancel}>
+          {t('twoFactor.startOver')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { useState } from 'react'
+import { ShieldAlert } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useConfig } from '@/components/config'
+import { useTranslations } from '@/components/i18n'
+import { getCaptchaProvider } from './registry'
+
+interface CaptchaChallengeProps {
+  onVerify: (token: string) => void
+  onExpire: () => void
+  className?: string
+}
+
+/**
+ * The configured provider's widget under a short explanation. Without a
+ * provider the form can't get past the backend, so say so instead.
+ */
+export function CaptchaChallenge({ onVerify, onExpire, className }: CaptchaChallengeProps) {
+  const t = useTranslations()
+  const { captcha } = useConfig()
+  const [provider] = useState(() => getCaptchaProvider(captcha?.provider))
+  const [failed, setFailed] = useState<string | null>(null)
+
+  return (
+    <fieldset className={cn("space-y-2", className)}>
+      <legend className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <ShieldAlert className="h-4 w-4 text-amber-600 dark:text-amber-400" aria-hidden="true" />
+        {t('captcha.title')}
+      </legend>
+      <p className="text-xs text-muted-foreground">{t('captcha.description')}</p>
+      {provider ? (
+        <provider.Widget siteKey={captcha?.siteKey} onVerify={onVerify} onExpire={onExpire} onError={setFailed} />
+      ) : null}
+      {(!provider || failed) && (
+        <p className="text-xs text-destructive" role="alert">
+          {provider ? failed : t('captcha.unavailable')}
+        </p>
+      )}
+    </fieldset>
+  )
+}
@@ -0,0 +1,4 @@
+export { CaptchaChallenge } from './captcha-challenge'
+export { getCaptchaProvider, registerCaptchaProvider } from './registry'
+export { localCaptchaProvider, LOCAL_CAPTCHA_TOKEN_PREFIX } from './local-captcha'
+export type { CaptchaProvider, CaptchaWidgetProps } from './types'
@@ -0,0 +1,65 @@
+'use client'
+
+import { useEffect, useId, useState } from 'react'
+import { Bot } from 'lucide-react'
+import { useTranslations } from '@/components/i18n'
+import type { CaptchaProvider, CaptchaWidgetProps } from './types'
+
+/** Prefix the mock API accepts; a real backend rejects these tokens. */
+export const LOCAL_CAPTCHA_TOKEN_PREFIX = 'local-captcha.'
+
+/** How long a token stays valid before the box unticks itself, like hosted widgets do. */
+export const LOCAL_CAPTCHA_TTL_MS = 2 * 60 * 1000
+
+/**
+ * Offline stand-in for a hosted CAPTCHA: a checkbox that issues a token the
+ * mock API accepts. Lets the CAPTCHA flow run in development and tests
+ * without loading third-party scripts.
+ */
+function LocalCaptcha({ onVerify, onExpire }: CaptchaWidgetProps) {
+  const t = useTranslations()
+  const id = useId()
+  const [checked, setChecked] = useState(false)
+
+  useEffect(() => {
+    if (!checked) return
+    const timer = setTimeout(() => {
+      setChecked(false)
+      onExpire()
+    }, LOCAL_CAPTCHA_TTL_MS)
+    return () => clearTimeout(timer)
+  }, [checked, onExpire])
+
+  const handleChange = (value: boolean) => {
+    setChecked(value)
+    if (value) {
+      onVerify(`${LOCAL_CAPTCHA_TOKEN_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`)
+    } else {
+      onExpire()
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-md border border-border bg-muted/50 px-3 py-2">
+      <label htmlFor={id} className="flex items-center gap-3 text-sm font-medium text-foreground">
+        <input
+          id={id}
+          type="checkbox"
+          checked={checked}
+          onChange={(e) => handleChange(e.target.checked)}
+          className="h-5 w-5 accent-indigo-600"
+        />
+        {t('captcha.local.label')}
+      </label>
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Bot className="h-4 w-4" aria-hidden="true" />
+        {t('captcha.local.badge')}
+      </span>
+    </div>
+  )
+}
+
+export const localCaptchaProvider: CaptchaProvider = {
+  id: 'local',
+  Widget: LocalCaptcha,
+}
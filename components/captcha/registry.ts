@@ -0,0 +1,15 @@
+import { localCaptchaProvider } from './local-captcha'
+import type { CaptchaProvider } from './types'
+
+const providers = new Map<string, CaptchaProvider>([[localCaptchaProvider.id, localCaptchaProvider]])
+
+/** Makes a provider selectable through the config's `captcha.provider`; call before the forms render. */
+export function registerCaptchaProvider(provider: CaptchaProvider) {
+  providers.set(provider.id, provider)
+}
+
+/** The provider registered as `id`, or null when none is configured (or the name is unknown). */
+export function getCaptchaProvider(id: string | undefined): CaptchaProvider | null {
+  const name = id?.trim().toLowerCase()
+  return (name && providers.get(name)) || null
+}
@@ -0,0 +1,23 @@
+import type { ComponentType } from 'react'
+
+export interface CaptchaWidgetProps {
+  /** Public key identifying this site to the provider, when it needs one. */
+  siteKey?: string
+  /** Called with a token to send along with the protected request. */
+  onVerify: (token: string) => void
+  /** The last token can no longer be used; the user has to solve it again. */
+  onExpire: () => void
+  /** The provider failed to load or errored out. */
+  onError?: (message: string) => void
+}
+
+/**
+ * A CAPTCHA implementation the auth forms can show when the backend asks
+ * for one. Third-party providers wrap their script in a Widget; the backend
+ * verifies the token it produces.
+ */
+export interface CaptchaProvider {
+  /** Value of the config's `captcha.provider` that selects this provider. */
+  id: string
+  Widget: ComponentType<CaptchaWidgetProps>
+}
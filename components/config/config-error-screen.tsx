@@ -0,0 +1,53 @@
+'use client'
+
+import { AlertTriangle, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card } from "@/components/ui/card"
+import { useTranslations } from '@/components/i18n'
+import { RUNTIME_CONFIG_PATH, type RuntimeConfigError } from '@/lib/config'
+
+interface ConfigErrorScreenProps {
+  error: RuntimeConfigError
+  onRetry: () => void
+}
+
+/**
+ * Shown instead of the whole app when config.json can't be used. Visitors
+ * can only retry; the details are for whoever deploys the app.
+ */
+export function ConfigErrorScreen({ error, onRetry }: ConfigErrorScreenProps) {
+  const t = useTranslations()
+  const reason = {
+    MISSING: t('config.missing', { path: RUNTIME_CONFIG_PATH }),
+    UNREACHABLE: t('config.unreachable', { path: RUNTIME_CONFIG_PATH }),
+    INVALID: t('config.invalid', { path: RUNTIME_CONFIG_PATH }),
+  }[error.code]
+
+  return (
+    <div className="min-h-screen bg-muted flex items-center justify-center p-4">
+      <Card role="alert" className="shadow-xl border-0 w-full max-w-lg rounded-2xl p-8">
+        <div className="mb-6 flex h-14 w-14 items-center justify-center rounded-full bg-destructive/10">
+          <AlertTriangle className="h-7 w-7 text-destructive" aria-hidden="true" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground mb-2">{t('config.title')}</h1>
+        <p className="text-sm text-muted-foreground">{t('config.description')}</p>
+
+        <div className="mt-6 rounded-lg border border-border bg-muted p-4 text-sm">
+          <p className="font-medium text-foreground">{reason}</p>
+          {error.issues.length > 0 && (
+            <ul className="mt-2 space-y-1 font-mono text-xs text-destructive" aria-label={t('config.issues')}>
+              {error.issues.map(issue => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Button type="button" onClick={onRetry} className="mt-6 w-full h-12 text-sm font-semibold rounded-lg">
+          <RefreshCw className="h-4 w-4" />
+          {t('config.retry')}
+        </Button>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { loadRuntimeConfig, RuntimeConfigError, setRuntimeConfig, type RuntimeConfig } from '@/lib/config'
+import { ConfigErrorScreen } from './config-error-screen'
+
+const ConfigContext = createContext<RuntimeConfig | null>(null)
+
+type ConfigState =
+  | { status: 'loading' }
+  | { status: 'ready'; config: RuntimeConfig }
+  | { status: 'error'; error: RuntimeConfigError }
+
+interface ConfigProviderProps {
+  children: React.ReactNode
+  /** Use this config instead of fetching /config.json, e.g. in tests. */
+  config?: RuntimeConfig
+}
+
+/**
+ * Loads /config.json before anything else renders, and shows a full-page
+ * error instead of the app when the file is missing or invalid.
+ */
+export function ConfigProvider({ children, config }: ConfigProviderProps) {
+  const [state, setState] = useState<ConfigState>(() => {
+    if (!config) return { status: 'loading' }
+    setRuntimeConfig(config)
+    return { status: 'ready', config }
+  })
+
+  const load = useCallback(async (signal?: AbortSignal) => {
+    setState({ status: 'loading' })
+    try {
+      const loaded = await loadRuntimeConfig({ signal })
+      setState({ status: 'ready', config: loaded })
+    } catch (err) {
+      if (signal?.aborted) return
+      setState({
+        status: 'error',
+        error: err instanceof RuntimeConfigError ? err : new RuntimeConfigError('UNREACHABLE', String(err)),
+      })
+    }
+  }, [])
+
+  useEffect(() => {
+    if (config) return
+    const controller = new AbortController()
+    load(controller.signal)
+    return () => controller.abort()
+  }, [config, load])
+
+  if (state.status === 'error') {
+    return <ConfigErrorScreen error={state.error} onRetry={() => load()} />
+  }
+
+  if (state.status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center" role="status" aria-live="polite">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        <span className="sr-only">Loading...</span>
+      </div>
+    )
+  }
+
+  return <ConfigContext.Provider value={state.config}>{children}</ConfigContext.Provider>
+}
+
+/** The deployment's settings from /config.json. */
+export function useConfig(): RuntimeConfig {
+  const config = useContext(ConfigContext)
+  if (!config) {
+    throw new Error('useConfig must be used within a ConfigProvider')
+  }
+  return config
+}
@@ -0,0 +1,2 @@
+export { ConfigProvider, useConfig } from './config-provider'
+export { ConfigErrorScreen } from './config-error-screen'
@@ -0,0 +1,80 @@
+'use client'
+
+import { useMemo } from 'react'
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { Card } from "@/components/ui/card"
+import { useConfig } from '@/components/config'
+import { LanguageSelect, useLocale, useTranslations } from '@/components/i18n'
+import { ThemeToggle } from '@/components/theme'
+
+type ContentPageId = 'terms' | 'privacy' | 'help'
+
+interface ContentPageProps {
+  page: ContentPageId
+  /** Rendered Markdown, produced at build time from the files in `content/` */
+  html: string
+  /** Shown under the title for versioned documents */
+  version?: string
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;')
+
+// Tailwind has no typography plugin here, so style the rendered Markdown elements directly
+const proseClass = [
+  "text-sm leading-relaxed text-foreground",
+  "[&_h2]:text-lg [&_h2]:font-semibold [&_h2]:mt-8 [&_h2]:mb-3 [&_h2]:scroll-mt-6",
+  "[&_p]:my-3 [&_ul]:my-3 [&_ul]:list-disc [&_ul]:pl-6 [&_li]:my-1",
+  "[&_a]:font-medium [&_a]:text-indigo-600 hover:[&_a]:text-indigo-800 dark:[&_a]:text-indigo-400 dark:hover:[&_a]:text-indigo-300",
+  "[&_blockquote]:my-4 [&_blockquote]:rounded-lg [&_blockquote]:border [&_blockquote]:border-border [&_blockquote]:bg-muted [&_blockquote]:px-4 [&_blockquote]:text-muted-foreground",
+].join(" ")
+
+export function ContentPage({ page, html, version }: ContentPageProps) {
+  const t = useTranslations()
+  const { locale } = useLocale()
+  const { supportEmail } = useConfig()
+  // The documents name the support address from config.json, which differs per deployment
+  const filledHtml = useMemo(() => html.replace(/\{\{supportEmail\}\}/g, escapeHtml(supportEmail)), [html, supportEmail])
+
+  return (
+    <div className="min-h-screen bg-muted px-4 py-10">
+      <div className="mx-auto w-full max-w-3xl">
+        <Link
+          href="/"
+          className="inline-flex items-center text-sm font-semibold text-indigo-600 hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300 mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          {t('content.back')}
+        </Link>
+
+        <Card className="shadow-xl border-0 rounded-2xl p-8">
+          <header>
+            <h1 className="text-2xl font-bold text-foreground">{t(`content.${page}.title`)}</h1>
+            {version && (
+              <p className="text-xs text-muted-foreground mt-1">{t('content.version', { version })}</p>
+            )}
+            {locale !== 'en' && (
+              <p className="text-xs text-muted-foreground mt-3">{t('content.englishOnly')}</p>
+            )}
+          </header>
+          {/* The Markdown is our own, read from the repository at build time */}
+          <div lang="en" className={proseClass} dangerouslySetInnerHTML={{ __html: filledHtml }} />
+        </Card>
+
+        <footer className="mt-6 flex justify-between text-xs text-muted-foreground">
+          <div className="flex items-center gap-4">
+            <LanguageSelect />
+            <ThemeToggle />
+          </div>
+          <nav className="flex gap-4">
+            <Link href="/help" className="hover:text-foreground">{t('footer.help')}</Link>
+            <Link href="/privacy" className="hover:text-foreground">{t('footer.privacy')}</Link>
+            <Link href="/terms" className="hover:text-foreground">{t('footer.terms')}</Link>
+            <a href={`mailto:${supportEmail}`} className="hover:text-foreground">{t('footer.contact')}</a>
+          </nav>
+        </footer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { ContentPage } from './content-page'
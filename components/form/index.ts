@@ -0,0 +1,15 @@
+export {
+  useFormField,
+  Form,
+  FormItem,
+  FormLabel,
+  FormControl,
+  FormDescription,
+  FormMessage,
+  FormField,
+} from "./form"
+export { OneTimeCodeInput } from "./one-time-code-input"
+export { PasswordInput } from "./password-input"
+export { PhoneInput } from "./phone-input"
+export { setServerErrors } from "./server-errors"
+export { useSchemaRevalidation } from "./use-schema-revalidation"
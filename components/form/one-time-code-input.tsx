@@ -0,0 +1,138 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+import { useTranslations } from "@/components/i18n"
+
+type OneTimeCodeInputProps = {
+  value: string
+  onChange: (value: string) => void
+  /** Called once every box is filled, e.g. to submit without a button press. */
+  onComplete?: (value: string) => void
+  length?: number
+  /** Applied to the first box, so a `<label htmlFor>` or `form.setFocus` focuses it. */
+  id?: string
+  ref?: React.Ref<HTMLInputElement>
+  disabled?: boolean
+  autoFocus?: boolean
+  className?: string
+  "aria-invalid"?: boolean
+  "aria-describedby"?: string
+}
+
+function assignRef<T>(ref: React.Ref<T> | undefined, value: T | null) {
+  if (typeof ref === "function") ref(value)
+  else if (ref) ref.current = value
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "")
+
+/**
+ * Segmented numeric code entry: one box per digit, focus moves along as the
+ * user types or deletes, and pasting (or the browser's SMS autofill) fills
+ * every box at once.
+ */
+function OneTimeCodeInput({
+  value,
+  onChange,
+  onComplete,
+  length = 6,
+  id,
+  ref,
+  disabled,
+  autoFocus,
+  className,
+  ...aria
+}: OneTimeCodeInputProps) {
+  const t = useTranslations()
+  const inputs = React.useRef<(HTMLInputElement | null)[]>([])
+  const digits = Array.from({ length }, (_, index) => value[index] ?? "")
+
+  const focusBox = (index: number) => {
+    const input = inputs.current[Math.max(0, Math.min(length - 1, index))]
+    input?.focus()
+    input?.select()
+  }
+
+  // Writes `entered` from box `index` on; boxes fill left to right, so never leave a gap
+  const fill = (index: number, entered: string) => {
+    const start = Math.min(index, value.length)
+    const next = (value.slice(0, start) + entered + value.slice(start + entered.length)).slice(0, length)
+    onChange(next)
+    focusBox(start + entered.length)
+    if (next.length === length) onComplete?.(next)
+  }
+
+  const handleChange = (index: number, event: React.ChangeEvent<HTMLInputElement>) => {
+    const entered = digitsOnly(event.target.value)
+    if (!entered) return
+    if (entered.length >= length) {
+      // Autofill hands the whole code to a single box
+      fill(0, entered.slice(0, length))
+    } else {
+      // Typing into a filled box: keep the digit just typed
+      fill(index, entered.slice(-1))
+    }
+  }
+
+  const handleKeyDown = (index: number, event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Backspace") {
+      event.preventDefault()
+      if (digits[index]) {
+        onChange(value.slice(0, index) + value.slice(index + 1))
+      } else if (index > 0) {
+        onChange(value.slice(0, index - 1) + value.slice(index))
+        focusBox(index - 1)
+      }
+    } else if (event.key === "ArrowLeft") {
+      event.preventDefault()
+      focusBox(index - 1)
+    } else if (event.key === "ArrowRight") {
+      event.preventDefault()
+      focusBox(index + 1)
+    }
+  }
+
+  const handlePaste = (index: number, event: React.ClipboardEvent<HTMLInputElement>) => {
+    event.preventDefault()
+    const pasted = digitsOnly(event.clipboardData.getData("text"))
+    if (pasted) fill(pasted.length >= length ? 0 : index, pasted.slice(0, length))
+  }
+
+  return (
+    <div role="group" aria-label={t("oneTimeCode.label")} className={cn("flex gap-2", className)}>
+      {digits.map((digit, index) => (
+        <input
+          key={index}
+          ref={element => {
+            inputs.current[index] = element
+            if (index === 0) assignRef(ref, element)
+          }}
+          id={index === 0 ? id : undefined}
+          type="text"
+          inputMode="numeric"
+          pattern="[0-9]*"
+          autoComplete={index === 0 ? "one-time-code" : "off"}
+          aria-label={t("oneTimeCode.digit", { index: index + 1, length })}
+          value={digit}
+          disabled={disabled}
+          autoFocus={autoFocus && index === 0}
+          onChange={event => handleChange(index, event)}
+          onKeyDown={event => handleKeyDown(index, event)}
+          onPaste={event => handlePaste(index, event)}
+          onFocus={event => event.target.select()}
+          className={cn(
+            "h-12 w-10 sm:w-12 rounded-lg border border-input bg-transparent text-center text-xl font-semibold shadow-xs outline-none transition-[color,box-shadow] dark:bg-input/30",
+            "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+            "aria-invalid:border-destructive aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40",
+            "disabled:cursor-not-allowed disabled:opacity-50"
+          )}
+          {...aria}
+        />
+      ))}
+    </div>
+  )
+}
+
+export { OneTimeCodeInput }
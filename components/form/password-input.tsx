@@ -0,0 +1,57 @@
+"use client"
+
+import * as React from "react"
+import { Eye, EyeOff } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { Input } from "@/components/ui/input"
+import { useTranslations } from "@/components/i18n"
+
+type PasswordInputProps = Omit<React.ComponentProps<"input">, "type"> & {
+  /** Controlled visibility, e.g. to reveal a password and its confirmation together. */
+  visible?: boolean
+  onVisibleChange?: (visible: boolean) => void
+  /** Hide the built-in toggle when another control owns the visibility. */
+  hideToggle?: boolean
+}
+
+function PasswordInput({
+  className,
+  visible,
+  onVisibleChange,
+  hideToggle = false,
+  ...props
+}: PasswordInputProps) {
+  const t = useTranslations()
+  const [internalVisible, setInternalVisible] = React.useState(false)
+  const isVisible = visible ?? internalVisible
+
+  const toggle = () => {
+    const next = !isVisible
+    if (visible === undefined) setInternalVisible(next)
+    onVisibleChange?.(next)
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        type={isVisible ? "text" : "password"}
+        className={cn(!hideToggle && "pr-10", className)}
+        {...props}
+      />
+      {!hideToggle && (
+        <button
+          type="button"
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+          onClick={toggle}
+          aria-label={isVisible ? t("password.hide") : t("password.show")}
+          aria-pressed={isVisible}
+        >
+          {isVisible ? <EyeOff size={18} /> : <Eye size={18} />}
+        </button>
+      )}
+    </div>
+  )
+}
+
+export { PasswordInput }
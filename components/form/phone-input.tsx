@@ -0,0 +1,144 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+import { Input } from "@/components/ui/input"
+import { useLocale, useTranslations } from "@/components/i18n"
+import {
+  composePhoneNumber,
+  detectCountry,
+  formatNational,
+  getCountryOptions,
+  getDialCode,
+  splitPhoneNumber,
+  FALLBACK_COUNTRY,
+  type CountryCode,
+} from "@/lib/phone"
+
+type PhoneInputProps = Omit<React.ComponentProps<"input">, "value" | "onChange" | "type"> & {
+  /** International number, E.164 once it parses (e.g. "+14155552671"). */
+  value: string
+  onChange: (value: string) => void
+  /** Country used until the user picks one. Detected from the browser locale when omitted. */
+  defaultCountry?: CountryCode
+}
+
+/**
+ * Phone number field with a country dial-code picker. The national number is
+ * formatted as the user types; `onChange` always receives the international value.
+ */
+function PhoneInput({
+  value,
+  onChange,
+  defaultCountry,
+  className,
+  disabled,
+  ...props
+}: PhoneInputProps) {
+  const t = useTranslations()
+  const { locale } = useLocale()
+  const [country, setCountry] = React.useState<CountryCode>(
+    () => splitPhoneNumber(value, defaultCountry ?? FALLBACK_COUNTRY).country
+  )
+  const [nationalDigits, setNationalDigits] = React.useState(
+    () => splitPhoneNumber(value, defaultCountry ?? FALLBACK_COUNTRY).nationalDigits
+  )
+  const countryTouched = React.useRef(Boolean(value))
+  const lastEmitted = React.useRef(value)
+  const countries = React.useMemo(() => getCountryOptions(locale), [locale])
+
+  // navigator is not available while prerendering, so detect the locale after mount
+  React.useEffect(() => {
+    if (!defaultCountry && !countryTouched.current) setCountry(detectCountry())
+  }, [defaultCountry])
+
+  // Follow values set from outside, e.g. form.reset()
+  React.useEffect(() => {
+    if (value === lastEmitted.current) return
+    lastEmitted.current = value
+    const next = splitPhoneNumber(value, country)
+    setCountry(next.country)
+    setNationalDigits(next.nationalDigits)
+  }, [value, country])
+
+  const emit = (nextCountry: CountryCode, digits: string) => {
+    const next = composePhoneNumber(nextCountry, digits)
+    lastEmitted.current = next
+    onChange(next)
+  }
+
+  const handleCountryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextCountry = e.target.value as CountryCode
+    countryTouched.current = true
+    setCountry(nextCountry)
+    emit(nextCountry, nationalDigits)
+  }
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const raw = e.target.value
+
+    // A pasted international number selects its own country
+    if (raw.trim().startsWith("+")) {
+      const next = splitPhoneNumber(raw.replace(/[^\d+]/g, ""), country)
+      countryTouched.current = true
+      setCountry(next.country)
+      setNationalDigits(next.nationalDigits)
+      emit(next.country, next.nationalDigits)
+      return
+    }
+
+    let digits = raw.replace(/\D/g, "")
+    // Deleting only punctuation, e.g. the ")" after "(415", would be formatted straight back;
+    // take the digit before the caret with it so Backspace keeps going
+    const shown = formatNational(nationalDigits, country)
+    if (digits === nationalDigits && raw.length < shown.length) {
+      const caret = e.target.selectionStart ?? raw.length
+      const digitsBeforeCaret = raw.slice(0, caret).replace(/\D/g, "").length
+      if (digitsBeforeCaret > 0) {
+        digits = digits.slice(0, digitsBeforeCaret - 1) + digits.slice(digitsBeforeCaret)
+      }
+    }
+    setNationalDigits(digits)
+    emit(country, digits)
+  }
+
+  return (
+    <div className="flex gap-2">
+      <select
+        aria-label={t("phone.countryCode")}
+        value={country}
+        onChange={handleCountryChange}
+        disabled={disabled}
+        className={cn(
+          "border-input rounded-md border bg-transparent px-2 text-sm shadow-xs outline-none",
+          "focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+          "w-28 shrink-0",
+          className
+        )}
+      >
+        {countries.map(option => (
+          <option key={option.code} value={option.code}>
+            {option.flag} {option.name} ({option.dialCode})
+          </option>
+        ))}
+      </select>
+      <div className="relative flex-1">
+        <span className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+          {getDialCode(country)}
+        </span>
+        <Input
+          type="tel"
+          inputMode="tel"
+          value={formatNational(nationalDigits, country)}
+          onChange={handleNumberChange}
+          disabled={disabled}
+          className={cn("pl-14", className)}
+          {...props}
+        />
+      </div>
+    </div>
+  )
+}
+
+export { PhoneInput }
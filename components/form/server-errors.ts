@@ -0,0 +1,24 @@
+import type { FieldPath, FieldValues, UseFormReturn } from "react-hook-form"
+import { isApiError } from "@/lib/api"
+
+/**
+ * Copies field errors from an ApiError onto the matching form fields.
+ * Returns true when at least one field was marked.
+ */
+export function setServerErrors<TFieldValues extends FieldValues>(
+  form: UseFormReturn<TFieldValues>,
+  error: unknown,
+  fields: readonly FieldPath<TFieldValues>[],
+): boolean {
+  if (!isApiError(error)) return false
+
+  let applied = false
+  for (const field of fields) {
+    const message = error.fieldError(field)
+    if (message) {
+      form.setError(field, { type: "server", message }, { shouldFocus: !applied })
+      applied = true
+    }
+  }
+  return applied
+}
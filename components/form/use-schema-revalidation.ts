@@ -0,0 +1,18 @@
+"use client"
+
+import { useEffect } from "react"
+import type { FieldPath, FieldValues, UseFormReturn } from "react-hook-form"
+
+/**
+ * Re-runs validation on fields that already show an error whenever the schema
+ * changes, so messages on screen follow a language change.
+ */
+export function useSchemaRevalidation<TFieldValues extends FieldValues>(
+  form: UseFormReturn<TFieldValues>,
+  schema: unknown,
+) {
+  useEffect(() => {
+    const invalidFields = Object.keys(form.formState.errors) as FieldPath<TFieldValues>[]
+    if (invalidFields.length > 0) form.trigger(invalidFields)
+  }, [form, schema])
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import {
+  catalogs,
+  createTranslator,
+  defaultLocale,
+  detectLocale,
+  LOCALE_STORAGE_KEY,
+  type Locale,
+  type Translate,
+} from '@/lib/i18n'
+
+interface I18nContextValue {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: Translate
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null)
+
+/**
+ * Client-side locale state. The static export has no locale routing, so pages
+ * render in the default locale and switch once the stored choice is read.
+ */
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(defaultLocale)
+
+  useEffect(() => {
+    setLocaleState(detectLocale())
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next)
+    try {
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, next)
+    } catch {
+      // The choice still applies to this visit
+    }
+  }, [])
+
+  const value = useMemo(
+    () => ({ locale, setLocale, t: createTranslator(catalogs[locale]) }),
+    [locale, setLocale]
+  )
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+function useI18nContext(): I18nContextValue {
+  const context = useContext(I18nContext)
+  if (!context) {
+    throw new Error('useTranslations must be used within an I18nProvider')
+  }
+  return context
+}
+
+/** Returns `t()` for the current locale. */
+export function useTranslations(): Translate {
+  return useI18nContext().t
+}
+
+export function useLocale(): Pick<I18nContextValue, 'locale' | 'setLocale'> {
+  const { locale, setLocale } = useI18nContext()
+  return { locale, setLocale }
+}
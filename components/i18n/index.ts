@@ -0,0 +1,3 @@
+export { I18nProvider, useTranslations, useLocale } from './i18n-provider'
+export { LanguageSelect } from './language-select'
+export { RichMessage } from './rich-message'
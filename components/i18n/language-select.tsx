@@ -0,0 +1,25 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import { isLocale, localeNames, locales } from '@/lib/i18n'
+import { useLocale, useTranslations } from './i18n-provider'
+
+export function LanguageSelect({ className }: { className?: string }) {
+  const t = useTranslations()
+  const { locale, setLocale } = useLocale()
+
+  return (
+    <select
+      aria-label={t('language.label')}
+      value={locale}
+      onChange={(e) => {
+        if (isLocale(e.target.value)) setLocale(e.target.value)
+      }}
+      className={cn("bg-transparent border-0 text-muted-foreground text-xs focus:outline-none focus:ring-0", className)}
+    >
+      {locales.map(code => (
+        <option key={code} value={code} lang={code}>{localeNames[code]}</option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,20 @@
+import React from 'react'
+
+/**
+ * Renders a translated message whose `{placeholders}` are filled with elements,
+ * e.g. links, so translators control where they appear in the sentence.
+ */
+export function RichMessage({ text, values }: { text: string; values: Record<string, React.ReactNode> }) {
+  // With a capture group, split puts the placeholder names at the odd indexes
+  const parts = text.split(/\{(\w+)\}/)
+
+  return (
+    <>
+      {parts.map((part, i) => (
+        <React.Fragment key={i}>
+          {i % 2 === 1 ? (part in values ? values[part] : `{${part}}`) : part}
+        </React.Fragment>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,2 @@
+export { Notifications } from './notifications'
+export { NotificationBanner } from './notification-banner'
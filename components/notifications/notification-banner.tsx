@@ -0,0 +1,62 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { AlertTriangle, Info, X, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { dismissBanner, getBanners, getServerBanners, subscribeBanners, type BannerVariant } from '@/lib/notify'
+import { useTranslations } from '@/components/i18n'
+
+const VARIANT_STYLES: Record<BannerVariant, string> = {
+  error: "bg-destructive text-white",
+  warning: "bg-amber-500 text-amber-950",
+  info: "bg-primary text-primary-foreground",
+}
+
+const VARIANT_ICONS = { error: XCircle, warning: AlertTriangle, info: Info } satisfies Record<BannerVariant, unknown>
+
+export function NotificationBanner() {
+  const t = useTranslations()
+  const banners = useSyncExternalStore(subscribeBanners, getBanners, getServerBanners)
+
+  if (banners.length === 0) return null
+
+  return (
+    <div className="fixed inset-x-0 top-0 z-50 flex flex-col">
+      {banners.map(banner => {
+        const Icon = VARIANT_ICONS[banner.variant]
+        return (
+          <div
+            key={banner.id}
+            role={banner.variant === 'info' ? 'status' : 'alert'}
+            className={cn("flex items-start gap-3 px-4 py-3 text-sm shadow-md", VARIANT_STYLES[banner.variant])}
+          >
+            <Icon className="h-5 w-5 shrink-0" aria-hidden="true" />
+            <div className="flex-1">
+              <p className="font-semibold">{banner.title}</p>
+              {banner.description && <p className="opacity-90">{banner.description}</p>}
+            </div>
+            {banner.action && (
+              <button
+                type="button"
+                onClick={banner.action.onClick}
+                className="shrink-0 rounded-md border border-current px-3 py-1 text-xs font-medium hover:bg-black/10"
+              >
+                {banner.action.label}
+              </button>
+            )}
+            {banner.dismissible && (
+              <button
+                type="button"
+                onClick={() => dismissBanner(banner.id)}
+                aria-label={t('notify.dismiss')}
+                className="shrink-0 rounded-md p-1 hover:bg-black/10"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
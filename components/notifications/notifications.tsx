@@ -0,0 +1,14 @@
+'use client'
+
+import { Toaster } from '@/components/ui/sonner'
+import { NotificationBanner } from './notification-banner'
+
+/** Global toast container and banner area, rendered once from the root layout. */
+export function Notifications() {
+  return (
+    <>
+      <NotificationBanner />
+      <Toaster position="top-center" richColors closeButton />
+    </>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2, MailWarning } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, PasswordInput, setServerErrors, useSchemaRevalidation } from '@/components/form'
+import { useAuth, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+import { changeEmail, isApiError, type User } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import { createChangeEmailSchema, type ChangeEmailFormData } from '@/lib/schemas/auth'
+
+export function ChangeEmailForm({ user }: { user: User }) {
+  const t = useTranslations()
+  const { updateUser } = useAuth()
+  const schema = useMemo(() => createChangeEmailSchema(t, user.email), [t, user.email])
+
+  const form = useForm<ChangeEmailFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { email: '', currentPassword: '' },
+    mode: 'onTouched',
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleSubmit = async (data: ChangeEmailFormData) => {
+    const previousPending = user.pendingEmail
+
+    // The address only switches once verified, so the optimistic state is the pending notice
+    updateUser({ pendingEmail: data.email })
+    try {
+      const { pendingEmail } = await notify.promise(
+        changeEmail({ newEmail: data.email, currentPassword: data.currentPassword }),
+        {
+          loading: t('settings.email.toastSending'),
+          success: { title: t('settings.email.toastSent'), description: t('settings.email.toastSentDescription', { email: data.email }) },
+          error: err => ({
+            title: t('settings.email.toastFailed'),
+            description: apiErrorMessage(err, t),
+          }),
+        },
+      )
+      updateUser({ pendingEmail })
+      form.reset()
+    } catch (err) {
+      updateUser({ pendingEmail: previousPending })
+      form.resetField('currentPassword')
+      if (isApiError(err) && err.code === 'EMAIL_TAKEN') {
+        form.setError('email', { type: 'server', message: t('settings.email.taken') }, { shouldFocus: true })
+      } else if (isApiError(err) && err.code === 'INVALID_PASSWORD') {
+        form.setError('currentPassword', { type: 'server', message: err.message }, { shouldFocus: true })
+      } else if (isApiError(err) && err.fieldError('newEmail')) {
+        form.setError('email', { type: 'server', message: err.fieldError('newEmail') }, { shouldFocus: true })
+      } else {
+        setServerErrors(form, err, ['email', 'currentPassword'])
+      }
+    }
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <Card>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-6" noValidate>
+          <CardHeader>
+            <CardTitle>{t('settings.email.title')}</CardTitle>
+            <CardDescription>{t('settings.email.description')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-xs text-muted-foreground">{t('settings.email.current')}</p>
+              <p className="text-sm font-medium text-foreground">{user.email}</p>
+            </div>
+
+            {user.pendingEmail && (
+              <div role="status" className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 dark:border-amber-900/60 dark:bg-amber-900/20 dark:text-amber-200">
+                <MailWarning className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                {t('settings.email.pending', { email: user.pendingEmail })}
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('settings.email.newEmail')}</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" placeholder={t('settings.email.newEmailPlaceholder')} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currentPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('settings.email.currentPassword')}</FormLabel>
+                    <FormControl>
+                      <PasswordInput autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="animate-spin" />}
+              {isSubmitting ? t('settings.email.submitting') : t('settings.email.submit')}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  )
+}
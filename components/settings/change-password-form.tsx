@@ -0,0 +1,125 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, PasswordInput, setServerErrors, useSchemaRevalidation } from '@/components/form'
+import { PasswordStrengthMeter, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+import { changePassword, isApiError, type User } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import { createChangePasswordSchema, type ChangePasswordFormData } from '@/lib/schemas/auth'
+
+const emptyForm: ChangePasswordFormData = { currentPassword: '', password: '', confirmPassword: '' }
+
+export function ChangePasswordForm({ user }: { user: User }) {
+  const t = useTranslations()
+  const [showPassword, setShowPassword] = useState(false)
+  const context = useMemo(() => ({ name: user.name, email: user.email }), [user.name, user.email])
+  const schema = useMemo(() => createChangePasswordSchema(t, context), [t, context])
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: emptyForm,
+    mode: 'onTouched',
+  })
+  useSchemaRevalidation(form, schema)
+
+  const password = useWatch({ control: form.control, name: 'password' })
+
+  const handleSubmit = async (data: ChangePasswordFormData) => {
+    try {
+      await notify.promise(changePassword({ currentPassword: data.currentPassword, newPassword: data.password }), {
+        loading: t('settings.password.toastChanging'),
+        success: t('settings.password.toastChanged'),
+        error: err => ({
+          title: t('settings.password.toastFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      form.reset(emptyForm)
+      setShowPassword(false)
+    } catch (err) {
+      if (isApiError(err) && err.code === 'INVALID_PASSWORD') {
+        form.setError('currentPassword', { type: 'server', message: err.message }, { shouldFocus: true })
+      } else if (isApiError(err) && err.fieldError('newPassword')) {
+        form.setError('password', { type: 'server', message: err.fieldError('newPassword') }, { shouldFocus: true })
+      } else {
+        setServerErrors(form, err, ['currentPassword', 'password'])
+      }
+    }
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <Card>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-6" noValidate>
+          <CardHeader>
+            <CardTitle>{t('settings.password.title')}</CardTitle>
+            <CardDescription>{t('settings.password.description')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem className="sm:max-w-sm">
+                  <FormLabel>{t('settings.password.current')}</FormLabel>
+                  <FormControl>
+                    <PasswordInput autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('settings.password.new')}</FormLabel>
+                    <FormControl>
+                      <PasswordInput
+                        autoComplete="new-password"
+                        visible={showPassword}
+                        onVisibleChange={setShowPassword}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t('settings.password.confirm')}</FormLabel>
+                    <FormControl>
+                      <PasswordInput autoComplete="new-password" visible={showPassword} hideToggle {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {password && <PasswordStrengthMeter password={password} context={context} />}
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="animate-spin" />}
+              {isSubmitting ? t('settings.password.submitting') : t('settings.password.submit')}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useForm, useWatch } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, useSchemaRevalidation } from '@/components/form'
+import { useAuth, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+import { deleteAccount } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import { createDeleteAccountSchema, DELETE_ACCOUNT_PHRASE, type DeleteAccountFormData } from '@/lib/schemas/auth'
+
+export function DeleteAccountForm() {
+  const t = useTranslations()
+  const { clearSession } = useAuth()
+  const schema = useMemo(() => createDeleteAccountSchema(t), [t])
+
+  const form = useForm<DeleteAccountFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { confirmation: '' },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const confirmation = useWatch({ control: form.control, name: 'confirmation' })
+  const confirmed = confirmation.trim() === DELETE_ACCOUNT_PHRASE
+
+  const handleDelete = async () => {
+    try {
+      await notify.promise(deleteAccount(), {
+        loading: t('settings.delete.toastDeleting'),
+        success: t('settings.delete.toastDeleted'),
+        error: err => ({
+          title: t('settings.delete.toastFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      // The server has ended the session; the route guard takes the user to the login page
+      clearSession()
+    } catch {
+      // Reported by the toast; the account is untouched
+    }
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <Card className="border-destructive/40">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleDelete)} className="flex flex-col gap-6" noValidate>
+          <CardHeader>
+            <CardTitle className="text-destructive">{t('settings.delete.title')}</CardTitle>
+            <CardDescription>{t('settings.delete.description')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FormField
+              control={form.control}
+              name="confirmation"
+              render={({ field }) => (
+                <FormItem className="sm:max-w-sm">
+                  <FormLabel>{t('settings.delete.confirmLabel', { phrase: DELETE_ACCOUNT_PHRASE })}</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" spellCheck={false} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button type="submit" variant="destructive" disabled={!confirmed || isSubmitting}>
+              {isSubmitting ? <Loader2 className="animate-spin" /> : <Trash2 />}
+              {isSubmitting ? t('settings.delete.submitting') : t('settings.delete.submit')}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  )
+}
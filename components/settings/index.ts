@@ -0,0 +1,7 @@
+export { SettingsNav } from './settings-nav'
+export { ProfileForm } from './profile-form'
+export { ChangeEmailForm } from './change-email-form'
+export { ChangePasswordForm } from './change-password-form'
+export { DeleteAccountForm } from './delete-account-form'
+export { TwoFactorSettings } from './two-factor-settings'
+export { PasskeySettings } from './passkey-settings'
@@ -0,0 +1,123 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { KeyRound, Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { apiErrorMessage, passkeyErrorMessage } from '@/components/auth'
+import { useLocale, useTranslations } from '@/components/i18n'
+import { deletePasskey, getPasskeyRegistrationOptions, isApiError, listPasskeys, registerPasskey, type Passkey } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import { createPasskey } from '@/lib/webauthn'
+
+/** Lists the account's passkeys, and adds or removes them. */
+export function PasskeySettings() {
+  const t = useTranslations()
+  const { locale } = useLocale()
+  const [passkeys, setPasskeys] = useState<Passkey[] | null>(null)
+  const [loadFailed, setLoadFailed] = useState(false)
+  const [adding, setAdding] = useState(false)
+  const [removing, setRemoving] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    listPasskeys({ signal: controller.signal })
+      .then(setPasskeys)
+      .catch(err => {
+        if (!(isApiError(err) && err.code === 'ABORTED')) setLoadFailed(true)
+      })
+    return () => controller.abort()
+  }, [])
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString(locale, { dateStyle: 'medium' })
+
+  const addPasskey = async () => {
+    setAdding(true)
+    try {
+      const added = getPasskeyRegistrationOptions()
+        .then(options => createPasskey(options))
+        .then(credential => registerPasskey({ credential }))
+      const passkey = await notify.promise(added, {
+        loading: t('settings.passkeys.toastAdding'),
+        success: t('settings.passkeys.toastAdded'),
+        error: err => ({ title: t('settings.passkeys.toastAddFailed'), description: passkeyErrorMessage(err, t) }),
+      })
+      setPasskeys(current => [...(current ?? []), passkey])
+    } catch {
+      // The toast said what went wrong
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const removePasskey = async ({ id }: Passkey) => {
+    setRemoving(id)
+    try {
+      await notify.promise(deletePasskey(id), {
+        loading: t('settings.passkeys.toastRemoving'),
+        success: t('settings.passkeys.toastRemoved'),
+        error: err => ({
+          title: t('settings.passkeys.toastRemoveFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      setPasskeys(current => current?.filter(passkey => passkey.id !== id) ?? null)
+    } catch {
+      // The toast said what went wrong
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.passkeys.title')}</CardTitle>
+        <CardDescription>{t('settings.passkeys.description')}</CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {loadFailed ? (
+          <p role="alert" className="text-sm text-destructive">{t('settings.passkeys.loadFailed')}</p>
+        ) : passkeys === null ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" aria-label={t('settings.passkeys.loading')} />
+        ) : passkeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('settings.passkeys.empty')}</p>
+        ) : (
+          <ul className="divide-y divide-border rounded-lg border" aria-label={t('settings.passkeys.title')}>
+            {passkeys.map(passkey => (
+              <li key={passkey.id} className="flex items-center gap-3 p-3">
+                <KeyRound className="h-5 w-5 shrink-0 text-muted-foreground" aria-hidden="true" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium text-foreground">{passkey.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('settings.passkeys.created', { date: formatDate(passkey.createdAt) })}
+                    {passkey.lastUsedAt && ` · ${t('settings.passkeys.lastUsed', { date: formatDate(passkey.lastUsedAt) })}`}
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removePasskey(passkey)}
+                  disabled={removing !== null}
+                  aria-label={t('settings.passkeys.remove', { name: passkey.name })}
+                  className="text-destructive hover:text-destructive"
+                >
+                  {removing === passkey.id ? <Loader2 className="animate-spin" /> : <Trash2 />}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <CardFooter className="justify-end">
+        <Button type="button" onClick={addPasskey} disabled={adding || passkeys === null}>
+          {adding ? <Loader2 className="animate-spin" /> : <Plus />}
+          {adding ? t('settings.passkeys.adding') : t('settings.passkeys.add')}
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
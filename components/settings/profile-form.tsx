@@ -0,0 +1,101 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, PhoneInput, setServerErrors, useSchemaRevalidation } from '@/components/form'
+import { useAuth, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+import { updateProfile, type User } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import { toE164 } from '@/lib/phone'
+import { createProfileSchema, type ProfileFormData } from '@/lib/schemas/auth'
+
+export function ProfileForm({ user }: { user: User }) {
+  const t = useTranslations()
+  const { updateUser } = useAuth()
+  const schema = useMemo(() => createProfileSchema(t), [t])
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { name: user.name, mobileNumber: user.mobileNumber ?? '' },
+    mode: 'onTouched',
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleSave = async (data: ProfileFormData) => {
+    const previous = { name: user.name, mobileNumber: user.mobileNumber }
+    const changes = { name: data.name, mobileNumber: toE164(data.mobileNumber) }
+
+    // Show the new values everywhere (header, dashboard) right away; undo if the server refuses
+    updateUser(changes)
+    try {
+      const saved = await notify.promise(updateProfile(changes), {
+        loading: t('settings.profile.toastSaving'),
+        success: t('settings.profile.toastSaved'),
+        error: err => ({
+          title: t('settings.profile.toastFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      updateUser(saved)
+      form.reset({ name: saved.name, mobileNumber: saved.mobileNumber ?? '' })
+    } catch (err) {
+      updateUser(previous)
+      setServerErrors(form, err, ['name', 'mobileNumber'])
+    }
+  }
+
+  const { isDirty, isSubmitting } = form.formState
+
+  return (
+    <Card>
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSave)} className="flex flex-col gap-6" noValidate>
+          <CardHeader>
+            <CardTitle>{t('settings.profile.title')}</CardTitle>
+            <CardDescription>{t('settings.profile.description')}</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('settings.profile.name')}</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="mobileNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('settings.profile.mobile')}</FormLabel>
+                  <FormControl>
+                    <PhoneInput autoComplete="tel-national" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </CardContent>
+          <CardFooter className="justify-end">
+            <Button type="submit" disabled={!isDirty || isSubmitting}>
+              {isSubmitting && <Loader2 className="animate-spin" />}
+              {isSubmitting ? t('settings.profile.saving') : t('settings.profile.save')}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  )
+}
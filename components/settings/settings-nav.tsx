@@ -0,0 +1,40 @@
+'use client'
+
+import Link from 'next/link'
+import { usePathname } from 'next/navigation'
+import { cn } from '@/lib/utils'
+import { useTranslations } from '@/components/i18n'
+import type { MessageKey } from '@/lib/i18n'
+
+const tabs: { href: string; labelKey: MessageKey }[] = [
+  { href: '/settings', labelKey: 'settings.tabs.profile' },
+  { href: '/settings/security', labelKey: 'settings.tabs.security' },
+]
+
+export function SettingsNav() {
+  const t = useTranslations()
+  const pathname = usePathname()
+
+  return (
+    <nav aria-label={t('settings.title')} className="flex gap-1 border-b">
+      {tabs.map(({ href, labelKey }) => {
+        const active = pathname === href
+        return (
+          <Link
+            key={href}
+            href={href}
+            aria-current={active ? 'page' : undefined}
+            className={cn(
+              "-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors",
+              active
+                ? "border-primary text-foreground"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {t(labelKey)}
+          </Link>
+        )
+      })}
+    </nav>
+  )
+}
@@ -0,0 +1,293 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { QRCodeSVG } from 'qrcode.react'
+import { Copy, Download, Loader2, ShieldCheck, ShieldOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardAction, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, OneTimeCodeInput, PasswordInput, useSchemaRevalidation } from '@/components/form'
+import { useAuth, apiErrorMessage } from '@/components/auth'
+import { useTranslations } from '@/components/i18n'
+import { APP_NAME } from '@/components/app-shell'
+import { disableTwoFactor, enableTwoFactor, isApiError, setupTwoFactor, type TwoFactorSetup, type User } from '@/lib/api'
+import { notify } from '@/lib/notify'
+import { cn } from '@/lib/utils'
+import {
+  createDisableTwoFactorSchema,
+  createTwoFactorCodeSchema,
+  TWO_FACTOR_CODE_LENGTH,
+  type DisableTwoFactorFormData,
+  type TwoFactorCodeFormData,
+} from '@/lib/schemas/auth'
+
+type Step =
+  | { name: 'status' }
+  | { name: 'enroll'; setup: TwoFactorSetup }
+  | { name: 'recovery'; codes: string[] }
+
+// Groups of four are easier to copy into an authenticator app by hand
+const formatSecret = (secret: string) => secret.replace(/(.{4})(?=.)/g, '$1 ')
+
+function downloadTextFile(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function EnrollForm({ setup, onEnabled, onCancel }: { setup: TwoFactorSetup; onEnabled: (codes: string[]) => void; onCancel: () => void }) {
+  const t = useTranslations()
+  const schema = useMemo(() => createTwoFactorCodeSchema(t), [t])
+  const form = useForm<TwoFactorCodeFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { code: '' },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleEnable = async ({ code }: TwoFactorCodeFormData) => {
+    try {
+      const { recoveryCodes } = await notify.promise(enableTwoFactor({ code }), {
+        loading: t('settings.twoFactor.toastEnabling'),
+        success: t('settings.twoFactor.toastEnabled'),
+        error: err => ({
+          title: t('settings.twoFactor.toastEnableFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      onEnabled(recoveryCodes)
+    } catch (err) {
+      if (isApiError(err) && err.status > 0) {
+        form.reset({ code: '' })
+        form.setError('code', { type: 'server', message: err.message }, { shouldFocus: true })
+      }
+    }
+  }
+
+  const copySecret = async () => {
+    await navigator.clipboard.writeText(setup.secret)
+    notify.success(t('settings.twoFactor.copied'))
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleEnable)} className="flex flex-col gap-6" noValidate>
+        <CardContent className="space-y-6">
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-start">
+            {/* Always dark on light, whatever the theme, so every app can scan it */}
+            <div className="shrink-0 self-start rounded-lg bg-white p-3">
+              <QRCodeSVG value={setup.otpauthUrl} size={160} role="img" aria-label={t('settings.twoFactor.qrLabel')} />
+            </div>
+            <div className="space-y-3 text-sm">
+              <p className="text-foreground">{t('settings.twoFactor.scan')}</p>
+              <p className="text-muted-foreground">{t('settings.twoFactor.manual')}</p>
+              <div className="flex items-center gap-2">
+                <code className="rounded-md bg-muted px-2 py-1 font-mono text-sm break-all" data-testid="two-factor-secret">
+                  {formatSecret(setup.secret)}
+                </code>
+                <Button type="button" variant="ghost" size="icon" onClick={copySecret} aria-label={t('settings.twoFactor.copy')}>
+                  <Copy />
+                </Button>
+              </div>
+            </div>
+          </div>
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('settings.twoFactor.codeLabel')}</FormLabel>
+                <FormControl>
+                  <OneTimeCodeInput
+                    ref={field.ref}
+                    value={field.value}
+                    onChange={field.onChange}
+                    length={TWO_FACTOR_CODE_LENGTH}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </CardContent>
+        <CardFooter className="justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            {t('settings.twoFactor.cancel')}
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? <Loader2 className="animate-spin" /> : <ShieldCheck />}
+            {isSubmitting ? t('settings.twoFactor.verifying') : t('settings.twoFactor.verify')}
+          </Button>
+        </CardFooter>
+      </form>
+    </Form>
+  )
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const t = useTranslations()
+  const text = `${codes.join('\n')}\n`
+
+  const copyCodes = async () => {
+    await navigator.clipboard.writeText(text)
+    notify.success(t('settings.twoFactor.copied'))
+  }
+
+  return (
+    <>
+      <CardContent className="space-y-4">
+        <div>
+          <h3 className="font-medium text-foreground">{t('settings.twoFactor.recoveryTitle')}</h3>
+          <p className="text-sm text-muted-foreground">{t('settings.twoFactor.recoveryDescription')}</p>
+        </div>
+        <ul className="grid grid-cols-2 gap-2 rounded-lg bg-muted p-4 font-mono text-sm sm:max-w-sm" aria-label={t('settings.twoFactor.recoveryTitle')}>
+          {codes.map(code => <li key={code}>{code}</li>)}
+        </ul>
+      </CardContent>
+      <CardFooter className="justify-end gap-2">
+        <Button type="button" variant="outline" onClick={copyCodes}>
+          <Copy />
+          {t('settings.twoFactor.copy')}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => downloadTextFile(`${APP_NAME.toLowerCase()}-recovery-codes.txt`, text)}
+        >
+          <Download />
+          {t('settings.twoFactor.download')}
+        </Button>
+        <Button type="button" onClick={onDone}>{t('settings.twoFactor.done')}</Button>
+      </CardFooter>
+    </>
+  )
+}
+
+function DisableForm({ onDisabled }: { onDisabled: () => void }) {
+  const t = useTranslations()
+  const schema = useMemo(() => createDisableTwoFactorSchema(t), [t])
+  const form = useForm<DisableTwoFactorFormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { currentPassword: '' },
+  })
+  useSchemaRevalidation(form, schema)
+
+  const handleDisable = async (data: DisableTwoFactorFormData) => {
+    try {
+      await notify.promise(disableTwoFactor(data), {
+        loading: t('settings.twoFactor.toastDisabling'),
+        success: t('settings.twoFactor.toastDisabled'),
+        error: err => ({
+          title: t('settings.twoFactor.toastDisableFailed'),
+          description: apiErrorMessage(err, t),
+        }),
+      })
+      onDisabled()
+    } catch (err) {
+      if (isApiError(err) && err.code === 'INVALID_PASSWORD') {
+        form.setError('currentPassword', { type: 'server', message: err.message }, { shouldFocus: true })
+      }
+    }
+  }
+
+  const { isSubmitting } = form.formState
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleDisable)} className="flex flex-col gap-6" noValidate>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t('settings.twoFactor.enabledDescription')}</p>
+          <FormField
+            control={form.control}
+            name="currentPassword"
+            render={({ field }) => (
+              <FormItem className="sm:max-w-sm">
+                <FormLabel>{t('settings.twoFactor.currentPassword')}</FormLabel>
+                <FormControl>
+                  <PasswordInput autoComplete="current-password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button type="submit" variant="outline" disabled={isSubmitting} className="text-destructive hover:text-destructive">
+            {isSubmitting ? <Loader2 className="animate-spin" /> : <ShieldOff />}
+            {isSubmitting ? t('settings.twoFactor.disabling') : t('settings.twoFactor.disable')}
+          </Button>
+        </CardFooter>
+      </form>
+    </Form>
+  )
+}
+
+/** Turns TOTP two-factor authentication on (QR code, first code, recovery codes) or off. */
+export function TwoFactorSettings({ user }: { user: User }) {
+  const t = useTranslations()
+  const { updateUser } = useAuth()
+  const [step, setStep] = useState<Step>({ name: 'status' })
+  const [starting, setStarting] = useState(false)
+  const enabled = user.twoFactorEnabled === true
+
+  const startEnrollment = async () => {
+    setStarting(true)
+    try {
+      setStep({ name: 'enroll', setup: await setupTwoFactor() })
+    } catch (err) {
+      notify.error(t('settings.twoFactor.setupFailed'), {
+        description: apiErrorMessage(err, t),
+      })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.twoFactor.title')}</CardTitle>
+        <CardDescription>{t('settings.twoFactor.description')}</CardDescription>
+        <CardAction>
+          <span
+            className={cn(
+              "rounded-full px-2.5 py-0.5 text-xs font-medium",
+              enabled ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" : "bg-muted text-muted-foreground"
+            )}
+          >
+            {enabled ? t('settings.twoFactor.enabled') : t('settings.twoFactor.disabled')}
+          </span>
+        </CardAction>
+      </CardHeader>
+
+      {step.name === 'enroll' && (
+        <EnrollForm
+          setup={step.setup}
+          onEnabled={codes => {
+            updateUser({ twoFactorEnabled: true })
+            setStep({ name: 'recovery', codes })
+          }}
+          onCancel={() => setStep({ name: 'status' })}
+        />
+      )}
+
+      {step.name === 'recovery' && <RecoveryCodes codes={step.codes} onDone={() => setStep({ name: 'status' })} />}
+
+      {step.name === 'status' && (enabled
+        ? <DisableForm onDisabled={() => updateUser({ twoFactorEnabled: false })} />
+        : (
+          <CardFooter className="justify-end">
+            <Button type="button" onClick={startEnrollment} disabled={starting}>
+              {starting ? <Loader2 className="animate-spin" /> : <ShieldCheck />}
+              {starting ? t('settings.twoFactor.settingUp') : t('settings.twoFactor.setUp')}
+            </Button>
+          </CardFooter>
+        ))}
+    </Card>
+  )
+}
@@ -0,0 +1,2 @@
+export { ThemeProvider, themes, type Theme } from './theme-provider'
+export { ThemeToggle } from './theme-toggle'
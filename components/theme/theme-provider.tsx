@@ -0,0 +1,25 @@
+'use client'
+
+import type { ComponentProps } from 'react'
+import { ThemeProvider as NextThemesProvider } from 'next-themes'
+
+export const themes = ['light', 'dark', 'system'] as const
+export type Theme = (typeof themes)[number]
+
+/**
+ * Applies the `.dark` class to `<html>` before first paint (next-themes injects
+ * a blocking script), so pages never flash the wrong theme on load.
+ */
+export function ThemeProvider({ children, ...props }: ComponentProps<typeof NextThemesProvider>) {
+  return (
+    <NextThemesProvider
+      attribute="class"
+      defaultTheme="system"
+      enableSystem
+      disableTransitionOnChange
+      {...props}
+    >
+      {children}
+    </NextThemesProvider>
+  )
+}
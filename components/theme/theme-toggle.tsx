@@ -0,0 +1,50 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useTheme } from 'next-themes'
+import { Monitor, Moon, Sun } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useTranslations } from '@/components/i18n'
+import { themes, type Theme } from './theme-provider'
+
+const THEME_ICONS = { light: Sun, dark: Moon, system: Monitor } satisfies Record<Theme, unknown>
+
+export function ThemeToggle({ className }: { className?: string }) {
+  const t = useTranslations()
+  const { theme, setTheme } = useTheme()
+
+  // The stored theme is only known on the client; render neutral until mounted to avoid a hydration mismatch
+  const [mounted, setMounted] = useState(false)
+  useEffect(() => setMounted(true), [])
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label={t('theme.label')}
+      className={cn("inline-flex items-center gap-0.5 rounded-md border bg-background p-0.5", className)}
+    >
+      {themes.map(option => {
+        const Icon = THEME_ICONS[option]
+        const selected = mounted && theme === option
+        return (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            title={t(`theme.${option}`)}
+            onClick={() => setTheme(option)}
+            className={cn(
+              "inline-flex h-6 w-6 items-center justify-center rounded-sm text-muted-foreground transition-colors",
+              "hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              selected && "bg-accent text-accent-foreground"
+            )}
+          >
+            <Icon className="h-3.5 w-3.5" aria-hidden="true" />
+            <span className="sr-only">{t(`theme.${option}`)}</span>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
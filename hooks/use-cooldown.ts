@@ -0,0 +1,23 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+
+/**
+ * Countdown used to throttle repeatable actions such as "Resend email".
+ * `start()` begins a cooldown of `seconds` (or the given override).
+ */
+export function useCooldown(seconds: number, startActive = false) {
+  const [remaining, setRemaining] = useState(startActive ? seconds : 0)
+
+  useEffect(() => {
+    if (remaining <= 0) return
+    const timer = setTimeout(() => setRemaining(value => value - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [remaining])
+
+  const start = useCallback((override?: number) => {
+    setRemaining(Math.max(0, Math.ceil(override ?? seconds)))
+  }, [seconds])
+
+  return { remaining, active: remaining > 0, start }
+}
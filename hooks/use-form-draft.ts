@@ -0,0 +1,56 @@
+'use client'
+
+import { useCallback, useEffect } from 'react'
+import type { FieldValues, Path, PathValue, UseFormReturn } from 'react-hook-form'
+
+// Never persisted, whatever the caller lists: sessionStorage is readable by any script on the page
+const SENSITIVE_FIELD = /password|secret|token/i
+
+function readDraft(key: string): Record<string, unknown> {
+  try {
+    const saved = JSON.parse(window.sessionStorage.getItem(key) ?? '{}')
+    return saved && typeof saved === 'object' ? saved : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Keeps the listed fields of a form in sessionStorage, so a refresh or an
+ * accidental navigation doesn't wipe what the user typed. The draft is
+ * restored after mount (the page is prerendered without it) and lives until
+ * `clear()` or the end of the tab's session.
+ */
+export function useFormDraft<T extends FieldValues>(form: UseFormReturn<T>, key: string, fields: readonly Path<T>[]) {
+  const fieldList = fields.filter(field => !SENSITIVE_FIELD.test(field)).join(',')
+
+  useEffect(() => {
+    const names = fieldList.split(',') as Path<T>[]
+    const draft = readDraft(key)
+    for (const name of names) {
+      const value = draft[name]
+      // Skip anything that doesn't match the field's type, e.g. a draft from an older version
+      if (value !== undefined && typeof value === typeof form.getValues(name)) {
+        form.setValue(name, value as PathValue<T, Path<T>>)
+      }
+    }
+
+    // Only field updates count; submit state changes notify watchers too and would revive a cleared draft
+    const subscription = form.watch((_, { name }) => {
+      if (!name) return
+      const saved = Object.fromEntries(names.map(name => [name, form.getValues(name)]))
+      try {
+        window.sessionStorage.setItem(key, JSON.stringify(saved))
+      } catch {
+        // Storage full or disabled: the form still works, it just won't survive a refresh
+      }
+    })
+    return () => subscription.unsubscribe()
+  }, [form, key, fieldList])
+
+  const clear = useCallback(() => {
+    window.sessionStorage.removeItem(key)
+  }, [key])
+
+  return { clear }
+}
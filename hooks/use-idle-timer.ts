@@ -0,0 +1,99 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { broadcastSession, subscribeSession } from '@/lib/session'
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const
+
+// Other tabs only need to hear about activity now and then, not on every mouse move
+const ACTIVITY_BROADCAST_INTERVAL_MS = 5_000
+
+interface IdleTimerOptions {
+  /** Inactivity after which `onIdle` is called. */
+  timeoutMs: number
+  /** How long before the timeout the warning starts. */
+  warningMs: number
+  onIdle: () => void
+}
+
+/**
+ * Tracks how long the user has been inactive, counting activity in the app's
+ * other tabs too. Once the warning starts only `stayActive()` (or activity in
+ * another tab) resets it, so a stray mouse move doesn't dismiss it unseen.
+ */
+export function useIdleTimer({ timeoutMs, warningMs, onIdle }: IdleTimerOptions) {
+  const lastActivity = useRef(Date.now())
+  const lastBroadcast = useRef(0)
+  const pendingBroadcast = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const onIdleRef = useRef(onIdle)
+  // Seconds left before the timeout, once the warning has started
+  const [warningSecondsLeft, setWarningSecondsLeft] = useState<number | null>(null)
+  const warning = warningSecondsLeft !== null
+  const warningRef = useRef(warning)
+
+  useEffect(() => {
+    onIdleRef.current = onIdle
+    warningRef.current = warning
+  })
+
+  const broadcastActivity = useCallback(() => {
+    pendingBroadcast.current = null
+    lastBroadcast.current = Date.now()
+    broadcastSession({ type: 'activity', at: lastActivity.current })
+  }, [])
+
+  const markActive = useCallback(() => {
+    const now = Date.now()
+    lastActivity.current = now
+    setWarningSecondsLeft(null)
+    const wait = lastBroadcast.current + ACTIVITY_BROADCAST_INTERVAL_MS - now
+    if (wait <= 0) {
+      broadcastActivity()
+    } else if (!pendingBroadcast.current) {
+      // Still pass on the last activity of the interval, or the other tabs would time out first and sign this one out
+      pendingBroadcast.current = setTimeout(broadcastActivity, wait)
+    }
+  }, [broadcastActivity])
+
+  useEffect(() => () => {
+    if (pendingBroadcast.current) clearTimeout(pendingBroadcast.current)
+  }, [])
+
+  useEffect(() => {
+    const handleActivity = () => {
+      if (!warningRef.current) markActive()
+    }
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+    return () => ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+  }, [markActive])
+
+  useEffect(() => subscribeSession(message => {
+    if (message.type !== 'activity') return
+    lastActivity.current = Math.max(lastActivity.current, message.at)
+    setWarningSecondsLeft(null)
+  }), [])
+
+  // Comparing against the clock, rather than counting ticks, also catches a computer waking from sleep
+  useEffect(() => {
+    let fired = false
+    const tick = () => {
+      const left = timeoutMs - (Date.now() - lastActivity.current)
+      if (left <= 0) {
+        if (!fired) onIdleRef.current()
+        fired = true
+      } else {
+        setWarningSecondsLeft(left <= warningMs ? Math.ceil(left / 1000) : null)
+      }
+    }
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [timeoutMs, warningMs])
+
+  return {
+    warning,
+    /** Seconds until the user is signed out, while the warning shows. */
+    secondsLeft: warningSecondsLeft ?? Math.ceil(warningMs / 1000),
+    /** Restarts the timer, e.g. from a "Stay signed in" button. */
+    stayActive: markActive,
+  }
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { isCaptchaRequired, isThrottled } from '@/lib/api'
+import { useCooldown } from './use-cooldown'
+
+/**
+ * Client side of the backend's brute-force protection on the auth forms:
+ * counts down while the server asks us to wait (429 or a locked account)
+ * and holds the CAPTCHA state once it wants one. Pass every failed
+ * submission to `handleError` and send `captchaToken` with the next one.
+ */
+export function useRateLimitGuard() {
+  const { remaining, active, start } = useCooldown(0)
+  const [message, setMessage] = useState<string | null>(null)
+  const [captchaRequired, setCaptchaRequired] = useState(false)
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null)
+  // Tokens are single-use, so the widget is re-mounted after every attempt
+  const [captchaKey, setCaptchaKey] = useState(0)
+
+  const clearCaptchaToken = useCallback(() => setCaptchaToken(null), [])
+
+  /** Returns true when the error was about throttling or the CAPTCHA, so the form needn't show it again. */
+  const handleError = useCallback((error: unknown) => {
+    setCaptchaToken(null)
+    setCaptchaKey(key => key + 1)
+
+    if (isThrottled(error) && error.retryAfter) {
+      setMessage(error.message)
+      start(error.retryAfter)
+      return true
+    }
+    if (isCaptchaRequired(error)) {
+      setCaptchaRequired(true)
+      return true
+    }
+    return false
+  }, [start])
+
+  return {
+    /** Seconds until the server accepts another attempt. */
+    retryIn: remaining,
+    throttled: active,
+    /** What the server said when it started throttling. */
+    message,
+    captchaRequired,
+    captchaKey,
+    captchaToken: captchaToken ?? undefined,
+    onCaptchaVerify: setCaptchaToken,
+    onCaptchaExpire: clearCaptchaToken,
+    /** Submitting now is pointless: still waiting, or the CAPTCHA is unsolved. */
+    blocked: active || (captchaRequired && !captchaToken),
+    handleError,
+  }
+}
+
+export type RateLimitGuard = ReturnType<typeof useRateLimitGuard>
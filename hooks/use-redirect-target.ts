@@ -0,0 +1,14 @@
+'use client'
+
+import { useMemo } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { getRedirectTarget } from '@/lib/redirect'
+
+/**
+ * The validated post-login target from the current URL's `next` or `returnTo`.
+ * Uses useSearchParams, so the page needs a Suspense boundary in the static export.
+ */
+export function useRedirectTarget(): string {
+  const searchParams = useSearchParams()
+  return useMemo(() => getRedirectTarget(searchParams), [searchParams])
+}
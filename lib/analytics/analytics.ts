@@ -0,0 +1,118 @@
+import { getRuntimeConfig } from '@/lib/config'
+import { getAnalyticsConsent, saveAnalyticsConsent, type AnalyticsConsent } from './consent'
+import type { AnalyticsBatch, AnalyticsEvent, AnalyticsEventName, AnalyticsEvents } from './events'
+import { beaconTransport, consoleTransport, type AnalyticsTransport } from './transports'
+
+// Events tracked before the user has answered the consent banner wait, but only this many
+const MAX_QUEUED_EVENTS = 100
+
+const SESSION_KEY = 'analytics:session'
+
+let queue: AnalyticsEvent[] = []
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+let flushOnPageHide = false
+const addedTransports = new Set<AnalyticsTransport>()
+
+/**
+ * Sends events to `transport` too, on top of those in the config. Returns a
+ * function that removes it again.
+ */
+export function addAnalyticsTransport(transport: AnalyticsTransport): () => void {
+  addedTransports.add(transport)
+  return () => {
+    addedTransports.delete(transport)
+  }
+}
+
+function activeTransports(): AnalyticsTransport[] {
+  const transports: AnalyticsTransport[] = []
+  const analytics = getRuntimeConfig()?.analytics
+  if (analytics?.transports.includes('console')) transports.push(consoleTransport)
+  if (analytics?.endpoint && analytics.transports.includes('beacon')) transports.push(beaconTransport(analytics.endpoint))
+  return transports.concat(Array.from(addedTransports))
+}
+
+/** The tab's anonymous analytics session, started on first use. */
+export function getAnalyticsSessionId(): string {
+  try {
+    const existing = sessionStorage.getItem(SESSION_KEY)
+    if (existing) return existing
+  } catch {
+    // Blocked storage: every batch gets its own ID
+  }
+  const bytes = new Uint8Array(8)
+  crypto.getRandomValues(bytes)
+  const id = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+  try {
+    sessionStorage.setItem(SESSION_KEY, id)
+  } catch {
+    // As above
+  }
+  return id
+}
+
+/** Sends everything waiting, if the user has agreed to it. */
+export function flushAnalytics(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+  if (getAnalyticsConsent() !== 'granted' || queue.length === 0) return
+
+  const batch: AnalyticsBatch = { sessionId: getAnalyticsSessionId(), events: queue }
+  queue = []
+  for (const transport of activeTransports()) {
+    try {
+      transport.send(batch)
+    } catch (err) {
+      // Analytics must never break the page it is measuring
+      console.warn('Analytics transport failed:', err)
+    }
+  }
+}
+
+function listenForPageHide() {
+  if (flushOnPageHide) return
+  flushOnPageHide = true
+  // The last chance to send what is left; beacons are made for exactly this
+  window.addEventListener('pagehide', flushAnalytics)
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flushAnalytics()
+  })
+}
+
+type TrackArgs<N extends AnalyticsEventName> = Record<string, never> extends AnalyticsEvents[N]
+  ? [properties?: AnalyticsEvents[N]]
+  : [properties: AnalyticsEvents[N]]
+
+/**
+ * Records a funnel event. Events are sent in batches, and only after the
+ * user has agreed to analytics; until they answer, events wait in memory.
+ */
+export function track<N extends AnalyticsEventName>(name: N, ...[properties]: TrackArgs<N>): void {
+  const consent = getAnalyticsConsent()
+  if (consent === 'denied') return
+
+  const event = { name, properties: properties ?? {}, timestamp: new Date().toISOString() } as AnalyticsEvent<N>
+  queue.push(event)
+  if (queue.length > MAX_QUEUED_EVENTS) queue.splice(0, queue.length - MAX_QUEUED_EVENTS)
+  listenForPageHide()
+  if (consent !== 'granted') return
+
+  const analytics = getRuntimeConfig()?.analytics
+  if (queue.length >= (analytics?.batchSize ?? 1)) {
+    flushAnalytics()
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushAnalytics, analytics?.flushIntervalMs)
+  }
+}
+
+/** Records the user's answer to the consent banner, sending or dropping what has been tracked so far. */
+export function setAnalyticsConsent(consent: AnalyticsConsent): void {
+  saveAnalyticsConsent(consent)
+  if (consent === 'granted') {
+    flushAnalytics()
+  } else {
+    queue = []
+  }
+}
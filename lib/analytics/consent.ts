@@ -0,0 +1,43 @@
+/** The user's answer to the consent banner; no answer yet reads as null. */
+export type AnalyticsConsent = 'granted' | 'denied'
+
+const CONSENT_KEY = 'analytics:consent'
+
+type Listener = () => void
+
+const listeners = new Set<Listener>()
+
+// Holds the answer for this page when storage is blocked
+let unsaved: AnalyticsConsent | null = null
+
+export function getAnalyticsConsent(): AnalyticsConsent | null {
+  try {
+    const stored = localStorage.getItem(CONSENT_KEY)
+    return stored === 'granted' || stored === 'denied' ? stored : null
+  } catch {
+    return unsaved
+  }
+}
+
+/** Stores the answer; use `setAnalyticsConsent` from the analytics module, which also acts on it. */
+export function saveAnalyticsConsent(consent: AnalyticsConsent): void {
+  try {
+    localStorage.setItem(CONSENT_KEY, consent)
+  } catch {
+    unsaved = consent
+  }
+  listeners.forEach(listener => listener())
+}
+
+// --- useSyncExternalStore bindings ---
+
+export function subscribeAnalyticsConsent(listener: Listener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getServerAnalyticsConsent(): AnalyticsConsent | null {
+  return null
+}
@@ -0,0 +1,45 @@
+import type { SignUpStep } from '@/lib/schemas/auth'
+
+export type SignUpMode = 'single' | 'wizard'
+
+export type LoginMethod = 'password' | 'passkey' | 'magic_link' | 'oauth'
+
+/**
+ * Every event the app tracks, with its properties. Properties describe what
+ * happened, never what the user typed: field names but not values, error
+ * codes but not messages.
+ */
+export interface AnalyticsEvents {
+  /** The signup form, or a step of the wizard, was shown. */
+  signup_viewed: { mode: SignUpMode; step?: SignUpStep }
+  /** Submitting (or moving to the next step) was stopped by client-side validation. */
+  signup_validation_failed: { mode: SignUpMode; step?: SignUpStep; fields: string[] }
+  signup_submitted: { mode: SignUpMode }
+  /** The signup request failed; `code` is the API error code, e.g. EMAIL_TAKEN or NETWORK_ERROR. */
+  signup_failed: { mode: SignUpMode; code: string }
+  signup_succeeded: { mode: SignUpMode }
+  /** A link from the verification email was opened. */
+  verification_link_clicked: Record<string, never>
+  login_succeeded: { method: LoginMethod }
+  /**
+   * Signing in failed, including a rejected second-factor code. `code` is the
+   * API error code, or for OAuth the provider's error such as access_denied.
+   */
+  login_failed: { method: LoginMethod; code: string }
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents
+
+export interface AnalyticsEvent<N extends AnalyticsEventName = AnalyticsEventName> {
+  name: N
+  properties: AnalyticsEvents[N]
+  /** ISO 8601 time the event happened, which can be well before it is sent. */
+  timestamp: string
+}
+
+/** What a transport sends at once. */
+export interface AnalyticsBatch {
+  /** Random per-tab ID that ties a visit's events together without identifying the user. */
+  sessionId: string
+  events: AnalyticsEvent[]
+}
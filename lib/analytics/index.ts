@@ -0,0 +1,4 @@
+export { addAnalyticsTransport, flushAnalytics, getAnalyticsSessionId, setAnalyticsConsent, track } from './analytics'
+export { getAnalyticsConsent, getServerAnalyticsConsent, subscribeAnalyticsConsent, type AnalyticsConsent } from './consent'
+export { beaconTransport, consoleTransport, memoryTransport, type AnalyticsTransport, type MemoryTransport } from './transports'
+export type { AnalyticsBatch, AnalyticsEvent, AnalyticsEventName, AnalyticsEvents, LoginMethod, SignUpMode } from './events'
@@ -0,0 +1,52 @@
+import type { AnalyticsBatch, AnalyticsEvent } from './events'
+
+/** Somewhere batches of events go. `send` must not throw for a failed delivery; events are not retried. */
+export interface AnalyticsTransport {
+  send: (batch: AnalyticsBatch) => void
+}
+
+/** Logs each event, for checking what gets tracked during development. */
+export const consoleTransport: AnalyticsTransport = {
+  send: ({ sessionId, events }) => {
+    for (const event of events) console.info(`[analytics] ${event.name}`, event.properties, { sessionId, at: event.timestamp })
+  },
+}
+
+/**
+ * POSTs each batch to `endpoint` as JSON with navigator.sendBeacon, which
+ * still delivers while the page is being closed.
+ */
+export function beaconTransport(endpoint: string): AnalyticsTransport {
+  return {
+    send: batch => {
+      // A string body goes out as text/plain, which cross-origin beacons can send without a preflight
+      const body = JSON.stringify(batch)
+      if (typeof navigator.sendBeacon === 'function' && navigator.sendBeacon(endpoint, body)) return
+      // No beacon support, or the browser refused to queue this one
+      fetch(endpoint, { method: 'POST', body, keepalive: true }).catch(() => {})
+    },
+  }
+}
+
+/** A transport that keeps what it is sent, so tests can check what was tracked. */
+export interface MemoryTransport extends AnalyticsTransport {
+  /** Every batch received, oldest first. */
+  readonly batches: AnalyticsBatch[]
+  /** The events of all batches, in the order they were tracked. */
+  events: () => AnalyticsEvent[]
+  clear: () => void
+}
+
+export function memoryTransport(): MemoryTransport {
+  const batches: AnalyticsBatch[] = []
+  return {
+    batches,
+    send: batch => {
+      batches.push(batch)
+    },
+    events: () => batches.flatMap(batch => batch.events),
+    clear: () => {
+      batches.length = 0
+    },
+  }
+}
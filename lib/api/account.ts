@@ -0,0 +1,78 @@
+import { apiRequest, type RequestOptions } from './client'
+import type { User } from './auth'
+
+type CallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>
+
+// --- PATCH /api/account/profile ---
+
+export interface UpdateProfileRequest {
+  name: string
+  mobileNumber: string
+}
+
+/** Saves the profile fields and returns the updated user. */
+export function updateProfile(data: UpdateProfileRequest, options?: CallOptions) {
+  return apiRequest<User>('/api/account/profile', {
+    ...options,
+    method: 'PATCH',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not update your profile',
+  })
+}
+
+// --- POST /api/account/password ---
+
+export interface ChangePasswordRequest {
+  currentPassword: string
+  newPassword: string
+}
+
+/** Rejects with code INVALID_PASSWORD when `currentPassword` is wrong. */
+export function changePassword(data: ChangePasswordRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/account/password', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not change your password',
+  })
+}
+
+// --- POST /api/account/email ---
+
+export interface ChangeEmailRequest {
+  newEmail: string
+  currentPassword: string
+}
+
+export interface ChangeEmailResponse {
+  pendingEmail: string
+}
+
+/**
+ * Starts an email change. The new address receives a verification link and
+ * only replaces the current one once that link is opened; until then it is
+ * reported as `pendingEmail` on the user.
+ */
+export function changeEmail(data: ChangeEmailRequest, options?: CallOptions) {
+  return apiRequest<ChangeEmailResponse>('/api/account/email', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not change your email',
+  })
+}
+
+// --- DELETE /api/account ---
+
+/** Permanently deletes the account and ends the session. */
+export function deleteAccount(options?: CallOptions) {
+  return apiRequest<void>('/api/account', {
+    ...options,
+    method: 'DELETE',
+    credentials: 'include',
+    errorMessage: 'Could not delete your account',
+  })
+}
@@ -0,0 +1,247 @@
+import { apiRequest, type RequestOptions } from './client'
+
+type CallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>
+
+// --- POST /api/auth/login ---
+
+export interface LoginRequest {
+  email: string
+  password: string
+  /** Keep the session cookie after the browser closes, instead of only for this visit. */
+  rememberMe?: boolean
+  /** Token from the CAPTCHA widget, once the backend has asked for one. */
+  captchaToken?: string
+}
+
+export interface LoginSuccess {
+  twoFactorRequired?: false
+  message?: string
+}
+
+/** The password was right, but the session only starts once a second factor is verified. */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  /** Identifies this sign-in attempt to POST /api/auth/2fa/verify. */
+  challengeToken: string
+  /** Seconds until the challenge expires and the user has to sign in again. */
+  expiresIn: number
+}
+
+export type LoginResponse = LoginSuccess | TwoFactorChallenge
+
+export function isTwoFactorChallenge(response: LoginResponse | null | undefined): response is TwoFactorChallenge {
+  return response?.twoFactorRequired === true
+}
+
+/**
+ * Starts a session. The backend sets the session cookie on success, answers
+ * with a TwoFactorChallenge instead when the account has 2FA turned on, and
+ * rejects with code EMAIL_NOT_VERIFIED until the address is confirmed.
+ */
+export function login(data: LoginRequest, options?: CallOptions) {
+  return apiRequest<LoginResponse>('/api/auth/login', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Invalid credentials',
+  })
+}
+
+// --- POST /api/auth/signup ---
+
+export interface SignUpRequest {
+  name: string
+  email: string
+  mobileNumber: string
+  password: string
+  /** Versions of the Terms of Service and Privacy Policy the user agreed to (see lib/legal.ts). */
+  termsVersion: string
+  privacyVersion: string
+  /** When the user ticked the agreement box, as an ISO 8601 timestamp. */
+  termsAcceptedAt: string
+  marketingOptIn: boolean
+  /** Path the verification link passes on as `next`, so the user ends up where they started. */
+  redirectTo?: string
+  /** Token from the CAPTCHA widget, once the backend has asked for one. */
+  captchaToken?: string
+}
+
+export interface SignUpResponse {
+  message?: string
+}
+
+export function signUp(data: SignUpRequest, options?: CallOptions) {
+  return apiRequest<SignUpResponse>('/api/auth/signup', {
+    ...options,
+    method: 'POST',
+    body: data,
+    errorMessage: 'Signup failed',
+  })
+}
+
+// --- GET /api/auth/me ---
+
+export interface User {
+  id: string
+  name: string
+  email: string
+  mobileNumber?: string
+  /** New address awaiting verification after an email change. */
+  pendingEmail?: string
+  /** Whether signing in asks for an authenticator code after the password. */
+  twoFactorEnabled?: boolean
+}
+
+/** Returns the user owning the current session cookie. Rejects with status 401 when signed out. */
+export function getCurrentUser(options?: CallOptions) {
+  return apiRequest<User>('/api/auth/me', {
+    ...options,
+    credentials: 'include',
+  })
+}
+
+// --- POST /api/auth/refresh ---
+
+export interface SessionRefresh {
+  /** Seconds until the renewed session expires, unless it is refreshed again. */
+  expiresIn: number
+}
+
+/**
+ * Extends the current session before it expires. Rejects with status 401 once
+ * the session can no longer be renewed and the user has to sign in again.
+ */
+export function refreshSession(options?: CallOptions) {
+  return apiRequest<SessionRefresh>('/api/auth/refresh', {
+    ...options,
+    method: 'POST',
+    credentials: 'include',
+  })
+}
+
+// --- POST /api/auth/logout ---
+
+export function logout(options?: CallOptions) {
+  return apiRequest<void>('/api/auth/logout', {
+    ...options,
+    method: 'POST',
+    credentials: 'include',
+  })
+}
+
+// --- POST /api/auth/forgot-password ---
+
+export interface ForgotPasswordRequest {
+  email: string
+}
+
+/** Sends a password reset email. Succeeds whether or not the address is registered. */
+export function requestPasswordReset(data: ForgotPasswordRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/auth/forgot-password', {
+    ...options,
+    method: 'POST',
+    body: data,
+  })
+}
+
+// --- POST /api/auth/reset-password ---
+
+export interface ResetPasswordRequest {
+  token: string
+  password: string
+}
+
+export function resetPassword(data: ResetPasswordRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/auth/reset-password', {
+    ...options,
+    method: 'POST',
+    body: data,
+    errorMessage: 'Password reset failed',
+  })
+}
+
+// --- POST /api/auth/verify-email ---
+
+export interface VerifyEmailRequest {
+  token: string
+}
+
+export interface VerifyEmailResponse {
+  status: 'verified' | 'already_verified'
+  email?: string
+}
+
+/**
+ * Confirms the address behind a verification link. Rejects with code
+ * TOKEN_EXPIRED (or status 410) for stale links and TOKEN_INVALID otherwise.
+ */
+export function verifyEmail(data: VerifyEmailRequest, options?: CallOptions) {
+  return apiRequest<VerifyEmailResponse>('/api/auth/verify-email', {
+    ...options,
+    method: 'POST',
+    body: data,
+    errorMessage: 'This verification link is not valid',
+  })
+}
+
+// --- POST /api/auth/resend-verification ---
+
+export interface ResendVerificationRequest {
+  email: string
+  /** See SignUpRequest.redirectTo. */
+  redirectTo?: string
+}
+
+export function resendVerification(data: ResendVerificationRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/auth/resend-verification', {
+    ...options,
+    method: 'POST',
+    body: data,
+    errorMessage: 'Could not resend the verification email',
+  })
+}
+
+// --- POST /api/auth/magic-link ---
+
+export interface MagicLinkRequest {
+  email: string
+  /** Path the link passes on as `next`, so the user ends up where they started. */
+  redirectTo?: string
+}
+
+/**
+ * Emails a single-use sign-in link to /auth/magic. Succeeds whether or not the
+ * address has an account, so it can't be used to probe for them.
+ */
+export function requestMagicLink(data: MagicLinkRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/auth/magic-link', {
+    ...options,
+    method: 'POST',
+    body: data,
+    errorMessage: 'Could not send the sign-in link',
+  })
+}
+
+// --- POST /api/auth/magic-link/verify ---
+
+export interface VerifyMagicLinkRequest {
+  token: string
+}
+
+/**
+ * Exchanges the token from a sign-in link for a session, like a password
+ * would: the backend sets the session cookie, or answers with a
+ * TwoFactorChallenge when the account has 2FA turned on. Rejects with code
+ * TOKEN_EXPIRED (or status 410) for stale links and TOKEN_INVALID otherwise,
+ * including links that were already used.
+ */
+export function verifyMagicLink(data: VerifyMagicLinkRequest, options?: CallOptions) {
+  return apiRequest<LoginResponse>('/api/auth/magic-link/verify', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'This sign-in link is not valid',
+  })
+}
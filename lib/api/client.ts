@@ -0,0 +1,162 @@
+import { getRuntimeConfig } from '@/lib/config'
+import { ApiError, errorFromResponse } from './errors'
+
+export const DEFAULT_TIMEOUT_MS = 15_000
+
+type QueryValue = string | number | boolean | null | undefined
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  query?: Record<string, QueryValue>
+  body?: unknown
+  headers?: Record<string, string>
+  /** Send cookies along with the request (needed for session endpoints). */
+  credentials?: RequestCredentials
+  /** Abort the request after this many milliseconds. Defaults to DEFAULT_TIMEOUT_MS. */
+  timeoutMs?: number
+  /** Caller-owned signal, e.g. to cancel the request when a component unmounts. */
+  signal?: AbortSignal
+  /** How to read a successful response body. Defaults to 'json'. */
+  responseType?: 'json' | 'text'
+  /** Message used when an error response does not carry one. */
+  errorMessage?: string
+}
+
+// --- Configuration ---
+
+/** Base URL of the backend from config.json, or null before that file has loaded. */
+export function getApiBaseUrl(): string | null {
+  return getRuntimeConfig()?.apiUrl ?? null
+}
+
+function buildUrl(baseUrl: string, path: string, query?: RequestOptions['query']): string {
+  const url = `${baseUrl}${path.startsWith('/') ? path : `/${path}`}`
+  if (!query) return url
+
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) params.append(key, String(value))
+  }
+  const search = params.toString()
+  return search ? `${url}?${search}` : url
+}
+
+// --- Session expiry ---
+
+type UnauthorizedListener = (error: ApiError) => void
+
+const unauthorizedListeners = new Set<UnauthorizedListener>()
+
+/**
+ * Calls `listener` with every 401 the backend answers, so a session that ends
+ * mid-use can be noticed in one place. Returns a function that unsubscribes.
+ */
+export function onUnauthorized(listener: UnauthorizedListener): () => void {
+  unauthorizedListeners.add(listener)
+  return () => {
+    unauthorizedListeners.delete(listener)
+  }
+}
+
+// --- Request ---
+
+/**
+ * Performs a request against the backend API and returns the parsed body.
+ * Every failure is reported as an ApiError, so callers only need one catch branch.
+ */
+export async function apiRequest<TResponse>(path: string, options: RequestOptions = {}): Promise<TResponse> {
+  const {
+    method = 'GET',
+    query,
+    body,
+    headers,
+    credentials,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    signal,
+    responseType = 'json',
+    errorMessage,
+  } = options
+
+  const baseUrl = getApiBaseUrl()
+  if (!baseUrl) {
+    console.error('Configuration Error: the API URL from config.json is not loaded.')
+    throw new ApiError({
+      status: 0,
+      code: 'CONFIG_MISSING',
+      message: 'Configuration error: Cannot connect to services',
+    })
+  }
+
+  // Link the caller's signal and our timeout to a single controller
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const forwardAbort = () => controller.abort()
+  if (signal?.aborted) controller.abort()
+  signal?.addEventListener('abort', forwardAbort)
+
+  let response: Response
+  try {
+    response = await fetch(buildUrl(baseUrl, path, query), {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      credentials,
+      signal: controller.signal,
+    })
+  } catch (err) {
+    if (timedOut) {
+      throw new ApiError({ status: 0, code: 'TIMEOUT', message: 'The server took too long to respond', cause: err })
+    }
+    if (controller.signal.aborted) {
+      throw new ApiError({ status: 0, code: 'ABORTED', message: 'The request was cancelled', cause: err })
+    }
+    throw new ApiError({
+      status: 0,
+      code: 'NETWORK_ERROR',
+      message: 'Please check your connection and try again',
+      cause: err,
+    })
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', forwardAbort)
+  }
+
+  const text = await response.text().catch(() => '')
+
+  if (!response.ok) {
+    const fallback = errorMessage ?? `Request failed (status ${response.status})`
+    const error = errorFromResponse(response.status, parseJson(text), fallback, response.headers.get('Retry-After'))
+    if (error.status === 401) unauthorizedListeners.forEach(listener => listener(error))
+    throw error
+  }
+
+  if (responseType === 'text') return text as TResponse
+  if (text === '') return undefined as TResponse
+
+  const data = parseJson(text)
+  if (data === undefined) {
+    throw new ApiError({
+      status: response.status,
+      code: 'INVALID_RESPONSE',
+      message: 'Could not parse server response',
+    })
+  }
+  return data as TResponse
+}
+
+function parseJson(text: string): unknown {
+  if (!text) return undefined
+  try {
+    return JSON.parse(text)
+  } catch {
+    return undefined
+  }
+}
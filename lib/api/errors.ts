@@ -0,0 +1,113 @@
+// Error codes produced by the client itself. Codes sent by the backend
+// (e.g. "EMAIL_TAKEN") are passed through unchanged.
+export type ClientErrorCode =
+  | 'CONFIG_MISSING'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'INVALID_RESPONSE'
+  | 'HTTP_ERROR'
+
+export type ApiErrorCode = ClientErrorCode | (string & {})
+
+export type FieldErrors = Record<string, string[]>
+
+interface ApiErrorInit {
+  status: number
+  code: ApiErrorCode
+  message: string
+  fieldErrors?: FieldErrors
+  retryAfter?: number | null
+  cause?: unknown
+}
+
+/**
+ * Normalized error thrown by every API call. `status` is 0 when the request
+ * never reached the server (missing config, network failure, timeout, abort).
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly code: ApiErrorCode
+  readonly fieldErrors: FieldErrors
+  /** Seconds to wait before trying again, when the server said (rate limits, lockouts). */
+  readonly retryAfter: number | null
+
+  constructor({ status, code, message, fieldErrors = {}, retryAfter = null, cause }: ApiErrorInit) {
+    super(message, { cause })
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+    this.fieldErrors = fieldErrors
+    this.retryAfter = retryAfter
+    // Keep `instanceof` working when compiled down to ES5
+    Object.setPrototypeOf(this, ApiError.prototype)
+  }
+
+  /** First error message reported for `field`, if any. */
+  fieldError(field: string): string | undefined {
+    return this.fieldErrors[field]?.[0]
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+/** Too many attempts (429) or a temporarily locked account: the form should wait `retryAfter`. */
+export function isThrottled(error: unknown): error is ApiError {
+  return isApiError(error) && (error.status === 429 || error.code === 'ACCOUNT_LOCKED')
+}
+
+/** The backend wants a CAPTCHA solved (again) before it accepts the request. */
+export function isCaptchaRequired(error: unknown): error is ApiError {
+  return isApiError(error) && (error.code === 'CAPTCHA_REQUIRED' || error.code === 'CAPTCHA_INVALID')
+}
+
+// Backends we talk to report errors as `{ error }`, `{ message }` or with an
+// `errors` map of field -> message(s). Anything else falls back to `fallback`.
+// The wait before a retry comes from the Retry-After header, else `retryAfter` in the body.
+export function errorFromResponse(status: number, body: unknown, fallback: string, retryAfterHeader?: string | null): ApiError {
+  const data = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+
+  const message =
+    (typeof data.error === 'string' && data.error) ||
+    (typeof data.message === 'string' && data.message) ||
+    fallback
+
+  const code = typeof data.code === 'string' && data.code ? data.code : 'HTTP_ERROR'
+
+  return new ApiError({
+    status,
+    code,
+    message,
+    fieldErrors: normalizeFieldErrors(data.fieldErrors ?? data.errors),
+    retryAfter: parseRetryAfter(retryAfterHeader) ?? parseRetryAfter(data.retryAfter),
+  })
+}
+
+/** Retry-After is either a number of seconds or an HTTP date; returns whole seconds from now. */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? Math.ceil(value) : null
+  if (typeof value !== 'string' || !value.trim()) return null
+
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) return Number(trimmed)
+  // Date.parse is lenient ("1.5" is a date to it), so only try it on something that looks like one
+  const date = /[a-z]/i.test(trimmed) ? Date.parse(trimmed) : NaN
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - now) / 1000))
+}
+
+function normalizeFieldErrors(raw: unknown): FieldErrors {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {}
+
+  const result: FieldErrors = {}
+  for (const [field, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof value === 'string') {
+      result[field] = [value]
+    } else if (Array.isArray(value)) {
+      const messages = value.filter((item): item is string => typeof item === 'string')
+      if (messages.length > 0) result[field] = messages
+    }
+  }
+  return result
+}
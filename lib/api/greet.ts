@@ -0,0 +1,12 @@
+import { apiRequest, type RequestOptions } from './client'
+
+// --- GET /api/greet ---
+
+/** Returns the plain-text greeting for `name`. */
+export function greet(name: string, options?: Pick<RequestOptions, 'signal' | 'timeoutMs'>) {
+  return apiRequest<string>('/api/greet', {
+    ...options,
+    query: { name },
+    responseType: 'text',
+  })
+}
@@ -0,0 +1,8 @@
+export { apiRequest, getApiBaseUrl, onUnauthorized, DEFAULT_TIMEOUT_MS, type RequestOptions } from './client'
+export { ApiError, isApiError, isThrottled, isCaptchaRequired, parseRetryAfter, type ApiErrorCode, type ClientErrorCode, type FieldErrors } from './errors'
+export * from './auth'
+export * from './account'
+export * from './oauth'
+export * from './two-factor'
+export * from './passkeys'
+export * from './greet'
@@ -0,0 +1,62 @@
+import { apiRequest, getApiBaseUrl, type RequestOptions } from './client'
+
+type CallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>
+
+// --- Providers ---
+
+export const oauthProviders = ['google', 'github', 'microsoft'] as const
+
+export type OAuthProvider = (typeof oauthProviders)[number]
+
+export const oauthProviderNames: Record<OAuthProvider, string> = {
+  google: 'Google',
+  github: 'GitHub',
+  microsoft: 'Microsoft',
+}
+
+export function isOAuthProvider(value: unknown): value is OAuthProvider {
+  return typeof value === 'string' && (oauthProviders as readonly string[]).includes(value)
+}
+
+// --- GET /api/auth/oauth/start ---
+
+export interface OAuthStartParams {
+  provider: OAuthProvider
+  /** Page the backend sends the browser back to, i.e. `/auth/callback` on this origin. */
+  redirectUri: string
+  /** Opaque value the backend echoes back, to tie the callback to this browser. */
+  state: string
+}
+
+/**
+ * URL the browser navigates to (not fetches) to start the provider's consent
+ * screen. Returns null when the API is not configured.
+ */
+export function getOAuthStartUrl({ provider, redirectUri, state }: OAuthStartParams): string | null {
+  const baseUrl = getApiBaseUrl()
+  if (!baseUrl) return null
+  const params = new URLSearchParams({ provider, redirect_uri: redirectUri, state })
+  return `${baseUrl}/api/auth/oauth/start?${params}`
+}
+
+// --- POST /api/auth/oauth/link ---
+
+export interface LinkOAuthAccountRequest {
+  /** Handed to the callback page when the provider's email belongs to an existing account. */
+  linkToken: string
+  password: string
+}
+
+/**
+ * Proves ownership of the existing account, links the provider to it and
+ * starts a session. Rejects with code INVALID_PASSWORD or TOKEN_EXPIRED.
+ */
+export function linkOAuthAccount(data: LinkOAuthAccountRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/auth/oauth/link', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not link your account',
+  })
+}
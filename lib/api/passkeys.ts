@@ -0,0 +1,107 @@
+import type { PasskeyAssertion, PasskeyCreationOptions, PasskeyRegistration, PasskeyRequestOptions } from '@/lib/webauthn'
+import type { LoginSuccess } from './auth'
+import { apiRequest, type RequestOptions } from './client'
+
+type CallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>
+
+export interface Passkey {
+  id: string
+  /** Label the user can tell their passkeys apart by, e.g. the device it was made on. */
+  name: string
+  createdAt: string
+  lastUsedAt?: string
+}
+
+// --- POST /api/auth/passkey/options ---
+
+export interface PasskeyLoginOptionsRequest {
+  /** Limits the prompt to this account's passkeys. Left out for autofill, which lists every passkey for the site. */
+  email?: string
+}
+
+/** A fresh challenge to sign in with a passkey. Each can be used once, for a few minutes. */
+export function getPasskeyLoginOptions(data: PasskeyLoginOptionsRequest = {}, options?: CallOptions) {
+  return apiRequest<PasskeyRequestOptions>('/api/auth/passkey/options', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not start passkey sign-in',
+  })
+}
+
+// --- POST /api/auth/passkey/login ---
+
+export interface PasskeyLoginRequest {
+  credential: PasskeyAssertion
+  rememberMe?: boolean
+}
+
+/**
+ * Starts a session with a passkey, which counts as both factors, so no
+ * two-factor challenge follows. Sets the session cookie on success. Rejects
+ * with code INVALID_PASSKEY for an unknown passkey or a bad signature, and
+ * CHALLENGE_EXPIRED when the options were fetched too long ago.
+ */
+export function loginWithPasskey(data: PasskeyLoginRequest, options?: CallOptions) {
+  return apiRequest<LoginSuccess>('/api/auth/passkey/login', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not sign in with that passkey',
+  })
+}
+
+// --- GET /api/account/passkeys ---
+
+export function listPasskeys(options?: CallOptions) {
+  return apiRequest<Passkey[]>('/api/account/passkeys', {
+    ...options,
+    credentials: 'include',
+    errorMessage: 'Could not load your passkeys',
+  })
+}
+
+// --- POST /api/account/passkeys/options ---
+
+/** Options for creating a passkey for the signed-in account, excluding the ones it already has. */
+export function getPasskeyRegistrationOptions(options?: CallOptions) {
+  return apiRequest<PasskeyCreationOptions>('/api/account/passkeys/options', {
+    ...options,
+    method: 'POST',
+    credentials: 'include',
+    errorMessage: 'Could not start adding a passkey',
+  })
+}
+
+// --- POST /api/account/passkeys ---
+
+export interface RegisterPasskeyRequest {
+  credential: PasskeyRegistration
+  name?: string
+}
+
+/** Saves a passkey the browser created. Rejects with code INVALID_PASSKEY or CHALLENGE_EXPIRED. */
+export function registerPasskey(data: RegisterPasskeyRequest, options?: CallOptions) {
+  return apiRequest<Passkey>('/api/account/passkeys', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not add the passkey',
+  })
+}
+
+// --- DELETE /api/account/passkeys ---
+
+/** Removes a passkey from the account. The copy on the device stays until the user deletes it there. */
+export function deletePasskey(id: string, options?: CallOptions) {
+  return apiRequest<void>('/api/account/passkeys', {
+    ...options,
+    method: 'DELETE',
+    query: { id },
+    credentials: 'include',
+    errorMessage: 'Could not remove the passkey',
+  })
+}
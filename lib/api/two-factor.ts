@@ -0,0 +1,83 @@
+import { apiRequest, type RequestOptions } from './client'
+
+type CallOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>
+
+// --- POST /api/auth/2fa/verify ---
+
+export type VerifyTwoFactorRequest =
+  | { challengeToken: string; code: string }
+  | { challengeToken: string; recoveryCode: string }
+
+/**
+ * Completes a sign-in that answered with a TwoFactorChallenge, using either a
+ * code from the authenticator app or a single-use recovery code. Sets the
+ * session cookie on success. Rejects with code INVALID_CODE, or
+ * CHALLENGE_EXPIRED once the user has to enter their password again.
+ */
+export function verifyTwoFactor(data: VerifyTwoFactorRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/auth/2fa/verify', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not verify the code',
+  })
+}
+
+// --- POST /api/account/2fa/setup ---
+
+export interface TwoFactorSetup {
+  /** Base32 secret, for entering into the authenticator app by hand. */
+  secret: string
+  /** otpauth:// URI encoded in the QR code. */
+  otpauthUrl: string
+}
+
+/** Starts enrollment. Nothing changes for the account until `enableTwoFactor` confirms a code. */
+export function setupTwoFactor(options?: CallOptions) {
+  return apiRequest<TwoFactorSetup>('/api/account/2fa/setup', {
+    ...options,
+    method: 'POST',
+    credentials: 'include',
+    errorMessage: 'Could not start two-factor setup',
+  })
+}
+
+// --- POST /api/account/2fa/enable ---
+
+export interface EnableTwoFactorRequest {
+  code: string
+}
+
+export interface EnableTwoFactorResponse {
+  /** Shown once; each code signs in a single time without the authenticator app. */
+  recoveryCodes: string[]
+}
+
+/** Turns 2FA on after checking a first code from the app. Rejects with code INVALID_CODE. */
+export function enableTwoFactor(data: EnableTwoFactorRequest, options?: CallOptions) {
+  return apiRequest<EnableTwoFactorResponse>('/api/account/2fa/enable', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not turn on two-factor authentication',
+  })
+}
+
+// --- POST /api/account/2fa/disable ---
+
+export interface DisableTwoFactorRequest {
+  currentPassword: string
+}
+
+/** Rejects with code INVALID_PASSWORD when `currentPassword` is wrong. */
+export function disableTwoFactor(data: DisableTwoFactorRequest, options?: CallOptions) {
+  return apiRequest<void>('/api/account/2fa/disable', {
+    ...options,
+    method: 'POST',
+    body: data,
+    credentials: 'include',
+    errorMessage: 'Could not turn off two-factor authentication',
+  })
+}
@@ -0,0 +1,94 @@
+import { runtimeConfigSchema, type RuntimeConfig } from './schema'
+
+/**
+ * Served next to the static export rather than baked into it, so the same
+ * build can be deployed to every environment with its own file.
+ */
+export const RUNTIME_CONFIG_PATH = '/config.json'
+
+// --- Errors ---
+
+export type RuntimeConfigErrorCode =
+  /** The file isn't there (404), e.g. a deployment that forgot to add it. */
+  | 'MISSING'
+  /** The file couldn't be fetched at all, or the server answered with an error. */
+  | 'UNREACHABLE'
+  /** The file isn't JSON, or doesn't match the schema; `issues` says where. */
+  | 'INVALID'
+
+export class RuntimeConfigError extends Error {
+  readonly code: RuntimeConfigErrorCode
+  /** One line per problem, e.g. "apiUrl: Invalid url", for the people deploying the app. */
+  readonly issues: string[]
+
+  constructor(code: RuntimeConfigErrorCode, message: string, issues: string[] = []) {
+    super(message)
+    this.name = 'RuntimeConfigError'
+    this.code = code
+    this.issues = issues
+    // Keep `instanceof` working when compiled down to ES5
+    Object.setPrototypeOf(this, RuntimeConfigError.prototype)
+  }
+}
+
+export function isRuntimeConfigError(error: unknown): error is RuntimeConfigError {
+  return error instanceof RuntimeConfigError
+}
+
+// --- Loading ---
+
+let current: RuntimeConfig | null = null
+
+/**
+ * The loaded config, for code outside React such as the API client; null
+ * until `loadRuntimeConfig` has succeeded. Components use `useConfig()`.
+ */
+export function getRuntimeConfig(): RuntimeConfig | null {
+  return current
+}
+
+/** Replaces the loaded config, e.g. with one a test provides. */
+export function setRuntimeConfig(config: RuntimeConfig | null): void {
+  current = config
+}
+
+/** Checks the contents of config.json and returns the config with defaults filled in. */
+export function parseRuntimeConfig(value: unknown): RuntimeConfig {
+  const result = runtimeConfigSchema.safeParse(value)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new RuntimeConfigError('INVALID', 'config.json is not valid', issues)
+  }
+  return result.data
+}
+
+/**
+ * Fetches and validates config.json, then makes it the current config.
+ * Rejects with a RuntimeConfigError saying what is wrong with the file.
+ */
+export async function loadRuntimeConfig({ signal }: { signal?: AbortSignal } = {}): Promise<RuntimeConfig> {
+  let response: Response
+  try {
+    // Always the deployed file, never one the browser kept from a previous deployment
+    response = await fetch(RUNTIME_CONFIG_PATH, { cache: 'no-store', signal })
+  } catch (err) {
+    if (signal?.aborted) throw err
+    throw new RuntimeConfigError('UNREACHABLE', `Could not fetch ${RUNTIME_CONFIG_PATH}`)
+  }
+  if (response.status === 404) {
+    throw new RuntimeConfigError('MISSING', `${RUNTIME_CONFIG_PATH} was not found`)
+  }
+  if (!response.ok) {
+    throw new RuntimeConfigError('UNREACHABLE', `${RUNTIME_CONFIG_PATH} answered with status ${response.status}`)
+  }
+
+  let body: unknown
+  try {
+    body = await response.json()
+  } catch {
+    throw new RuntimeConfigError('INVALID', 'config.json is not valid', ['(root): Not valid JSON'])
+  }
+  const config = parseRuntimeConfig(body)
+  setRuntimeConfig(config)
+  return config
+}
@@ -0,0 +1,65 @@
+import { z } from 'zod'
+// Straight from the module: lib/api's client reads this config, so the barrel would be a cycle
+import { oauthProviders } from '@/lib/api/oauth'
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+const httpUrl = z.string().refine(isHttpUrl, 'Must be an http(s) URL')
+
+/**
+ * Shape of /config.json, read when the app starts. Only `apiUrl` and
+ * `supportEmail` are required; everything else has a default, so a new
+ * setting doesn't break existing deployments' files.
+ */
+export const runtimeConfigSchema = z.object({
+  /** Base URL of the backend API, without a trailing slash. */
+  apiUrl: httpUrl.transform(url => url.replace(/\/+$/, '')),
+  /** Social sign-in buttons, in this order. */
+  authProviders: z.array(z.enum(oauthProviders)).default([]),
+  /** Where users can write to for help. */
+  supportEmail: z.string().email(),
+  features: z
+    .object({
+      /** Split signup into steps instead of one long form. */
+      signupWizard: z.boolean().default(false),
+      passkeys: z.boolean().default(true),
+      magicLink: z.boolean().default(true),
+    })
+    .default({}),
+  /** CAPTCHA shown after repeated failed sign-ins; the provider must be registered (see components/captcha). */
+  captcha: z
+    .object({
+      provider: z.string().trim().toLowerCase().min(1),
+      siteKey: z.string().trim().min(1).optional(),
+    })
+    .optional(),
+  /** Sign out users inactive for this long; 0 turns it off. */
+  idleTimeoutMinutes: z.number().nonnegative().default(15),
+  /** Funnel analytics, sent only once the user has agreed to it. Off when left out. */
+  analytics: z
+    .object({
+      /** Where batches go: the browser console, and/or a beacon to `endpoint`. */
+      transports: z.array(z.enum(['console', 'beacon'])).min(1),
+      endpoint: httpUrl.optional(),
+      /** Send as soon as this many events are waiting... */
+      batchSize: z.number().int().positive().default(10),
+      /** ...or this long after the first one, whichever comes first. */
+      flushIntervalMs: z.number().int().positive().default(5000),
+    })
+    .refine(analytics => analytics.endpoint || !analytics.transports.includes('beacon'), {
+      message: 'Required for the beacon transport',
+      path: ['endpoint'],
+    })
+    .optional(),
+})
+
+export type RuntimeConfig = z.output<typeof runtimeConfigSchema>
+
+/** What the file may contain: defaulted fields can be left out. */
+export type RuntimeConfigInput = z.input<typeof runtimeConfigSchema>
@@ -0,0 +1,17 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { marked } from 'marked'
+
+const CONTENT_DIR = path.join(process.cwd(), 'content')
+
+/**
+ * Renders a Markdown file under content/ to HTML. The app is a static
+ * export, so this only runs while pages are prerendered, never in the browser.
+ * Placeholders such as `{{supportEmail}}` are left for ContentPage to fill in
+ * from config.json.
+ */
+export function renderContent(file: string): string {
+  const html = marked.parse(readFileSync(path.join(CONTENT_DIR, file), 'utf8'), { async: false })
+  // marked percent-encodes the braces of a placeholder used as a link target
+  return html.replace(/%7B%7B(\w+)%7D%7D/g, '{{$1}}')
+}
@@ -0,0 +1,43 @@
+import { en, type Messages } from './messages/en'
+import { es } from './messages/es'
+import { fr } from './messages/fr'
+
+export const locales = ['en', 'es', 'fr'] as const
+
+export type Locale = (typeof locales)[number]
+
+export const defaultLocale: Locale = 'en'
+
+export const LOCALE_STORAGE_KEY = 'locale'
+
+/** Names shown in the language selector, each in its own language. */
+export const localeNames: Record<Locale, string> = {
+  en: 'English (United States)',
+  es: 'Español',
+  fr: 'Français',
+}
+
+export const catalogs: Record<Locale, Messages> = { en, es, fr }
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (locales as readonly string[]).indexOf(value) !== -1
+}
+
+/** Stored choice first, then the browser languages, then the default. */
+export function detectLocale(): Locale {
+  if (typeof window === 'undefined') return defaultLocale
+
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY)
+    if (isLocale(stored)) return stored
+  } catch {
+    // Storage can be unavailable (e.g. disabled cookies); fall through to the browser languages
+  }
+
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language]
+  for (const language of languages) {
+    const base = language?.split('-')[0].toLowerCase()
+    if (isLocale(base)) return base
+  }
+  return defaultLocale
+}
@@ -0,0 +1,12 @@
+export {
+  locales,
+  defaultLocale,
+  localeNames,
+  catalogs,
+  isLocale,
+  detectLocale,
+  LOCALE_STORAGE_KEY,
+  type Locale,
+} from './config'
+export { createTranslator, translateEn, type MessageKey, type MessageParams, type Translate } from './translator'
+export type { Messages } from './messages/en'
@@ -0,0 +1,490 @@
+// English is the source catalog: its shape defines the keys every other locale must provide.
+export const en = {
+  common: {
+    unexpectedError: "An unexpected error occurred",
+    timeout: "The server took too long to respond. Please try again.",
+    aborted: "The request was cancelled. Please try again.",
+    invalidResponse: "The server sent a response we couldn't read. Please try again later.",
+  },
+  language: {
+    label: "Language",
+  },
+  theme: {
+    label: "Theme",
+    light: "Light",
+    dark: "Dark",
+    system: "System",
+  },
+  config: {
+    title: "This site isn't set up correctly",
+    description: "The app couldn't load its settings, so it can't start. Please try again in a moment; if it keeps happening, the people running this site need to fix it.",
+    missing: "{path} was not found.",
+    unreachable: "{path} could not be loaded.",
+    invalid: "{path} has problems:",
+    issues: "Problems found",
+    retry: "Try again",
+  },
+  consent: {
+    label: "Analytics consent",
+    title: "Help us improve sign-up",
+    description: "With your permission we use cookies and anonymous analytics to see where people get stuck signing up or signing in. We never record what you type, and nothing is sent unless you allow it.",
+    privacy: "Privacy Policy",
+    accept: "Allow analytics",
+    decline: "No thanks",
+  },
+  notify: {
+    retry: "Retry",
+    resendEmail: "Resend email",
+    dismiss: "Dismiss",
+  },
+  shell: {
+    navigation: "Main navigation",
+    openNavigation: "Open navigation",
+    closeNavigation: "Close navigation",
+    userMenu: "Account menu",
+    logOut: "Log out",
+    loggingOut: "Logging out...",
+    sessionError: "We couldn't check your session",
+    retry: "Try again",
+    nav: {
+      dashboard: "Dashboard",
+      settings: "Settings",
+    },
+  },
+  session: {
+    idleTitle: "Are you still there?",
+    idleDescription: "For your security, we sign you out after a period of inactivity.",
+    idleCountdown: "You'll be signed out in {seconds}s",
+    staySignedIn: "Stay signed in",
+    signOut: "Sign out",
+  },
+  dashboard: {
+    greeting: "Welcome back, {name}!",
+    subtitle: "Here's an overview of your account.",
+    account: "Your account",
+    name: "Name",
+    email: "Email",
+    mobile: "Mobile number",
+    notProvided: "Not provided",
+  },
+  settings: {
+    title: "Settings",
+    subtitle: "Manage your profile and account security.",
+    tabs: {
+      profile: "Profile",
+      security: "Security",
+    },
+    profile: {
+      title: "Profile",
+      description: "Your name and mobile number.",
+      name: "Full Name",
+      mobile: "Mobile Number",
+      save: "Save changes",
+      saving: "Saving...",
+      toastSaving: "Saving your profile...",
+      toastSaved: "Profile updated",
+      toastFailed: "Could not update your profile",
+    },
+    email: {
+      title: "Email address",
+      description: "We'll send a verification link to the new address. Your current email stays active until you confirm it.",
+      current: "Current email",
+      pending: "Waiting for you to verify {email}. Check that inbox for the link.",
+      newEmail: "New email",
+      newEmailPlaceholder: "Enter your new email",
+      currentPassword: "Current password",
+      submit: "Change email",
+      submitting: "Sending link...",
+      toastSending: "Sending verification link...",
+      toastSent: "Check your new inbox",
+      toastSentDescription: "We sent a verification link to {email}.",
+      toastFailed: "Could not change your email",
+      taken: "This email is already registered.",
+    },
+    password: {
+      title: "Password",
+      description: "Use a strong password that you don't use anywhere else.",
+      current: "Current password",
+      new: "New password",
+      confirm: "Confirm new password",
+      submit: "Change password",
+      submitting: "Changing password...",
+      toastChanging: "Changing your password...",
+      toastChanged: "Password changed",
+      toastFailed: "Could not change your password",
+    },
+    twoFactor: {
+      title: "Two-factor authentication",
+      description: "Ask for a code from an authenticator app every time you sign in.",
+      enabled: "On",
+      disabled: "Off",
+      enabledDescription: "Your account asks for a code from your authenticator app after your password.",
+      setUp: "Set up authenticator app",
+      settingUp: "Preparing...",
+      setupFailed: "Could not start two-factor setup",
+      scan: "Scan this QR code with your authenticator app.",
+      qrLabel: "QR code for your authenticator app",
+      manual: "Can't scan it? Enter this key instead:",
+      copy: "Copy",
+      copied: "Copied to clipboard",
+      codeLabel: "Code from the app",
+      verify: "Verify and turn on",
+      verifying: "Verifying...",
+      cancel: "Cancel",
+      toastEnabling: "Turning on two-factor authentication...",
+      toastEnabled: "Two-factor authentication is on",
+      toastEnableFailed: "Could not turn on two-factor authentication",
+      recoveryTitle: "Save your recovery codes",
+      recoveryDescription: "Each code signs you in once if you lose your authenticator app. They won't be shown again.",
+      download: "Download",
+      done: "I've saved them",
+      currentPassword: "Current password",
+      disable: "Turn off",
+      disabling: "Turning off...",
+      toastDisabling: "Turning off two-factor authentication...",
+      toastDisabled: "Two-factor authentication is off",
+      toastDisableFailed: "Could not turn off two-factor authentication",
+    },
+    passkeys: {
+      title: "Passkeys",
+      description: "Sign in with your fingerprint, face or screen lock instead of your password.",
+      loading: "Loading passkeys",
+      loadFailed: "Could not load your passkeys. Reload the page to try again.",
+      empty: "You haven't added a passkey yet.",
+      created: "Added {date}",
+      lastUsed: "last used {date}",
+      add: "Add a passkey",
+      adding: "Waiting for your device...",
+      toastAdding: "Adding your passkey...",
+      toastAdded: "Passkey added",
+      toastAddFailed: "Could not add the passkey",
+      remove: "Remove {name}",
+      toastRemoving: "Removing the passkey...",
+      toastRemoved: "Passkey removed",
+      toastRemoveFailed: "Could not remove the passkey",
+    },
+    delete: {
+      title: "Delete account",
+      description: "Permanently delete your account and all of its data. This cannot be undone.",
+      confirmLabel: "Type {phrase} to confirm",
+      submit: "Delete account",
+      submitting: "Deleting...",
+      toastDeleting: "Deleting your account...",
+      toastDeleted: "Your account has been deleted",
+      toastFailed: "Could not delete your account",
+    },
+  },
+  oauth: {
+    divider: "or",
+    continueWith: "Continue with {provider}",
+    callback: {
+      signingIn: "Signing you in...",
+      mismatchTitle: "We couldn't verify this sign-in",
+      mismatchDescription: "The response didn't match a sign-in started in this browser tab. Please start again from the sign-in page.",
+      deniedTitle: "Sign-in cancelled",
+      denied: "{provider} didn't give us permission to sign you in.",
+      errorTitle: "Sign-in failed",
+      error: "{provider} couldn't sign you in. Please try again.",
+      sessionFailed: "You signed in with {provider}, but we couldn't start your session.",
+      backToLogin: "Back to sign in",
+      linkTitle: "Link your {provider} account",
+      linkDescription: "An account for {email} already exists. Enter its password to link {provider} and sign in.",
+      password: "Password",
+      passwordPlaceholder: "Enter your password",
+      linkSubmit: "Link and sign in",
+      linkSubmitting: "Linking...",
+      toastLinking: "Linking your account...",
+      toastLinked: "{provider} is now linked to your account",
+      toastLinkFailed: "Could not link your account",
+      linkExpired: "This request has expired. Start again from the sign-in page.",
+    },
+  },
+  oneTimeCode: {
+    label: "One-time code",
+    digit: "Digit {index} of {length}",
+  },
+  twoFactor: {
+    title: "Two-factor authentication",
+    codeDescription: "Enter the 6-digit code from your authenticator app.",
+    recoveryDescription: "Enter one of the recovery codes you saved when you turned on two-factor authentication.",
+    codeLabel: "Authentication code",
+    recoveryLabel: "Recovery code",
+    recoveryPlaceholder: "xxxxx-xxxxx",
+    submit: "Verify",
+    submitting: "Verifying...",
+    useRecovery: "Use a recovery code",
+    useApp: "Use your authenticator app",
+    expiresIn: "This step expires in {time}",
+    expired: "This sign-in attempt has expired. Please sign in again.",
+    startOver: "Back to sign in",
+    toastVerifying: "Verifying...",
+    toastFailed: "Verification failed",
+  },
+  passkey: {
+    signIn: "Sign in with a passkey",
+    signingIn: "Waiting for your passkey...",
+    toastSigningIn: "Signing in with your passkey...",
+    toastFailed: "Passkey sign-in failed",
+    errors: {
+      unsupported: "This browser doesn't support passkeys. Sign in with your email and password, or try another browser.",
+      cancelled: "The passkey request was cancelled or timed out. Try again when you're ready.",
+      alreadyRegistered: "This device already has a passkey for your account.",
+      invalidDomain: "Passkeys can't be used on this site's address.",
+      invalid: "That passkey isn't recognized. It may have been removed from your account.",
+      expired: "The passkey request took too long. Please try again.",
+      failed: "Something went wrong with the passkey. Please try again.",
+    },
+  },
+  magicLink: {
+    switch: "Email me a sign-in link",
+    title: "Sign in with an email link",
+    description: "No password needed: we'll email you a link that signs you in.",
+    submit: "Email me a sign-in link",
+    sending: "Sending...",
+    usePassword: "Sign in with a password instead",
+    toastSending: "Sending your sign-in link...",
+    toastSent: "Sign-in link sent",
+    toastSentDescription: "Check {email} for a link to sign in.",
+    toastFailed: "Could not send the sign-in link",
+    resend: "Send a new link",
+    resendIn: "Send a new link in {seconds}s",
+    sent: {
+      title: "Check your inbox",
+      sentTo: "We sent a sign-in link to",
+      instructions: "Open it in this browser to sign in. The link works once and expires shortly.",
+      spamHint: "Can't find it? Check your spam or junk folder.",
+    },
+    callback: {
+      signingIn: "Signing you in...",
+      otherDeviceTitle: "Sign in on this device?",
+      otherDeviceDescription: "This link was requested from a different device or browser. Only continue if you asked for it yourself.",
+      continue: "Continue signing in",
+      expiredTitle: "This sign-in link has expired",
+      expiredDescription: "Sign-in links only work for a short time. Enter your email and we'll send you a new one.",
+      invalidTitle: "This sign-in link doesn't work",
+      invalid: "It may have been used already. Each link signs you in only once.",
+      missingToken: "This sign-in link is missing its token.",
+      sessionFailed: "The link was accepted, but we couldn't start your session. Please try signing in again.",
+      backToLogin: "Back to sign in",
+    },
+  },
+  rateLimit: {
+    tooManyAttempts: "Too many attempts. Please wait before trying again.",
+    retryIn: "You can try again in {time}",
+  },
+  captcha: {
+    title: "Confirm you're not a robot",
+    description: "We noticed several attempts in a row. Complete the check below to continue.",
+    unavailable: "This check can't be shown right now. Please try again later or contact support.",
+    local: {
+      label: "I'm not a robot",
+      badge: "Local test check",
+    },
+  },
+  content: {
+    back: "Back to the app",
+    version: "Version {version}",
+    englishOnly: "This page is only available in English.",
+    terms: {
+      title: "Terms of Service",
+    },
+    privacy: {
+      title: "Privacy Policy",
+    },
+    help: {
+      title: "Help",
+    },
+  },
+  footer: {
+    help: "Help",
+    privacy: "Privacy",
+    terms: "Terms",
+    contact: "Contact support",
+  },
+  validation: {
+    nameRequired: "Full name is required",
+    emailRequired: "Email is required",
+    emailInvalid: "Email address is invalid",
+    mobileRequired: "Mobile number is required",
+    mobileInvalid: "Please enter a valid mobile number.",
+    mobileTooShort: "This number is too short for the selected country.",
+    mobileTooLong: "This number is too long for the selected country.",
+    passwordRequired: "Password is required",
+    confirmPasswordRequired: "Please confirm your password.",
+    passwordsMismatch: "Passwords do not match",
+    termsRequired: "Please accept the terms to create an account",
+    currentPasswordRequired: "Current password is required",
+    passwordUnchanged: "The new password must be different from the current one",
+    emailUnchanged: "This is already your email address",
+    deleteConfirmation: "Type {phrase} to confirm",
+    codeInvalid: "Enter the {length}-digit code",
+    recoveryCodeRequired: "Enter a recovery code",
+    password: {
+      length: "Password must be at least {min} characters",
+      letter: "Password must include a letter",
+      number: "Password must include a number",
+      symbol: "Password must include a symbol",
+      personal: "Password must not contain your name or email",
+      common: "This password is too common",
+    },
+  },
+  password: {
+    show: "Show password",
+    hide: "Hide password",
+    strengthLabel: "Password strength",
+    met: "(met)",
+    notMet: "(not met)",
+    strength: {
+      tooWeak: "Too weak",
+      weak: "Weak",
+      fair: "Fair",
+      good: "Good",
+      strong: "Strong",
+    },
+    rules: {
+      length: "At least {min} characters",
+      letter: "A letter",
+      number: "A number",
+      symbol: "A symbol",
+      personal: "Does not contain your name or email",
+      common: "Not a commonly used password",
+    },
+  },
+  phone: {
+    countryCode: "Country code",
+  },
+  verification: {
+    resend: "Resend verification email",
+    resendIn: "Resend available in {seconds}s",
+    sending: "Sending...",
+    emailRequired: "Please enter your email address",
+    toastSending: "Sending verification email...",
+    toastSent: "Verification email sent",
+    toastSentDescription: "Check {email} for the new link.",
+    toastFailed: "Could not send email",
+  },
+  login: {
+    title: "Welcome Back",
+    subtitle: "Sign in to your account",
+    email: "Email",
+    emailPlaceholder: "Enter your email",
+    password: "Password",
+    passwordPlaceholder: "Enter your password",
+    forgotPassword: "Forgot Password?",
+    submit: "Sign In",
+    submitting: "Signing In...",
+    noAccount: "Don't have an account?",
+    createAccount: "Create Account",
+    missingCredentials: "Please enter your email and password",
+    connectionError: "Please check your connection and try again",
+    unverified: "Your email address hasn't been verified yet. Check your inbox or request a new link.",
+    toastSigningIn: "Signing you in...",
+    toastSuccess: "Login successful",
+    toastFailed: "Login Failed",
+    toastConnectionError: "Connection error",
+    toastCodeRequired: "Enter your authentication code",
+    rememberMe: "Remember me",
+    sessionExpired: "Your session has expired. Please sign in again.",
+    signedOutIdle: "You were signed out because you were inactive for a while.",
+  },
+  signup: {
+    title: "Create Account",
+    subtitle: "Join our community today",
+    name: "Full Name",
+    namePlaceholder: "Enter your full name",
+    mobile: "Mobile Number",
+    mobilePlaceholder: "Enter your mobile number",
+    email: "Email",
+    emailPlaceholder: "Enter your email address",
+    password: "Password",
+    passwordPlaceholder: "Create a password",
+    confirmPassword: "Confirm Password",
+    confirmPasswordPlaceholder: "Confirm your password",
+    submit: "Create Account",
+    submitting: "Creating Account...",
+    haveAccount: "Already have an account?",
+    signIn: "Sign In",
+    invalidForm: "Please fix the errors marked below.",
+    emailTaken: "This email is already registered.",
+    toastCreating: "Creating your account...",
+    toastSuccess: "Account Created!",
+    toastSuccessDescription: "Please check your email to verify your account.",
+    toastFailed: "Signup Failed",
+    acceptTerms: "I agree to the {terms} and {privacy}",
+    termsLink: "Terms",
+    privacyLink: "Privacy Policy",
+    marketingOptIn: "Email me product news and tips (optional)",
+    next: "Next",
+    back: "Back",
+    progress: "Sign-up progress",
+    stepOf: "Step {current} of {total}",
+    steps: {
+      personal: "About you",
+      contact: "Contact",
+      password: "Password",
+      terms: "Terms",
+    },
+    success: {
+      title: "Account Created Successfully!",
+      verifyHeading: "Verify Your Email",
+      sentTo: "We've sent a verification email to:",
+      instructions: "Please check your inbox and click on the verification link to complete your registration.",
+      spamHint: "If you don't see the email, check your spam folder or promotions tab.",
+      goToLogin: "Go to Login Page",
+      needHelp: "Need help?",
+      contactSupport: "Contact Support",
+    },
+  },
+  forgotPassword: {
+    title: "Forgot your password?",
+    description: "Enter the email you signed up with and we'll send you a link to reset your password.",
+    email: "Email",
+    emailPlaceholder: "Enter your email address",
+    submit: "Send Reset Link",
+    submitting: "Sending Link...",
+    backToLogin: "Back to Sign In",
+    invalidForm: "Please fix the errors marked below.",
+    toastSending: "Sending reset link...",
+    toastSent: "Email Sent!",
+    toastSentDescription: "Check your inbox for the reset link.",
+    toastFailed: "Request Failed",
+    sent: {
+      title: "Check Your Email",
+      sentTo: "If an account exists for:",
+      instructions: "you will receive an email with a link to reset your password.",
+      spamHint: "If you don't see the email, check your spam folder or promotions tab.",
+      differentEmail: "Use a different email",
+      remembered: "Remembered it?",
+    },
+  },
+  resetPassword: {
+    title: "Choose a new password",
+    description: "Choose a strong password you don't use anywhere else.",
+    password: "New Password",
+    passwordPlaceholder: "Create a password",
+    confirmPassword: "Confirm Password",
+    confirmPasswordPlaceholder: "Confirm your password",
+    submit: "Reset Password",
+    submitting: "Updating Password...",
+    backToLogin: "Back to Sign In",
+    invalidForm: "Please fix the errors marked below.",
+    toastUpdating: "Updating your password...",
+    toastUpdated: "Password Updated!",
+    toastUpdatedDescription: "You can now sign in with your new password.",
+    toastFailed: "Reset Failed",
+    missingToken: {
+      title: "Invalid Reset Link",
+      description: "This password reset link is missing its token. Please request a new one.",
+      requestNew: "Request a New Link",
+    },
+    success: {
+      title: "Password Updated",
+      description: "Your password has been changed. Sign in with your new password to continue.",
+      goToLogin: "Go to Login Page",
+    },
+  },
+}
+
+type Catalog<T> = { [K in keyof T]: T[K] extends string ? string : Catalog<T[K]> }
+
+export type Messages = Catalog<typeof en>
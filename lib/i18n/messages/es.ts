@@ -0,0 +1,487 @@
+import type { Messages } from './en'
+
+export const es: Messages = {
+  common: {
+    unexpectedError: "Se produjo un error inesperado",
+    timeout: "El servidor tardó demasiado en responder. Inténtalo de nuevo.",
+    aborted: "Se canceló la solicitud. Inténtalo de nuevo.",
+    invalidResponse: "El servidor envió una respuesta que no pudimos leer. Inténtalo más tarde.",
+  },
+  language: {
+    label: "Idioma",
+  },
+  theme: {
+    label: "Tema",
+    light: "Claro",
+    dark: "Oscuro",
+    system: "Sistema",
+  },
+  config: {
+    title: "Este sitio no está bien configurado",
+    description: "La aplicación no pudo cargar su configuración, así que no puede iniciarse. Vuelve a intentarlo en un momento; si sigue pasando, los responsables del sitio deben corregirlo.",
+    missing: "No se encontró {path}.",
+    unreachable: "No se pudo cargar {path}.",
+    invalid: "{path} tiene problemas:",
+    issues: "Problemas encontrados",
+    retry: "Reintentar",
+  },
+  consent: {
+    label: "Consentimiento de analítica",
+    title: "Ayúdanos a mejorar el registro",
+    description: "Con tu permiso usamos cookies y analítica anónima para ver dónde se atascan las personas al registrarse o iniciar sesión. Nunca registramos lo que escribes y no se envía nada a menos que lo permitas.",
+    privacy: "Política de privacidad",
+    accept: "Permitir analítica",
+    decline: "No, gracias",
+  },
+  notify: {
+    retry: "Reintentar",
+    resendEmail: "Reenviar correo",
+    dismiss: "Cerrar",
+  },
+  shell: {
+    navigation: "Navegación principal",
+    openNavigation: "Abrir navegación",
+    closeNavigation: "Cerrar navegación",
+    userMenu: "Menú de la cuenta",
+    logOut: "Cerrar sesión",
+    loggingOut: "Cerrando sesión...",
+    sessionError: "No pudimos comprobar tu sesión",
+    retry: "Reintentar",
+    nav: {
+      dashboard: "Panel",
+      settings: "Configuración",
+    },
+  },
+  session: {
+    idleTitle: "¿Sigues ahí?",
+    idleDescription: "Por tu seguridad, cerramos la sesión tras un tiempo de inactividad.",
+    idleCountdown: "Tu sesión se cerrará en {seconds} s",
+    staySignedIn: "Seguir conectado",
+    signOut: "Cerrar sesión",
+  },
+  dashboard: {
+    greeting: "¡Hola de nuevo, {name}!",
+    subtitle: "Este es un resumen de tu cuenta.",
+    account: "Tu cuenta",
+    name: "Nombre",
+    email: "Correo electrónico",
+    mobile: "Número de móvil",
+    notProvided: "Sin especificar",
+  },
+  settings: {
+    title: "Configuración",
+    subtitle: "Gestiona tu perfil y la seguridad de tu cuenta.",
+    tabs: {
+      profile: "Perfil",
+      security: "Seguridad",
+    },
+    profile: {
+      title: "Perfil",
+      description: "Tu nombre y tu número de móvil.",
+      name: "Nombre completo",
+      mobile: "Número de móvil",
+      save: "Guardar cambios",
+      saving: "Guardando...",
+      toastSaving: "Guardando tu perfil...",
+      toastSaved: "Perfil actualizado",
+      toastFailed: "No se pudo actualizar tu perfil",
+    },
+    email: {
+      title: "Correo electrónico",
+      description: "Enviaremos un enlace de verificación a la nueva dirección. Tu correo actual seguirá activo hasta que la confirmes.",
+      current: "Correo actual",
+      pending: "Pendiente de verificar {email}. Busca el enlace en esa bandeja de entrada.",
+      newEmail: "Nuevo correo",
+      newEmailPlaceholder: "Introduce tu nuevo correo",
+      currentPassword: "Contraseña actual",
+      submit: "Cambiar correo",
+      submitting: "Enviando enlace...",
+      toastSending: "Enviando enlace de verificación...",
+      toastSent: "Revisa tu nueva bandeja de entrada",
+      toastSentDescription: "Hemos enviado un enlace de verificación a {email}.",
+      toastFailed: "No se pudo cambiar tu correo",
+      taken: "Este correo ya está registrado.",
+    },
+    password: {
+      title: "Contraseña",
+      description: "Usa una contraseña segura que no utilices en ningún otro sitio.",
+      current: "Contraseña actual",
+      new: "Nueva contraseña",
+      confirm: "Confirmar nueva contraseña",
+      submit: "Cambiar contraseña",
+      submitting: "Cambiando contraseña...",
+      toastChanging: "Cambiando tu contraseña...",
+      toastChanged: "Contraseña cambiada",
+      toastFailed: "No se pudo cambiar tu contraseña",
+    },
+    twoFactor: {
+      title: "Verificación en dos pasos",
+      description: "Pide un código de una aplicación de autenticación cada vez que inicies sesión.",
+      enabled: "Activada",
+      disabled: "Desactivada",
+      enabledDescription: "Tu cuenta pide un código de tu aplicación de autenticación después de la contraseña.",
+      setUp: "Configurar aplicación de autenticación",
+      settingUp: "Preparando...",
+      setupFailed: "No se pudo iniciar la configuración",
+      scan: "Escanea este código QR con tu aplicación de autenticación.",
+      qrLabel: "Código QR para tu aplicación de autenticación",
+      manual: "¿No puedes escanearlo? Introduce esta clave:",
+      copy: "Copiar",
+      copied: "Copiado al portapapeles",
+      codeLabel: "Código de la aplicación",
+      verify: "Verificar y activar",
+      verifying: "Verificando...",
+      cancel: "Cancelar",
+      toastEnabling: "Activando la verificación en dos pasos...",
+      toastEnabled: "La verificación en dos pasos está activada",
+      toastEnableFailed: "No se pudo activar la verificación en dos pasos",
+      recoveryTitle: "Guarda tus códigos de recuperación",
+      recoveryDescription: "Cada código te permite iniciar sesión una vez si pierdes tu aplicación de autenticación. No se volverán a mostrar.",
+      download: "Descargar",
+      done: "Ya los he guardado",
+      currentPassword: "Contraseña actual",
+      disable: "Desactivar",
+      disabling: "Desactivando...",
+      toastDisabling: "Desactivando la verificación en dos pasos...",
+      toastDisabled: "La verificación en dos pasos está desactivada",
+      toastDisableFailed: "No se pudo desactivar la verificación en dos pasos",
+    },
+    passkeys: {
+      title: "Llaves de acceso",
+      description: "Inicia sesión con tu huella, tu cara o el bloqueo de pantalla en lugar de tu contraseña.",
+      loading: "Cargando llaves de acceso",
+      loadFailed: "No se pudieron cargar tus llaves de acceso. Recarga la página para intentarlo de nuevo.",
+      empty: "Aún no has añadido ninguna llave de acceso.",
+      created: "Añadida el {date}",
+      lastUsed: "último uso el {date}",
+      add: "Añadir una llave de acceso",
+      adding: "Esperando a tu dispositivo...",
+      toastAdding: "Añadiendo tu llave de acceso...",
+      toastAdded: "Llave de acceso añadida",
+      toastAddFailed: "No se pudo añadir la llave de acceso",
+      remove: "Eliminar {name}",
+      toastRemoving: "Eliminando la llave de acceso...",
+      toastRemoved: "Llave de acceso eliminada",
+      toastRemoveFailed: "No se pudo eliminar la llave de acceso",
+    },
+    delete: {
+      title: "Eliminar cuenta",
+      description: "Elimina de forma permanente tu cuenta y todos sus datos. Esta acción no se puede deshacer.",
+      confirmLabel: "Escribe {phrase} para confirmar",
+      submit: "Eliminar cuenta",
+      submitting: "Eliminando...",
+      toastDeleting: "Eliminando tu cuenta...",
+      toastDeleted: "Tu cuenta ha sido eliminada",
+      toastFailed: "No se pudo eliminar tu cuenta",
+    },
+  },
+  oauth: {
+    divider: "o",
+    continueWith: "Continuar con {provider}",
+    callback: {
+      signingIn: "Iniciando sesión...",
+      mismatchTitle: "No pudimos verificar este inicio de sesión",
+      mismatchDescription: "La respuesta no corresponde a un inicio de sesión iniciado en esta pestaña. Vuelve a empezar desde la página de inicio de sesión.",
+      deniedTitle: "Inicio de sesión cancelado",
+      denied: "{provider} no nos dio permiso para iniciar tu sesión.",
+      errorTitle: "Error al iniciar sesión",
+      error: "{provider} no pudo iniciar tu sesión. Inténtalo de nuevo.",
+      sessionFailed: "Te identificaste con {provider}, pero no pudimos iniciar tu sesión.",
+      backToLogin: "Volver a iniciar sesión",
+      linkTitle: "Vincula tu cuenta de {provider}",
+      linkDescription: "Ya existe una cuenta para {email}. Introduce su contraseña para vincular {provider} e iniciar sesión.",
+      password: "Contraseña",
+      passwordPlaceholder: "Introduce tu contraseña",
+      linkSubmit: "Vincular e iniciar sesión",
+      linkSubmitting: "Vinculando...",
+      toastLinking: "Vinculando tu cuenta...",
+      toastLinked: "{provider} ya está vinculado a tu cuenta",
+      toastLinkFailed: "No se pudo vincular tu cuenta",
+      linkExpired: "Esta solicitud ha caducado. Vuelve a empezar desde la página de inicio de sesión.",
+    },
+  },
+  oneTimeCode: {
+    label: "Código de un solo uso",
+    digit: "Dígito {index} de {length}",
+  },
+  twoFactor: {
+    title: "Verificación en dos pasos",
+    codeDescription: "Introduce el código de 6 dígitos de tu aplicación de autenticación.",
+    recoveryDescription: "Introduce uno de los códigos de recuperación que guardaste al activar la verificación en dos pasos.",
+    codeLabel: "Código de autenticación",
+    recoveryLabel: "Código de recuperación",
+    recoveryPlaceholder: "xxxxx-xxxxx",
+    submit: "Verificar",
+    submitting: "Verificando...",
+    useRecovery: "Usar un código de recuperación",
+    useApp: "Usar tu aplicación de autenticación",
+    expiresIn: "Este paso caduca en {time}",
+    expired: "Este intento de inicio de sesión ha caducado. Vuelve a iniciar sesión.",
+    startOver: "Volver a iniciar sesión",
+    toastVerifying: "Verificando...",
+    toastFailed: "Error de verificación",
+  },
+  passkey: {
+    signIn: "Iniciar sesión con una llave de acceso",
+    signingIn: "Esperando tu llave de acceso...",
+    toastSigningIn: "Iniciando sesión con tu llave de acceso...",
+    toastFailed: "No se pudo iniciar sesión con la llave de acceso",
+    errors: {
+      unsupported: "Este navegador no admite llaves de acceso. Inicia sesión con tu correo y contraseña, o prueba con otro navegador.",
+      cancelled: "La solicitud de la llave de acceso se canceló o caducó. Inténtalo de nuevo cuando quieras.",
+      alreadyRegistered: "Este dispositivo ya tiene una llave de acceso para tu cuenta.",
+      invalidDomain: "Las llaves de acceso no se pueden usar en la dirección de este sitio.",
+      invalid: "No reconocemos esa llave de acceso. Puede que se haya eliminado de tu cuenta.",
+      expired: "La solicitud de la llave de acceso tardó demasiado. Inténtalo de nuevo.",
+      failed: "Algo salió mal con la llave de acceso. Inténtalo de nuevo.",
+    },
+  },
+  magicLink: {
+    switch: "Envíame un enlace de inicio de sesión",
+    title: "Inicia sesión con un enlace por correo",
+    description: "Sin contraseña: te enviaremos por correo un enlace para iniciar sesión.",
+    submit: "Envíame un enlace de inicio de sesión",
+    sending: "Enviando...",
+    usePassword: "Iniciar sesión con contraseña",
+    toastSending: "Enviando tu enlace de inicio de sesión...",
+    toastSent: "Enlace de inicio de sesión enviado",
+    toastSentDescription: "Revisa {email} para encontrar el enlace.",
+    toastFailed: "No se pudo enviar el enlace de inicio de sesión",
+    resend: "Enviar un enlace nuevo",
+    resendIn: "Enviar un enlace nuevo en {seconds}s",
+    sent: {
+      title: "Revisa tu bandeja de entrada",
+      sentTo: "Hemos enviado un enlace de inicio de sesión a",
+      instructions: "Ábrelo en este navegador para iniciar sesión. El enlace funciona una sola vez y caduca pronto.",
+      spamHint: "¿No lo encuentras? Revisa la carpeta de spam o correo no deseado.",
+    },
+    callback: {
+      signingIn: "Iniciando sesión...",
+      otherDeviceTitle: "¿Iniciar sesión en este dispositivo?",
+      otherDeviceDescription: "Este enlace se solicitó desde otro dispositivo o navegador. Continúa solo si lo pediste tú.",
+      continue: "Continuar con el inicio de sesión",
+      expiredTitle: "Este enlace de inicio de sesión ha caducado",
+      expiredDescription: "Los enlaces de inicio de sesión solo funcionan durante poco tiempo. Introduce tu correo y te enviaremos uno nuevo.",
+      invalidTitle: "Este enlace de inicio de sesión no funciona",
+      invalid: "Puede que ya se haya usado. Cada enlace inicia sesión una sola vez.",
+      missingToken: "A este enlace de inicio de sesión le falta el token.",
+      sessionFailed: "El enlace se aceptó, pero no pudimos iniciar tu sesión. Vuelve a intentarlo.",
+      backToLogin: "Volver a iniciar sesión",
+    },
+  },
+  rateLimit: {
+    tooManyAttempts: "Demasiados intentos. Espera antes de volver a intentarlo.",
+    retryIn: "Puedes volver a intentarlo en {time}",
+  },
+  captcha: {
+    title: "Confirma que no eres un robot",
+    description: "Hemos detectado varios intentos seguidos. Completa la verificación para continuar.",
+    unavailable: "No se puede mostrar esta verificación ahora. Inténtalo más tarde o contacta con soporte.",
+    local: {
+      label: "No soy un robot",
+      badge: "Verificación de prueba local",
+    },
+  },
+  content: {
+    back: "Volver a la aplicación",
+    version: "Versión {version}",
+    englishOnly: "Esta página solo está disponible en inglés.",
+    terms: {
+      title: "Términos del servicio",
+    },
+    privacy: {
+      title: "Política de privacidad",
+    },
+    help: {
+      title: "Ayuda",
+    },
+  },
+  footer: {
+    help: "Ayuda",
+    privacy: "Privacidad",
+    terms: "Términos",
+    contact: "Contactar con soporte",
+  },
+  validation: {
+    nameRequired: "El nombre completo es obligatorio",
+    emailRequired: "El correo electrónico es obligatorio",
+    emailInvalid: "El correo electrónico no es válido",
+    mobileRequired: "El número de móvil es obligatorio",
+    mobileInvalid: "Introduce un número de móvil válido.",
+    mobileTooShort: "Este número es demasiado corto para el país seleccionado.",
+    mobileTooLong: "Este número es demasiado largo para el país seleccionado.",
+    passwordRequired: "La contraseña es obligatoria",
+    confirmPasswordRequired: "Confirma tu contraseña.",
+    passwordsMismatch: "Las contraseñas no coinciden",
+    termsRequired: "Acepta las condiciones para crear una cuenta",
+    currentPasswordRequired: "La contraseña actual es obligatoria",
+    passwordUnchanged: "La nueva contraseña debe ser distinta de la actual",
+    emailUnchanged: "Este ya es tu correo electrónico",
+    deleteConfirmation: "Escribe {phrase} para confirmar",
+    codeInvalid: "Introduce el código de {length} dígitos",
+    recoveryCodeRequired: "Introduce un código de recuperación",
+    password: {
+      length: "La contraseña debe tener al menos {min} caracteres",
+      letter: "La contraseña debe incluir una letra",
+      number: "La contraseña debe incluir un número",
+      symbol: "La contraseña debe incluir un símbolo",
+      personal: "La contraseña no puede contener tu nombre ni tu correo",
+      common: "Esta contraseña es demasiado común",
+    },
+  },
+  password: {
+    show: "Mostrar contraseña",
+    hide: "Ocultar contraseña",
+    strengthLabel: "Seguridad de la contraseña",
+    met: "(cumplido)",
+    notMet: "(no cumplido)",
+    strength: {
+      tooWeak: "Muy débil",
+      weak: "Débil",
+      fair: "Aceptable",
+      good: "Buena",
+      strong: "Fuerte",
+    },
+    rules: {
+      length: "Al menos {min} caracteres",
+      letter: "Una letra",
+      number: "Un número",
+      symbol: "Un símbolo",
+      personal: "No contiene tu nombre ni tu correo",
+      common: "No es una contraseña común",
+    },
+  },
+  phone: {
+    countryCode: "Prefijo del país",
+  },
+  verification: {
+    resend: "Reenviar correo de verificación",
+    resendIn: "Podrás reenviarlo en {seconds}s",
+    sending: "Enviando...",
+    emailRequired: "Introduce tu correo electrónico",
+    toastSending: "Enviando correo de verificación...",
+    toastSent: "Correo de verificación enviado",
+    toastSentDescription: "Revisa {email} para encontrar el nuevo enlace.",
+    toastFailed: "No se pudo enviar el correo",
+  },
+  login: {
+    title: "Bienvenido de nuevo",
+    subtitle: "Inicia sesión en tu cuenta",
+    email: "Correo electrónico",
+    emailPlaceholder: "Introduce tu correo electrónico",
+    password: "Contraseña",
+    passwordPlaceholder: "Introduce tu contraseña",
+    forgotPassword: "¿Olvidaste tu contraseña?",
+    submit: "Iniciar sesión",
+    submitting: "Iniciando sesión...",
+    noAccount: "¿No tienes una cuenta?",
+    createAccount: "Crear cuenta",
+    missingCredentials: "Introduce tu correo electrónico y tu contraseña",
+    connectionError: "Comprueba tu conexión e inténtalo de nuevo",
+    unverified: "Tu correo electrónico aún no está verificado. Revisa tu bandeja de entrada o solicita un nuevo enlace.",
+    toastSigningIn: "Iniciando sesión...",
+    toastSuccess: "Sesión iniciada",
+    toastFailed: "Error al iniciar sesión",
+    toastConnectionError: "Error de conexión",
+    toastCodeRequired: "Introduce tu código de autenticación",
+    rememberMe: "Recordarme",
+    sessionExpired: "Tu sesión ha caducado. Vuelve a iniciar sesión.",
+    signedOutIdle: "Se cerró tu sesión porque estuviste inactivo un tiempo.",
+  },
+  signup: {
+    title: "Crear cuenta",
+    subtitle: "Únete a nuestra comunidad hoy",
+    name: "Nombre completo",
+    namePlaceholder: "Introduce tu nombre completo",
+    mobile: "Número de móvil",
+    mobilePlaceholder: "Introduce tu número de móvil",
+    email: "Correo electrónico",
+    emailPlaceholder: "Introduce tu correo electrónico",
+    password: "Contraseña",
+    passwordPlaceholder: "Crea una contraseña",
+    confirmPassword: "Confirmar contraseña",
+    confirmPasswordPlaceholder: "Confirma tu contraseña",
+    submit: "Crear cuenta",
+    submitting: "Creando cuenta...",
+    haveAccount: "¿Ya tienes una cuenta?",
+    signIn: "Iniciar sesión",
+    invalidForm: "Corrige los errores indicados a continuación.",
+    emailTaken: "Este correo electrónico ya está registrado.",
+    toastCreating: "Creando tu cuenta...",
+    toastSuccess: "¡Cuenta creada!",
+    toastSuccessDescription: "Revisa tu correo para verificar tu cuenta.",
+    toastFailed: "Error en el registro",
+    acceptTerms: "Acepto los {terms} y la {privacy}",
+    termsLink: "Términos",
+    privacyLink: "Política de privacidad",
+    marketingOptIn: "Enviarme novedades y consejos por correo (opcional)",
+    next: "Siguiente",
+    back: "Atrás",
+    progress: "Progreso del registro",
+    stepOf: "Paso {current} de {total}",
+    steps: {
+      personal: "Sobre ti",
+      contact: "Contacto",
+      password: "Contraseña",
+      terms: "Condiciones",
+    },
+    success: {
+      title: "¡Cuenta creada correctamente!",
+      verifyHeading: "Verifica tu correo",
+      sentTo: "Hemos enviado un correo de verificación a:",
+      instructions: "Revisa tu bandeja de entrada y haz clic en el enlace de verificación para completar el registro.",
+      spamHint: "Si no ves el correo, revisa la carpeta de spam o de promociones.",
+      goToLogin: "Ir a iniciar sesión",
+      needHelp: "¿Necesitas ayuda?",
+      contactSupport: "Contactar con soporte",
+    },
+  },
+  forgotPassword: {
+    title: "¿Has olvidado tu contraseña?",
+    description: "Introduce el correo con el que te registraste y te enviaremos un enlace para restablecer tu contraseña.",
+    email: "Correo electrónico",
+    emailPlaceholder: "Introduce tu correo electrónico",
+    submit: "Enviar enlace",
+    submitting: "Enviando enlace...",
+    backToLogin: "Volver a iniciar sesión",
+    invalidForm: "Corrige los errores indicados a continuación.",
+    toastSending: "Enviando el enlace de restablecimiento...",
+    toastSent: "¡Correo enviado!",
+    toastSentDescription: "Busca en tu bandeja de entrada el enlace para restablecer la contraseña.",
+    toastFailed: "No se pudo enviar",
+    sent: {
+      title: "Revisa tu correo",
+      sentTo: "Si existe una cuenta para:",
+      instructions: "recibirás un correo con un enlace para restablecer tu contraseña.",
+      spamHint: "Si no ves el correo, revisa la carpeta de spam o de promociones.",
+      differentEmail: "Usar otro correo",
+      remembered: "¿La has recordado?",
+    },
+  },
+  resetPassword: {
+    title: "Elige una contraseña nueva",
+    description: "Elige una contraseña segura que no uses en ningún otro sitio.",
+    password: "Contraseña nueva",
+    passwordPlaceholder: "Crea una contraseña",
+    confirmPassword: "Confirmar contraseña",
+    confirmPasswordPlaceholder: "Confirma tu contraseña",
+    submit: "Restablecer contraseña",
+    submitting: "Actualizando contraseña...",
+    backToLogin: "Volver a iniciar sesión",
+    invalidForm: "Corrige los errores indicados a continuación.",
+    toastUpdating: "Actualizando tu contraseña...",
+    toastUpdated: "¡Contraseña actualizada!",
+    toastUpdatedDescription: "Ya puedes iniciar sesión con tu nueva contraseña.",
+    toastFailed: "No se pudo restablecer",
+    missingToken: {
+      title: "Enlace no válido",
+      description: "A este enlace para restablecer la contraseña le falta el token. Solicita uno nuevo.",
+      requestNew: "Solicitar un enlace nuevo",
+    },
+    success: {
+      title: "Contraseña actualizada",
+      description: "Tu contraseña se ha cambiado. Inicia sesión con la nueva contraseña para continuar.",
+      goToLogin: "Ir a iniciar sesión",
+    },
+  },
+}
@@ -0,0 +1,487 @@
+import type { Messages } from './en'
+
+export const fr: Messages = {
+  common: {
+    unexpectedError: "Une erreur inattendue s'est produite",
+    timeout: "Le serveur a mis trop de temps à répondre. Veuillez réessayer.",
+    aborted: "La requête a été annulée. Veuillez réessayer.",
+    invalidResponse: "Le serveur a envoyé une réponse illisible. Veuillez réessayer plus tard.",
+  },
+  language: {
+    label: "Langue",
+  },
+  theme: {
+    label: "Thème",
+    light: "Clair",
+    dark: "Sombre",
+    system: "Système",
+  },
+  config: {
+    title: "Ce site n'est pas configuré correctement",
+    description: "L'application n'a pas pu charger ses paramètres et ne peut donc pas démarrer. Réessayez dans un instant ; si le problème persiste, les responsables du site doivent le corriger.",
+    missing: "{path} est introuvable.",
+    unreachable: "{path} n'a pas pu être chargé.",
+    invalid: "{path} contient des erreurs :",
+    issues: "Problèmes détectés",
+    retry: "Réessayer",
+  },
+  consent: {
+    label: "Consentement aux statistiques",
+    title: "Aidez-nous à améliorer l'inscription",
+    description: "Avec votre accord, nous utilisons des cookies et des statistiques anonymes pour voir où les personnes bloquent lors de l'inscription ou de la connexion. Nous n'enregistrons jamais ce que vous saisissez, et rien n'est envoyé sans votre accord.",
+    privacy: "Politique de confidentialité",
+    accept: "Autoriser les statistiques",
+    decline: "Non merci",
+  },
+  notify: {
+    retry: "Réessayer",
+    resendEmail: "Renvoyer l'e-mail",
+    dismiss: "Fermer",
+  },
+  shell: {
+    navigation: "Navigation principale",
+    openNavigation: "Ouvrir la navigation",
+    closeNavigation: "Fermer la navigation",
+    userMenu: "Menu du compte",
+    logOut: "Se déconnecter",
+    loggingOut: "Déconnexion...",
+    sessionError: "Impossible de vérifier votre session",
+    retry: "Réessayer",
+    nav: {
+      dashboard: "Tableau de bord",
+      settings: "Paramètres",
+    },
+  },
+  session: {
+    idleTitle: "Êtes-vous toujours là ?",
+    idleDescription: "Pour votre sécurité, nous vous déconnectons après une période d'inactivité.",
+    idleCountdown: "Vous serez déconnecté dans {seconds} s",
+    staySignedIn: "Rester connecté",
+    signOut: "Se déconnecter",
+  },
+  dashboard: {
+    greeting: "Bon retour, {name} !",
+    subtitle: "Voici un aperçu de votre compte.",
+    account: "Votre compte",
+    name: "Nom",
+    email: "E-mail",
+    mobile: "Numéro de mobile",
+    notProvided: "Non renseigné",
+  },
+  settings: {
+    title: "Paramètres",
+    subtitle: "Gérez votre profil et la sécurité de votre compte.",
+    tabs: {
+      profile: "Profil",
+      security: "Sécurité",
+    },
+    profile: {
+      title: "Profil",
+      description: "Votre nom et votre numéro de mobile.",
+      name: "Nom complet",
+      mobile: "Numéro de mobile",
+      save: "Enregistrer",
+      saving: "Enregistrement...",
+      toastSaving: "Enregistrement de votre profil...",
+      toastSaved: "Profil mis à jour",
+      toastFailed: "Impossible de mettre à jour votre profil",
+    },
+    email: {
+      title: "Adresse e-mail",
+      description: "Nous enverrons un lien de vérification à la nouvelle adresse. Votre adresse actuelle reste active jusqu'à sa confirmation.",
+      current: "Adresse actuelle",
+      pending: "En attente de la vérification de {email}. Le lien se trouve dans cette boîte de réception.",
+      newEmail: "Nouvelle adresse",
+      newEmailPlaceholder: "Saisissez votre nouvelle adresse",
+      currentPassword: "Mot de passe actuel",
+      submit: "Changer d'adresse",
+      submitting: "Envoi du lien...",
+      toastSending: "Envoi du lien de vérification...",
+      toastSent: "Consultez votre nouvelle boîte de réception",
+      toastSentDescription: "Nous avons envoyé un lien de vérification à {email}.",
+      toastFailed: "Impossible de changer votre adresse e-mail",
+      taken: "Cette adresse e-mail est déjà utilisée.",
+    },
+    password: {
+      title: "Mot de passe",
+      description: "Choisissez un mot de passe robuste que vous n'utilisez nulle part ailleurs.",
+      current: "Mot de passe actuel",
+      new: "Nouveau mot de passe",
+      confirm: "Confirmer le nouveau mot de passe",
+      submit: "Changer le mot de passe",
+      submitting: "Modification...",
+      toastChanging: "Modification de votre mot de passe...",
+      toastChanged: "Mot de passe modifié",
+      toastFailed: "Impossible de changer votre mot de passe",
+    },
+    twoFactor: {
+      title: "Authentification à deux facteurs",
+      description: "Demandez un code d'une application d'authentification à chaque connexion.",
+      enabled: "Activée",
+      disabled: "Désactivée",
+      enabledDescription: "Votre compte demande un code de votre application d'authentification après le mot de passe.",
+      setUp: "Configurer l'application d'authentification",
+      settingUp: "Préparation...",
+      setupFailed: "Impossible de lancer la configuration",
+      scan: "Scannez ce code QR avec votre application d'authentification.",
+      qrLabel: "Code QR pour votre application d'authentification",
+      manual: "Impossible de le scanner ? Saisissez plutôt cette clé :",
+      copy: "Copier",
+      copied: "Copié dans le presse-papiers",
+      codeLabel: "Code de l'application",
+      verify: "Vérifier et activer",
+      verifying: "Vérification...",
+      cancel: "Annuler",
+      toastEnabling: "Activation de l'authentification à deux facteurs...",
+      toastEnabled: "L'authentification à deux facteurs est activée",
+      toastEnableFailed: "Impossible d'activer l'authentification à deux facteurs",
+      recoveryTitle: "Enregistrez vos codes de récupération",
+      recoveryDescription: "Chaque code vous connecte une fois si vous perdez votre application d'authentification. Ils ne seront plus affichés.",
+      download: "Télécharger",
+      done: "Je les ai enregistrés",
+      currentPassword: "Mot de passe actuel",
+      disable: "Désactiver",
+      disabling: "Désactivation...",
+      toastDisabling: "Désactivation de l'authentification à deux facteurs...",
+      toastDisabled: "L'authentification à deux facteurs est désactivée",
+      toastDisableFailed: "Impossible de désactiver l'authentification à deux facteurs",
+    },
+    passkeys: {
+      title: "Clés d'accès",
+      description: "Connectez-vous avec votre empreinte, votre visage ou le verrouillage de l'écran au lieu de votre mot de passe.",
+      loading: "Chargement des clés d'accès",
+      loadFailed: "Impossible de charger vos clés d'accès. Rechargez la page pour réessayer.",
+      empty: "Vous n'avez pas encore ajouté de clé d'accès.",
+      created: "Ajoutée le {date}",
+      lastUsed: "dernière utilisation le {date}",
+      add: "Ajouter une clé d'accès",
+      adding: "En attente de votre appareil...",
+      toastAdding: "Ajout de votre clé d'accès...",
+      toastAdded: "Clé d'accès ajoutée",
+      toastAddFailed: "Impossible d'ajouter la clé d'accès",
+      remove: "Supprimer {name}",
+      toastRemoving: "Suppression de la clé d'accès...",
+      toastRemoved: "Clé d'accès supprimée",
+      toastRemoveFailed: "Impossible de supprimer la clé d'accès",
+    },
+    delete: {
+      title: "Supprimer le compte",
+      description: "Supprimez définitivement votre compte et toutes ses données. Cette action est irréversible.",
+      confirmLabel: "Saisissez {phrase} pour confirmer",
+      submit: "Supprimer le compte",
+      submitting: "Suppression...",
+      toastDeleting: "Suppression de votre compte...",
+      toastDeleted: "Votre compte a été supprimé",
+      toastFailed: "Impossible de supprimer votre compte",
+    },
+  },
+  oauth: {
+    divider: "ou",
+    continueWith: "Continuer avec {provider}",
+    callback: {
+      signingIn: "Connexion en cours...",
+      mismatchTitle: "Impossible de vérifier cette connexion",
+      mismatchDescription: "La réponse ne correspond à aucune connexion lancée dans cet onglet. Recommencez depuis la page de connexion.",
+      deniedTitle: "Connexion annulée",
+      denied: "{provider} ne nous a pas autorisés à vous connecter.",
+      errorTitle: "Échec de la connexion",
+      error: "{provider} n'a pas pu vous connecter. Veuillez réessayer.",
+      sessionFailed: "Vous vous êtes identifié avec {provider}, mais nous n'avons pas pu ouvrir votre session.",
+      backToLogin: "Retour à la connexion",
+      linkTitle: "Associez votre compte {provider}",
+      linkDescription: "Un compte existe déjà pour {email}. Saisissez son mot de passe pour associer {provider} et vous connecter.",
+      password: "Mot de passe",
+      passwordPlaceholder: "Saisissez votre mot de passe",
+      linkSubmit: "Associer et se connecter",
+      linkSubmitting: "Association...",
+      toastLinking: "Association de votre compte...",
+      toastLinked: "{provider} est maintenant associé à votre compte",
+      toastLinkFailed: "Impossible d'associer votre compte",
+      linkExpired: "Cette demande a expiré. Recommencez depuis la page de connexion.",
+    },
+  },
+  oneTimeCode: {
+    label: "Code à usage unique",
+    digit: "Chiffre {index} sur {length}",
+  },
+  twoFactor: {
+    title: "Authentification à deux facteurs",
+    codeDescription: "Saisissez le code à 6 chiffres de votre application d'authentification.",
+    recoveryDescription: "Saisissez l'un des codes de récupération enregistrés lors de l'activation de l'authentification à deux facteurs.",
+    codeLabel: "Code d'authentification",
+    recoveryLabel: "Code de récupération",
+    recoveryPlaceholder: "xxxxx-xxxxx",
+    submit: "Vérifier",
+    submitting: "Vérification...",
+    useRecovery: "Utiliser un code de récupération",
+    useApp: "Utiliser votre application d'authentification",
+    expiresIn: "Cette étape expire dans {time}",
+    expired: "Cette tentative de connexion a expiré. Veuillez vous reconnecter.",
+    startOver: "Retour à la connexion",
+    toastVerifying: "Vérification...",
+    toastFailed: "Échec de la vérification",
+  },
+  passkey: {
+    signIn: "Se connecter avec une clé d'accès",
+    signingIn: "En attente de votre clé d'accès...",
+    toastSigningIn: "Connexion avec votre clé d'accès...",
+    toastFailed: "Échec de la connexion avec la clé d'accès",
+    errors: {
+      unsupported: "Ce navigateur ne prend pas en charge les clés d'accès. Connectez-vous avec votre e-mail et votre mot de passe, ou essayez un autre navigateur.",
+      cancelled: "La demande de clé d'accès a été annulée ou a expiré. Réessayez quand vous serez prêt.",
+      alreadyRegistered: "Cet appareil possède déjà une clé d'accès pour votre compte.",
+      invalidDomain: "Les clés d'accès ne peuvent pas être utilisées à l'adresse de ce site.",
+      invalid: "Cette clé d'accès n'est pas reconnue. Elle a peut-être été supprimée de votre compte.",
+      expired: "La demande de clé d'accès a pris trop de temps. Veuillez réessayer.",
+      failed: "Un problème est survenu avec la clé d'accès. Veuillez réessayer.",
+    },
+  },
+  magicLink: {
+    switch: "M'envoyer un lien de connexion",
+    title: "Se connecter avec un lien par e-mail",
+    description: "Sans mot de passe : nous vous envoyons par e-mail un lien qui vous connecte.",
+    submit: "M'envoyer un lien de connexion",
+    sending: "Envoi...",
+    usePassword: "Se connecter avec un mot de passe",
+    toastSending: "Envoi de votre lien de connexion...",
+    toastSent: "Lien de connexion envoyé",
+    toastSentDescription: "Consultez {email} pour trouver le lien de connexion.",
+    toastFailed: "Impossible d'envoyer le lien de connexion",
+    resend: "Envoyer un nouveau lien",
+    resendIn: "Envoyer un nouveau lien dans {seconds} s",
+    sent: {
+      title: "Consultez votre boîte de réception",
+      sentTo: "Nous avons envoyé un lien de connexion à",
+      instructions: "Ouvrez-le dans ce navigateur pour vous connecter. Le lien ne fonctionne qu'une fois et expire rapidement.",
+      spamHint: "Vous ne le trouvez pas ? Vérifiez votre dossier de spam ou de courrier indésirable.",
+    },
+    callback: {
+      signingIn: "Connexion en cours...",
+      otherDeviceTitle: "Se connecter sur cet appareil ?",
+      otherDeviceDescription: "Ce lien a été demandé depuis un autre appareil ou navigateur. Ne continuez que si vous l'avez demandé vous-même.",
+      continue: "Continuer la connexion",
+      expiredTitle: "Ce lien de connexion a expiré",
+      expiredDescription: "Les liens de connexion ne fonctionnent que peu de temps. Saisissez votre e-mail et nous vous en enverrons un nouveau.",
+      invalidTitle: "Ce lien de connexion ne fonctionne pas",
+      invalid: "Il a peut-être déjà été utilisé. Chaque lien ne permet de se connecter qu'une fois.",
+      missingToken: "Il manque le jeton dans ce lien de connexion.",
+      sessionFailed: "Le lien a été accepté, mais votre session n'a pas pu démarrer. Veuillez réessayer de vous connecter.",
+      backToLogin: "Retour à la connexion",
+    },
+  },
+  rateLimit: {
+    tooManyAttempts: "Trop de tentatives. Veuillez patienter avant de réessayer.",
+    retryIn: "Vous pourrez réessayer dans {time}",
+  },
+  captcha: {
+    title: "Confirmez que vous n'êtes pas un robot",
+    description: "Nous avons constaté plusieurs tentatives d'affilée. Effectuez la vérification ci-dessous pour continuer.",
+    unavailable: "Cette vérification ne peut pas s'afficher pour le moment. Réessayez plus tard ou contactez le support.",
+    local: {
+      label: "Je ne suis pas un robot",
+      badge: "Vérification de test locale",
+    },
+  },
+  content: {
+    back: "Retour à l'application",
+    version: "Version {version}",
+    englishOnly: "Cette page n'est disponible qu'en anglais.",
+    terms: {
+      title: "Conditions d'utilisation",
+    },
+    privacy: {
+      title: "Politique de confidentialité",
+    },
+    help: {
+      title: "Aide",
+    },
+  },
+  footer: {
+    help: "Aide",
+    privacy: "Confidentialité",
+    terms: "Conditions",
+    contact: "Contacter l'assistance",
+  },
+  validation: {
+    nameRequired: "Le nom complet est obligatoire",
+    emailRequired: "L'adresse e-mail est obligatoire",
+    emailInvalid: "L'adresse e-mail n'est pas valide",
+    mobileRequired: "Le numéro de mobile est obligatoire",
+    mobileInvalid: "Veuillez saisir un numéro de mobile valide.",
+    mobileTooShort: "Ce numéro est trop court pour le pays sélectionné.",
+    mobileTooLong: "Ce numéro est trop long pour le pays sélectionné.",
+    passwordRequired: "Le mot de passe est obligatoire",
+    confirmPasswordRequired: "Veuillez confirmer votre mot de passe.",
+    passwordsMismatch: "Les mots de passe ne correspondent pas",
+    termsRequired: "Veuillez accepter les conditions pour créer un compte",
+    currentPasswordRequired: "Le mot de passe actuel est obligatoire",
+    passwordUnchanged: "Le nouveau mot de passe doit être différent de l'actuel",
+    emailUnchanged: "C'est déjà votre adresse e-mail",
+    deleteConfirmation: "Saisissez {phrase} pour confirmer",
+    codeInvalid: "Saisissez le code à {length} chiffres",
+    recoveryCodeRequired: "Saisissez un code de récupération",
+    password: {
+      length: "Le mot de passe doit contenir au moins {min} caractères",
+      letter: "Le mot de passe doit contenir une lettre",
+      number: "Le mot de passe doit contenir un chiffre",
+      symbol: "Le mot de passe doit contenir un symbole",
+      personal: "Le mot de passe ne doit pas contenir votre nom ni votre e-mail",
+      common: "Ce mot de passe est trop courant",
+    },
+  },
+  password: {
+    show: "Afficher le mot de passe",
+    hide: "Masquer le mot de passe",
+    strengthLabel: "Robustesse du mot de passe",
+    met: "(respecté)",
+    notMet: "(non respecté)",
+    strength: {
+      tooWeak: "Trop faible",
+      weak: "Faible",
+      fair: "Moyen",
+      good: "Bon",
+      strong: "Fort",
+    },
+    rules: {
+      length: "Au moins {min} caractères",
+      letter: "Une lettre",
+      number: "Un chiffre",
+      symbol: "Un symbole",
+      personal: "Ne contient pas votre nom ni votre e-mail",
+      common: "N'est pas un mot de passe courant",
+    },
+  },
+  phone: {
+    countryCode: "Indicatif du pays",
+  },
+  verification: {
+    resend: "Renvoyer l'e-mail de vérification",
+    resendIn: "Renvoi possible dans {seconds} s",
+    sending: "Envoi...",
+    emailRequired: "Veuillez saisir votre adresse e-mail",
+    toastSending: "Envoi de l'e-mail de vérification...",
+    toastSent: "E-mail de vérification envoyé",
+    toastSentDescription: "Consultez {email} pour trouver le nouveau lien.",
+    toastFailed: "Impossible d'envoyer l'e-mail",
+  },
+  login: {
+    title: "Bon retour",
+    subtitle: "Connectez-vous à votre compte",
+    email: "E-mail",
+    emailPlaceholder: "Saisissez votre e-mail",
+    password: "Mot de passe",
+    passwordPlaceholder: "Saisissez votre mot de passe",
+    forgotPassword: "Mot de passe oublié ?",
+    submit: "Se connecter",
+    submitting: "Connexion...",
+    noAccount: "Vous n'avez pas de compte ?",
+    createAccount: "Créer un compte",
+    missingCredentials: "Veuillez saisir votre e-mail et votre mot de passe",
+    connectionError: "Vérifiez votre connexion et réessayez",
+    unverified: "Votre adresse e-mail n'a pas encore été vérifiée. Consultez votre boîte de réception ou demandez un nouveau lien.",
+    toastSigningIn: "Connexion en cours...",
+    toastSuccess: "Connexion réussie",
+    toastFailed: "Échec de la connexion",
+    toastConnectionError: "Erreur de connexion",
+    toastCodeRequired: "Saisissez votre code d'authentification",
+    rememberMe: "Se souvenir de moi",
+    sessionExpired: "Votre session a expiré. Veuillez vous reconnecter.",
+    signedOutIdle: "Vous avez été déconnecté après une période d'inactivité.",
+  },
+  signup: {
+    title: "Créer un compte",
+    subtitle: "Rejoignez notre communauté dès aujourd'hui",
+    name: "Nom complet",
+    namePlaceholder: "Saisissez votre nom complet",
+    mobile: "Numéro de mobile",
+    mobilePlaceholder: "Saisissez votre numéro de mobile",
+    email: "E-mail",
+    emailPlaceholder: "Saisissez votre adresse e-mail",
+    password: "Mot de passe",
+    passwordPlaceholder: "Créez un mot de passe",
+    confirmPassword: "Confirmer le mot de passe",
+    confirmPasswordPlaceholder: "Confirmez votre mot de passe",
+    submit: "Créer un compte",
+    submitting: "Création du compte...",
+    haveAccount: "Vous avez déjà un compte ?",
+    signIn: "Se connecter",
+    invalidForm: "Veuillez corriger les erreurs indiquées ci-dessous.",
+    emailTaken: "Cette adresse e-mail est déjà utilisée.",
+    toastCreating: "Création de votre compte...",
+    toastSuccess: "Compte créé !",
+    toastSuccessDescription: "Consultez vos e-mails pour vérifier votre compte.",
+    toastFailed: "Échec de l'inscription",
+    acceptTerms: "J'accepte les {terms} et la {privacy}",
+    termsLink: "Conditions",
+    privacyLink: "Politique de confidentialité",
+    marketingOptIn: "Recevoir les nouveautés et conseils par e-mail (facultatif)",
+    next: "Suivant",
+    back: "Retour",
+    progress: "Progression de l'inscription",
+    stepOf: "Étape {current} sur {total}",
+    steps: {
+      personal: "Vous",
+      contact: "Contact",
+      password: "Mot de passe",
+      terms: "Conditions",
+    },
+    success: {
+      title: "Compte créé avec succès !",
+      verifyHeading: "Vérifiez votre e-mail",
+      sentTo: "Nous avons envoyé un e-mail de vérification à :",
+      instructions: "Consultez votre boîte de réception et cliquez sur le lien de vérification pour terminer votre inscription.",
+      spamHint: "Si vous ne voyez pas l'e-mail, vérifiez vos dossiers spam ou promotions.",
+      goToLogin: "Aller à la connexion",
+      needHelp: "Besoin d'aide ?",
+      contactSupport: "Contacter le support",
+    },
+  },
+  forgotPassword: {
+    title: "Mot de passe oublié ?",
+    description: "Saisissez l'e-mail utilisé à l'inscription et nous vous enverrons un lien pour réinitialiser votre mot de passe.",
+    email: "E-mail",
+    emailPlaceholder: "Saisissez votre adresse e-mail",
+    submit: "Envoyer le lien",
+    submitting: "Envoi du lien...",
+    backToLogin: "Retour à la connexion",
+    invalidForm: "Veuillez corriger les erreurs indiquées ci-dessous.",
+    toastSending: "Envoi du lien de réinitialisation...",
+    toastSent: "E-mail envoyé !",
+    toastSentDescription: "Le lien de réinitialisation vous attend dans votre boîte de réception.",
+    toastFailed: "Échec de la demande",
+    sent: {
+      title: "Consultez vos e-mails",
+      sentTo: "Si un compte existe pour :",
+      instructions: "vous recevrez un e-mail avec un lien pour réinitialiser votre mot de passe.",
+      spamHint: "Si vous ne voyez pas l'e-mail, vérifiez vos dossiers spam ou promotions.",
+      differentEmail: "Utiliser une autre adresse",
+      remembered: "Vous vous en souvenez ?",
+    },
+  },
+  resetPassword: {
+    title: "Choisissez un nouveau mot de passe",
+    description: "Choisissez un mot de passe robuste que vous n'utilisez nulle part ailleurs.",
+    password: "Nouveau mot de passe",
+    passwordPlaceholder: "Créez un mot de passe",
+    confirmPassword: "Confirmer le mot de passe",
+    confirmPasswordPlaceholder: "Confirmez votre mot de passe",
+    submit: "Réinitialiser le mot de passe",
+    submitting: "Mise à jour du mot de passe...",
+    backToLogin: "Retour à la connexion",
+    invalidForm: "Veuillez corriger les erreurs indiquées ci-dessous.",
+    toastUpdating: "Mise à jour de votre mot de passe...",
+    toastUpdated: "Mot de passe mis à jour !",
+    toastUpdatedDescription: "Vous pouvez maintenant vous connecter avec votre nouveau mot de passe.",
+    toastFailed: "Échec de la réinitialisation",
+    missingToken: {
+      title: "Lien de réinitialisation invalide",
+      description: "Il manque le jeton à ce lien de réinitialisation. Veuillez en demander un nouveau.",
+      requestNew: "Demander un nouveau lien",
+    },
+    success: {
+      title: "Mot de passe mis à jour",
+      description: "Votre mot de passe a été modifié. Connectez-vous avec le nouveau pour continuer.",
+      goToLogin: "Aller à la connexion",
+    },
+  },
+}
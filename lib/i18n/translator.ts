@@ -0,0 +1,38 @@
+import { en, type Messages } from './messages/en'
+
+// Dot-separated path to every string in the catalog, e.g. "login.submit"
+type MessagePath<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : MessagePath<T[K], `${Prefix}${K}.`>
+}[keyof T & string]
+
+export type MessageKey = MessagePath<Messages>
+
+export type MessageParams = Record<string, string | number>
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string
+
+function lookup(messages: Messages, key: string): string | undefined {
+  let node: unknown = messages
+  for (const part of key.split('.')) {
+    if (!node || typeof node !== 'object') return undefined
+    node = (node as Record<string, unknown>)[part]
+  }
+  return typeof node === 'string' ? node : undefined
+}
+
+function interpolate(template: string, params?: MessageParams): string {
+  if (!params) return template
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  )
+}
+
+/** Builds a `t()` function for a catalog, falling back to English for missing keys. */
+export function createTranslator(messages: Messages): Translate {
+  return (key, params) => interpolate(lookup(messages, key) ?? lookup(en, key) ?? key, params)
+}
+
+/** English translator, used where no locale is available (e.g. module-level schemas). */
+export const translateEn = createTranslator(en)
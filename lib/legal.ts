@@ -0,0 +1,18 @@
+/**
+ * Current version of each legal document. Every version's text lives in
+ * content/legal/<id>/<version>.md and is kept once superseded, so what a
+ * user agreed to can always be looked up. Bump the version together with
+ * adding the new file; signups record the version they accepted.
+ */
+export const legalDocuments = {
+  terms: { version: '2026-10-01', href: '/terms' },
+  privacy: { version: '2026-10-01', href: '/privacy' },
+} as const
+
+export type LegalDocumentId = keyof typeof legalDocuments
+
+/** Path of a document's Markdown source under content/. */
+export function legalContentPath(id: LegalDocumentId, version: string = legalDocuments[id].version): string {
+  return `legal/${id}/${version}.md`
+}
+
@@ -0,0 +1,52 @@
+const PENDING_KEY = 'auth:magic-link'
+
+// Longer than any link lives, so an old request is never mistaken for this one
+const PENDING_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+export interface PendingMagicLink {
+  email: string
+  requestedAt: number
+}
+
+/**
+ * Notes that this browser asked for a sign-in link. It goes in localStorage
+ * rather than sessionStorage because mail apps open links in a new tab.
+ */
+export function rememberMagicLinkRequest(email: string): void {
+  const pending: PendingMagicLink = { email, requestedAt: Date.now() }
+  try {
+    localStorage.setItem(PENDING_KEY, JSON.stringify(pending))
+  } catch {
+    // Storage can be full or blocked; the link then looks like it came from another device, which is only a warning
+  }
+}
+
+const sameEmail = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/**
+ * Consumes the note left by `rememberMagicLinkRequest`, if it was for `email`,
+ * the address the link was sent to. Null means the link being opened was
+ * requested on another device or browser, for another address, or so long
+ * ago that it no longer counts.
+ */
+export function takeMagicLinkRequest(email: string | null): PendingMagicLink | null {
+  let raw: string | null = null
+  try {
+    raw = localStorage.getItem(PENDING_KEY)
+    localStorage.removeItem(PENDING_KEY)
+  } catch {
+    return null
+  }
+  if (!raw) return null
+
+  try {
+    const pending = JSON.parse(raw) as Partial<PendingMagicLink>
+    if (typeof pending.email !== 'string' || typeof pending.requestedAt !== 'number') return null
+    if (Date.now() - pending.requestedAt > PENDING_MAX_AGE_MS) return null
+    // A note left from asking for another address says nothing about this link
+    if (!email || !sameEmail(pending.email, email)) return null
+    return { email: pending.email, requestedAt: pending.requestedAt }
+  } catch {
+    return null
+  }
+}
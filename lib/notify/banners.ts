@@ -0,0 +1,56 @@
+import type { NotifyAction } from './notify'
+
+export type BannerVariant = 'error' | 'warning' | 'info'
+
+export interface Banner {
+  id: string
+  variant: BannerVariant
+  title: string
+  description?: string
+  action?: NotifyAction
+  /** Persistent banners (the default) have no close button. */
+  dismissible?: boolean
+}
+
+type Listener = () => void
+
+const EMPTY: readonly Banner[] = []
+
+let banners: readonly Banner[] = EMPTY
+const listeners = new Set<Listener>()
+
+function emit() {
+  listeners.forEach(listener => listener())
+}
+
+/** Shows a banner, replacing any banner with the same id. */
+export function showBanner(banner: Banner) {
+  const index = banners.findIndex(b => b.id === banner.id)
+  banners = index === -1
+    ? [...banners, banner]
+    : banners.map((b, i) => (i === index ? banner : b))
+  emit()
+}
+
+export function dismissBanner(id: string) {
+  if (!banners.some(b => b.id === id)) return
+  banners = banners.filter(b => b.id !== id)
+  emit()
+}
+
+// --- useSyncExternalStore bindings ---
+
+export function subscribeBanners(listener: Listener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getBanners() {
+  return banners
+}
+
+export function getServerBanners() {
+  return EMPTY
+}
@@ -0,0 +1,2 @@
+export * from './notify'
+export * from './banners'
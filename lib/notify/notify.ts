@@ -0,0 +1,84 @@
+import { toast } from 'sonner'
+import { showBanner, dismissBanner, type BannerVariant } from './banners'
+
+export type NotifyVariant = 'success' | 'error' | 'info' | 'warning'
+
+export interface NotifyAction {
+  label: string
+  onClick: () => void
+}
+
+export interface NotifyOptions {
+  /** Reuse an id to update an existing toast in place, e.g. a loading toast. */
+  id?: string | number
+  description?: string
+  action?: NotifyAction
+  /** Milliseconds; `Infinity` keeps the toast until dismissed. */
+  duration?: number
+  /**
+   * Identical toasts (same variant, title and description) are collapsed into one
+   * by default, so repeated submits don't stack copies. Pass `false` to opt out.
+   */
+  dedupe?: boolean
+}
+
+/** A message resolved from a promise outcome: a plain title or a title with options. */
+export type NotifyContent = string | ({ title: string } & Omit<NotifyOptions, 'id'>)
+
+export interface PromiseMessages<T> {
+  loading: string
+  success: NotifyContent | ((data: T) => NotifyContent)
+  error: NotifyContent | ((error: unknown) => NotifyContent)
+}
+
+function toastOptions({ id, description, action, duration }: NotifyOptions, dedupeKey?: string) {
+  return {
+    id: id ?? dedupeKey,
+    description,
+    duration,
+    action: action && { label: action.label, onClick: action.onClick },
+  }
+}
+
+function show(variant: NotifyVariant, title: string, options: NotifyOptions = {}) {
+  const dedupeKey = options.dedupe === false ? undefined : `${variant}:${title}:${options.description ?? ''}`
+  return toast[variant](title, toastOptions(options, dedupeKey))
+}
+
+function resolve<A>(content: NotifyContent | ((arg: A) => NotifyContent), arg: A) {
+  const value = typeof content === 'function' ? content(arg) : content
+  return typeof value === 'string' ? { title: value } : value
+}
+
+/**
+ * Binds a toast to an async call: a loading toast that turns into a success or error
+ * toast when the promise settles. Resolves and rejects exactly like the promise, so
+ * callers keep their own error handling.
+ */
+async function promise<T>(task: Promise<T>, messages: PromiseMessages<T>, options: Pick<NotifyOptions, 'id'> = {}): Promise<T> {
+  const id = toast.loading(messages.loading, { id: options.id })
+  try {
+    const data = await task
+    const { title, ...rest } = resolve(messages.success, data)
+    toast.success(title, toastOptions({ ...rest, id }))
+    return data
+  } catch (error) {
+    const { title, ...rest } = resolve(messages.error, error)
+    toast.error(title, toastOptions({ ...rest, id }))
+    throw error
+  }
+}
+
+export const notify = {
+  success: (title: string, options?: NotifyOptions) => show('success', title, options),
+  error: (title: string, options?: NotifyOptions) => show('error', title, options),
+  info: (title: string, options?: NotifyOptions) => show('info', title, options),
+  warning: (title: string, options?: NotifyOptions) => show('warning', title, options),
+  promise,
+  dismiss: (id?: string | number) => toast.dismiss(id),
+
+  /** Shows a persistent banner at the top of the page instead of a transient toast. */
+  banner: (id: string, title: string, options: { variant?: BannerVariant; description?: string; action?: NotifyAction; dismissible?: boolean } = {}) =>
+    showBanner({ ...options, id, title, variant: options.variant ?? 'error' }),
+  dismissBanner,
+}
@@ -0,0 +1,60 @@
+import { getOAuthStartUrl, isOAuthProvider, type OAuthProvider } from '@/lib/api'
+import { DEFAULT_REDIRECT, safeRedirect } from '@/lib/redirect'
+
+/** Where the backend sends the browser back to after the provider's consent screen. */
+export const OAUTH_CALLBACK_PATH = '/auth/callback'
+
+const PENDING_KEY = 'oauth:pending'
+
+export interface PendingOAuth {
+  provider: OAuthProvider
+  state: string
+  /** Post-login target, validated again when it is read back. */
+  returnTo: string
+}
+
+function randomState(): string {
+  const bytes = new Uint8Array(16)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Leaves the app for the backend's OAuth start endpoint. The state is kept in
+ * sessionStorage so the callback can tell a response to this tab's request
+ * from a forged or replayed one, along with where to go afterwards. Returns
+ * false when the API is not configured.
+ */
+export function startOAuth(provider: OAuthProvider, returnTo: string = DEFAULT_REDIRECT): boolean {
+  const state = randomState()
+  const url = getOAuthStartUrl({
+    provider,
+    redirectUri: `${window.location.origin}${OAUTH_CALLBACK_PATH}`,
+    state,
+  })
+  if (!url) return false
+
+  const pending: PendingOAuth = { provider, state, returnTo }
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending))
+  window.location.assign(url)
+  return true
+}
+
+/**
+ * Consumes the pending request and returns it when `state` matches, or null
+ * on a mismatch. Each state can only be used once.
+ */
+export function takePendingOAuth(state: string | null): Omit<PendingOAuth, 'state'> | null {
+  const raw = sessionStorage.getItem(PENDING_KEY)
+  sessionStorage.removeItem(PENDING_KEY)
+  if (!raw || !state) return null
+
+  try {
+    const pending = JSON.parse(raw) as Partial<PendingOAuth>
+    if (pending.state !== state || !isOAuthProvider(pending.provider)) return null
+    // sessionStorage is writable by any script on the origin, so never trust the stored target as-is
+    return { provider: pending.provider, returnTo: safeRedirect(pending.returnTo) ?? DEFAULT_REDIRECT }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,20 @@
+// A small sample of the most common leaked passwords, shipped with the app so
+// the check works offline. Entries are lowercase; `isCommonPassword` normalizes before looking up.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', '123456789', '12345678', 'password', 'qwerty123', 'qwerty', '1q2w3e4r', '111111',
+  '12345', '1234567890', '1234567', '123123', '000000', 'abc123', 'password1', 'iloveyou',
+  '1234', '123321', '654321', 'qwertyuiop', '666666', '987654321', '123qwe', '7777777',
+  '112233', '121212', 'dragon', 'monkey', '1qaz2wsx', 'zxcvbnm', '555555', 'a123456',
+  'sunshine', 'princess', 'football', 'charlie', 'aa123456', 'master', 'welcome', 'shadow',
+  'letmein', 'baseball', 'superman', 'trustno1', 'michael', 'jordan', 'hello123', 'freedom',
+  'whatever', 'qazwsx', 'password123', 'p@ssw0rd', 'passw0rd', 'admin', 'admin123', 'login',
+  'starwars', 'computer', 'corvette', 'mustang', 'batman', 'ashley', 'bailey', 'access',
+  'flower', 'hottie', 'loveme', 'zaq12wsx', '159753', '987654', 'asdfghjkl', 'asdfgh',
+  'asdf1234', 'qwer1234', '1q2w3e', '1q2w3e4r5t', '11111111', '88888888', '00000000', '12341234',
+  'q1w2e3r4', 'changeme', 'secret', 'summer2024', 'winter2024', 'spring2024', 'autumn2024', 'welcome1',
+  'welcome123', 'iloveyou1', 'football1', 'baseball1', 'monkey123', 'dragon123', 'qwerty1', 'qwerty12',
+  'abcd1234', 'abcdef', '123abc', 'pass1234', 'test123', 'test1234', 'default', 'guest',
+  'root', 'hunter2', 'killer', 'soccer', 'hockey', 'ranger', 'buster', 'thomas',
+  'tigger', 'robert', 'daniel', 'jessica', 'pepper', 'ginger', 'cookie', 'cheese',
+  'pokemon', 'naruto',
+])
@@ -0,0 +1,16 @@
+export {
+  defaultPasswordPolicy,
+  checkPassword,
+  isCommonPassword,
+  scorePassword,
+  passwordSchema,
+  refinePasswordContext,
+  ruleLabelKey,
+  ruleMessageKey,
+  PASSWORD_STRENGTH_KEYS,
+  type PasswordPolicy,
+  type PasswordContext,
+  type PasswordRuleId,
+  type PasswordRuleResult,
+  type PasswordStrength,
+} from './policy'
@@ -0,0 +1,188 @@
+import { z } from 'zod'
+import { translateEn, type MessageKey, type MessageParams, type Translate } from '@/lib/i18n'
+import { COMMON_PASSWORDS } from './common-passwords'
+
+// --- Policy ---
+export interface PasswordPolicy {
+  minLength: number
+  requireLetter: boolean
+  requireNumber: boolean
+  requireSymbol: boolean
+  /** Reject passwords that contain the user's name or email. */
+  disallowPersonalInfo: boolean
+  /** Reject passwords found in the bundled common-password list. */
+  disallowCommon: boolean
+}
+
+export const defaultPasswordPolicy: PasswordPolicy = {
+  minLength: 8,
+  requireLetter: true,
+  requireNumber: true,
+  requireSymbol: true,
+  disallowPersonalInfo: true,
+  disallowCommon: true,
+}
+
+/** Details about the user that must not appear inside their password. */
+export interface PasswordContext {
+  name?: string
+  email?: string
+}
+
+export type PasswordRuleId = 'length' | 'letter' | 'number' | 'symbol' | 'personal' | 'common'
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId
+  /** Values for the rule's messages, e.g. `{ min: 8 }`. */
+  params?: MessageParams
+  passed: boolean
+}
+
+/** Checklist wording, e.g. "At least 8 characters". */
+export function ruleLabelKey(id: PasswordRuleId): MessageKey {
+  return `password.rules.${id}`
+}
+
+/** Validation wording, e.g. "Password must be at least 8 characters". */
+export function ruleMessageKey(id: PasswordRuleId): MessageKey {
+  return `validation.password.${id}`
+}
+
+// Name parts and email local parts shorter than this are too likely to match by accident
+const MIN_PERSONAL_TOKEN_LENGTH = 3
+
+function personalTokens({ name, email }: PasswordContext): string[] {
+  const tokens = (name ?? '').toLowerCase().split(/\s+/)
+  const localPart = (email ?? '').toLowerCase().split('@')[0]
+  tokens.push(localPart, ...localPart.split(/[._+-]+/))
+  return tokens.filter(token => token.length >= MIN_PERSONAL_TOKEN_LENGTH)
+}
+
+// Cased characters count as letters, which covers accented and non-Latin alphabets
+const isLetter = (char: string) => char.toLowerCase() !== char.toUpperCase()
+const isSymbol = (char: string) => !isLetter(char) && !/[\d\s]/.test(char)
+
+// Look-alike substitutions undone before the list lookup, e.g. p@ssw0rd -> password
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' }
+const unleet = (value: string) => value.replace(/[013457@$!]/g, char => LEET[char])
+
+/**
+ * Whether the password is a listed one, or one dressed up to pass the other
+ * rules: capitalized, with digits or symbols tacked on, or in leetspeak
+ * ("Password1!", "Qwerty123!", "P@ssw0rd#").
+ */
+export function isCommonPassword(password: string): boolean {
+  const lowered = password.trim().toLowerCase()
+  const withoutSymbols = lowered.replace(/[^\da-z]+$/, '')
+  const base = lowered.replace(/[^a-z]+$/, '')
+  return [lowered, withoutSymbols, base, unleet(lowered), unleet(withoutSymbols), unleet(base)]
+    .some(candidate => candidate.length > 0 && COMMON_PASSWORDS.has(candidate))
+}
+
+/** Evaluates every rule enabled in `policy`, in checklist order. */
+export function checkPassword(
+  password: string,
+  context: PasswordContext = {},
+  policy: PasswordPolicy = defaultPasswordPolicy,
+): PasswordRuleResult[] {
+  const results: PasswordRuleResult[] = [{
+    id: 'length',
+    params: { min: policy.minLength },
+    passed: password.length >= policy.minLength,
+  }]
+
+  if (policy.requireLetter) {
+    results.push({
+      id: 'letter',
+      passed: password.split('').some(isLetter),
+    })
+  }
+  if (policy.requireNumber) {
+    results.push({
+      id: 'number',
+      passed: /\d/.test(password),
+    })
+  }
+  if (policy.requireSymbol) {
+    results.push({
+      id: 'symbol',
+      passed: password.split('').some(isSymbol),
+    })
+  }
+  if (policy.disallowPersonalInfo) {
+    const lowered = password.toLowerCase()
+    results.push({
+      id: 'personal',
+      passed: !personalTokens(context).some(token => lowered.includes(token)),
+    })
+  }
+  if (policy.disallowCommon) {
+    results.push({
+      id: 'common',
+      passed: password.length > 0 && !isCommonPassword(password),
+    })
+  }
+
+  return results
+}
+
+// --- Strength ---
+export type PasswordStrength = 0 | 1 | 2 | 3 | 4
+
+export const PASSWORD_STRENGTH_KEYS: Record<PasswordStrength, MessageKey> = {
+  0: 'password.strength.tooWeak',
+  1: 'password.strength.weak',
+  2: 'password.strength.fair',
+  3: 'password.strength.good',
+  4: 'password.strength.strong',
+}
+
+/**
+ * Rough 0-4 strength score. A password that breaks any rule scores at most 1;
+ * beyond that, extra length and variety raise the score.
+ */
+export function scorePassword(password: string, results: PasswordRuleResult[]): PasswordStrength {
+  if (!password) return 0
+  if (results.some(result => !result.passed)) {
+    return results.filter(result => result.passed).length > results.length / 2 ? 1 : 0
+  }
+
+  let score = 2
+  if (password.length >= 12) score++
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z\d]/].filter(pattern => pattern.test(password)).length
+  if (classes === 4 || password.length >= 16) score++
+  return Math.min(score, 4) as PasswordStrength
+}
+
+// --- Zod ---
+
+/**
+ * Field schema for the rules that need nothing but the password itself.
+ * Combine with `refinePasswordContext` on the surrounding object to also
+ * enforce the personal-information rule.
+ */
+export function passwordSchema(policy: PasswordPolicy = defaultPasswordPolicy, t: Translate = translateEn) {
+  return z.string().superRefine((password, ctx) => {
+    for (const result of checkPassword(password, {}, policy)) {
+      if (!result.passed && result.id !== 'personal') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: t(ruleMessageKey(result.id), result.params) })
+        // Report one problem at a time, in checklist order
+        return
+      }
+    }
+  })
+}
+
+/** Object-level check that the password does not contain the user's name or email. */
+export function refinePasswordContext<T extends { password: string } & PasswordContext>(
+  policy: PasswordPolicy = defaultPasswordPolicy,
+  t: Translate = translateEn,
+) {
+  return (data: T, ctx: z.RefinementCtx) => {
+    if (!policy.disallowPersonalInfo) return
+    const personal = checkPassword(data.password, data, policy).find(result => result.id === 'personal')
+    if (personal && !personal.passed) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: t(ruleMessageKey('personal')), path: ['password'] })
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  AsYouType,
+  getCountries,
+  getCountryCallingCode,
+  isSupportedCountry,
+  isValidPhoneNumber,
+  parsePhoneNumberFromString,
+  validatePhoneNumberLength,
+  type CountryCode,
+} from 'libphonenumber-js'
+
+export type { CountryCode }
+
+export const FALLBACK_COUNTRY: CountryCode = 'US'
+
+export interface CountryOption {
+  code: CountryCode
+  name: string
+  dialCode: string
+  flag: string
+}
+
+// Regional indicator symbols spell out the flag emoji for a two-letter code
+function countryFlag(code: CountryCode): string {
+  return code
+    .toUpperCase()
+    .split('')
+    .map(char => String.fromCodePoint(0x1f1a5 + char.charCodeAt(0)))
+    .join('')
+}
+
+const countryOptions = new Map<string, CountryOption[]>()
+
+/** Every country in the bundled metadata, named and sorted in `locale`. */
+export function getCountryOptions(locale = 'en'): CountryOption[] {
+  const cached = countryOptions.get(locale)
+  if (cached) return cached
+
+  const displayNames = typeof Intl.DisplayNames === 'function'
+    ? new Intl.DisplayNames([locale], { type: 'region' })
+    : null
+
+  const options = getCountries()
+    .map(code => ({
+      code,
+      name: displayNames?.of(code) ?? code,
+      dialCode: `+${getCountryCallingCode(code)}`,
+      flag: countryFlag(code),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, locale))
+  countryOptions.set(locale, options)
+  return options
+}
+
+export function getDialCode(country: CountryCode): string {
+  return `+${getCountryCallingCode(country)}`
+}
+
+/** Picks the country from the first browser locale that names a supported region, e.g. "en-GB". */
+export function detectCountry(): CountryCode {
+  if (typeof navigator === 'undefined') return FALLBACK_COUNTRY
+
+  const locales = navigator.languages?.length ? navigator.languages : [navigator.language]
+  for (const locale of locales) {
+    const region = locale?.split(/[-_]/)[1]?.toUpperCase()
+    if (region && isSupportedCountry(region)) return region
+  }
+  return FALLBACK_COUNTRY
+}
+
+/** Formats national digits for display while the user types. */
+export function formatNational(digits: string, country: CountryCode): string {
+  return new AsYouType(country).input(digits)
+}
+
+/**
+ * Combines a country and the national digits typed for it into the value
+ * stored in the form: E.164 when the number parses, otherwise "+<code><digits>".
+ */
+export function composePhoneNumber(country: CountryCode, nationalDigits: string): string {
+  if (!nationalDigits) return ''
+  const parsed = parsePhoneNumberFromString(nationalDigits, country)
+  return parsed?.number ?? `${getDialCode(country)}${nationalDigits}`
+}
+
+/** Splits a stored value back into its country and national digits. */
+export function splitPhoneNumber(value: string, fallback: CountryCode): { country: CountryCode; nationalDigits: string } {
+  const parsed = value ? parsePhoneNumberFromString(value) : undefined
+  if (!parsed) {
+    // Incomplete numbers are stored as "+<code><digits>"; drop the code we already show
+    const dialCode = getDialCode(fallback)
+    const rest = value.startsWith(dialCode) ? value.slice(dialCode.length) : value
+    return { country: fallback, nationalDigits: rest.replace(/\D/g, '') }
+  }
+  // Several countries share a calling code (e.g. +44), so prefer the one already selected
+  const country = parsed.countryCallingCode === getCountryCallingCode(fallback)
+    ? fallback
+    : parsed.country ?? fallback
+  return { country, nationalDigits: String(parsed.nationalNumber) }
+}
+
+export type PhoneNumberError = 'tooShort' | 'tooLong' | 'invalid'
+
+/** Classifies why an international number is invalid, or returns null when it is valid. */
+export function getPhoneNumberError(value: string): PhoneNumberError | null {
+  switch (validatePhoneNumberLength(value)) {
+    case 'TOO_SHORT':
+      return 'tooShort'
+    case 'TOO_LONG':
+      return 'tooLong'
+    case 'NOT_A_NUMBER':
+    case 'INVALID_COUNTRY':
+    case 'INVALID_LENGTH':
+      return 'invalid'
+  }
+  return isValidPhoneNumber(value) ? null : 'invalid'
+}
+
+/** Normalizes any parseable international number to E.164, e.g. "+14155552671". */
+export function toE164(value: string): string {
+  return parsePhoneNumberFromString(value)?.number ?? value.replace(/[^\d+]/g, '')
+}
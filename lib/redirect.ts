@@ -0,0 +1,57 @@
+/** Where users land after signing in when no (valid) target was given. */
+export const DEFAULT_REDIRECT = '/'
+
+/** Query parameters a post-login target is read from, in order of preference. */
+export const REDIRECT_PARAMS = ['next', 'returnTo'] as const
+
+/**
+ * Signed-in pages a target may point into: each entry allows itself and
+ * everything below it. Keep in sync with the routes under app/(app); auth
+ * pages are deliberately absent, so a target can never loop back to login.
+ */
+const ALLOWED_PATH_PREFIXES = ['/settings']
+
+// Parsing against a fixed origin shows whether the target tried to leave it
+const PLACEHOLDER_ORIGIN = 'https://app.invalid'
+
+function isAllowedPath(pathname: string): boolean {
+  return pathname === DEFAULT_REDIRECT
+    || ALLOWED_PATH_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))
+}
+
+/**
+ * Returns `target` as a same-origin path (with its query and hash) when it is
+ * safe to redirect to, or null. Rejects absolute and protocol-relative URLs,
+ * backslash and control-character tricks, and paths outside the allowlist
+ * (after resolving `..` segments).
+ */
+export function safeRedirect(target: string | null | undefined): string | null {
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.includes('\\')) return null
+  // URL parsers drop tabs and newlines, which could otherwise turn "/\t/evil.com" into "//evil.com"
+  if (/[\u0000-\u001f\u007f]/.test(target)) return null
+
+  let url: URL
+  try {
+    url = new URL(target, PLACEHOLDER_ORIGIN)
+  } catch {
+    return null
+  }
+  if (url.origin !== PLACEHOLDER_ORIGIN || !isAllowedPath(url.pathname)) return null
+  return `${url.pathname}${url.search}${url.hash}`
+}
+
+/** The first valid target among the redirect parameters, or DEFAULT_REDIRECT. */
+export function getRedirectTarget(params: Pick<URLSearchParams, 'get'>): string {
+  for (const name of REDIRECT_PARAMS) {
+    const target = safeRedirect(params.get(name))
+    if (target) return target
+  }
+  return DEFAULT_REDIRECT
+}
+
+/** Appends `?next=` to an auth page link so the target survives the hop; the default is left out. */
+export function withRedirect(path: string, target: string): string {
+  const safe = safeRedirect(target)
+  if (!safe || safe === DEFAULT_REDIRECT) return path
+  return `${path}${path.includes('?') ? '&' : '?'}next=${encodeURIComponent(safe)}`
+}
@@ -0,0 +1,230 @@
+import { z } from 'zod'
+import { passwordSchema, refinePasswordContext, defaultPasswordPolicy, type PasswordContext } from '@/lib/password-policy'
+import { getPhoneNumberError, type PhoneNumberError } from '@/lib/phone'
+import { translateEn, type MessageKey, type Translate } from '@/lib/i18n'
+
+// Every schema is built from a translator so validation messages follow the
+// current locale; the plain exports below are the English versions.
+
+// --- Shared Fields ---
+export const createNameField = (t: Translate) =>
+  z.string().trim().min(1, t('validation.nameRequired'))
+
+export const createEmailField = (t: Translate) =>
+  z.string().trim().min(1, t('validation.emailRequired')).email(t('validation.emailInvalid'))
+
+const phoneErrorKeys: Record<PhoneNumberError, MessageKey> = {
+  tooShort: 'validation.mobileTooShort',
+  tooLong: 'validation.mobileTooLong',
+  invalid: 'validation.mobileInvalid',
+}
+
+// International number as produced by PhoneInput, checked against the bundled country metadata
+export const createMobileNumberField = (t: Translate) =>
+  z.string().trim()
+    .min(1, t('validation.mobileRequired'))
+    .superRefine((value, ctx) => {
+      const error = getPhoneNumberError(value)
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: t(phoneErrorKeys[error]) })
+    })
+
+// Rules come from the shared password policy, see lib/password-policy
+export const createPasswordField = (t: Translate) => passwordSchema(defaultPasswordPolicy, t)
+
+export const createConfirmPasswordField = (t: Translate) =>
+  z.string().min(1, t('validation.confirmPasswordRequired'))
+
+const passwordsMatch = (data: { password: string; confirmPassword: string }) =>
+  data.password === data.confirmPassword
+
+const passwordMismatch = (t: Translate) => ({
+  message: t('validation.passwordsMismatch'),
+  path: ["confirmPassword"],
+})
+
+// Zod skips an object's refinements once any of its fields fails outright, so the
+// match is checked by a schema of its own that runs alongside the form's fields
+const withPasswordConfirmation = <T extends z.ZodTypeAny>(schema: T, t: Translate) =>
+  z.intersection(
+    schema,
+    z.object({ password: z.string(), confirmPassword: z.string() }).refine(passwordsMatch, passwordMismatch(t)),
+  )
+
+// --- Login ---
+export const createLoginSchema = (t: Translate) => z.object({
+  email: createEmailField(t),
+  password: z.string().min(1, t('validation.passwordRequired')),
+  rememberMe: z.boolean(),
+});
+
+export const loginSchema = createLoginSchema(translateEn);
+
+export type LoginFormData = z.infer<typeof loginSchema>;
+
+export const createMagicLinkSchema = (t: Translate) => z.object({
+  email: createEmailField(t),
+});
+
+export const magicLinkSchema = createMagicLinkSchema(translateEn);
+
+export type MagicLinkFormData = z.infer<typeof magicLinkSchema>;
+
+// --- Social Sign-In ---
+// Password of the existing account a provider is being linked to
+export const createLinkAccountSchema = (t: Translate) => z.object({
+  password: z.string().min(1, t('validation.passwordRequired')),
+});
+
+export const linkAccountSchema = createLinkAccountSchema(translateEn);
+
+export type LinkAccountFormData = z.infer<typeof linkAccountSchema>;
+
+// --- Two-Factor Authentication ---
+/** Digits in a code from an authenticator app (TOTP). */
+export const TWO_FACTOR_CODE_LENGTH = 6;
+
+const createTwoFactorCodeField = (t: Translate) =>
+  z.string().regex(new RegExp(`^\\d{${TWO_FACTOR_CODE_LENGTH}}$`), t('validation.codeInvalid', { length: TWO_FACTOR_CODE_LENGTH }));
+
+export const createTwoFactorCodeSchema = (t: Translate) => z.object({
+  code: createTwoFactorCodeField(t),
+});
+
+export const twoFactorCodeSchema = createTwoFactorCodeSchema(translateEn);
+
+export type TwoFactorCodeFormData = z.infer<typeof twoFactorCodeSchema>;
+
+export const createRecoveryCodeSchema = (t: Translate) => z.object({
+  recoveryCode: z.string().trim().min(1, t('validation.recoveryCodeRequired')),
+});
+
+export const recoveryCodeSchema = createRecoveryCodeSchema(translateEn);
+
+export type RecoveryCodeFormData = z.infer<typeof recoveryCodeSchema>;
+
+export const createDisableTwoFactorSchema = (t: Translate) => z.object({
+  currentPassword: z.string().min(1, t('validation.currentPasswordRequired')),
+});
+
+export const disableTwoFactorSchema = createDisableTwoFactorSchema(translateEn);
+
+export type DisableTwoFactorFormData = z.infer<typeof disableTwoFactorSchema>;
+
+// --- Sign Up ---
+// The wizard asks for these one step at a time, in this order; the single-page form asks for all of them at once.
+export const signUpSteps = ['personal', 'contact', 'password', 'terms'] as const;
+
+export type SignUpStep = (typeof signUpSteps)[number];
+
+export const createAcceptTermsField = (t: Translate) =>
+  z.boolean().refine(accepted => accepted, t('validation.termsRequired'));
+
+const createSignUpStepFields = (t: Translate) => ({
+  personal: z.object({ name: createNameField(t) }),
+  contact: z.object({ email: createEmailField(t), mobileNumber: createMobileNumberField(t) }),
+  password: z.object({ password: createPasswordField(t), confirmPassword: createConfirmPasswordField(t) }),
+  // Marketing email is opt-in only, so unlike the terms it may stay unticked
+  terms: z.object({ acceptTerms: createAcceptTermsField(t), marketingOptIn: z.boolean() }),
+});
+
+// The confirmation and personal-information checks need the whole object, so they are added on top
+const refineSignUpPassword = <T extends { password: string; confirmPassword: string } & PasswordContext>(schema: z.ZodType<T>, t: Translate) =>
+  withPasswordConfirmation(schema, t).superRefine(refinePasswordContext<T>(defaultPasswordPolicy, t));
+
+/** One schema per wizard step, each checking only the fields that step shows. */
+export const createSignUpStepSchemas = (t: Translate) => {
+  const fields = createSignUpStepFields(t);
+  return {
+    personal: fields.personal,
+    contact: fields.contact,
+    // Name and email come from the earlier steps, for the personal-information rule
+    password: refineSignUpPassword(fields.password.extend({ name: z.string(), email: z.string() }), t),
+    terms: fields.terms,
+  } satisfies Record<SignUpStep, z.ZodTypeAny>;
+};
+
+export const createSignUpSchema = (t: Translate) => {
+  const { personal, contact, password, terms } = createSignUpStepFields(t);
+  return refineSignUpPassword(personal.merge(contact).merge(password).merge(terms), t);
+};
+
+export const signUpSchema = createSignUpSchema(translateEn);
+
+export type SignUpFormData = z.infer<typeof signUpSchema>;
+
+/** The form fields each wizard step shows. */
+export const signUpStepFields = {
+  personal: ['name'],
+  contact: ['email', 'mobileNumber'],
+  password: ['password', 'confirmPassword'],
+  terms: ['acceptTerms', 'marketingOptIn'],
+} as const satisfies Record<SignUpStep, readonly (keyof SignUpFormData)[]>;
+
+// --- Password Reset ---
+export const createForgotPasswordSchema = (t: Translate) => z.object({
+  email: createEmailField(t),
+});
+
+export const forgotPasswordSchema = createForgotPasswordSchema(translateEn);
+
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export const createResetPasswordSchema = (t: Translate) => withPasswordConfirmation(z.object({
+  password: createPasswordField(t),
+  confirmPassword: createConfirmPasswordField(t),
+}), t);
+
+export const resetPasswordSchema = createResetPasswordSchema(translateEn);
+
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+// --- Account Settings ---
+
+// Same field rules as signup, so a profile can never be saved in a shape signup would reject
+export const createProfileSchema = (t: Translate) => z.object({
+  name: createNameField(t),
+  mobileNumber: createMobileNumberField(t),
+});
+
+export const profileSchema = createProfileSchema(translateEn);
+
+export type ProfileFormData = z.infer<typeof profileSchema>;
+
+// `context` is the signed-in user, whose name and email the new password must not contain
+export const createChangePasswordSchema = (t: Translate, context: PasswordContext = {}) => withPasswordConfirmation(z.object({
+  currentPassword: z.string().min(1, t('validation.currentPasswordRequired')),
+  password: createPasswordField(t),
+  confirmPassword: createConfirmPasswordField(t),
+}), t)
+  .refine(data => data.password !== data.currentPassword, {
+    message: t('validation.passwordUnchanged'),
+    path: ["password"],
+  })
+  .superRefine((data, ctx) => refinePasswordContext(defaultPasswordPolicy, t)({ ...context, ...data }, ctx));
+
+export const changePasswordSchema = createChangePasswordSchema(translateEn);
+
+export type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+export const createChangeEmailSchema = (t: Translate, currentEmail = '') => z.object({
+  email: createEmailField(t)
+    .refine(email => email.toLowerCase() !== currentEmail.toLowerCase(), t('validation.emailUnchanged')),
+  currentPassword: z.string().min(1, t('validation.currentPasswordRequired')),
+});
+
+export const changeEmailSchema = createChangeEmailSchema(translateEn);
+
+export type ChangeEmailFormData = z.infer<typeof changeEmailSchema>;
+
+/** What the user has to type to confirm deleting their account. */
+export const DELETE_ACCOUNT_PHRASE = 'DELETE';
+
+export const createDeleteAccountSchema = (t: Translate) => z.object({
+  confirmation: z.string().refine(value => value.trim() === DELETE_ACCOUNT_PHRASE, {
+    message: t('validation.deleteConfirmation', { phrase: DELETE_ACCOUNT_PHRASE }),
+  }),
+});
+
+export const deleteAccountSchema = createDeleteAccountSchema(translateEn);
+
+export type DeleteAccountFormData = z.infer<typeof deleteAccountSchema>;
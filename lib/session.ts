@@ -0,0 +1,70 @@
+/** Renew the session this long before the backend would expire it. */
+export const REFRESH_BEFORE_EXPIRY_MS = 60_000
+
+/** Wait before retrying a refresh that failed for a reason other than the session ending. */
+export const REFRESH_RETRY_MS = 30_000
+
+/** How long the "you'll be signed out" warning shows before an idle user is signed out. */
+export const IDLE_WARNING_MS = 60_000
+
+/**
+ * Milliseconds from the last refresh to the next, for a session that lasts
+ * `expiresIn` seconds. A missing or nonsensical lifetime waits as long as a
+ * failed refresh, as setTimeout would otherwise run a NaN delay at once.
+ */
+export function refreshDelay(expiresIn: unknown): number {
+  if (typeof expiresIn !== 'number' || !Number.isFinite(expiresIn) || expiresIn <= 0) return REFRESH_RETRY_MS
+  const lifetime = expiresIn * 1000
+  // Short sessions would otherwise be refreshed in a tight loop
+  return Math.max(lifetime - REFRESH_BEFORE_EXPIRY_MS, lifetime / 2)
+}
+
+/**
+ * Inactivity after which a signed-in user is signed out, from the config's
+ * `idleTimeoutMinutes`. Null when that is 0, which turns the idle timeout off.
+ */
+export function getIdleTimeoutMs(minutes: number): number | null {
+  return minutes > 0 ? minutes * 60_000 : null
+}
+
+// --- Cross-tab messages ---
+
+/** Why a session ended: the user signed out, was idle for too long, or the backend stopped accepting it. */
+export type SessionEndReason = 'user' | 'idle' | 'expired'
+
+export type SessionMessage =
+  | { type: 'logout'; reason: SessionEndReason }
+  /** The user did something in another tab, at this time, so they aren't idle. */
+  | { type: 'activity'; at: number }
+
+const CHANNEL_NAME = 'auth:session'
+
+type SessionListener = (message: SessionMessage) => void
+
+let channel: BroadcastChannel | null = null
+const listeners = new Set<SessionListener>()
+
+function getChannel(): BroadcastChannel | null {
+  // Missing in some older browsers; each tab then only looks after itself
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<SessionMessage>) => {
+      listeners.forEach(listener => listener(event.data))
+    }
+  }
+  return channel
+}
+
+/** Tells the app's other open tabs. The sending tab does not receive its own message. */
+export function broadcastSession(message: SessionMessage): void {
+  getChannel()?.postMessage(message)
+}
+
+/** Listens for messages from other tabs. Returns a function that unsubscribes. */
+export function subscribeSession(listener: SessionListener): () => void {
+  getChannel()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
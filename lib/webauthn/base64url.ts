@@ -0,0 +1,33 @@
+// WebAuthn passes binary values (challenges, credential IDs, signatures) as
+// ArrayBuffers, while JSON to and from the backend carries them as base64url:
+// base64 with "-" and "_" instead of "+" and "/", and no "=" padding.
+
+function toBytes(data: ArrayBuffer | ArrayBufferView): Uint8Array {
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+}
+
+export function bufferToBase64url(data: ArrayBuffer | ArrayBufferView): string {
+  const bytes = toBytes(data)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** Decodes base64url (padded or not). Throws a TypeError on anything else, including plain base64. */
+export function base64urlToBuffer(value: string): ArrayBuffer {
+  if (!/^[A-Za-z0-9_-]*={0,2}$/.test(value)) {
+    throw new TypeError('Value is not base64url-encoded')
+  }
+  const base64 = value.replace(/=+$/, '').replace(/-/g, '+').replace(/_/g, '/')
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+
+  let binary: string
+  try {
+    binary = atob(padded)
+  } catch {
+    throw new TypeError('Value is not base64url-encoded')
+  }
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes.buffer
+}
@@ -0,0 +1,2 @@
+export { bufferToBase64url, base64urlToBuffer } from './base64url'
+export * from './webauthn'
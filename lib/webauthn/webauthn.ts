@@ -0,0 +1,230 @@
+import { base64urlToBuffer, bufferToBase64url } from './base64url'
+
+// The backend sends options and expects credentials as JSON, with every binary
+// field base64url-encoded. Browsers are only starting to do this conversion
+// themselves (PublicKeyCredential.parseCreationOptionsFromJSON), so it is done here.
+
+export type PasskeyCreationOptions = PublicKeyCredentialCreationOptionsJSON
+export type PasskeyRequestOptions = PublicKeyCredentialRequestOptionsJSON
+
+/** A new passkey, as sent to the backend to register it. */
+export interface PasskeyRegistration {
+  id: string
+  rawId: string
+  type: 'public-key'
+  response: {
+    clientDataJSON: string
+    attestationObject: string
+    authenticatorData?: string
+    /** DER-encoded SubjectPublicKeyInfo, when the browser exposes it. */
+    publicKey?: string
+    publicKeyAlgorithm?: number
+    transports?: string[]
+  }
+  authenticatorAttachment?: string | null
+}
+
+/** Proof of holding a passkey, as sent to the backend to sign in. */
+export interface PasskeyAssertion {
+  id: string
+  rawId: string
+  type: 'public-key'
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    signature: string
+    userHandle?: string
+  }
+  authenticatorAttachment?: string | null
+}
+
+// --- Errors ---
+
+export type PasskeyErrorCode =
+  /** The browser has no WebAuthn, or the page isn't a secure context. */
+  | 'UNSUPPORTED'
+  /** The user dismissed the prompt, or it timed out. Browsers don't tell these apart. */
+  | 'CANCELLED'
+  /** Our own signal aborted the request, e.g. to swap the autofill request for a modal one. */
+  | 'ABORTED'
+  /** The authenticator already holds a passkey for this account (excludeCredentials matched). */
+  | 'ALREADY_REGISTERED'
+  /** The relying party ID doesn't match the page's domain. A configuration problem, not the user's. */
+  | 'INVALID_DOMAIN'
+  | 'FAILED'
+
+export class PasskeyError extends Error {
+  readonly code: PasskeyErrorCode
+
+  constructor(code: PasskeyErrorCode, message: string, cause?: unknown) {
+    super(message, { cause })
+    this.name = 'PasskeyError'
+    this.code = code
+    // Keep `instanceof` working when compiled down to ES5
+    Object.setPrototypeOf(this, PasskeyError.prototype)
+  }
+}
+
+export function isPasskeyError(error: unknown): error is PasskeyError {
+  return error instanceof PasskeyError
+}
+
+/** Maps the DOMExceptions navigator.credentials rejects with to a PasskeyError. */
+export function toPasskeyError(error: unknown): PasskeyError {
+  if (isPasskeyError(error)) return error
+  // DOMException only extends Error in newer engines, so read its fields off any object
+  const { name = '', message = String(error) } = (error && typeof error === 'object' ? error : {}) as { name?: string; message?: string }
+  switch (name) {
+    case 'NotAllowedError':
+      return new PasskeyError('CANCELLED', message, error)
+    case 'AbortError':
+      return new PasskeyError('ABORTED', message, error)
+    case 'InvalidStateError':
+      return new PasskeyError('ALREADY_REGISTERED', message, error)
+    case 'SecurityError':
+      return new PasskeyError('INVALID_DOMAIN', message, error)
+    case 'NotSupportedError':
+      return new PasskeyError('UNSUPPORTED', message, error)
+    default:
+      return new PasskeyError('FAILED', message, error)
+  }
+}
+
+// --- Support ---
+
+/** True when the browser can create and use passkeys on this page. */
+export function isPasskeySupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    window.isSecureContext &&
+    typeof window.PublicKeyCredential === 'function' &&
+    typeof navigator.credentials?.get === 'function'
+  )
+}
+
+/** True when passkeys can be offered in the autofill menu of a `webauthn` input ("conditional UI"). */
+export async function isConditionalMediationAvailable(): Promise<boolean> {
+  if (!isPasskeySupported() || typeof PublicKeyCredential.isConditionalMediationAvailable !== 'function') {
+    return false
+  }
+  try {
+    return await PublicKeyCredential.isConditionalMediationAvailable()
+  } catch {
+    return false
+  }
+}
+
+function assertSupported() {
+  if (!isPasskeySupported()) throw new PasskeyError('UNSUPPORTED', 'This browser does not support passkeys')
+}
+
+// --- Registration ---
+
+function toDescriptor({ id, type, transports }: PublicKeyCredentialDescriptorJSON): PublicKeyCredentialDescriptor {
+  return {
+    id: base64urlToBuffer(id),
+    type: type as PublicKeyCredentialType,
+    transports: transports as AuthenticatorTransport[] | undefined,
+  }
+}
+
+function optional(buffer: ArrayBuffer | null | undefined): string | undefined {
+  return buffer ? bufferToBase64url(buffer) : undefined
+}
+
+/** Asks the browser to create a passkey, with options from the backend. */
+export async function createPasskey(
+  options: PasskeyCreationOptions,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<PasskeyRegistration> {
+  assertSupported()
+
+  let credential: Credential | null
+  try {
+    credential = await navigator.credentials.create({
+      signal,
+      publicKey: {
+        rp: options.rp,
+        user: { ...options.user, id: base64urlToBuffer(options.user.id) },
+        challenge: base64urlToBuffer(options.challenge),
+        pubKeyCredParams: options.pubKeyCredParams,
+        timeout: options.timeout,
+        excludeCredentials: options.excludeCredentials?.map(toDescriptor),
+        authenticatorSelection: options.authenticatorSelection,
+        attestation: options.attestation as AttestationConveyancePreference | undefined,
+      },
+    })
+  } catch (error) {
+    throw toPasskeyError(error)
+  }
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new PasskeyError('FAILED', 'The browser did not return a passkey')
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse
+  // Missing from some older browsers, which leaves parsing the attestation object to the backend
+  const has = <K extends keyof AuthenticatorAttestationResponse>(method: K) => typeof response[method] === 'function'
+  return {
+    id: credential.id,
+    rawId: bufferToBase64url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64url(response.clientDataJSON),
+      attestationObject: bufferToBase64url(response.attestationObject),
+      authenticatorData: has('getAuthenticatorData') ? optional(response.getAuthenticatorData()) : undefined,
+      publicKey: has('getPublicKey') ? optional(response.getPublicKey()) : undefined,
+      publicKeyAlgorithm: has('getPublicKeyAlgorithm') ? response.getPublicKeyAlgorithm() : undefined,
+      transports: has('getTransports') ? response.getTransports() : undefined,
+    },
+    authenticatorAttachment: credential.authenticatorAttachment,
+  }
+}
+
+// --- Authentication ---
+
+/**
+ * Asks the browser for a passkey to sign in with. With `conditional`, it is
+ * offered in the autofill menu of an input with autocomplete="... webauthn"
+ * instead of a dialog, and the promise waits until the user picks one or
+ * `signal` aborts.
+ */
+export async function getPasskey(
+  options: PasskeyRequestOptions,
+  { conditional = false, signal }: { conditional?: boolean; signal?: AbortSignal } = {}
+): Promise<PasskeyAssertion> {
+  assertSupported()
+
+  let credential: Credential | null
+  try {
+    credential = await navigator.credentials.get({
+      signal,
+      mediation: conditional ? 'conditional' : undefined,
+      publicKey: {
+        challenge: base64urlToBuffer(options.challenge),
+        rpId: options.rpId,
+        timeout: options.timeout,
+        userVerification: options.userVerification as UserVerificationRequirement | undefined,
+        allowCredentials: options.allowCredentials?.map(toDescriptor),
+      },
+    })
+  } catch (error) {
+    throw toPasskeyError(error)
+  }
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new PasskeyError('FAILED', 'The browser did not return a passkey')
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse
+  return {
+    id: credential.id,
+    rawId: bufferToBase64url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64url(response.clientDataJSON),
+      authenticatorData: bufferToBase64url(response.authenticatorData),
+      signature: bufferToBase64url(response.signature),
+      userHandle: optional(response.userHandle),
+    },
+    authenticatorAttachment: credential.authenticatorAttachment,
+  }
+}
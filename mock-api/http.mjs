@@ -0,0 +1,90 @@
+// @ts-check
+
+/**
+ * @typedef {object} MockRequest
+ * @property {string} method
+ * @property {string} path
+ * @property {URLSearchParams} query
+ * @property {Record<string, any>} body
+ * @property {Record<string, string>} cookies
+ * @property {string} appUrl Origin of the frontend, used to build email links
+ */
+
+/**
+ * @typedef {object} MockResponse
+ * @property {number} status
+ * @property {unknown} [body] Sent as JSON
+ * @property {string} [text] Sent as plain text instead of `body`
+ * @property {string} [html] Sent as an HTML page instead of `body`
+ * @property {Record<string, string>} [headers] Extra response headers, e.g. Location
+ * @property {string[]} [cookies] Raw Set-Cookie values
+ */
+
+/** @typedef {(req: MockRequest) => MockResponse | Promise<MockResponse>} Handler */
+
+/** @param {number} status @param {unknown} [body] @returns {MockResponse} */
+export function json(status, body) {
+  return { status, body }
+}
+
+/** @param {string} text @returns {MockResponse} */
+export function text(text) {
+  return { status: 200, text }
+}
+
+/** @param {string} markup @returns {MockResponse} */
+export function html(markup) {
+  return { status: 200, html: markup }
+}
+
+/** @param {string} location @returns {MockResponse} */
+export function redirect(location) {
+  return { status: 302, headers: { Location: location } }
+}
+
+/** @param {string} value */
+export function escapeHtml(value) {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+/**
+ * Error body in the shape `errorFromResponse` in lib/api/errors.ts reads.
+ * @param {number} status @param {string} code @param {string} message
+ * @param {Record<string, string[]>} [fieldErrors]
+ * @returns {MockResponse}
+ */
+export function error(status, code, message, fieldErrors) {
+  return { status, body: { code, message, ...(fieldErrors ? { fieldErrors } : {}) } }
+}
+
+/**
+ * Error asking the client to wait `seconds` before trying again, sent both as
+ * a Retry-After header and as `retryAfter` in the body.
+ * @param {number} status @param {string} code @param {string} message @param {number} seconds
+ * @returns {MockResponse}
+ */
+export function retryLater(status, code, message, seconds) {
+  return { status, body: { code, message, retryAfter: seconds }, headers: { 'Retry-After': String(seconds) } }
+}
+
+/** @param {string | undefined} header */
+export function parseCookies(header) {
+  /** @type {Record<string, string>} */
+  const cookies = {}
+  for (const part of (header ?? '').split(';')) {
+    const index = part.indexOf('=')
+    if (index > 0) cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim())
+  }
+  return cookies
+}
+
+/** @param {string} name @param {string} value @param {{ maxAge?: number }} [options] */
+export function cookie(name, value, { maxAge } = {}) {
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    ...(maxAge !== undefined ? [`Max-Age=${maxAge}`] : []),
+  ].join('; ')
+}
@@ -0,0 +1,71 @@
+// @ts-check
+import { cookie, error, json } from '../http.mjs'
+import { checkPassword, deleteUser, findUser, hashPassword, publicUser, sendTokenEmail } from '../store.mjs'
+import { currentUser, EMAIL_PATTERN, MIN_PASSWORD_LENGTH, SESSION_COOKIE, str } from './auth.mjs'
+
+const unauthenticated = () => error(401, 'UNAUTHENTICATED', 'Not signed in')
+const wrongPassword = () => error(400, 'INVALID_PASSWORD', 'Current password is incorrect', {
+  currentPassword: ['Current password is incorrect'],
+})
+
+/** @type {Record<string, import('../http.mjs').Handler>} */
+export const accountRoutes = {
+  'PATCH /api/account/profile': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+
+    const name = str(req.body.name)
+    const mobileNumber = str(req.body.mobileNumber)
+
+    /** @type {Record<string, string[]>} */
+    const fieldErrors = {}
+    if (!name) fieldErrors.name = ['Name is required']
+    if (!/^\+\d{6,15}$/.test(mobileNumber)) fieldErrors.mobileNumber = ['Mobile number must be in E.164 format']
+    if (Object.keys(fieldErrors).length > 0) {
+      return error(400, 'VALIDATION_ERROR', 'Please correct the highlighted fields', fieldErrors)
+    }
+
+    user.name = name
+    user.mobileNumber = mobileNumber
+    return json(200, publicUser(user))
+  },
+
+  'POST /api/account/password': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    if (!checkPassword(String(req.body.currentPassword ?? ''), user.passwordHash)) return wrongPassword()
+
+    const newPassword = typeof req.body.newPassword === 'string' ? req.body.newPassword : ''
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      const message = `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      return error(400, 'VALIDATION_ERROR', message, { newPassword: [message] })
+    }
+
+    user.passwordHash = hashPassword(newPassword)
+    return { status: 204 }
+  },
+
+  'POST /api/account/email': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    if (!checkPassword(String(req.body.currentPassword ?? ''), user.passwordHash)) return wrongPassword()
+
+    const newEmail = str(req.body.newEmail)
+    if (!EMAIL_PATTERN.test(newEmail)) {
+      return error(400, 'VALIDATION_ERROR', 'A valid email is required', { newEmail: ['A valid email is required'] })
+    }
+    if (findUser(newEmail)) return error(409, 'EMAIL_TAKEN', 'Email already registered')
+
+    user.pendingEmail = newEmail
+    sendTokenEmail(user.email, 'verify-email', req.appUrl, { newEmail })
+    return json(200, { pendingEmail: newEmail })
+  },
+
+  'DELETE /api/account': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+
+    deleteUser(user)
+    return { status: 204, cookies: [cookie(SESSION_COOKIE, '', { maxAge: 0 })] }
+  },
+}
@@ -0,0 +1,22 @@
+// @ts-check
+import { appendFileSync, writeFileSync } from 'node:fs'
+import { error } from '../http.mjs'
+import { state } from '../store.mjs'
+
+// Every event received is also appended here as a line of JSON, for tests to read back
+const ANALYTICS_FILE = process.env.MOCK_ANALYTICS_FILE
+if (ANALYTICS_FILE) writeFileSync(ANALYTICS_FILE, '')
+
+/** @type {Record<string, import('../http.mjs').Handler>} */
+export const analyticsRoutes = {
+  // Batches from the beacon transport; sendBeacon posts them as text/plain, which readBody parses anyway
+  'POST /api/analytics/events': ({ body }) => {
+    if (typeof body.sessionId !== 'string' || !Array.isArray(body.events)) {
+      return error(400, 'VALIDATION_ERROR', 'Expected { sessionId, events }')
+    }
+    const events = body.events.map(/** @param {any} event */ event => ({ sessionId: body.sessionId, ...event }))
+    state.analytics.push(...events)
+    if (ANALYTICS_FILE) appendFileSync(ANALYTICS_FILE, events.map(event => `${JSON.stringify(event)}\n`).join(''))
+    return { status: 204 }
+  },
+}
@@ -0,0 +1,212 @@
+// @ts-check
+import { cookie, error, json, retryLater } from '../http.mjs'
+import {
+  addUser,
+  changeUserEmail,
+  createChallenge,
+  createSession,
+  checkPassword,
+  clearLoginFailures,
+  findUser,
+  hashPassword,
+  lockoutRemaining,
+  needsCaptcha,
+  publicUser,
+  recordLoginFailure,
+  REMEMBER_ME_MS,
+  renewSession,
+  redeemCaptchaToken,
+  redeemToken,
+  sendTokenEmail,
+  sessionUser,
+  state,
+} from '../store.mjs'
+
+export const SESSION_COOKIE = 'mock_session'
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+export const MIN_PASSWORD_LENGTH = 8
+
+/** @param {unknown} value */
+export function str(value) {
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/** @param {import('../http.mjs').MockRequest} req */
+export function currentUser(req) {
+  return sessionUser(req.cookies[SESSION_COOKIE])
+}
+
+/**
+ * Starts a session and returns its Set-Cookie value. A remembered session's
+ * cookie outlives the browser; any other is dropped when the browser closes.
+ * @param {import('../store.mjs').MockUser} user @param {{ rememberMe?: boolean }} [options]
+ */
+export function sessionCookie(user, { rememberMe = false } = {}) {
+  return cookie(SESSION_COOKIE, createSession(user, { rememberMe }), rememberMe ? { maxAge: REMEMBER_ME_MS / 1000 } : {})
+}
+
+/**
+ * The error for a request that needs a CAPTCHA, or undefined when `token` is
+ * a valid one (which spends it).
+ * @param {unknown} token
+ */
+export function captchaError(token) {
+  if (redeemCaptchaToken(token)) return undefined
+  return token
+    ? error(403, 'CAPTCHA_INVALID', 'The verification has expired or was not accepted. Please try again.')
+    : error(403, 'CAPTCHA_REQUIRED', 'Please confirm you are not a robot')
+}
+
+/** @param {number} seconds */
+function accountLocked(seconds) {
+  return retryLater(423, 'ACCOUNT_LOCKED', 'Too many failed sign-in attempts. This account is temporarily locked.', seconds)
+}
+
+/** @type {Record<string, import('../http.mjs').Handler>} */
+export const authRoutes = {
+  'POST /api/auth/signup': ({ body, appUrl }) => {
+    const name = str(body.name)
+    const email = str(body.email)
+    const mobileNumber = str(body.mobileNumber)
+    const password = typeof body.password === 'string' ? body.password : ''
+
+    /** @type {Record<string, string[]>} */
+    const fieldErrors = {}
+    if (!name) fieldErrors.name = ['Name is required']
+    if (!EMAIL_PATTERN.test(email)) fieldErrors.email = ['A valid email is required']
+    if (!/^\+\d{6,15}$/.test(mobileNumber)) fieldErrors.mobileNumber = ['Mobile number must be in E.164 format']
+    if (password.length < MIN_PASSWORD_LENGTH) fieldErrors.password = [`Password must be at least ${MIN_PASSWORD_LENGTH} characters`]
+    if (Object.keys(fieldErrors).length > 0) {
+      return error(400, 'VALIDATION_ERROR', 'Please correct the highlighted fields', fieldErrors)
+    }
+
+    const termsVersion = str(body.termsVersion)
+    const privacyVersion = str(body.privacyVersion)
+    if (!termsVersion || !privacyVersion) {
+      return error(400, 'TERMS_NOT_ACCEPTED', 'You must accept the Terms of Service and Privacy Policy')
+    }
+
+    if (findUser(email)) return error(409, 'EMAIL_TAKEN', 'Email already registered')
+
+    const consent = {
+      termsVersion,
+      privacyVersion,
+      acceptedAt: str(body.termsAcceptedAt) || new Date().toISOString(),
+      marketingOptIn: body.marketingOptIn === true,
+    }
+    addUser({ name, email, mobileNumber, password, verified: false, consent })
+    sendTokenEmail(email, 'verify-email', appUrl, { next: str(body.redirectTo) || undefined })
+    return json(201, { message: 'Account created. Check your email to verify it.' })
+  },
+
+  'POST /api/auth/login': ({ body }) => {
+    const email = str(body.email)
+    const lockedFor = lockoutRemaining(email)
+    if (lockedFor > 0) return accountLocked(lockedFor)
+    if (needsCaptcha(email)) {
+      const rejected = captchaError(body.captchaToken)
+      if (rejected) return rejected
+    }
+
+    const user = findUser(email)
+    if (!user || !checkPassword(String(body.password ?? ''), user.passwordHash)) {
+      const lockout = recordLoginFailure(email)
+      return lockout > 0 ? accountLocked(lockout) : error(401, 'INVALID_CREDENTIALS', 'Invalid email or password')
+    }
+    clearLoginFailures(email)
+    if (!user.verified) {
+      return error(403, 'EMAIL_NOT_VERIFIED', 'Please verify your email before signing in')
+    }
+    const rememberMe = body.rememberMe === true
+    if (user.totpSecret) return json(200, { twoFactorRequired: true, ...createChallenge(user, { rememberMe }) })
+    return { ...json(200, { message: 'Logged in' }), cookies: [sessionCookie(user, { rememberMe })] }
+  },
+
+  'POST /api/auth/refresh': req => {
+    const session = renewSession(req.cookies[SESSION_COOKIE])
+    if (!session) return error(401, 'SESSION_EXPIRED', 'Your session has expired')
+    return {
+      ...json(200, { expiresIn: Math.round((session.expiresAt - Date.now()) / 1000) }),
+      // Same cookie, sent again so a remembered one keeps its full lifetime
+      cookies: session.rememberMe ? [cookie(SESSION_COOKIE, req.cookies[SESSION_COOKIE], { maxAge: REMEMBER_ME_MS / 1000 })] : [],
+    }
+  },
+
+  'GET /api/auth/me': req => {
+    const user = currentUser(req)
+    return user ? json(200, publicUser(user)) : error(401, 'UNAUTHENTICATED', 'Not signed in')
+  },
+
+  'POST /api/auth/logout': req => {
+    state.sessions.delete(req.cookies[SESSION_COOKIE])
+    return { status: 204, cookies: [cookie(SESSION_COOKIE, '', { maxAge: 0 })] }
+  },
+
+  'POST /api/auth/forgot-password': ({ body, appUrl }) => {
+    // Same response either way, so the endpoint can't be used to probe for accounts
+    const user = findUser(str(body.email))
+    if (user) sendTokenEmail(user.email, 'reset-password', appUrl)
+    return { status: 204 }
+  },
+
+  'POST /api/auth/magic-link': ({ body, appUrl }) => {
+    // Like forgot-password, the answer doesn't reveal whether the account exists
+    const user = findUser(str(body.email))
+    if (user?.verified) sendTokenEmail(user.email, 'magic-link', appUrl, { next: str(body.redirectTo) || undefined })
+    return { status: 204 }
+  },
+
+  'POST /api/auth/magic-link/verify': ({ body }) => {
+    const result = redeemToken(str(body.token), 'magic-link')
+    if (result === 'expired') return error(410, 'TOKEN_EXPIRED', 'This sign-in link has expired')
+    const user = result === 'invalid' ? undefined : findUser(result.email)
+    if (!user) return error(400, 'TOKEN_INVALID', 'This sign-in link is not valid')
+
+    // The link stands in for the password only; the second factor is still asked for
+    clearLoginFailures(user.email)
+    if (user.totpSecret) return json(200, { twoFactorRequired: true, ...createChallenge(user) })
+    return { ...json(200, { message: 'Logged in' }), cookies: [sessionCookie(user)] }
+  },
+
+  'POST /api/auth/reset-password': ({ body }) => {
+    const password = typeof body.password === 'string' ? body.password : ''
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return error(400, 'VALIDATION_ERROR', `Password must be at least ${MIN_PASSWORD_LENGTH} characters`, {
+        password: [`Password must be at least ${MIN_PASSWORD_LENGTH} characters`],
+      })
+    }
+
+    const result = redeemToken(str(body.token), 'reset-password')
+    if (result === 'expired') return error(410, 'TOKEN_EXPIRED', 'This reset link has expired')
+    const user = result === 'invalid' ? undefined : findUser(result.email)
+    if (!user) return error(400, 'TOKEN_INVALID', 'This reset link is not valid')
+
+    user.passwordHash = hashPassword(password)
+    return { status: 204 }
+  },
+
+  'POST /api/auth/verify-email': ({ body }) => {
+    const result = redeemToken(str(body.token), 'verify-email')
+    if (result === 'expired') return error(410, 'TOKEN_EXPIRED', 'This verification link has expired')
+    const user = result === 'invalid' ? undefined : findUser(result.email)
+    if (!user) return error(400, 'TOKEN_INVALID', 'This verification link is not valid')
+
+    if (result !== 'invalid' && result.newEmail) {
+      if (findUser(result.newEmail)) return error(409, 'EMAIL_TAKEN', 'Email already registered')
+      changeUserEmail(user, result.newEmail)
+      return json(200, { status: 'verified', email: user.email })
+    }
+
+    const status = user.verified ? 'already_verified' : 'verified'
+    user.verified = true
+    return json(200, { status, email: user.email })
+  },
+
+  'POST /api/auth/resend-verification': ({ body, appUrl }) => {
+    const user = findUser(str(body.email))
+    if (user?.verified) return error(409, 'ALREADY_VERIFIED', 'This email address is already verified')
+    if (user) sendTokenEmail(user.email, 'verify-email', appUrl, { next: str(body.redirectTo) || undefined })
+    return { status: 204 }
+  },
+}
@@ -0,0 +1,7 @@
+// @ts-check
+import { text } from '../http.mjs'
+
+/** @type {Record<string, import('../http.mjs').Handler>} */
+export const greetRoutes = {
+  'GET /api/greet': ({ query }) => text(`Hello, ${query.get('name') || 'stranger'}!`),
+}
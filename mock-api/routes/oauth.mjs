@@ -0,0 +1,118 @@
+// @ts-check
+import { error, escapeHtml, html, redirect } from '../http.mjs'
+import { addUser, checkPassword, createOAuthLink, findOAuthLink, findUser, newId, state } from '../store.mjs'
+import { EMAIL_PATTERN, sessionCookie, str } from './auth.mjs'
+
+/*
+ * Stands in for both the backend's OAuth endpoints and the provider itself:
+ * instead of leaving for Google and co., /start shows a local consent page
+ * where you pick the email the "provider" vouches for.
+ */
+
+const PROVIDERS = ['google', 'github', 'microsoft']
+
+/** @param {string} redirectUri @param {Record<string, string>} params */
+function callbackUrl(redirectUri, params) {
+  return `${redirectUri}?${new URLSearchParams(params)}`
+}
+
+/** @param {import('../http.mjs').MockRequest} req */
+function readStartParams({ query, appUrl }) {
+  const provider = query.get('provider') ?? ''
+  const redirectUri = query.get('redirect_uri') ?? ''
+  const state = query.get('state') ?? ''
+  if (!PROVIDERS.includes(provider)) return error(400, 'UNKNOWN_PROVIDER', `Unknown OAuth provider "${provider}"`)
+  // Real backends only redirect to registered URIs; the app's own origin is the only one here
+  if (!redirectUri.startsWith(`${appUrl}/`)) return error(400, 'INVALID_REDIRECT_URI', `redirect_uri must start with ${appUrl}/`)
+  if (!state) return error(400, 'MISSING_STATE', 'state is required')
+  return { provider, redirectUri, state }
+}
+
+/** @param {{ provider: string, redirectUri: string, state: string }} params */
+function consentPage({ provider, redirectUri, state }) {
+  const hidden = Object.entries({ provider, redirect_uri: redirectUri, state })
+    .map(([name, value]) => `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`)
+    .join('')
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Mock ${escapeHtml(provider)} sign-in</title></head>
+<body style="font-family: system-ui, sans-serif; max-width: 24rem; margin: 4rem auto">
+  <h1>Mock ${escapeHtml(provider)} sign-in</h1>
+  <p>Pick the account this provider signs you in as. Use an address that already has a password account to try linking.</p>
+  <form method="get" action="/api/auth/oauth/authorize">
+    ${hidden}
+    <p><label>Email <input type="email" name="email" value="oauth.user@example.com" required></label></p>
+    <p><label>Name <input name="name" value="OAuth User"></label></p>
+    <p>
+      <button type="submit" name="decision" value="allow">Allow</button>
+      <button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+    </p>
+  </form>
+</body>
+</html>`
+}
+
+/** @type {Record<string, import('../http.mjs').Handler>} */
+export const oauthRoutes = {
+  'GET /api/auth/oauth/start': req => {
+    const params = readStartParams(req)
+    return 'status' in params ? params : html(consentPage(params))
+  },
+
+  // Where the consent page submits to; a real provider would redirect back to the backend instead
+  'GET /api/auth/oauth/authorize': req => {
+    const params = readStartParams(req)
+    if ('status' in params) return params
+    const { provider, redirectUri, state } = params
+
+    if (req.query.get('decision') !== 'allow') {
+      return redirect(callbackUrl(redirectUri, { error: 'access_denied', state }))
+    }
+    const email = str(req.query.get('email'))
+    if (!EMAIL_PATTERN.test(email)) {
+      return redirect(callbackUrl(redirectUri, {
+        error: 'invalid_request',
+        error_description: 'The provider did not return a valid email address',
+        state,
+      }))
+    }
+
+    let user = findUser(email)
+    if (user && !user.oauthProviders?.includes(provider)) {
+      const linkToken = createOAuthLink(user.email, provider)
+      return redirect(callbackUrl(redirectUri, { status: 'link_required', email: user.email, link_token: linkToken, state }))
+    }
+    if (!user) {
+      // Providers only hand out verified addresses, and the account gets no usable password
+      user = addUser({
+        name: str(req.query.get('name')) || email.split('@')[0],
+        email,
+        mobileNumber: '',
+        password: newId(),
+        verified: true,
+        oauthProviders: [provider],
+      })
+    }
+    return {
+      ...redirect(callbackUrl(redirectUri, { status: 'success', state })),
+      cookies: [sessionCookie(user)],
+    }
+  },
+
+  'POST /api/auth/oauth/link': ({ body }) => {
+    const linkToken = str(body.linkToken)
+    const link = findOAuthLink(linkToken)
+    if (link === 'expired') return error(410, 'TOKEN_EXPIRED', 'This request has expired')
+    const user = link === 'invalid' ? undefined : findUser(link.email)
+    if (link === 'invalid' || !user) return error(400, 'INVALID_TOKEN', 'This request is not valid')
+
+    if (!checkPassword(String(body.password ?? ''), user.passwordHash)) {
+      return error(400, 'INVALID_PASSWORD', 'Incorrect password')
+    }
+
+    state.oauthLinks.delete(linkToken)
+    user.verified = true
+    user.oauthProviders = [...(user.oauthProviders ?? []), link.provider]
+    return { status: 204, cookies: [sessionCookie(user)] }
+  },
+}
@@ -0,0 +1,110 @@
+// @ts-check
+import { error, json } from '../http.mjs'
+import { createPasskeyChallenge, findPasskey, findUser, redeemPasskeyChallenge } from '../store.mjs'
+import { PASSKEY_ALGORITHMS, readClientData, rpIdFor, toBase64url, verifyAssertion, verifyRegistration } from '../webauthn.mjs'
+import { currentUser, sessionCookie, str } from './auth.mjs'
+
+const RP_NAME = 'DigiSaga'
+
+const unauthenticated = () => error(401, 'UNAUTHENTICATED', 'Not signed in')
+const challengeExpired = () => error(410, 'CHALLENGE_EXPIRED', 'The passkey request has expired. Please try again.')
+
+/** @param {string} reason */
+function invalidPasskey(reason) {
+  console.log(`[mock-api] passkey rejected: ${reason}`)
+  return error(400, 'INVALID_PASSKEY', 'That passkey could not be verified')
+}
+
+/** @param {import('../store.mjs').MockPasskey} passkey */
+function publicPasskey({ id, name, createdAt, lastUsedAt }) {
+  return { id, name, createdAt, lastUsedAt }
+}
+
+/** @type {Record<string, import('../http.mjs').Handler>} */
+export const passkeyRoutes = {
+  'POST /api/auth/passkey/options': ({ body, appUrl }) => {
+    const email = str(body.email)
+    // Unknown addresses get the same answer, minus a credential list, so it can't reveal who has an account
+    const passkeys = email ? findUser(email)?.passkeys ?? [] : []
+    return json(200, {
+      ...createPasskeyChallenge('login', email || undefined),
+      rpId: rpIdFor(appUrl),
+      userVerification: 'preferred',
+      allowCredentials: passkeys.map(({ id, transports }) => ({ id, type: 'public-key', transports })),
+    })
+  },
+
+  'POST /api/auth/passkey/login': ({ body, appUrl }) => {
+    const credential = body.credential
+    const challenge = redeemPasskeyChallenge(readClientData(credential?.response?.clientDataJSON)?.challenge, 'login')
+    if (challenge === 'expired') return challengeExpired()
+    if (challenge === 'invalid') return invalidPasskey('unknown challenge')
+
+    const found = findPasskey(str(credential?.rawId ?? credential?.id))
+    if (!found) return invalidPasskey('unknown credential')
+    const { user, passkey } = found
+    if (challenge.email && challenge.email !== user.email) return invalidPasskey('passkey belongs to another account')
+
+    const verified = verifyAssertion(credential, passkey, appUrl)
+    if (typeof verified === 'string') return invalidPasskey(verified)
+    passkey.signCount = verified.signCount
+    passkey.lastUsedAt = new Date().toISOString()
+
+    // A passkey is something the user has and is (or knows), so no second factor is asked for
+    return { ...json(200, { message: 'Logged in' }), cookies: [sessionCookie(user, { rememberMe: body.rememberMe === true })] }
+  },
+
+  'GET /api/account/passkeys': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    return json(200, (user.passkeys ?? []).map(publicPasskey))
+  },
+
+  'POST /api/account/passkeys/options': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    return json(200, {
+      ...createPasskeyChallenge('register', user.email),
+      rp: { id: rpIdFor(req.appUrl), name: RP_NAME },
+      user: { id: toBase64url(Buffer.from(user.id)), name: user.email, displayName: user.name },
+      pubKeyCredParams: PASSKEY_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+      authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'preferred' },
+      attestation: 'none',
+      excludeCredentials: (user.passkeys ?? []).map(({ id, transports }) => ({ id, type: 'public-key', transports })),
+    })
+  },
+
+  'POST /api/account/passkeys': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+
+    const credential = req.body.credential
+    const challenge = redeemPasskeyChallenge(readClientData(credential?.response?.clientDataJSON)?.challenge, 'register')
+    if (challenge === 'expired') return challengeExpired()
+    if (challenge === 'invalid' || challenge.email !== user.email) return invalidPasskey('unknown challenge')
+
+    const verified = verifyRegistration(credential, req.appUrl)
+    if (typeof verified === 'string') return invalidPasskey(verified)
+    if (findPasskey(verified.id)) return error(409, 'PASSKEY_EXISTS', 'That passkey is already registered')
+
+    user.passkeys ??= []
+    /** @type {import('../store.mjs').MockPasskey} */
+    const passkey = {
+      ...verified,
+      name: str(req.body.name) || `Passkey ${user.passkeys.length + 1}`,
+      createdAt: new Date().toISOString(),
+    }
+    user.passkeys.push(passkey)
+    return json(201, publicPasskey(passkey))
+  },
+
+  'DELETE /api/account/passkeys': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    const id = req.query.get('id') ?? ''
+    if (!user.passkeys?.some(p => p.id === id)) return error(404, 'NOT_FOUND', 'No such passkey')
+
+    user.passkeys = user.passkeys.filter(p => p.id !== id)
+    return { status: 204 }
+  },
+}
@@ -0,0 +1,78 @@
+// @ts-check
+import { randomInt } from 'node:crypto'
+import { error, json } from '../http.mjs'
+import { checkPassword, findChallenge, state } from '../store.mjs'
+import { generateSecret, otpauthUrl, verifyTotp } from '../totp.mjs'
+import { currentUser, sessionCookie, str } from './auth.mjs'
+
+const ISSUER = 'DigiSaga'
+const RECOVERY_CODE_COUNT = 8
+
+const unauthenticated = () => error(401, 'UNAUTHENTICATED', 'Not signed in')
+const invalidCode = () => error(400, 'INVALID_CODE', 'That code is not valid', { code: ['That code is not valid'] })
+
+function recoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const part = () => String(randomInt(100_000)).padStart(5, '0')
+    return `${part()}-${part()}`
+  })
+}
+
+/** @type {Record<string, import('../http.mjs').Handler>} */
+export const twoFactorRoutes = {
+  'POST /api/auth/2fa/verify': ({ body }) => {
+    const challengeToken = str(body.challengeToken)
+    const user = findChallenge(challengeToken)
+    if (user === 'expired') return error(410, 'CHALLENGE_EXPIRED', 'This sign-in attempt has expired')
+    if (user === 'invalid' || !user.totpSecret) return error(400, 'INVALID_CHALLENGE', 'This sign-in attempt is not valid')
+
+    const recoveryCode = str(body.recoveryCode)
+    if (recoveryCode) {
+      const index = user.recoveryCodes?.indexOf(recoveryCode) ?? -1
+      if (index < 0) return error(400, 'INVALID_CODE', 'That recovery code is not valid')
+      user.recoveryCodes?.splice(index, 1)
+    } else if (!verifyTotp(user.totpSecret, str(body.code))) {
+      return invalidCode()
+    }
+
+    // "Remember me" was ticked with the password, before the code was asked for
+    const rememberMe = state.challenges.get(challengeToken)?.rememberMe
+    state.challenges.delete(challengeToken)
+    return { status: 204, cookies: [sessionCookie(user, { rememberMe })] }
+  },
+
+  'POST /api/account/2fa/setup': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    if (user.totpSecret) return error(409, 'TWO_FACTOR_ENABLED', 'Two-factor authentication is already on')
+
+    user.pendingTotpSecret = generateSecret()
+    return json(200, { secret: user.pendingTotpSecret, otpauthUrl: otpauthUrl(user.pendingTotpSecret, user.email, ISSUER) })
+  },
+
+  'POST /api/account/2fa/enable': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    if (!user.pendingTotpSecret) return error(409, 'SETUP_REQUIRED', 'Start two-factor setup first')
+    if (!verifyTotp(user.pendingTotpSecret, str(req.body.code))) return invalidCode()
+
+    user.totpSecret = user.pendingTotpSecret
+    user.pendingTotpSecret = undefined
+    user.recoveryCodes = recoveryCodes()
+    return json(200, { recoveryCodes: user.recoveryCodes })
+  },
+
+  'POST /api/account/2fa/disable': req => {
+    const user = currentUser(req)
+    if (!user) return unauthenticated()
+    if (!checkPassword(String(req.body.currentPassword ?? ''), user.passwordHash)) {
+      return error(400, 'INVALID_PASSWORD', 'Current password is incorrect', {
+        currentPassword: ['Current password is incorrect'],
+      })
+    }
+
+    user.totpSecret = undefined
+    user.recoveryCodes = undefined
+    return { status: 204 }
+  },
+}
@@ -0,0 +1,93 @@
+// @ts-check
+import { error, redirect, retryLater } from './http.mjs'
+import { captchaError } from './routes/auth.mjs'
+
+/**
+ * @typedef {object} Scenario
+ * @property {string} description
+ * @property {number} [delayMs] Wait this long before answering
+ * @property {boolean} [dropConnection] Close the socket without a response, like a network failure
+ * @property {(req: import('./http.mjs').MockRequest) => import('./http.mjs').MockResponse | undefined} [respond]
+ *   Returns a canned response, or undefined to fall through to the normal handler
+ */
+
+const SLOW_DELAY_MS = Number(process.env.MOCK_API_DELAY_MS) || 3000
+const RETRY_AFTER_S = Number(process.env.MOCK_RETRY_AFTER_S) || 30
+
+/** @param {import('./http.mjs').MockRequest} req */
+const isLoginOrSignup = ({ method, path }) => method === 'POST' && (path === '/api/auth/login' || path === '/api/auth/signup')
+
+/** @param {string} route @param {import('./http.mjs').MockResponse} response */
+function on(route, response) {
+  /** @param {import('./http.mjs').MockRequest} req */
+  return req => (`${req.method} ${req.path}` === route ? response : undefined)
+}
+
+/** @type {Record<string, Scenario>} */
+export const scenarios = {
+  'email-taken': {
+    description: 'Signup fails with the raw duplicate-key error the backend reports for a registered email',
+    respond: ({ method, path, body }) => method === 'POST' && path === '/api/auth/signup'
+      ? error(400, 'DUPLICATE_KEY', `E11000 duplicate key error collection: app.users index: email_1 dup key: { email: "${body.email}" }`)
+      : undefined,
+  },
+  'invalid-credentials': {
+    description: 'Every login is rejected as invalid credentials',
+    respond: on('POST /api/auth/login', error(401, 'INVALID_CREDENTIALS', 'Invalid email or password')),
+  },
+  'unverified': {
+    description: 'Every login is rejected because the email is not verified',
+    respond: on('POST /api/auth/login', error(403, 'EMAIL_NOT_VERIFIED', 'Please verify your email before signing in')),
+  },
+  'expired-token': {
+    description: 'Verification, password reset and sign-in links are reported as expired',
+    respond: req => on('POST /api/auth/verify-email', error(410, 'TOKEN_EXPIRED', 'This verification link has expired'))(req)
+      ?? on('POST /api/auth/reset-password', error(410, 'TOKEN_EXPIRED', 'This reset link has expired'))(req)
+      ?? on('POST /api/auth/magic-link/verify', error(410, 'TOKEN_EXPIRED', 'This sign-in link has expired'))(req),
+  },
+  'two-factor-expired': {
+    description: 'Every second-factor code is rejected because the sign-in attempt has expired',
+    respond: on('POST /api/auth/2fa/verify', error(410, 'CHALLENGE_EXPIRED', 'This sign-in attempt has expired')),
+  },
+  'oauth-state-mismatch': {
+    description: 'The OAuth provider sends the user back with a state the app did not issue',
+    respond: ({ method, path, query }) => method === 'GET' && path === '/api/auth/oauth/authorize'
+      ? redirect(`${query.get('redirect_uri')}?${new URLSearchParams({ status: 'success', state: 'forged' })}`)
+      : undefined,
+  },
+  'rate-limited': {
+    description: `Login and signup are refused with a 429 and Retry-After: ${RETRY_AFTER_S} (MOCK_RETRY_AFTER_S)`,
+    respond: req => isLoginOrSignup(req)
+      ? retryLater(429, 'RATE_LIMITED', 'Too many requests. Please slow down.', RETRY_AFTER_S)
+      : undefined,
+  },
+  'captcha-required': {
+    description: 'Login and signup need a solved CAPTCHA (the local test provider) on every attempt',
+    respond: req => isLoginOrSignup(req) ? captchaError(req.body.captchaToken) : undefined,
+  },
+  'slow': {
+    description: `Every response is delayed by ${SLOW_DELAY_MS}ms (MOCK_API_DELAY_MS)`,
+    delayMs: SLOW_DELAY_MS,
+  },
+  'server-error': {
+    description: 'Every API call fails with a 500',
+    respond: () => error(500, 'INTERNAL_ERROR', 'Internal server error'),
+  },
+  'network-error': {
+    description: 'Every API call drops the connection without responding',
+    dropConnection: true,
+  },
+}
+
+/**
+ * Parses a comma-separated scenario list, e.g. "slow,server-error".
+ * @param {string | null | undefined} value
+ */
+export function parseScenarios(value) {
+  const names = (value ?? '').split(',').map(name => name.trim()).filter(Boolean)
+  const unknown = names.filter(name => !(name in scenarios))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown mock scenario(s): ${unknown.join(', ')}. Available: ${Object.keys(scenarios).join(', ')}`)
+  }
+  return names
+}
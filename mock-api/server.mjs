@@ -0,0 +1,169 @@
+// @ts-check
+/**
+ * Local stand-in for the backend API, for working on the UI offline and for tests.
+ *
+ *   npm run mock-api                               # listens on MOCK_API_PORT (default 4010)
+ *   MOCK_API_SCENARIO=slow,email-taken npm run mock-api
+ *
+ * Point the app at it with `npm run dev:mock` (see README). Scenarios can
+ * also be switched per request with an `X-Mock-Scenario` header, or for the whole
+ * server through the /__mock control endpoints.
+ */
+import { readFileSync } from 'node:fs'
+import { createServer } from 'node:http'
+import { json, parseCookies } from './http.mjs'
+import { accountRoutes } from './routes/account.mjs'
+import { analyticsRoutes } from './routes/analytics.mjs'
+import { authRoutes } from './routes/auth.mjs'
+import { greetRoutes } from './routes/greet.mjs'
+import { oauthRoutes } from './routes/oauth.mjs'
+import { passkeyRoutes } from './routes/passkeys.mjs'
+import { twoFactorRoutes } from './routes/two-factor.mjs'
+import { parseScenarios, scenarios } from './scenarios.mjs'
+import { findUser, resetStore, SEED_PASSWORD, state } from './store.mjs'
+import { totp } from './totp.mjs'
+
+const PORT = Number(process.env.MOCK_API_PORT) || 4010
+const APP_URL = (process.env.MOCK_APP_URL || 'http://localhost:3000').replace(/\/+$/, '')
+
+let activeScenarios = parseScenarios(process.env.MOCK_API_SCENARIO)
+
+/** @type {Record<string, import('./http.mjs').Handler>} */
+const routes = {
+  ...authRoutes,
+  ...accountRoutes,
+  ...oauthRoutes,
+  ...twoFactorRoutes,
+  ...passkeyRoutes,
+  ...greetRoutes,
+  ...analyticsRoutes,
+
+  // --- Control endpoints (not part of the real API) ---
+
+  'GET /__mock/scenarios': () => json(200, {
+    active: activeScenarios,
+    available: Object.fromEntries(Object.entries(scenarios).map(([name, s]) => [name, s.description])),
+  }),
+  'POST /__mock/scenarios': ({ body }) => {
+    activeScenarios = parseScenarios(Array.isArray(body.scenarios) ? body.scenarios.join(',') : body.scenarios)
+    return json(200, { active: activeScenarios })
+  },
+  // The app's config.json under `npm run dev:mock`, read on every request so edits apply on reload
+  'GET /__mock/app-config': () => json(200, JSON.parse(readFileSync(new URL('./app-config.json', import.meta.url), 'utf8'))),
+  'GET /__mock/outbox': () => json(200, state.outbox),
+  // Analytics events received, optionally only those of one tab's session
+  'GET /__mock/analytics': ({ query }) => {
+    const sessionId = query.get('sessionId')
+    return json(200, sessionId ? state.analytics.filter(event => event.sessionId === sessionId) : state.analytics)
+  },
+  // Current authenticator code for an account, including one that is mid-enrollment
+  'GET /__mock/totp': ({ query }) => {
+    const user = findUser(query.get('email') ?? '')
+    const secret = user?.pendingTotpSecret ?? user?.totpSecret
+    return secret ? json(200, { code: totp(secret) }) : json(404, { code: 'NOT_FOUND', message: 'No TOTP secret for that email' })
+  },
+  // What an account agreed to at signup
+  'GET /__mock/consent': ({ query }) => {
+    const consent = findUser(query.get('email') ?? '')?.consent
+    return consent ? json(200, consent) : json(404, { code: 'NOT_FOUND', message: 'No consent recorded for that email' })
+  },
+  'POST /__mock/reset': () => {
+    resetStore()
+    activeScenarios = parseScenarios(process.env.MOCK_API_SCENARIO)
+    return { status: 204 }
+  },
+}
+
+/** @param {number} ms */
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms))
+
+/** @param {import('node:http').IncomingMessage} req */
+async function readBody(req) {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  const raw = Buffer.concat(chunks).toString('utf8')
+  if (!raw) return {}
+  const data = JSON.parse(raw)
+  return data && typeof data === 'object' ? data : {}
+}
+
+/** @param {import('node:http').IncomingMessage} req @param {import('node:http').ServerResponse} res */
+function setCorsHeaders(req, res) {
+  // Credentials mode requires echoing the exact origin rather than "*"
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin ?? APP_URL)
+  res.setHeader('Access-Control-Allow-Credentials', 'true')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept, X-Mock-Scenario')
+  // Cross-origin responses hide every other header from fetch unless listed here
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After')
+  res.setHeader('Vary', 'Origin')
+}
+
+const server = createServer(async (req, res) => {
+  setCorsHeaders(req, res)
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end()
+    return
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`)
+  const method = req.method ?? 'GET'
+  const route = `${method} ${url.pathname}`
+
+  /** @type {import('./http.mjs').MockResponse} */
+  let response
+  try {
+    const body = await readBody(req).catch(() => null)
+    /** @type {import('./http.mjs').MockRequest} */
+    const mockReq = {
+      method,
+      path: url.pathname,
+      query: url.searchParams,
+      body: body ?? {},
+      cookies: parseCookies(req.headers.cookie),
+      appUrl: APP_URL,
+    }
+
+    const isApiCall = url.pathname.startsWith('/api/')
+    const headerScenarios = parseScenarios(/** @type {string | undefined} */ (req.headers['x-mock-scenario']))
+    const active = isApiCall ? [...activeScenarios, ...headerScenarios].map(name => scenarios[name]) : []
+
+    const delayMs = Math.max(0, ...active.map(s => s.delayMs ?? 0))
+    if (delayMs > 0) await sleep(delayMs)
+
+    if (active.some(s => s.dropConnection)) {
+      req.socket.destroy()
+      return
+    }
+
+    const handler = routes[route]
+    if (body === null) {
+      response = json(400, { code: 'INVALID_JSON', message: 'Request body is not valid JSON' })
+    } else {
+      response = active.map(s => s.respond?.(mockReq)).find(Boolean)
+        ?? (handler ? await handler(mockReq) : json(404, { code: 'NOT_FOUND', message: `No mock for ${route}` }))
+    }
+  } catch (err) {
+    // Bad scenario names end up here too, and deserve a readable message
+    response = json(500, { code: 'MOCK_ERROR', message: err instanceof Error ? err.message : String(err) })
+  }
+
+  if (response.cookies) res.setHeader('Set-Cookie', response.cookies)
+  for (const [name, value] of Object.entries(response.headers ?? {})) res.setHeader(name, value)
+  if (response.html !== undefined) {
+    res.writeHead(response.status, { 'Content-Type': 'text/html; charset=utf-8' }).end(response.html)
+  } else if (response.text !== undefined) {
+    res.writeHead(response.status, { 'Content-Type': 'text/plain; charset=utf-8' }).end(response.text)
+  } else if (response.body !== undefined) {
+    res.writeHead(response.status, { 'Content-Type': 'application/json' }).end(JSON.stringify(response.body))
+  } else {
+    res.writeHead(response.status).end()
+  }
+  console.log(`[mock-api] ${route} -> ${response.status}`)
+})
+
+server.listen(PORT, () => {
+  console.log(`[mock-api] listening on http://localhost:${PORT}`)
+  console.log(`[mock-api] seeded demo@example.com, unverified@example.com and 2fa@example.com (password: ${SEED_PASSWORD})`)
+  if (activeScenarios.length > 0) console.log(`[mock-api] active scenarios: ${activeScenarios.join(', ')}`)
+})
@@ -0,0 +1,404 @@
+// @ts-check
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto'
+
+/**
+ * @typedef {object} MockUser
+ * @property {string} id
+ * @property {string} name
+ * @property {string} email
+ * @property {string} mobileNumber
+ * @property {string} passwordHash
+ * @property {boolean} verified
+ * @property {string} [pendingEmail] New address awaiting verification
+ * @property {string[]} [oauthProviders] Providers the user can sign in with
+ * @property {string} [totpSecret] Set once two-factor authentication is on
+ * @property {string} [pendingTotpSecret] Secret shown during enrollment, until a first code confirms it
+ * @property {string[]} [recoveryCodes] Unused single-use recovery codes
+ * @property {MockConsent} [consent] What the user agreed to at signup
+ * @property {MockPasskey[]} [passkeys]
+ */
+
+/**
+ * @typedef {object} MockPasskey
+ * @property {string} id Credential ID, base64url
+ * @property {string} publicKey DER-encoded SubjectPublicKeyInfo, base64url
+ * @property {number} algorithm COSE algorithm identifier
+ * @property {number} signCount
+ * @property {string[]} transports
+ * @property {string} name
+ * @property {string} createdAt
+ * @property {string} [lastUsedAt]
+ */
+
+/**
+ * @typedef {object} MockConsent
+ * @property {string} termsVersion
+ * @property {string} privacyVersion
+ * @property {string} acceptedAt
+ * @property {boolean} marketingOptIn
+ */
+
+/**
+ * @typedef {object} MockSession
+ * @property {string} email
+ * @property {number} expiresAt Requests are refused after this, until the session is refreshed
+ * @property {number} refreshUntil Last moment the session can be refreshed
+ * @property {boolean} rememberMe Whether the cookie outlives the browser
+ */
+
+/**
+ * @typedef {object} MockEmail
+ * @property {string} to
+ * @property {'verify-email' | 'reset-password' | 'magic-link'} kind
+ * @property {string} token
+ * @property {string} link
+ * @property {string} sentAt
+ */
+
+/** Password of every seeded account. */
+export const SEED_PASSWORD = 'Password1!'
+
+/** TOTP secret and recovery codes of the seeded 2fa@example.com account. */
+export const SEED_TOTP_SECRET = 'JBSWY3DPEHPK3PXP'
+export const SEED_RECOVERY_CODES = ['11111-11111', '22222-22222', '33333-33333', '44444-44444']
+
+const TOKEN_TTL_MS = Number(process.env.MOCK_TOKEN_TTL_MS) || 60 * 60 * 1000
+const MAGIC_LINK_TTL_MS = Number(process.env.MOCK_MAGIC_LINK_TTL_MS) || 15 * 60 * 1000
+const CHALLENGE_TTL_MS = Number(process.env.MOCK_2FA_TTL_MS) || 5 * 60 * 1000
+const LOCKOUT_MS = Number(process.env.MOCK_LOCKOUT_MS) || 60 * 1000
+const SESSION_TTL_MS = Number(process.env.MOCK_SESSION_TTL_MS) || 15 * 60 * 1000
+const PASSKEY_CHALLENGE_TTL_MS = 5 * 60 * 1000
+
+/** How long a session can be refreshed: for a month with "Remember me", otherwise for the working day. */
+export const REMEMBER_ME_MS = 30 * 24 * 60 * 60 * 1000
+const BROWSER_SESSION_MS = 12 * 60 * 60 * 1000
+
+/** Failed sign-ins in a row before a CAPTCHA is required, and before the account locks. */
+export const CAPTCHA_AFTER_FAILURES = 3
+export const LOCK_AFTER_FAILURES = 5
+
+/** Tokens issued by the app's local test CAPTCHA (components/captcha/local-captcha.tsx). */
+export const LOCAL_CAPTCHA_TOKEN_PREFIX = 'local-captcha.'
+
+export function newId(bytes = 12) {
+  return randomBytes(bytes).toString('hex')
+}
+
+/** @param {string} password */
+export function hashPassword(password) {
+  const salt = randomBytes(8).toString('hex')
+  return `${salt}:${scryptSync(password, salt, 32).toString('hex')}`
+}
+
+/** @param {string} password @param {string} stored */
+export function checkPassword(password, stored) {
+  const [salt, hash] = stored.split(':')
+  const candidate = scryptSync(password, salt, 32)
+  return timingSafeEqual(candidate, Buffer.from(hash, 'hex'))
+}
+
+/** @param {string} email */
+export function normalizeEmail(email) {
+  return email.trim().toLowerCase()
+}
+
+function createState() {
+  return {
+    /** @type {Map<string, MockUser>} keyed by normalized email */
+    users: new Map(),
+    /** @type {Map<string, MockSession>} keyed by session id */
+    sessions: new Map(),
+    /** @type {Map<string, { email: string, kind: MockEmail['kind'], newEmail?: string, expiresAt: number }>} */
+    tokens: new Map(),
+    /** @type {Map<string, { email: string, rememberMe: boolean, expiresAt: number }>} challenge token -> sign-in awaiting its second factor */
+    challenges: new Map(),
+    /** @type {Map<string, { kind: 'register' | 'login', email?: string, expiresAt: number }>} WebAuthn challenge -> what it was issued for */
+    passkeyChallenges: new Map(),
+    /** @type {Map<string, { email: string, provider: string, expiresAt: number }>} link token -> pending OAuth link */
+    oauthLinks: new Map(),
+    /** @type {Map<string, { failures: number, lockedUntil: number }>} normalized email -> failed sign-ins in a row */
+    loginAttempts: new Map(),
+    /** @type {Set<string>} CAPTCHA tokens already spent */
+    usedCaptchaTokens: new Set(),
+    /** @type {MockEmail[]} */
+    outbox: [],
+    /** @type {Array<{ sessionId: string, name: string, properties: Record<string, unknown>, timestamp: string }>} analytics events received */
+    analytics: [],
+  }
+}
+
+export let state = createState()
+
+/** @param {Omit<MockUser, 'id' | 'passwordHash'> & { password: string }} data */
+export function addUser({ password, ...data }) {
+  /** @type {MockUser} */
+  const user = { ...data, email: normalizeEmail(data.email), id: newId(), passwordHash: hashPassword(password) }
+  state.users.set(user.email, user)
+  return user
+}
+
+/** @param {string} email */
+export function findUser(email) {
+  return state.users.get(normalizeEmail(email))
+}
+
+/** @param {MockUser} user */
+export function publicUser({ id, name, email, mobileNumber, pendingEmail, totpSecret }) {
+  return { id, name, email, mobileNumber, pendingEmail, twoFactorEnabled: Boolean(totpSecret) }
+}
+
+/**
+ * Moves a user to a new address, keeping their sessions signed in.
+ * @param {MockUser} user @param {string} newEmail
+ */
+export function changeUserEmail(user, newEmail) {
+  const oldEmail = user.email
+  state.users.delete(oldEmail)
+  user.email = normalizeEmail(newEmail)
+  user.pendingEmail = undefined
+  state.users.set(user.email, user)
+  for (const session of state.sessions.values()) {
+    if (session.email === oldEmail) session.email = user.email
+  }
+}
+
+/** @param {MockUser} user */
+export function deleteUser(user) {
+  state.users.delete(user.email)
+  for (const [id, session] of state.sessions) {
+    if (session.email === user.email) state.sessions.delete(id)
+  }
+}
+
+/** @param {MockUser} user @param {{ rememberMe?: boolean }} [options] */
+export function createSession(user, { rememberMe = false } = {}) {
+  const id = newId(24)
+  const now = Date.now()
+  state.sessions.set(id, {
+    email: user.email,
+    expiresAt: now + SESSION_TTL_MS,
+    refreshUntil: now + (rememberMe ? REMEMBER_ME_MS : BROWSER_SESSION_MS),
+    rememberMe,
+  })
+  return id
+}
+
+/** @param {string | undefined} sessionId */
+export function sessionUser(sessionId) {
+  const session = sessionId ? state.sessions.get(sessionId) : undefined
+  return session && session.expiresAt > Date.now() ? state.users.get(session.email) : undefined
+}
+
+/**
+ * Extends a session that has not run out of refreshes, even if it expired a
+ * moment ago, and returns it; one that has is ended.
+ * @param {string | undefined} sessionId
+ */
+export function renewSession(sessionId) {
+  const session = sessionId ? state.sessions.get(sessionId) : undefined
+  if (!sessionId || !session) return undefined
+  if (session.refreshUntil <= Date.now() || !state.users.has(session.email)) {
+    state.sessions.delete(sessionId)
+    return undefined
+  }
+  session.expiresAt = Math.min(Date.now() + SESSION_TTL_MS, session.refreshUntil)
+  return session
+}
+
+/**
+ * "Sends" an email by recording it in the outbox and logging the link, so
+ * developers can follow it from the terminal and tests can read it back.
+ * For an email change, `email` is the account's current address and the
+ * message goes to `newEmail`. `next` is a post-login path the link carries,
+ * left for the app to validate like any other query parameter. Sign-in links
+ * open /auth/magic and expire sooner than the others.
+ * @param {string} email @param {MockEmail['kind']} kind @param {string} appUrl
+ * @param {{ newEmail?: string, next?: string }} [options]
+ */
+export function sendTokenEmail(email, kind, appUrl, { newEmail, next } = {}) {
+  const token = newId(16)
+  const to = newEmail ?? email
+  const ttl = kind === 'magic-link' ? MAGIC_LINK_TTL_MS : TOKEN_TTL_MS
+  state.tokens.set(token, { email: normalizeEmail(email), kind, newEmail, expiresAt: Date.now() + ttl })
+
+  const params = new URLSearchParams({ token })
+  if (kind === 'verify-email' || kind === 'magic-link') params.set('email', to)
+  if (next) params.set('next', next)
+  const link = `${appUrl}/${kind === 'magic-link' ? 'auth/magic' : kind}?${params}`
+
+  state.outbox.push({ to, kind, token, link, sentAt: new Date().toISOString() })
+  console.log(`[mock-api] ${kind} email for ${to}: ${link}`)
+  return token
+}
+
+/**
+ * Consumes a single-use token.
+ * @param {string} token @param {MockEmail['kind']} kind
+ * @returns {{ email: string, newEmail?: string } | 'expired' | 'invalid'}
+ */
+export function redeemToken(token, kind) {
+  const entry = state.tokens.get(token)
+  if (!entry || entry.kind !== kind) return 'invalid'
+  state.tokens.delete(token)
+  return entry.expiresAt < Date.now() ? 'expired' : { email: entry.email, newEmail: entry.newEmail }
+}
+
+/**
+ * Remembers that `provider` vouched for `email`, which already has an account,
+ * until the user proves they own it with their password.
+ * @param {string} email @param {string} provider
+ */
+export function createOAuthLink(email, provider) {
+  const token = newId(16)
+  state.oauthLinks.set(token, { email: normalizeEmail(email), provider, expiresAt: Date.now() + TOKEN_TTL_MS })
+  return token
+}
+
+/**
+ * Looks up a link token. It stays valid after a wrong password, so the route
+ * deletes it from `state.oauthLinks` only once the link succeeds.
+ * @param {string} token
+ * @returns {{ email: string, provider: string } | 'expired' | 'invalid'}
+ */
+export function findOAuthLink(token) {
+  const entry = state.oauthLinks.get(token)
+  if (!entry) return 'invalid'
+  return entry.expiresAt < Date.now() ? 'expired' : { email: entry.email, provider: entry.provider }
+}
+
+/**
+ * Holds a sign-in whose password was right until the second factor is verified.
+ * @param {MockUser} user @param {{ rememberMe?: boolean }} [options]
+ */
+export function createChallenge(user, { rememberMe = false } = {}) {
+  const token = newId(16)
+  state.challenges.set(token, { email: user.email, rememberMe, expiresAt: Date.now() + CHALLENGE_TTL_MS })
+  return { challengeToken: token, expiresIn: Math.round(CHALLENGE_TTL_MS / 1000) }
+}
+
+/**
+ * Looks up a challenge without consuming it, so a mistyped code can be retried.
+ * @param {string} token
+ * @returns {MockUser | 'expired' | 'invalid'}
+ */
+export function findChallenge(token) {
+  const entry = state.challenges.get(token)
+  if (!entry) return 'invalid'
+  if (entry.expiresAt < Date.now()) {
+    state.challenges.delete(token)
+    return 'expired'
+  }
+  return state.users.get(entry.email) ?? 'invalid'
+}
+
+/**
+ * Issues a WebAuthn challenge, to register a passkey for `email` or to sign
+ * in (with `email` when the user typed it, limiting which passkeys match).
+ * @param {'register' | 'login'} kind @param {string} [email]
+ */
+export function createPasskeyChallenge(kind, email) {
+  const challenge = randomBytes(32).toString('base64url')
+  state.passkeyChallenges.set(challenge, {
+    kind,
+    email: email ? normalizeEmail(email) : undefined,
+    expiresAt: Date.now() + PASSKEY_CHALLENGE_TTL_MS,
+  })
+  return { challenge, timeout: PASSKEY_CHALLENGE_TTL_MS }
+}
+
+/**
+ * Consumes a WebAuthn challenge, so each response can be used once.
+ * @param {unknown} challenge @param {'register' | 'login'} kind
+ * @returns {{ email?: string } | 'expired' | 'invalid'}
+ */
+export function redeemPasskeyChallenge(challenge, kind) {
+  const entry = typeof challenge === 'string' ? state.passkeyChallenges.get(challenge) : undefined
+  if (!entry || entry.kind !== kind) return 'invalid'
+  state.passkeyChallenges.delete(/** @type {string} */ (challenge))
+  return entry.expiresAt < Date.now() ? 'expired' : { email: entry.email }
+}
+
+/**
+ * The account a passkey belongs to, by credential ID.
+ * @param {string} credentialId
+ * @returns {{ user: MockUser, passkey: MockPasskey } | undefined}
+ */
+export function findPasskey(credentialId) {
+  for (const user of state.users.values()) {
+    const passkey = user.passkeys?.find(p => p.id === credentialId)
+    if (passkey) return { user, passkey }
+  }
+  return undefined
+}
+
+/**
+ * Seconds left on the lockout of `email`, or 0. Attempts are tracked per
+ * address whether or not it has an account, so locking can't reveal which do.
+ * @param {string} email
+ */
+export function lockoutRemaining(email) {
+  const entry = state.loginAttempts.get(normalizeEmail(email))
+  if (!entry?.lockedUntil) return 0
+  const remaining = entry.lockedUntil - Date.now()
+  if (remaining > 0) return Math.ceil(remaining / 1000)
+  // Served its time: start over
+  state.loginAttempts.delete(normalizeEmail(email))
+  return 0
+}
+
+/**
+ * Counts a failed sign-in and returns the lockout it triggered in seconds, or 0.
+ * @param {string} email
+ */
+export function recordLoginFailure(email) {
+  const key = normalizeEmail(email)
+  const entry = state.loginAttempts.get(key) ?? { failures: 0, lockedUntil: 0 }
+  entry.failures += 1
+  if (entry.failures >= LOCK_AFTER_FAILURES) entry.lockedUntil = Date.now() + LOCKOUT_MS
+  state.loginAttempts.set(key, entry)
+  return entry.lockedUntil ? Math.ceil(LOCKOUT_MS / 1000) : 0
+}
+
+/** @param {string} email */
+export function clearLoginFailures(email) {
+  state.loginAttempts.delete(normalizeEmail(email))
+}
+
+/** @param {string} email */
+export function needsCaptcha(email) {
+  return (state.loginAttempts.get(normalizeEmail(email))?.failures ?? 0) >= CAPTCHA_AFTER_FAILURES
+}
+
+/**
+ * Spends a CAPTCHA token. Only the local test provider's tokens are accepted,
+ * each of them once.
+ * @param {unknown} token
+ */
+export function redeemCaptchaToken(token) {
+  if (typeof token !== 'string' || !token.startsWith(LOCAL_CAPTCHA_TOKEN_PREFIX)) return false
+  if (state.usedCaptchaTokens.has(token)) return false
+  state.usedCaptchaTokens.add(token)
+  return true
+}
+
+function seed() {
+  addUser({ name: 'Demo User', email: 'demo@example.com', mobileNumber: '+14155552671', password: SEED_PASSWORD, verified: true })
+  addUser({ name: 'Pending User', email: 'unverified@example.com', mobileNumber: '+14155552672', password: SEED_PASSWORD, verified: false })
+  addUser({
+    name: 'Second Factor',
+    email: '2fa@example.com',
+    mobileNumber: '+14155552673',
+    password: SEED_PASSWORD,
+    verified: true,
+    totpSecret: SEED_TOTP_SECRET,
+    recoveryCodes: [...SEED_RECOVERY_CODES],
+  })
+}
+
+/** Drops every user, session, token and email, then re-creates the seed accounts. */
+export function resetStore() {
+  state = createState()
+  seed()
+}
+
+resetStore()
@@ -0,0 +1,62 @@
+// @ts-check
+import { createHmac, randomBytes } from 'node:crypto'
+
+/*
+ * Just enough RFC 6238 (TOTP, SHA-1, 6 digits, 30 s steps) for the mock to
+ * accept codes from a real authenticator app.
+ */
+
+const BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const STEP_SECONDS = 30
+const DIGITS = 6
+
+/** @param {Buffer} bytes */
+function base32Encode(bytes) {
+  let bits = ''
+  for (const byte of bytes) bits += byte.toString(2).padStart(8, '0')
+  let out = ''
+  for (let i = 0; i < bits.length; i += 5) out += BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)]
+  return out
+}
+
+/** @param {string} secret */
+function base32Decode(secret) {
+  let bits = ''
+  for (const char of secret.replace(/[\s=]/g, '').toUpperCase()) {
+    const value = BASE32.indexOf(char)
+    if (value < 0) throw new Error(`Invalid base32 character "${char}"`)
+    bits += value.toString(2).padStart(5, '0')
+  }
+  const bytes = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2))
+  return Buffer.from(bytes)
+}
+
+export function generateSecret() {
+  return base32Encode(randomBytes(20))
+}
+
+/** @param {string} secret @param {number} [time] Unix time in milliseconds */
+export function totp(secret, time = Date.now()) {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / STEP_SECONDS)))
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const value = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS
+  return String(value).padStart(DIGITS, '0')
+}
+
+/**
+ * Accepts the current code and its neighbours, to allow for clock drift.
+ * @param {string} secret @param {string} code
+ */
+export function verifyTotp(secret, code) {
+  const now = Date.now()
+  return [-1, 0, 1].some(step => totp(secret, now + step * STEP_SECONDS * 1000) === code)
+}
+
+/** @param {string} secret @param {string} account @param {string} issuer */
+export function otpauthUrl(secret, account, issuer) {
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) })
+  return `otpauth://totp/${encodeURIComponent(`${issuer}:${account}`)}?${params}`
+}
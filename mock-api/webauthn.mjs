@@ -0,0 +1,126 @@
+// @ts-check
+import { createHash, verify } from 'node:crypto'
+
+/*
+ * Just enough WebAuthn for the mock to accept passkeys from a real browser or
+ * a virtual authenticator: client data and authenticator data are checked and
+ * assertions' signatures verified, while attestation is never asked for
+ * ("none"), so attestation objects aren't parsed. The browser reports the new
+ * public key itself (AuthenticatorAttestationResponse.getPublicKey).
+ */
+
+/** COSE algorithm identifiers offered at registration: ES256 and RS256. */
+export const PASSKEY_ALGORITHMS = [-7, -257]
+
+const FLAG_USER_PRESENT = 0x01
+
+/** @param {string} value */
+export function fromBase64url(value) {
+  return Buffer.from(value, 'base64url')
+}
+
+/** @param {Buffer} bytes */
+export function toBase64url(bytes) {
+  return bytes.toString('base64url')
+}
+
+/** The relying party ID is the frontend's host name: passkeys are bound to the site, not the API. */
+export function rpIdFor(/** @type {string} */ appUrl) {
+  return new URL(appUrl).hostname
+}
+
+/**
+ * Decodes clientDataJSON, or returns undefined when it isn't JSON.
+ * @param {unknown} value base64url
+ * @returns {{ type?: string, challenge?: string, origin?: string } | undefined}
+ */
+export function readClientData(value) {
+  if (typeof value !== 'string') return undefined
+  try {
+    const data = JSON.parse(fromBase64url(value).toString('utf8'))
+    return data && typeof data === 'object' ? data : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * @param {Buffer} authData
+ * @param {string} rpId
+ * @returns {{ signCount: number } | string} parsed fields, or why they were rejected
+ */
+function checkAuthenticatorData(authData, rpId) {
+  if (authData.length < 37) return 'Authenticator data is too short'
+  const rpIdHash = createHash('sha256').update(rpId).digest()
+  if (!authData.subarray(0, 32).equals(rpIdHash)) return 'Passkey was created for a different site'
+  if (!(authData[32] & FLAG_USER_PRESENT)) return 'User was not present'
+  return { signCount: authData.readUInt32BE(33) }
+}
+
+/**
+ * @param {ReturnType<typeof readClientData>} clientData
+ * @param {'webauthn.create' | 'webauthn.get'} type
+ * @param {string} appUrl
+ */
+function checkClientData(clientData, type, appUrl) {
+  if (clientData?.type !== type) return `Expected a ${type} response`
+  if (clientData.origin !== new URL(appUrl).origin) return `Passkey was used from ${clientData.origin}, not ${appUrl}`
+  return undefined
+}
+
+/**
+ * Checks a registration response whose challenge the caller has already
+ * matched, and returns the credential to store.
+ * @param {any} credential PasskeyRegistration from lib/webauthn
+ * @param {string} appUrl
+ * @returns {{ id: string, publicKey: string, algorithm: number, signCount: number, transports: string[] } | string}
+ */
+export function verifyRegistration(credential, appUrl) {
+  const response = credential?.response ?? {}
+  const problem = checkClientData(readClientData(response.clientDataJSON), 'webauthn.create', appUrl)
+  if (problem) return problem
+  if (typeof response.publicKey !== 'string' || typeof response.authenticatorData !== 'string') {
+    return 'The browser did not report the public key'
+  }
+  if (!PASSKEY_ALGORITHMS.includes(response.publicKeyAlgorithm)) return 'Unsupported key algorithm'
+
+  const authData = checkAuthenticatorData(fromBase64url(response.authenticatorData), rpIdFor(appUrl))
+  if (typeof authData === 'string') return authData
+  return {
+    id: String(credential.rawId ?? credential.id),
+    publicKey: response.publicKey,
+    algorithm: response.publicKeyAlgorithm,
+    signCount: authData.signCount,
+    transports: Array.isArray(response.transports) ? response.transports : [],
+  }
+}
+
+/**
+ * Checks an assertion whose challenge the caller has already matched against
+ * the stored passkey, and returns its new signature counter.
+ * @param {any} credential PasskeyAssertion from lib/webauthn
+ * @param {{ publicKey: string, signCount: number }} passkey
+ * @param {string} appUrl
+ * @returns {{ signCount: number } | string}
+ */
+export function verifyAssertion(credential, passkey, appUrl) {
+  const response = credential?.response ?? {}
+  const problem = checkClientData(readClientData(response.clientDataJSON), 'webauthn.get', appUrl)
+  if (problem) return problem
+  if (typeof response.authenticatorData !== 'string' || typeof response.signature !== 'string') {
+    return 'Assertion is incomplete'
+  }
+
+  const authData = fromBase64url(response.authenticatorData)
+  const parsed = checkAuthenticatorData(authData, rpIdFor(appUrl))
+  if (typeof parsed === 'string') return parsed
+
+  const clientDataHash = createHash('sha256').update(fromBase64url(response.clientDataJSON)).digest()
+  const key = { key: fromBase64url(passkey.publicKey), format: /** @type {const} */ ('der'), type: /** @type {const} */ ('spki') }
+  if (!verify('sha256', Buffer.concat([authData, clientDataHash]), key, fromBase64url(response.signature))) {
+    return 'Signature does not match'
+  }
+  // Authenticators that count must count up; going back suggests a cloned key
+  if (parsed.signCount > 0 && parsed.signCount <= passkey.signCount) return 'Signature counter went backwards'
+  return parsed
+}
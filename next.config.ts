@@ -1,8 +1,19 @@
 import type { NextConfig } from "next";
+import { PHASE_DEVELOPMENT_SERVER } from "next/constants";
 
-const nextConfig: NextConfig = {
-  /* config options here */
-  output: 'export',
-};
+export default function nextConfig(phase: string): NextConfig {
+  const config: NextConfig = {
+    output: 'export',
+  };
 
-export default nextConfig;
+  // `npm run dev:mock` takes config.json from the mock API rather than from public/.
+  // Next warns that rewrites don't carry over to the static export, which this one never needs to
+  const mockApiUrl = process.env.MOCK_API_URL;
+  if (phase === PHASE_DEVELOPMENT_SERVER && mockApiUrl) {
+    config.rewrites = async () => [
+      { source: "/config.json", destination: `${mockApiUrl.replace(/\/+$/, "")}/__mock/app-config` },
+    ];
+  }
+
+  return config;
+}
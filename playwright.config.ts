@@ -0,0 +1,49 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defineConfig, devices } from "@playwright/test";
+
+// Dedicated ports, so a dev server or `npm run mock-api` left running doesn't get in the way
+const APP_PORT = 3100;
+const MOCK_API_PORT = 4011;
+
+export const APP_URL = `http://localhost:${APP_PORT}`;
+export const MOCK_API_URL = `http://localhost:${MOCK_API_PORT}`;
+// The mock API writes the analytics events it receives here, one JSON object per line
+export const ANALYTICS_FILE = join(tmpdir(), "e2e-analytics.jsonl");
+
+export default defineConfig({
+  testDir: "./tests/e2e",
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? [["list"], ["html", { open: "never" }]] : "list",
+  use: {
+    baseURL: APP_URL,
+    trace: "retain-on-failure",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: { ...devices["Desktop Chrome"] },
+    },
+  ],
+  webServer: [
+    {
+      command: "node mock-api/server.mjs",
+      url: `${MOCK_API_URL}/__mock/scenarios`,
+      env: {
+        MOCK_API_PORT: String(MOCK_API_PORT),
+        MOCK_APP_URL: APP_URL,
+        MOCK_LOCKOUT_MS: "5000",
+        MOCK_ANALYTICS_FILE: ANALYTICS_FILE,
+      },
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      // Test the static export exactly as it ships, deployed with a config.json pointing at the mock API
+      command: `npm run build && cp tests/e2e/config.json out/config.json && node tests/e2e/static-server.mjs out ${APP_PORT}`,
+      url: `${APP_URL}/login`,
+      timeout: 300_000,
+      reuseExistingServer: !process.env.CI,
+    },
+  ],
+});
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import OAuthCallbackPage from '@/app/auth/callback/page'
+import LoginPage from '@/app/login/page'
+import SignUpPage from '@/app/signup/page'
+import { ConsentBanner } from '@/components/analytics'
+import { addAnalyticsTransport, getAnalyticsConsent, memoryTransport, setAnalyticsConsent } from '@/lib/analytics'
+import { ApiError, getCurrentUser, login, signUp, verifyTwoFactor, type User } from '@/lib/api'
+import { setSearchParams } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  signUp: vi.fn(),
+  login: vi.fn(),
+  verifyTwoFactor: vi.fn(),
+  getCurrentUser: vi.fn(),
+}))
+
+const analytics = { transports: ['console' as const], batchSize: 1, flushIntervalMs: 5000 }
+const signedOut = new ApiError({ status: 401, code: 'UNAUTHENTICATED', message: 'Not signed in' })
+
+/** Grants consent for the current test and collects every event sent. */
+function captureEvents() {
+  const transport = memoryTransport()
+  let removeTransport = () => {}
+
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(signedOut)
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    setAnalyticsConsent('granted')
+    transport.clear()
+    removeTransport = addAnalyticsTransport(transport)
+  })
+
+  afterEach(() => {
+    removeTransport()
+    setAnalyticsConsent('denied')
+    localStorage.clear()
+    vi.restoreAllMocks()
+  })
+
+  return transport.events
+}
+
+describe('ConsentBanner', () => {
+  afterEach(() => {
+    setAnalyticsConsent('denied')
+    localStorage.clear()
+  })
+
+  it('stays hidden when analytics is not configured', () => {
+    renderWithProviders(<ConsentBanner />)
+
+    expect(screen.queryByRole('region', { name: 'Analytics consent' })).not.toBeInTheDocument()
+  })
+
+  it('remembers the answer and goes away', async () => {
+    const { user } = renderWithProviders(<ConsentBanner />, { config: { analytics } })
+
+    expect(screen.getByRole('link', { name: 'Privacy Policy' })).toHaveAttribute('href', '/privacy')
+    await user.click(screen.getByRole('button', { name: 'No thanks' }))
+
+    expect(getAnalyticsConsent()).toBe('denied')
+    expect(screen.queryByRole('region', { name: 'Analytics consent' })).not.toBeInTheDocument()
+  })
+})
+
+describe('signup funnel', () => {
+  const tracked = captureEvents()
+
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/signup')
+  })
+
+  it('reports which fields failed validation, but not what was in them', async () => {
+    const { user } = renderWithProviders(<SignUpPage />, { config: { analytics } })
+
+    await user.type(screen.getByLabelText('Email'), 'not-an-email')
+    await user.click(screen.getByRole('button', { name: 'Create Account' }))
+
+    const events = tracked()
+    const failed = events.find(event => event.name === 'signup_validation_failed')
+    expect(events[0]).toMatchObject({ name: 'signup_viewed', properties: { mode: 'single' } })
+    expect(failed?.properties).toEqual({ mode: 'single', fields: expect.arrayContaining(['name', 'email']) })
+    expect(JSON.stringify(events)).not.toContain('not-an-email')
+  })
+
+  it('reports the error code when the server refuses the signup', async () => {
+    vi.mocked(signUp).mockRejectedValue(new ApiError({ status: 409, code: 'EMAIL_TAKEN', message: 'Email already registered' }))
+    const { user } = renderWithProviders(<SignUpPage />, { config: { analytics } })
+
+    await user.type(screen.getByLabelText('Full Name'), 'Ada Lovelace')
+    await user.type(screen.getByLabelText('Mobile Number'), '4155552671')
+    await user.type(screen.getByLabelText('Email'), 'ada@example.com')
+    await user.type(screen.getByLabelText('Password', { selector: 'input' }), 'Tangerine#Sky42')
+    await user.type(screen.getByLabelText('Confirm Password'), 'Tangerine#Sky42')
+    await user.click(screen.getByLabelText('I agree to the Terms and Privacy Policy'))
+    await user.click(screen.getByRole('button', { name: 'Create Account' }))
+
+    expect(await screen.findByText('Email already registered')).toBeInTheDocument()
+    const events = tracked()
+    expect(events.map(event => event.name)).toEqual(['signup_viewed', 'signup_submitted', 'signup_failed'])
+    expect(events[2].properties).toEqual({ mode: 'single', code: 'EMAIL_TAKEN' })
+  })
+})
+
+describe('login funnel', () => {
+  const tracked = captureEvents()
+  const demo: User = { id: 'u1', name: 'Demo User', email: 'demo@example.com' }
+
+  it('reports OAuth sign-ins that worked and those the user declined', async () => {
+    sessionStorage.setItem('oauth:pending', JSON.stringify({ provider: 'google', state: 'abc' }))
+    setSearchParams('status=success&state=abc')
+    vi.mocked(getCurrentUser).mockResolvedValue(demo)
+    const { unmount } = renderWithProviders(<OAuthCallbackPage />)
+    await waitFor(() => expect(tracked()).toHaveLength(1))
+    unmount()
+
+    sessionStorage.setItem('oauth:pending', JSON.stringify({ provider: 'github', state: 'def' }))
+    setSearchParams('error=access_denied&state=def')
+    renderWithProviders(<OAuthCallbackPage />)
+    await screen.findByRole('heading', { name: 'Sign-in cancelled' })
+
+    expect(tracked()).toEqual([
+      expect.objectContaining({ name: 'login_succeeded', properties: { method: 'oauth' } }),
+      expect.objectContaining({ name: 'login_failed', properties: { method: 'oauth', code: 'access_denied' } }),
+    ])
+  })
+
+  it('reports a rejected second-factor code under the first step\'s method', async () => {
+    vi.mocked(login).mockResolvedValue({ twoFactorRequired: true, challengeToken: 'challenge-1', expiresIn: 300 })
+    vi.mocked(verifyTwoFactor).mockRejectedValue(new ApiError({ status: 401, code: 'INVALID_CODE', message: 'That code is not valid' }))
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await user.type(screen.getByLabelText('Email'), '2fa@example.com')
+    await user.type(screen.getByLabelText('Password', { selector: 'input' }), 'Password1!')
+    await user.click(screen.getByRole('button', { name: 'Sign In' }))
+    await user.click(await screen.findByRole('textbox', { name: 'Digit 1 of 6' }))
+    await user.keyboard('000000')
+
+    await waitFor(() => expect(tracked()).toEqual([
+      expect.objectContaining({ name: 'login_failed', properties: { method: 'password', code: 'INVALID_CODE' } }),
+    ]))
+  })
+})
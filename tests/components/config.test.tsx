@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ConfigProvider, useConfig } from '@/components/config'
+import { I18nProvider } from '@/components/i18n'
+import { setRuntimeConfig } from '@/lib/config'
+
+function SupportEmail() {
+  return <p>Write to {useConfig().supportEmail}</p>
+}
+
+function renderApp() {
+  return {
+    user: userEvent.setup(),
+    ...render(
+      <I18nProvider>
+        <ConfigProvider>
+          <SupportEmail />
+        </ConfigProvider>
+      </I18nProvider>
+    ),
+  }
+}
+
+describe('ConfigProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    setRuntimeConfig(null)
+  })
+
+  it('renders the app once config.json has loaded', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      apiUrl: 'https://api.example.com',
+      supportEmail: 'help@example.com',
+    }))))
+    renderApp()
+
+    expect(await screen.findByText('Write to help@example.com')).toBeInTheDocument()
+  })
+
+  it('shows what is wrong with the file instead of the app', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ apiUrl: 'not a url' }))))
+    renderApp()
+
+    expect(await screen.findByRole('heading', { name: "This site isn't set up correctly" })).toBeInTheDocument()
+    expect(screen.getByText('/config.json has problems:')).toBeInTheDocument()
+    expect(screen.getByRole('list', { name: 'Problems found' })).toHaveTextContent('apiUrl: Must be an http(s) URL')
+    expect(screen.queryByText(/Write to/)).not.toBeInTheDocument()
+  })
+
+  it('tries again after a missing file has been added', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })))
+    const { user } = renderApp()
+
+    expect(await screen.findByText('/config.json was not found.')).toBeInTheDocument()
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      apiUrl: 'https://api.example.com',
+      supportEmail: 'help@example.com',
+    }))))
+    await user.click(screen.getByRole('button', { name: 'Try again' }))
+
+    expect(await screen.findByText('Write to help@example.com')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import { ContentPage } from '@/components/content'
+import { renderContent } from '@/lib/content'
+import { renderWithProviders } from '../utils'
+
+describe('ContentPage', () => {
+  it('links the support address from the config', () => {
+    renderWithProviders(<ContentPage page="help" html={renderContent('help.md')} />, { config: { supportEmail: 'help@acme.test' } })
+
+    const link = screen.getByRole('link', { name: 'help@acme.test' })
+    expect(link).toHaveAttribute('href', 'mailto:help@acme.test')
+    expect(document.body).not.toHaveTextContent('{{supportEmail}}')
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest'
+import { screen } from '@testing-library/react'
+import ForgotPasswordPage from '@/app/forgot-password/page'
+import { requestPasswordReset } from '@/lib/api'
+import { LOCALE_STORAGE_KEY } from '@/lib/i18n'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  requestPasswordReset: vi.fn(),
+}))
+
+describe('ForgotPasswordPage', () => {
+  it('validates and confirms in the chosen language', async () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, 'fr')
+    vi.mocked(requestPasswordReset).mockResolvedValue(undefined)
+    const { user } = renderWithProviders(<ForgotPasswordPage />)
+
+    await user.click(screen.getByRole('button', { name: 'Envoyer le lien' }))
+    expect(await screen.findByText("L'adresse e-mail est obligatoire")).toBeInTheDocument()
+    expect(requestPasswordReset).not.toHaveBeenCalled()
+
+    await user.type(screen.getByLabelText('E-mail'), 'demo@example.com')
+    await user.click(screen.getByRole('button', { name: 'Envoyer le lien' }))
+
+    expect(await screen.findByRole('heading', { name: 'Consultez vos e-mails' })).toBeInTheDocument()
+    expect(requestPasswordReset).toHaveBeenCalledWith({ email: 'demo@example.com' })
+  })
+})
@@ -0,0 +1,190 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import GuestLayout from '@/app/login/layout'
+import LoginPage from '@/app/login/page'
+import { ApiError, getCurrentUser, login, type User } from '@/lib/api'
+import { LOCALE_STORAGE_KEY } from '@/lib/i18n'
+import { router, setSearchParams } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  login: vi.fn(),
+  getCurrentUser: vi.fn(),
+  resendVerification: vi.fn(),
+}))
+
+const signedOut = new ApiError({ status: 401, code: 'UNAUTHENTICATED', message: 'Not signed in' })
+const demo: User = { id: 'u1', name: 'Demo User', email: 'demo@example.com' }
+
+// The page only shows once the guest guard has found no session
+const guardedLoginPage = <GuestLayout><LoginPage /></GuestLayout>
+
+function acceptLogin() {
+  vi.mocked(login).mockImplementation(async () => {
+    vi.mocked(getCurrentUser).mockResolvedValue(demo)
+    return {}
+  })
+}
+
+async function fillAndSubmit(user: ReturnType<typeof renderWithProviders>['user'], email: string, password: string) {
+  await user.type(await screen.findByLabelText('Email'), email)
+  await user.type(screen.getByLabelText('Password', { selector: 'input' }), password)
+  await user.click(screen.getByRole('button', { name: 'Sign In' }))
+}
+
+describe('LoginPage', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(signedOut)
+  })
+
+  it('signs in, refreshes the session and goes home', async () => {
+    acceptLogin()
+    const { user } = renderWithProviders(guardedLoginPage)
+
+    await fillAndSubmit(user, 'demo@example.com', 'Password1!')
+
+    // The guard alone moves on, so the page is not navigated away from twice
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/'))
+    expect(router.replace).toHaveBeenCalledTimes(1)
+    expect(router.push).not.toHaveBeenCalled()
+    expect(login).toHaveBeenCalledWith({ email: 'demo@example.com', password: 'Password1!', rememberMe: false })
+    // Once on mount, once after signing in
+    expect(getCurrentUser).toHaveBeenCalledTimes(2)
+  })
+
+  it('asks for a lasting session when "Remember me" is ticked', async () => {
+    vi.mocked(login).mockResolvedValue({})
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await user.click(screen.getByLabelText('Remember me'))
+    await fillAndSubmit(user, 'demo@example.com', 'Password1!')
+
+    await waitFor(() => expect(login).toHaveBeenCalledWith(expect.objectContaining({ rememberMe: true })))
+  })
+
+  it.each([
+    ['expired', 'Your session has expired. Please sign in again.'],
+    ['idle', 'You were signed out because you were inactive for a while.'],
+  ])('explains a session that ended on its own (%s)', async (reason, notice) => {
+    setSearchParams(`next=/settings&reason=${reason}`)
+    renderWithProviders(<LoginPage />)
+
+    expect(await screen.findByRole('status')).toHaveTextContent(notice)
+  })
+
+  it('returns to the page the user was sent away from', async () => {
+    setSearchParams('next=/settings/security')
+    acceptLogin()
+    const { user } = renderWithProviders(guardedLoginPage)
+
+    expect(await screen.findByRole('link', { name: 'Create Account' })).toHaveAttribute('href', '/signup?next=%2Fsettings%2Fsecurity')
+    await fillAndSubmit(user, 'demo@example.com', 'Password1!')
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/settings/security'))
+  })
+
+  it('ignores a redirect target that leaves the app', async () => {
+    setSearchParams('next=//evil.example/settings')
+    acceptLogin()
+    const { user } = renderWithProviders(guardedLoginPage)
+
+    await fillAndSubmit(user, 'demo@example.com', 'Password1!')
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/'))
+  })
+
+  it('shows field errors and does not call the API when the form is empty', async () => {
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await user.click(screen.getByRole('button', { name: 'Sign In' }))
+
+    expect(await screen.findByText('Email is required')).toBeInTheDocument()
+    expect(screen.getByText('Password is required')).toBeInTheDocument()
+    expect(screen.getByLabelText('Email')).toHaveFocus()
+    expect(login).not.toHaveBeenCalled()
+  })
+
+  it('shows the server message when the credentials are rejected', async () => {
+    vi.mocked(login).mockRejectedValue(
+      new ApiError({ status: 401, code: 'INVALID_CREDENTIALS', message: 'Invalid email or password' })
+    )
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await fillAndSubmit(user, 'demo@example.com', 'wrong-password')
+
+    expect(await screen.findByText('Invalid email or password')).toBeInTheDocument()
+    expect(router.push).not.toHaveBeenCalled()
+    expect(screen.queryByRole('button', { name: /resend verification/i })).not.toBeInTheDocument()
+  })
+
+  it('explains a request that timed out in the chosen language', async () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, 'es')
+    vi.mocked(login).mockRejectedValue(new ApiError({ status: 0, code: 'TIMEOUT', message: 'The server took too long to respond' }))
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await user.type(screen.getByLabelText('Correo electrónico'), 'demo@example.com')
+    await user.type(screen.getByLabelText('Contraseña', { selector: 'input' }), 'Password1!')
+    await user.click(screen.getByRole('button', { name: 'Iniciar sesión' }))
+
+    expect(await screen.findAllByText('El servidor tardó demasiado en responder. Inténtalo de nuevo.')).not.toHaveLength(0)
+    expect(screen.queryByText('The server took too long to respond')).not.toBeInTheDocument()
+  })
+
+  it('offers to resend the verification email for unverified accounts', async () => {
+    vi.mocked(login).mockRejectedValue(
+      new ApiError({ status: 403, code: 'EMAIL_NOT_VERIFIED', message: 'Please verify your email' })
+    )
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await fillAndSubmit(user, 'unverified@example.com', 'Password1!')
+
+    expect(await screen.findByRole('button', { name: /resend verification email/i })).toBeEnabled()
+  })
+
+  it('reports a connection problem when the request never reaches the server', async () => {
+    vi.mocked(login).mockRejectedValue(
+      new ApiError({ status: 0, code: 'NETWORK_ERROR', message: 'Please check your connection and try again' })
+    )
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await fillAndSubmit(user, 'demo@example.com', 'Password1!')
+
+    expect(await screen.findByText('Please check your connection and try again')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeEnabled()
+  })
+
+  it('counts down and keeps Sign In disabled while the account is locked', async () => {
+    vi.mocked(login).mockRejectedValueOnce(
+      new ApiError({ status: 423, code: 'ACCOUNT_LOCKED', message: 'This account is temporarily locked.', retryAfter: 1 })
+    )
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await fillAndSubmit(user, 'demo@example.com', 'wrong-password')
+
+    expect(await screen.findByRole('status')).toHaveTextContent('This account is temporarily locked.')
+    expect(screen.getByText('You can try again in 0:01')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeDisabled()
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Sign In' })).toBeEnabled(), { timeout: 2000 })
+    expect(screen.queryByText(/try again in/)).not.toBeInTheDocument()
+  })
+
+  it('asks for a CAPTCHA when the backend wants one and sends its token', async () => {
+    vi.mocked(login)
+      .mockRejectedValueOnce(new ApiError({ status: 403, code: 'CAPTCHA_REQUIRED', message: 'Please confirm you are not a robot' }))
+      .mockResolvedValueOnce({})
+    const { user } = renderWithProviders(<LoginPage />, { config: { captcha: { provider: 'local' } } })
+
+    await fillAndSubmit(user, 'demo@example.com', 'Password1!')
+
+    const checkbox = await screen.findByRole('checkbox', { name: "I'm not a robot" })
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeDisabled()
+
+    await user.click(checkbox)
+    await user.click(screen.getByRole('button', { name: 'Sign In' }))
+
+    await waitFor(() => expect(getCurrentUser).toHaveBeenCalledTimes(2))
+    expect(login).toHaveBeenLastCalledWith(expect.objectContaining({ captchaToken: expect.stringMatching(/^local-captcha\./) }))
+  })
+})
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import LoginPage from '@/app/login/page'
+import MagicLinkPage from '@/app/auth/magic/page'
+import { ApiError, getCurrentUser, requestMagicLink, verifyMagicLink, type User } from '@/lib/api'
+import { rememberMagicLinkRequest } from '@/lib/magic-link'
+import { router, setSearchParams } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  getCurrentUser: vi.fn(),
+  requestMagicLink: vi.fn(),
+  verifyMagicLink: vi.fn(),
+}))
+
+const signedOut = new ApiError({ status: 401, code: 'UNAUTHENTICATED', message: 'Not signed in' })
+const demo: User = { id: 'u1', name: 'Demo User', email: 'demo@example.com' }
+
+describe('LoginPage sign-in link mode', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(signedOut)
+  })
+
+  it('emails a link to the address typed so far and waits before offering another', async () => {
+    vi.mocked(requestMagicLink).mockResolvedValue(undefined)
+    setSearchParams('next=/settings')
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await user.type(screen.getByLabelText('Email'), 'demo@example.com')
+    await user.click(screen.getByRole('button', { name: 'Email me a sign-in link' }))
+    expect(screen.getByLabelText('Email')).toHaveValue('demo@example.com')
+    await user.click(screen.getByRole('button', { name: 'Email me a sign-in link' }))
+
+    expect(await screen.findByRole('heading', { name: 'Check your inbox' })).toBeInTheDocument()
+    expect(requestMagicLink).toHaveBeenCalledWith({ email: 'demo@example.com', redirectTo: '/settings' })
+    expect(screen.getByRole('button', { name: /Send a new link in \d+s/ })).toBeDisabled()
+    expect(localStorage.getItem('auth:magic-link')).toContain('demo@example.com')
+  })
+
+  it('goes back to the password form', async () => {
+    const { user } = renderWithProviders(<LoginPage />)
+
+    await user.click(screen.getByRole('button', { name: 'Email me a sign-in link' }))
+    await user.click(screen.getByRole('button', { name: 'Sign in with a password instead' }))
+
+    expect(screen.getByLabelText('Password', { selector: 'input' })).toBeInTheDocument()
+  })
+})
+
+describe('MagicLinkPage', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(signedOut)
+  })
+
+  it('signs in and continues to where the user was headed', async () => {
+    rememberMagicLinkRequest('demo@example.com')
+    setSearchParams('token=tok&email=demo%40example.com&next=/settings')
+    vi.mocked(verifyMagicLink).mockImplementation(async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(demo)
+      return {}
+    })
+    renderWithProviders(<MagicLinkPage />)
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/settings'))
+    expect(verifyMagicLink).toHaveBeenCalledTimes(1)
+    expect(verifyMagicLink).toHaveBeenCalledWith({ token: 'tok' })
+  })
+
+  it('asks before using a link requested on another device', async () => {
+    setSearchParams('token=tok')
+    vi.mocked(verifyMagicLink).mockImplementation(async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(demo)
+      return {}
+    })
+    const { user } = renderWithProviders(<MagicLinkPage />)
+
+    expect(await screen.findByRole('heading', { name: 'Sign in on this device?' })).toBeInTheDocument()
+    expect(verifyMagicLink).not.toHaveBeenCalled()
+
+    await user.click(screen.getByRole('button', { name: 'Continue signing in' }))
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/'))
+  })
+
+  it('asks before using a link for another address than the one requested here', async () => {
+    rememberMagicLinkRequest('someone-else@example.com')
+    setSearchParams('token=tok&email=demo%40example.com')
+    renderWithProviders(<MagicLinkPage />)
+
+    expect(await screen.findByRole('heading', { name: 'Sign in on this device?' })).toBeInTheDocument()
+    expect(verifyMagicLink).not.toHaveBeenCalled()
+  })
+
+  it('asks for the second factor when the account has one', async () => {
+    rememberMagicLinkRequest('2fa@example.com')
+    setSearchParams('token=tok&email=2fa%40example.com')
+    vi.mocked(verifyMagicLink).mockResolvedValue({ twoFactorRequired: true, challengeToken: 'c1', expiresIn: 300 })
+    renderWithProviders(<MagicLinkPage />)
+
+    expect(await screen.findByLabelText('Authentication code')).toBeInTheDocument()
+    expect(router.replace).not.toHaveBeenCalled()
+  })
+
+  it('offers a new link when this one has expired', async () => {
+    rememberMagicLinkRequest('demo@example.com')
+    setSearchParams('token=old&email=demo%40example.com')
+    vi.mocked(verifyMagicLink).mockRejectedValue(new ApiError({ status: 410, code: 'TOKEN_EXPIRED', message: 'This sign-in link has expired' }))
+    vi.mocked(requestMagicLink).mockResolvedValue(undefined)
+    const { user } = renderWithProviders(<MagicLinkPage />)
+
+    expect(await screen.findByRole('heading', { name: 'This sign-in link has expired' })).toBeInTheDocument()
+    await user.type(screen.getByLabelText('Email'), 'demo@example.com')
+    await user.click(screen.getByRole('button', { name: 'Email me a sign-in link' }))
+
+    expect(await screen.findByRole('heading', { name: 'Check your inbox' })).toBeInTheDocument()
+  })
+
+  it('explains a link that was already used', async () => {
+    rememberMagicLinkRequest('demo@example.com')
+    setSearchParams('token=used&email=demo%40example.com')
+    vi.mocked(verifyMagicLink).mockRejectedValue(new ApiError({ status: 400, code: 'TOKEN_INVALID', message: 'This sign-in link is not valid' }))
+    renderWithProviders(<MagicLinkPage />)
+
+    expect(await screen.findByRole('heading', { name: "This sign-in link doesn't work" })).toBeInTheDocument()
+    expect(screen.getByRole('alert')).toHaveTextContent('It may have been used already.')
+  })
+})
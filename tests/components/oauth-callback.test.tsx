@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import OAuthCallbackPage from '@/app/auth/callback/page'
+import { ApiError, getCurrentUser, linkOAuthAccount, type User } from '@/lib/api'
+import { router, setSearchParams } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  getCurrentUser: vi.fn(),
+  linkOAuthAccount: vi.fn(),
+}))
+
+const signedOut = new ApiError({ status: 401, code: 'UNAUTHENTICATED', message: 'Not signed in' })
+const demo: User = { id: 'u1', name: 'Demo User', email: 'demo@example.com' }
+
+/** What `startOAuth` leaves behind before the browser goes to the provider. */
+function startedWith(provider: string, state: string) {
+  sessionStorage.setItem('oauth:pending', JSON.stringify({ provider, state }))
+}
+
+describe('OAuthCallbackPage', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(signedOut)
+  })
+
+  it('checks the new session and goes home', async () => {
+    startedWith('google', 'abc')
+    setSearchParams('status=success&state=abc')
+    vi.mocked(getCurrentUser).mockResolvedValue(demo)
+    renderWithProviders(<OAuthCallbackPage />)
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/'))
+  })
+
+  it('rejects a response whose state this tab did not issue', async () => {
+    startedWith('google', 'abc')
+    setSearchParams('status=success&state=forged')
+    renderWithProviders(<OAuthCallbackPage />)
+
+    expect(await screen.findByRole('heading', { name: "We couldn't verify this sign-in" })).toBeInTheDocument()
+    // A forged success must not be turned into a session check and redirect
+    expect(router.replace).not.toHaveBeenCalledWith('/')
+    expect(sessionStorage.getItem('oauth:pending')).toBeNull()
+  })
+
+  it('explains a declined consent screen', async () => {
+    startedWith('github', 'abc')
+    setSearchParams('error=access_denied&state=abc')
+    renderWithProviders(<OAuthCallbackPage />)
+
+    expect(await screen.findByRole('heading', { name: 'Sign-in cancelled' })).toBeInTheDocument()
+    expect(screen.getByText("GitHub didn't give us permission to sign you in.")).toBeInTheDocument()
+  })
+
+  it('links the provider to an existing account after the password is confirmed', async () => {
+    startedWith('microsoft', 'abc')
+    setSearchParams('status=link_required&email=demo%40example.com&link_token=tok&state=abc')
+    vi.mocked(linkOAuthAccount)
+      .mockRejectedValueOnce(new ApiError({ status: 400, code: 'INVALID_PASSWORD', message: 'Incorrect password' }))
+      .mockResolvedValueOnce(undefined)
+    const { user } = renderWithProviders(<OAuthCallbackPage />)
+
+    expect(await screen.findByRole('heading', { name: 'Link your Microsoft account' })).toBeInTheDocument()
+    const password = screen.getByLabelText('Password', { selector: 'input' })
+
+    await user.type(password, 'wrong')
+    await user.click(screen.getByRole('button', { name: 'Link and sign in' }))
+    expect(await screen.findByText('Incorrect password')).toBeInTheDocument()
+
+    vi.mocked(getCurrentUser).mockResolvedValue(demo)
+    await user.clear(password)
+    await user.type(password, 'Password1!')
+    await user.click(screen.getByRole('button', { name: 'Link and sign in' }))
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/'))
+    expect(linkOAuthAccount).toHaveBeenLastCalledWith({ linkToken: 'tok', password: 'Password1!' })
+  })
+})
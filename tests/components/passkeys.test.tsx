@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor, within } from '@testing-library/react'
+import GuestLayout from '@/app/login/layout'
+import LoginPage from '@/app/login/page'
+import { PasskeySettings } from '@/components/settings'
+import {
+  ApiError,
+  deletePasskey,
+  getCurrentUser,
+  getPasskeyLoginOptions,
+  getPasskeyRegistrationOptions,
+  listPasskeys,
+  loginWithPasskey,
+  registerPasskey,
+  type Passkey,
+  type User,
+} from '@/lib/api'
+import { createPasskey, getPasskey, isConditionalMediationAvailable, PasskeyError, type PasskeyAssertion, type PasskeyRegistration } from '@/lib/webauthn'
+import { router } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  getCurrentUser: vi.fn(),
+  getPasskeyLoginOptions: vi.fn(),
+  loginWithPasskey: vi.fn(),
+  listPasskeys: vi.fn(),
+  getPasskeyRegistrationOptions: vi.fn(),
+  registerPasskey: vi.fn(),
+  deletePasskey: vi.fn(),
+}))
+
+// The browser side; lib/webauthn's own tests cover the encoding
+vi.mock('@/lib/webauthn', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/webauthn')>()),
+  isConditionalMediationAvailable: vi.fn(async () => false),
+  getPasskey: vi.fn(),
+  createPasskey: vi.fn(),
+}))
+
+const user: User = { id: 'u1', name: 'Ada Lovelace', email: 'ada@example.com' }
+const signedOut = new ApiError({ status: 401, code: 'UNAUTHENTICATED', message: 'Not signed in' })
+const assertion = { id: 'cred-1', rawId: 'cred-1', type: 'public-key' } as PasskeyAssertion
+const laptop: Passkey = { id: 'cred-1', name: 'Laptop', createdAt: '2026-10-01T09:00:00.000Z' }
+
+describe('passkey sign-in', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(signedOut)
+    vi.mocked(getPasskeyLoginOptions).mockResolvedValue({ challenge: 'AAEC', rpId: 'localhost' })
+  })
+
+  it('offers saved passkeys in the email field\'s autofill', () => {
+    renderWithProviders(<LoginPage />)
+    expect(screen.getByLabelText('Email')).toHaveAttribute('autocomplete', 'username webauthn')
+  })
+
+  it('says nothing when the autofill cannot be set up', async () => {
+    vi.mocked(isConditionalMediationAvailable).mockResolvedValueOnce(true)
+    vi.mocked(getPasskeyLoginOptions).mockRejectedValueOnce(new ApiError({ status: 0, code: 'NETWORK_ERROR', message: 'Failed to fetch' }))
+    renderWithProviders(<LoginPage />)
+
+    await waitFor(() => expect(getPasskeyLoginOptions).toHaveBeenCalled())
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+  })
+
+  it('signs in with a passkey and goes home', async () => {
+    vi.mocked(getPasskey).mockResolvedValue(assertion)
+    vi.mocked(loginWithPasskey).mockImplementation(async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(user)
+      return {}
+    })
+    const { user: events } = renderWithProviders(<GuestLayout><LoginPage /></GuestLayout>)
+
+    await events.click(await screen.findByLabelText('Remember me'))
+    await events.click(screen.getByRole('button', { name: 'Sign in with a passkey' }))
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/'))
+    expect(getPasskey).toHaveBeenCalledWith({ challenge: 'AAEC', rpId: 'localhost' })
+    expect(loginWithPasskey).toHaveBeenCalledWith({ credential: assertion, rememberMe: true })
+  })
+
+  it.each([
+    ['CANCELLED' as const, 'The passkey request was cancelled or timed out. Try again when you\'re ready.'],
+    ['UNSUPPORTED' as const, 'This browser doesn\'t support passkeys. Sign in with your email and password, or try another browser.'],
+  ])('explains a passkey request that did not go through (%s)', async (code, message) => {
+    vi.mocked(getPasskey).mockRejectedValue(new PasskeyError(code, 'The operation failed'))
+    const { user: events } = renderWithProviders(<LoginPage />)
+
+    await events.click(screen.getByRole('button', { name: 'Sign in with a passkey' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(message)
+    expect(loginWithPasskey).not.toHaveBeenCalled()
+    expect(screen.getByRole('button', { name: 'Sign in with a passkey' })).toBeEnabled()
+  })
+
+  it('explains a passkey the backend does not know', async () => {
+    vi.mocked(getPasskey).mockResolvedValue(assertion)
+    vi.mocked(loginWithPasskey).mockRejectedValue(
+      new ApiError({ status: 400, code: 'INVALID_PASSKEY', message: 'That passkey could not be verified' })
+    )
+    const { user: events } = renderWithProviders(<LoginPage />)
+
+    await events.click(screen.getByRole('button', { name: 'Sign in with a passkey' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('That passkey isn\'t recognized.')
+    expect(router.push).not.toHaveBeenCalled()
+  })
+})
+
+describe('PasskeySettings', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockResolvedValue(user)
+    vi.mocked(listPasskeys).mockResolvedValue([laptop])
+  })
+
+  it('lists the account\'s passkeys', async () => {
+    renderWithProviders(<PasskeySettings />)
+
+    const list = await screen.findByRole('list', { name: 'Passkeys' })
+    expect(within(list).getByText('Laptop')).toBeInTheDocument()
+    expect(within(list).getByText('Added Oct 1, 2026')).toBeInTheDocument()
+  })
+
+  it('adds a passkey created by the browser', async () => {
+    const registration = { id: 'cred-2', rawId: 'cred-2', type: 'public-key' } as PasskeyRegistration
+    const options = { challenge: 'AAEC', rp: { name: 'DigiSaga' }, user: { id: 'dTE', name: user.email, displayName: user.name }, pubKeyCredParams: [] }
+    vi.mocked(getPasskeyRegistrationOptions).mockResolvedValue(options)
+    vi.mocked(createPasskey).mockResolvedValue(registration)
+    vi.mocked(registerPasskey).mockResolvedValue({ id: 'cred-2', name: 'Passkey 2', createdAt: '2026-10-19T09:00:00.000Z' })
+    const { user: events } = renderWithProviders(<PasskeySettings />)
+
+    await events.click(await screen.findByRole('button', { name: 'Add a passkey' }))
+
+    expect(await screen.findByText('Passkey 2')).toBeInTheDocument()
+    expect(createPasskey).toHaveBeenCalledWith(options)
+    expect(registerPasskey).toHaveBeenCalledWith({ credential: registration })
+  })
+
+  it('keeps the list as it was when the user cancels', async () => {
+    vi.mocked(getPasskeyRegistrationOptions).mockResolvedValue({ challenge: 'AAEC' } as never)
+    vi.mocked(createPasskey).mockRejectedValue(new PasskeyError('CANCELLED', 'The operation failed'))
+    const { user: events } = renderWithProviders(<PasskeySettings />)
+
+    await events.click(await screen.findByRole('button', { name: 'Add a passkey' }))
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Add a passkey' })).toBeEnabled())
+    expect(registerPasskey).not.toHaveBeenCalled()
+    expect(screen.getAllByRole('listitem')).toHaveLength(1)
+  })
+
+  it('removes a passkey', async () => {
+    vi.mocked(deletePasskey).mockResolvedValue(undefined)
+    const { user: events } = renderWithProviders(<PasskeySettings />)
+
+    await events.click(await screen.findByRole('button', { name: 'Remove Laptop' }))
+
+    expect(await screen.findByText('You haven\'t added a passkey yet.')).toBeInTheDocument()
+    expect(deletePasskey).toHaveBeenCalledWith('cred-1')
+  })
+})
@@ -0,0 +1,44 @@
+import { useState } from 'react'
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import { PhoneInput } from '@/components/form'
+import { LOCALE_STORAGE_KEY } from '@/lib/i18n'
+import { renderWithProviders } from '../utils'
+
+function PhoneField() {
+  const [value, setValue] = useState('')
+  return (
+    <>
+      <PhoneInput aria-label="Mobile Number" defaultCountry="US" value={value} onChange={setValue} />
+      <output data-testid="value">{value}</output>
+    </>
+  )
+}
+
+describe('PhoneInput', () => {
+  it('formats as the user types and backspaces through the punctuation', async () => {
+    const { user } = renderWithProviders(<PhoneField />)
+    const input = screen.getByLabelText('Mobile Number')
+
+    await user.type(input, '415')
+    expect(input).toHaveValue('(415)')
+
+    await user.keyboard('{Backspace}')
+    expect(input).toHaveValue('41')
+
+    await user.type(input, '55552671')
+    expect(input).toHaveValue('(415) 555-2671')
+    expect(screen.getByTestId('value')).toHaveTextContent('+14155552671')
+
+    await user.keyboard('{Backspace>14/}')
+    expect(input).toHaveValue('')
+    expect(screen.getByTestId('value')).toBeEmptyDOMElement()
+  })
+
+  it('names the countries in the chosen language', async () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, 'es')
+    renderWithProviders(<PhoneField />)
+
+    expect(await screen.findByRole('option', { name: /Estados Unidos/ })).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { screen } from '@testing-library/react'
+import ResetPasswordPage from '@/app/reset-password/page'
+import { LOCALE_STORAGE_KEY } from '@/lib/i18n'
+import { setSearchParams } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+describe('ResetPasswordPage', () => {
+  it('validates in the chosen language and rechecks a mismatch as either field changes', async () => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, 'es')
+    setSearchParams('token=reset-token')
+    const { user } = renderWithProviders(<ResetPasswordPage />)
+
+    await user.type(screen.getByLabelText('Contraseña nueva'), 'Tangerine#Sky42')
+    await user.type(screen.getByLabelText('Confirmar contraseña'), 'Tangerine#Sky43')
+    await user.click(screen.getByRole('button', { name: 'Restablecer contraseña' }))
+
+    expect(await screen.findByText('Las contraseñas no coinciden')).toBeInTheDocument()
+
+    // Fixing the password, not only the confirmation, clears it
+    await user.clear(screen.getByLabelText('Contraseña nueva'))
+    await user.type(screen.getByLabelText('Contraseña nueva'), 'Tangerine#Sky43')
+    expect(screen.queryByText('Las contraseñas no coinciden')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, fireEvent, screen } from '@testing-library/react'
+import { AuthGuard } from '@/components/auth'
+import { getCurrentUser, logout, refreshSession, type User } from '@/lib/api'
+import { router } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  getCurrentUser: vi.fn(),
+  refreshSession: vi.fn(),
+  logout: vi.fn(),
+}))
+
+const user: User = { id: 'u1', name: 'Ada Lovelace', email: 'ada@example.com' }
+
+/** Lets timers and the promises they settle run, with React updates applied. */
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms))
+
+function renderProtectedPage({ idleTimeoutMinutes = 15 } = {}) {
+  return renderWithProviders(
+    <AuthGuard>
+      <p>Account settings</p>
+    </AuthGuard>,
+    { config: { idleTimeoutMinutes } }
+  )
+}
+
+describe('session lifetime', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(getCurrentUser).mockResolvedValue(user)
+    vi.mocked(refreshSession).mockResolvedValue({ expiresIn: 900 })
+    vi.mocked(logout).mockResolvedValue(undefined)
+    window.history.replaceState(null, '', '/settings')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('refreshes the session shortly before it expires', async () => {
+    renderProtectedPage()
+    await advance(0)
+    expect(refreshSession).toHaveBeenCalledTimes(1)
+
+    await advance(839_000)
+    expect(refreshSession).toHaveBeenCalledTimes(1)
+    await advance(1_000)
+    expect(refreshSession).toHaveBeenCalledTimes(2)
+  })
+
+  it('warns a minute before signing out an idle user, who can stay signed in', async () => {
+    renderProtectedPage({ idleTimeoutMinutes: 2 })
+    await advance(0)
+    expect(screen.getByText('Account settings')).toBeInTheDocument()
+
+    await advance(61_000)
+    expect(screen.getByRole('alertdialog', { name: 'Are you still there?' })).toBeInTheDocument()
+    expect(screen.getByText("You'll be signed out in 59s")).toBeInTheDocument()
+    // Moving the mouse doesn't count once the warning is up
+    fireEvent.pointerMove(window)
+    await advance(1_000)
+    expect(screen.getByText("You'll be signed out in 58s")).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stay signed in' }))
+    await advance(1_000)
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument()
+    expect(logout).not.toHaveBeenCalled()
+  })
+
+  it('signs out once the idle timeout runs out and explains why on the login page', async () => {
+    renderProtectedPage({ idleTimeoutMinutes: 2 })
+    await advance(0)
+    await advance(120_000)
+
+    expect(logout).toHaveBeenCalled()
+    expect(router.replace).toHaveBeenCalledWith('/login?next=%2Fsettings&reason=idle')
+  })
+
+  it('keeps an active user signed in', async () => {
+    renderProtectedPage({ idleTimeoutMinutes: 2 })
+    await advance(0)
+
+    for (let i = 0; i < 4; i++) {
+      await advance(50_000)
+      fireEvent.keyDown(window, { key: 'Tab' })
+    }
+
+    expect(screen.getByText('Account settings')).toBeInTheDocument()
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument()
+    expect(logout).not.toHaveBeenCalled()
+  })
+
+  it('sends the user to sign in again when the backend rejects the session', async () => {
+    // The real client, so the 401 goes through the same path as any other request's
+    const { refreshSession: realRefreshSession } = await vi.importActual<typeof import('@/lib/api/auth')>('@/lib/api/auth')
+    vi.mocked(refreshSession).mockImplementation(realRefreshSession)
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(
+      JSON.stringify({ code: 'SESSION_EXPIRED', message: 'Your session has expired' }),
+      { status: 401 }
+    )))
+    renderProtectedPage()
+    await advance(0)
+
+    expect(router.replace).toHaveBeenCalledWith('/login?next=%2Fsettings&reason=expired')
+    expect(screen.queryByText('Account settings')).not.toBeInTheDocument()
+  })
+
+  it('keeps refreshing at a steady pace when the backend leaves out the lifetime', async () => {
+    vi.mocked(refreshSession).mockResolvedValue({} as { expiresIn: number })
+    renderProtectedPage()
+    await advance(0)
+    expect(refreshSession).toHaveBeenCalledTimes(1)
+
+    await advance(29_000)
+    expect(refreshSession).toHaveBeenCalledTimes(1)
+    await advance(1_000)
+    expect(refreshSession).toHaveBeenCalledTimes(2)
+  })
+
+  it('stays signed in while the user is active in another tab', async () => {
+    renderProtectedPage({ idleTimeoutMinutes: 2 })
+    await advance(0)
+
+    const otherTab = new BroadcastChannel('auth:session')
+    for (let i = 0; i < 10; i++) {
+      otherTab.postMessage({ type: 'activity', at: Date.now() })
+      await advance(30_000)
+    }
+    otherTab.close()
+
+    expect(screen.getByText('Account settings')).toBeInTheDocument()
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument()
+    expect(logout).not.toHaveBeenCalled()
+  })
+
+  it('tells the other tabs about the latest activity, not just the first', async () => {
+    renderProtectedPage()
+    await advance(0)
+    const otherTab = new BroadcastChannel('auth:session')
+    const received: number[] = []
+    otherTab.onmessage = (event: MessageEvent) => received.push(event.data.at)
+
+    fireEvent.keyDown(window)
+    const first = Date.now()
+    await advance(2_000)
+    fireEvent.keyDown(window)
+    const latest = Date.now()
+    await advance(5_000)
+    otherTab.close()
+
+    expect(received).toEqual([first, latest])
+  })
+
+  it('signs out when another tab does', async () => {
+    renderProtectedPage()
+    await advance(0)
+    expect(screen.getByText('Account settings')).toBeInTheDocument()
+
+    const otherTab = new BroadcastChannel('auth:session')
+    otherTab.postMessage({ type: 'logout', reason: 'user' })
+    otherTab.close()
+    await advance(50)
+
+    expect(router.replace).toHaveBeenCalledWith('/login?next=%2Fsettings')
+    // The other tab already ended the session on the server
+    expect(logout).not.toHaveBeenCalled()
+  })
+})
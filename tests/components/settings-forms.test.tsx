@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor } from '@testing-library/react'
+import { useAuth } from '@/components/auth'
+import { ChangePasswordForm, DeleteAccountForm, ProfileForm } from '@/components/settings'
+import { ApiError, changePassword, deleteAccount, getCurrentUser, updateProfile, type User } from '@/lib/api'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  getCurrentUser: vi.fn(),
+  updateProfile: vi.fn(),
+  changePassword: vi.fn(),
+  deleteAccount: vi.fn(),
+}))
+
+const user: User = { id: 'u1', name: 'Ada Lovelace', email: 'ada@example.com', mobileNumber: '+14155552671' }
+
+/** Renders `form` once the session has loaded, next to the name the rest of the app would show. */
+function WithSession({ children }: { children: (user: User) => React.ReactNode }) {
+  const { user, status } = useAuth()
+  if (!user) return <p>{status}</p>
+  return (
+    <>
+      <p data-testid="session-name">{user.name}</p>
+      {children(user)}
+    </>
+  )
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void
+  let reject!: (reason: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+describe('settings forms', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockResolvedValue(user)
+  })
+
+  describe('ProfileForm', () => {
+    it('shows the new name right away and keeps it once saved', async () => {
+      const request = deferred<User>()
+      vi.mocked(updateProfile).mockReturnValue(request.promise)
+      const { user: events } = renderWithProviders(<WithSession>{u => <ProfileForm user={u} />}</WithSession>)
+
+      const name = await screen.findByLabelText('Full Name')
+      await events.clear(name)
+      await events.type(name, 'Ada King')
+      await events.click(screen.getByRole('button', { name: 'Save changes' }))
+
+      expect(screen.getByTestId('session-name')).toHaveTextContent('Ada King')
+      request.resolve({ ...user, name: 'Ada King' })
+
+      await waitFor(() => expect(screen.getByRole('button', { name: 'Save changes' })).toBeDisabled())
+      expect(screen.getByTestId('session-name')).toHaveTextContent('Ada King')
+      expect(updateProfile).toHaveBeenCalledWith({ name: 'Ada King', mobileNumber: '+14155552671' })
+    })
+
+    it('rolls back when the server rejects the change', async () => {
+      vi.mocked(updateProfile).mockRejectedValue(new ApiError({
+        status: 400,
+        code: 'VALIDATION_ERROR',
+        message: 'Please correct the highlighted fields',
+        fieldErrors: { name: ['That name is not allowed'] },
+      }))
+      const { user: events } = renderWithProviders(<WithSession>{u => <ProfileForm user={u} />}</WithSession>)
+
+      const name = await screen.findByLabelText('Full Name')
+      await events.clear(name)
+      await events.type(name, 'Nope')
+      await events.click(screen.getByRole('button', { name: 'Save changes' }))
+
+      expect(await screen.findByText('That name is not allowed')).toBeInTheDocument()
+      expect(screen.getByTestId('session-name')).toHaveTextContent('Ada Lovelace')
+      // The user's edit stays in the field so it can be corrected
+      expect(name).toHaveValue('Nope')
+    })
+  })
+
+  describe('ChangePasswordForm', () => {
+    it('marks the current password when the server says it is wrong', async () => {
+      vi.mocked(changePassword).mockRejectedValue(new ApiError({
+        status: 400,
+        code: 'INVALID_PASSWORD',
+        message: 'Current password is incorrect',
+      }))
+      const { user: events } = renderWithProviders(<WithSession>{u => <ChangePasswordForm user={u} />}</WithSession>)
+
+      await events.type(await screen.findByLabelText('Current password'), 'wrong-password')
+      await events.type(screen.getByLabelText('New password'), 'Tangerine#Sky42')
+      await events.type(screen.getByLabelText('Confirm new password'), 'Tangerine#Sky42')
+      await events.click(screen.getByRole('button', { name: 'Change password' }))
+
+      expect(await screen.findByText('Current password is incorrect')).toBeInTheDocument()
+      expect(changePassword).toHaveBeenCalledWith({ currentPassword: 'wrong-password', newPassword: 'Tangerine#Sky42' })
+    })
+
+    it('rejects a new password that contains the user name', async () => {
+      const { user: events } = renderWithProviders(<WithSession>{u => <ChangePasswordForm user={u} />}</WithSession>)
+
+      await events.type(await screen.findByLabelText('Current password'), 'Password1!')
+      await events.type(screen.getByLabelText('New password'), 'Lovelace#2024')
+      await events.type(screen.getByLabelText('Confirm new password'), 'Lovelace#2024')
+      await events.click(screen.getByRole('button', { name: 'Change password' }))
+
+      expect(await screen.findByText('Password must not contain your name or email')).toBeInTheDocument()
+      expect(changePassword).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DeleteAccountForm', () => {
+    it('only deletes after the confirmation phrase is typed', async () => {
+      vi.mocked(deleteAccount).mockResolvedValue(undefined)
+      const { user: events } = renderWithProviders(<WithSession>{() => <DeleteAccountForm />}</WithSession>)
+
+      const button = await screen.findByRole('button', { name: 'Delete account' })
+      expect(button).toBeDisabled()
+
+      await events.type(screen.getByLabelText('Type DELETE to confirm'), 'DELETE')
+      await events.click(button)
+
+      await waitFor(() => expect(screen.getByText('unauthenticated')).toBeInTheDocument())
+      expect(deleteAccount).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,299 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { screen, waitFor, within } from '@testing-library/react'
+import SignUpPage from '@/app/signup/page'
+import { ApiError, getCurrentUser, signUp } from '@/lib/api'
+import { legalDocuments } from '@/lib/legal'
+import { router, setSearchParams } from '../mocks/next-navigation'
+import { renderWithProviders, testConfig } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  signUp: vi.fn(),
+  getCurrentUser: vi.fn(),
+  resendVerification: vi.fn(),
+}))
+
+type User = ReturnType<typeof renderWithProviders>['user']
+
+const PASSWORD = 'Tangerine#Sky42'
+const TERMS_LABEL = 'I agree to the Terms and Privacy Policy'
+const CONSENT = {
+  termsVersion: legalDocuments.terms.version,
+  privacyVersion: legalDocuments.privacy.version,
+  termsAcceptedAt: expect.any(String),
+  marketingOptIn: false,
+}
+const DRAFT_KEY = 'signup:draft'
+
+async function fillForm(user: User, overrides: { email?: string } = {}) {
+  await user.type(screen.getByLabelText('Full Name'), 'Ada Lovelace')
+  await user.type(screen.getByLabelText('Mobile Number'), '4155552671')
+  await user.type(screen.getByLabelText('Email'), overrides.email ?? 'ada@example.com')
+  await user.type(screen.getByLabelText('Password', { selector: 'input' }), PASSWORD)
+  await user.type(screen.getByLabelText('Confirm Password'), PASSWORD)
+  await user.click(screen.getByLabelText(TERMS_LABEL))
+}
+
+const submit = (user: User) => user.click(screen.getByRole('button', { name: 'Create Account' }))
+
+describe('SignUpPage', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(new ApiError({ status: 401, code: 'UNAUTHENTICATED', message: 'Not signed in' }))
+    window.history.replaceState(null, '', '/signup')
+  })
+
+  it('sends the mobile number in E.164 and shows the verification screen', async () => {
+    vi.mocked(signUp).mockResolvedValue({})
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await fillForm(user)
+    await submit(user)
+
+    expect(await screen.findByText('Account Created Successfully!')).toBeInTheDocument()
+    expect(screen.getByText('ada@example.com')).toBeInTheDocument()
+    expect(signUp).toHaveBeenCalledWith({
+      name: 'Ada Lovelace',
+      email: 'ada@example.com',
+      mobileNumber: '+14155552671',
+      password: PASSWORD,
+      ...CONSENT,
+    })
+  })
+
+  it('records when the terms were accepted and the marketing choice', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-10-19T09:30:00Z'))
+    vi.mocked(signUp).mockResolvedValue({})
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await fillForm(user)
+    await user.click(screen.getByLabelText('Email me product news and tips (optional)'))
+    await submit(user)
+
+    await waitFor(() => expect(signUp).toHaveBeenCalledWith(expect.objectContaining({
+      ...CONSENT,
+      termsAcceptedAt: '2026-10-19T09:30:00.000Z',
+      marketingOptIn: true,
+    })))
+    vi.useRealTimers()
+  })
+
+  it('links the terms and privacy policy from the agreement, opening in a new tab', () => {
+    renderWithProviders(<SignUpPage />)
+    // The footer links to the same pages
+    const agreement = within(screen.getByLabelText(TERMS_LABEL).parentElement!)
+
+    const terms = agreement.getByRole('link', { name: 'Terms' })
+    expect(terms).toHaveAttribute('href', '/terms')
+    expect(terms).toHaveAttribute('target', '_blank')
+    expect(agreement.getByRole('link', { name: 'Privacy Policy' })).toHaveAttribute('href', '/privacy')
+  })
+
+  it('focuses the first invalid field and skips the API when validation fails', async () => {
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await user.type(screen.getByLabelText('Email'), 'not-an-email')
+    await submit(user)
+
+    expect(await screen.findByText('Full name is required')).toBeInTheDocument()
+    expect(screen.getByText('Email address is invalid')).toBeInTheDocument()
+    expect(screen.getByText('Please accept the terms to create an account')).toBeInTheDocument()
+    expect(screen.getByLabelText('Full Name')).toHaveFocus()
+    expect(signUp).not.toHaveBeenCalled()
+  })
+
+  it('flags mismatched passwords on the confirmation field', async () => {
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await user.type(screen.getByLabelText('Password', { selector: 'input' }), PASSWORD)
+    await user.type(screen.getByLabelText('Confirm Password'), `${PASSWORD}!`)
+    await user.tab()
+
+    expect(await screen.findByText('Passwords do not match')).toBeInTheDocument()
+  })
+
+  it('maps the duplicate-key error to the email field', async () => {
+    vi.mocked(signUp).mockRejectedValue(new ApiError({
+      status: 400,
+      code: 'DUPLICATE_KEY',
+      message: 'E11000 duplicate key error collection: app.users index: email_1 dup key: { email: "ada@example.com" }',
+    }))
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await fillForm(user)
+    await submit(user)
+
+    expect(await screen.findByText('This email is already registered.')).toBeInTheDocument()
+    await waitFor(() => expect(screen.getByLabelText('Email')).toHaveFocus())
+    expect(screen.getByLabelText('Email')).toHaveAttribute('aria-invalid', 'true')
+  })
+
+  it('shows field errors reported by the server next to their inputs', async () => {
+    vi.mocked(signUp).mockRejectedValue(new ApiError({
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      message: 'Please correct the highlighted fields',
+      fieldErrors: { mobileNumber: ['Mobile number must be in E.164 format'] },
+    }))
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await fillForm(user)
+    await submit(user)
+
+    expect(await screen.findByText('Mobile number must be in E.164 format')).toBeInTheDocument()
+    expect(screen.getByText('Please correct the highlighted fields')).toBeInTheDocument()
+  })
+
+  it('keeps the form usable after a network failure', async () => {
+    vi.mocked(signUp).mockRejectedValue(
+      new ApiError({ status: 0, code: 'NETWORK_ERROR', message: 'Please check your connection and try again' })
+    )
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await fillForm(user)
+    await submit(user)
+
+    expect(await screen.findByText('Please check your connection and try again')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Create Account' })).toBeEnabled()
+    expect(screen.getByLabelText('Full Name')).toHaveValue('Ada Lovelace')
+  })
+
+  it('waits out a rate limit before allowing another attempt', async () => {
+    vi.mocked(signUp).mockRejectedValue(
+      new ApiError({ status: 429, code: 'RATE_LIMITED', message: 'Too many requests. Please slow down.', retryAfter: 90 })
+    )
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await fillForm(user)
+    await submit(user)
+
+    expect(await screen.findByText('You can try again in 1:30')).toBeInTheDocument()
+    expect(screen.getByRole('status')).toHaveTextContent('Too many requests. Please slow down.')
+    expect(screen.getByRole('button', { name: 'Create Account' })).toBeDisabled()
+  })
+
+  it('keeps a draft of the non-sensitive fields, but never the passwords', async () => {
+    const { user, unmount } = renderWithProviders(<SignUpPage />)
+    await fillForm(user)
+
+    const draft = JSON.parse(window.sessionStorage.getItem(DRAFT_KEY)!)
+    expect(draft).toEqual({ name: 'Ada Lovelace', email: 'ada@example.com', mobileNumber: '+14155552671' })
+    expect(window.sessionStorage.getItem(DRAFT_KEY)).not.toContain(PASSWORD)
+
+    unmount()
+    renderWithProviders(<SignUpPage />)
+
+    await waitFor(() => expect(screen.getByLabelText('Full Name')).toHaveValue('Ada Lovelace'))
+    expect(screen.getByLabelText('Email')).toHaveValue('ada@example.com')
+    expect(screen.getByLabelText('Password', { selector: 'input' })).toHaveValue('')
+    expect(screen.getByLabelText(TERMS_LABEL)).not.toBeChecked()
+  })
+
+  it('drops the draft once the account is created', async () => {
+    vi.mocked(signUp).mockResolvedValue({})
+    const { user } = renderWithProviders(<SignUpPage />)
+
+    await fillForm(user)
+    await submit(user)
+
+    expect(await screen.findByText('Account Created Successfully!')).toBeInTheDocument()
+    expect(window.sessionStorage.getItem(DRAFT_KEY)).toBeNull()
+  })
+
+  describe('in wizard mode', () => {
+    const wizard = { config: { features: { ...testConfig.features, signupWizard: true } } }
+
+    it('validates only the current step before moving on', async () => {
+      const { user } = renderWithProviders(<SignUpPage />, wizard)
+
+      expect(screen.getByText('Step 1 of 4')).toBeInTheDocument()
+      expect(screen.queryByLabelText('Email')).not.toBeInTheDocument()
+
+      await user.click(screen.getByRole('button', { name: 'Next' }))
+      expect(await screen.findByText('Full name is required')).toBeInTheDocument()
+      expect(router.push).not.toHaveBeenCalled()
+
+      await user.type(screen.getByLabelText('Full Name'), 'Ada Lovelace')
+      await user.click(screen.getByRole('button', { name: 'Next' }))
+
+      await waitFor(() => expect(router.push).toHaveBeenCalledWith('/signup?step=contact'))
+    })
+
+    it('keeps other query parameters when changing steps', async () => {
+      setSearchParams('next=/settings')
+      const { user } = renderWithProviders(<SignUpPage />, wizard)
+
+      await user.type(screen.getByLabelText('Full Name'), 'Ada Lovelace')
+      await user.click(screen.getByRole('button', { name: 'Next' }))
+
+      await waitFor(() => expect(router.push).toHaveBeenCalledWith('/signup?next=%2Fsettings&step=contact'))
+    })
+
+    it('sends a step opened directly back to the first one left incomplete', async () => {
+      window.sessionStorage.setItem(DRAFT_KEY, JSON.stringify({ name: 'Ada Lovelace', email: 'ada@example.com', mobileNumber: '+14155552671' }))
+      setSearchParams('step=terms')
+      renderWithProviders(<SignUpPage />, wizard)
+
+      // The draft restores the first two steps, but passwords are never kept
+      await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/signup?step=password'))
+    })
+
+    it('submits every step\'s values from the last step', async () => {
+      vi.mocked(signUp).mockResolvedValue({})
+      window.sessionStorage.setItem(DRAFT_KEY, JSON.stringify({ name: 'Ada Lovelace', email: 'ada@example.com', mobileNumber: '+14155552671' }))
+      setSearchParams('step=password')
+      const { user, rerender } = renderWithProviders(<SignUpPage />, wizard)
+
+      await user.type(screen.getByLabelText('Password', { selector: 'input' }), PASSWORD)
+      await user.type(screen.getByLabelText('Confirm Password'), PASSWORD)
+      await user.click(screen.getByRole('button', { name: 'Next' }))
+      await waitFor(() => expect(router.push).toHaveBeenCalledWith('/signup?step=terms'))
+
+      setSearchParams('step=terms')
+      rerender(<SignUpPage />)
+      expect(screen.getByText('Step 4 of 4')).toBeInTheDocument()
+
+      await submit(user)
+      expect(await screen.findByText('Please accept the terms to create an account')).toBeInTheDocument()
+      expect(signUp).not.toHaveBeenCalled()
+
+      await user.click(screen.getByLabelText(TERMS_LABEL))
+      await submit(user)
+
+      expect(await screen.findByText('Account Created Successfully!')).toBeInTheDocument()
+      expect(signUp).toHaveBeenCalledWith({
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        mobileNumber: '+14155552671',
+        password: PASSWORD,
+        ...CONSENT,
+      })
+    })
+
+    it('goes back through history to the previous step', async () => {
+      const { user, rerender } = renderWithProviders(<SignUpPage />, wizard)
+
+      await user.type(screen.getByLabelText('Full Name'), 'Ada Lovelace')
+      await user.click(screen.getByRole('button', { name: 'Next' }))
+      await waitFor(() => expect(router.push).toHaveBeenCalledWith('/signup?step=contact'))
+      setSearchParams('step=contact')
+      rerender(<SignUpPage />)
+
+      await user.click(screen.getByRole('button', { name: 'Back' }))
+
+      expect(router.back).toHaveBeenCalled()
+      expect(router.replace).not.toHaveBeenCalled()
+    })
+
+    it('replaces the step when there is no wizard history to go back through', async () => {
+      setSearchParams('step=contact')
+      window.sessionStorage.setItem(DRAFT_KEY, JSON.stringify({ name: 'Ada Lovelace' }))
+      const { user } = renderWithProviders(<SignUpPage />, wizard)
+
+      await user.click(screen.getByRole('button', { name: 'Back' }))
+
+      expect(router.replace).toHaveBeenCalledWith('/signup')
+      expect(router.back).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useState } from 'react'
+import { screen, waitFor } from '@testing-library/react'
+import GuestLayout from '@/app/login/layout'
+import LoginPage from '@/app/login/page'
+import { OneTimeCodeInput } from '@/components/form'
+import { ApiError, getCurrentUser, login, verifyTwoFactor, type User } from '@/lib/api'
+import { router } from '../mocks/next-navigation'
+import { renderWithProviders } from '../utils'
+
+vi.mock('@/lib/api', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api')>()),
+  login: vi.fn(),
+  getCurrentUser: vi.fn(),
+  verifyTwoFactor: vi.fn(),
+}))
+
+const signedOut = new ApiError({ status: 401, code: 'UNAUTHENTICATED', message: 'Not signed in' })
+const user: User = { id: 'u1', name: 'Second Factor', email: '2fa@example.com', twoFactorEnabled: true }
+
+function CodeField({ onComplete }: { onComplete?: (code: string) => void }) {
+  const [value, setValue] = useState('')
+  return (
+    <>
+      <OneTimeCodeInput value={value} onChange={setValue} onComplete={onComplete} />
+      <output data-testid="value">{value}</output>
+    </>
+  )
+}
+
+describe('OneTimeCodeInput', () => {
+  it('moves along as digits are typed and back on Backspace', async () => {
+    const { user: events } = renderWithProviders(<CodeField />)
+    const boxes = screen.getAllByRole('textbox')
+    expect(boxes).toHaveLength(6)
+
+    await events.click(boxes[0])
+    await events.keyboard('12a3')
+    expect(screen.getByTestId('value')).toHaveTextContent(/^123$/)
+    expect(boxes[3]).toHaveFocus()
+
+    await events.keyboard('{Backspace}')
+    expect(screen.getByTestId('value')).toHaveTextContent(/^12$/)
+    expect(boxes[2]).toHaveFocus()
+  })
+
+  it('spreads a pasted code over every box', async () => {
+    const onComplete = vi.fn()
+    const { user: events } = renderWithProviders(<CodeField onComplete={onComplete} />)
+
+    await events.click(screen.getByRole('textbox', { name: 'Digit 1 of 6' }))
+    await events.paste('987 654')
+
+    expect(screen.getByTestId('value')).toHaveTextContent(/^987654$/)
+    expect(onComplete).toHaveBeenCalledWith('987654')
+  })
+})
+
+describe('LoginPage with two-factor authentication', () => {
+  beforeEach(() => {
+    vi.mocked(getCurrentUser).mockRejectedValue(signedOut)
+    vi.mocked(login).mockResolvedValue({ twoFactorRequired: true, challengeToken: 'challenge-1', expiresIn: 300 })
+  })
+
+  async function signIn(events: ReturnType<typeof renderWithProviders>['user']) {
+    await events.type(await screen.findByLabelText('Email'), '2fa@example.com')
+    await events.type(screen.getByLabelText('Password', { selector: 'input' }), 'Password1!')
+    await events.click(screen.getByRole('button', { name: 'Sign In' }))
+    await screen.findByRole('heading', { name: 'Two-factor authentication' })
+  }
+
+  it('asks for a code instead of going home, and submits once all digits are in', async () => {
+    vi.mocked(verifyTwoFactor).mockImplementation(async () => {
+      vi.mocked(getCurrentUser).mockResolvedValue(user)
+    })
+    const { user: events } = renderWithProviders(<GuestLayout><LoginPage /></GuestLayout>)
+
+    await signIn(events)
+    expect(router.replace).not.toHaveBeenCalled()
+    expect(screen.getByText('This step expires in 5:00')).toBeInTheDocument()
+
+    await events.keyboard('123456')
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/'))
+    expect(verifyTwoFactor).toHaveBeenCalledWith({ challengeToken: 'challenge-1', code: '123456' })
+  })
+
+  it('clears a rejected code so the next one can be typed', async () => {
+    vi.mocked(verifyTwoFactor).mockRejectedValue(
+      new ApiError({ status: 400, code: 'INVALID_CODE', message: 'That code is not valid' })
+    )
+    const { user: events } = renderWithProviders(<LoginPage />)
+
+    await signIn(events)
+    await events.keyboard('000000')
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('That code is not valid')
+    expect(screen.getByRole('textbox', { name: 'Digit 1 of 6' })).toHaveValue('')
+    expect(screen.getByRole('textbox', { name: 'Digit 1 of 6' })).toHaveFocus()
+  })
+
+  it('accepts a recovery code instead', async () => {
+    vi.mocked(verifyTwoFactor).mockResolvedValue(undefined)
+    const { user: events } = renderWithProviders(<LoginPage />)
+
+    await signIn(events)
+    await events.click(screen.getByRole('button', { name: 'Use a recovery code' }))
+    await events.type(screen.getByLabelText('Recovery code'), '11111-11111')
+    await events.click(screen.getByRole('button', { name: 'Verify' }))
+
+    await waitFor(() => expect(verifyTwoFactor).toHaveBeenCalledWith({ challengeToken: 'challenge-1', recoveryCode: '11111-11111' }))
+  })
+
+  it('sends the user back to the password step once the challenge runs out', async () => {
+    vi.mocked(login).mockResolvedValue({ twoFactorRequired: true, challengeToken: 'challenge-1', expiresIn: 2 })
+    const { user: events } = renderWithProviders(<LoginPage />)
+
+    await signIn(events)
+
+    expect(await screen.findByRole('alert', {}, { timeout: 3000 })).toHaveTextContent('This sign-in attempt has expired')
+    await events.click(screen.getByRole('button', { name: 'Back to sign in' }))
+    expect(screen.getByRole('button', { name: 'Sign In' })).toBeInTheDocument()
+  })
+})
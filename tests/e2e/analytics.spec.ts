@@ -0,0 +1,85 @@
+import { test, expect, fillLogin, uniqueEmail, type Page } from './fixtures'
+import { MOCK_API_URL } from '../../playwright.config'
+
+const PASSWORD = 'Tangerine#Sky42'
+
+// The shared e2e config.json leaves analytics off, so the banner stays out of every other test
+async function enableAnalytics(page: Page) {
+  await page.route('**/config.json', async route => {
+    const response = await route.fetch()
+    const config = await response.json()
+    await route.fulfill({
+      response,
+      json: { ...config, analytics: { transports: ['beacon'], endpoint: `${MOCK_API_URL}/api/analytics/events`, batchSize: 1 } },
+    })
+  })
+}
+
+const banner = (page: Page) => page.getByRole('region', { name: 'Analytics consent' })
+
+test.describe('analytics', () => {
+  test.beforeEach(async ({ page }) => {
+    await enableAnalytics(page)
+  })
+
+  test('sends the signup funnel only once the user allows it', async ({ page, trackedEvents }) => {
+    await page.goto('/signup')
+    await expect(banner(page)).toBeVisible()
+    expect(await trackedEvents()).toEqual([])
+
+    await banner(page).getByRole('button', { name: 'Allow analytics' }).click()
+    await expect(banner(page)).toBeHidden()
+    // Tracked while the banner was waiting for an answer
+    await expect.poll(async () => (await trackedEvents()).map(event => event.name)).toEqual(['signup_viewed'])
+
+    await page.getByRole('button', { name: 'Create Account' }).click()
+    const email = uniqueEmail('funnel')
+    await page.getByLabel('Full Name').fill('Ada Lovelace')
+    await page.getByLabel('Country code').selectOption('US')
+    await page.getByLabel('Mobile Number').fill('4155552671')
+    await page.getByLabel('Email').fill(email)
+    await page.getByLabel('Password', { exact: true }).fill(PASSWORD)
+    await page.getByLabel('Confirm Password').fill(PASSWORD)
+    await page.getByLabel('I agree to the Terms and Privacy Policy').check()
+    await page.getByRole('button', { name: 'Create Account' }).click()
+    await expect(page.getByText('Account Created Successfully!')).toBeVisible()
+
+    await expect.poll(async () => (await trackedEvents()).map(event => event.name)).toEqual([
+      'signup_viewed',
+      'signup_validation_failed',
+      'signup_submitted',
+      'signup_succeeded',
+    ])
+    const events = await trackedEvents()
+    expect(events[1].properties).toMatchObject({ mode: 'single', fields: expect.arrayContaining(['name', 'email', 'password']) })
+    // Field names only, never what was typed
+    expect(JSON.stringify(events)).not.toContain(email)
+  })
+
+  test('sends nothing after the user declines, and does not ask again', async ({ page, trackedEvents }) => {
+    await page.goto('/login')
+    await banner(page).getByRole('button', { name: 'No thanks' }).click()
+    await expect(banner(page)).toBeHidden()
+
+    await fillLogin(page, 'demo@example.com', 'wrong-password')
+    await page.getByRole('button', { name: 'Sign In' }).click()
+    await expect(page.getByText('Invalid email or password').first()).toBeVisible()
+
+    await page.reload()
+    await expect(page.getByRole('button', { name: 'Sign In' })).toBeVisible()
+    await expect(banner(page)).toBeHidden()
+    expect(await trackedEvents()).toEqual([])
+  })
+
+  test('records why a sign-in failed', async ({ page, trackedEvents }) => {
+    await page.goto('/login')
+    await banner(page).getByRole('button', { name: 'Allow analytics' }).click()
+
+    await fillLogin(page, 'demo@example.com', 'wrong-password')
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect.poll(trackedEvents).toEqual([
+      expect.objectContaining({ name: 'login_failed', properties: { method: 'password', code: 'INVALID_CREDENTIALS' } }),
+    ])
+  })
+})
@@ -0,0 +1,49 @@
+import { test, expect, fillLogin, SEED_PASSWORD } from './fixtures'
+
+test.describe('app shell', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/login')
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+    await expect(page.getByRole('heading', { name: 'Welcome back, Demo!' })).toBeVisible()
+  })
+
+  test('shows the account details on the dashboard', async ({ page }) => {
+    await expect(page.getByRole('main').getByText('demo@example.com')).toBeVisible()
+    await expect(page.getByRole('link', { name: 'Dashboard' })).toHaveAttribute('aria-current', 'page')
+  })
+
+  test('logs out from the user menu', async ({ page }) => {
+    await page.getByRole('button', { name: 'Account menu' }).click()
+    await expect(page.getByRole('menu').getByText('demo@example.com')).toBeVisible()
+    await page.getByRole('menuitem', { name: 'Log out' }).click()
+
+    await expect(page).toHaveURL(/\/login/)
+  })
+
+  test('closes the user menu with Escape', async ({ page }) => {
+    const trigger = page.getByRole('button', { name: 'Account menu' })
+    await trigger.click()
+    await page.keyboard.press('Escape')
+
+    await expect(page.getByRole('menu')).toBeHidden()
+    await expect(trigger).toBeFocused()
+  })
+
+  test('uses a drawer for navigation on small screens', async ({ page }) => {
+    await page.setViewportSize({ width: 390, height: 844 })
+    await page.getByRole('button', { name: 'Open navigation' }).click()
+
+    const drawer = page.getByRole('dialog', { name: 'Main navigation' })
+    await expect(drawer.getByRole('link', { name: 'Dashboard' })).toBeVisible()
+    await page.keyboard.press('Escape')
+    await expect(drawer).toBeHidden()
+  })
+
+  test('redirects signed-out visitors to the login page', async ({ page, context }) => {
+    await context.clearCookies()
+    await page.goto('/')
+
+    await expect(page).toHaveURL(/\/login\?next=%2F/)
+  })
+})
@@ -0,0 +1,31 @@
+import { test, expect } from './fixtures'
+
+test.describe('runtime configuration', () => {
+  test('reads the deployed config.json', async ({ page }) => {
+    await page.goto('/help')
+
+    await expect(page.getByRole('link', { name: 'Contact support' })).toHaveAttribute('href', 'mailto:support@example.com')
+  })
+
+  test('explains a missing config.json instead of showing a broken app', async ({ page }) => {
+    await page.route('**/config.json', route => route.fulfill({ status: 404, body: 'Not found' }))
+    await page.goto('/login')
+
+    await expect(page.getByRole('heading', { name: "This site isn't set up correctly" })).toBeVisible()
+    await expect(page.getByText('/config.json was not found.')).toBeVisible()
+    await expect(page.getByRole('button', { name: 'Sign In' })).toBeHidden()
+
+    await page.unroute('**/config.json')
+    await page.getByRole('button', { name: 'Try again' }).click()
+    await expect(page.getByRole('button', { name: 'Sign In' })).toBeVisible()
+  })
+
+  test('lists what is wrong with an invalid config.json', async ({ page }) => {
+    await page.route('**/config.json', route => route.fulfill({ json: { apiUrl: 'localhost:4011', authProviders: ['myspace'] } }))
+    await page.goto('/login')
+
+    const problems = page.getByRole('list', { name: 'Problems found' })
+    await expect(problems).toContainText('apiUrl: Must be an http(s) URL')
+    await expect(problems).toContainText('supportEmail: Required')
+  })
+})
@@ -0,0 +1,34 @@
+import { test, expect } from './fixtures'
+import { legalDocuments } from '../../lib/legal'
+
+test.describe('help and legal pages', () => {
+  for (const [link, heading] of [['Help', 'Help'], ['Privacy', 'Privacy Policy'], ['Terms', 'Terms of Service']]) {
+    test(`the ${link} footer link opens its page`, async ({ page }) => {
+      await page.goto('/login')
+      await page.getByRole('link', { name: link, exact: true }).click()
+      await expect(page.getByRole('heading', { level: 1, name: heading })).toBeVisible()
+    })
+  }
+
+  test('shows the version of a legal document', async ({ page }) => {
+    await page.goto('/terms')
+    await expect(page.getByText(`Version ${legalDocuments.terms.version}`)).toBeVisible()
+  })
+
+  test('the agreement links open the documents in a new tab, leaving the form as it was', async ({ page }) => {
+    await page.goto('/signup')
+    await page.getByLabel('Full Name').fill('Ada Lovelace')
+
+    const [terms] = await Promise.all([
+      page.context().waitForEvent('page'),
+      page.getByRole('link', { name: 'Terms', exact: true }).first().click(),
+    ])
+    await expect(terms.getByRole('heading', { level: 1, name: 'Terms of Service' })).toBeVisible()
+    await expect(page.getByLabel('Full Name')).toHaveValue('Ada Lovelace')
+  })
+
+  test('help has a contact section to link to', async ({ page }) => {
+    await page.goto('/help#contact')
+    await expect(page.getByRole('heading', { name: 'Contact support' })).toBeInViewport()
+  })
+})
@@ -0,0 +1,138 @@
+import { readFile } from 'node:fs/promises'
+import { test as base, expect, type Page } from '@playwright/test'
+import { ANALYTICS_FILE, MOCK_API_URL } from '../../playwright.config'
+import { legalDocuments } from '../../lib/legal'
+
+export { expect, type Page }
+
+export const SEED_PASSWORD = 'Password1!'
+
+interface OutboxEmail {
+  to: string
+  kind: 'verify-email' | 'reset-password' | 'magic-link'
+  token: string
+  link: string
+}
+
+interface TrackedEvent {
+  sessionId: string
+  name: string
+  properties: Record<string, unknown>
+  timestamp: string
+}
+
+interface VirtualAuthenticator {
+  /** Passkeys the authenticator holds, whether or not the backend still knows them. */
+  credentialCount: () => Promise<number>
+}
+
+interface Fixtures {
+  /** Applies mock API scenarios (see mock-api/scenarios.mjs) to this page's API calls only. */
+  useScenario: (...names: string[]) => Promise<void>
+  /** Makes every API call from this page fail as if the network were down. */
+  goOffline: () => Promise<void>
+  /** Emails the mock API "sent" to `to`, oldest first. */
+  emailsTo: (to: string) => Promise<OutboxEmail[]>
+  /** Analytics events the mock API has received from this page's tab, read from its file sink. */
+  trackedEvents: () => Promise<TrackedEvent[]>
+  /** The code an authenticator app would show right now for this account. */
+  totpCode: (email: string) => Promise<string>
+  /** Signs up and verifies a fresh account through the mock API, for tests that change it. */
+  createAccount: (name?: string) => Promise<{ name: string; email: string; password: string }>
+  /**
+   * Gives the page a platform authenticator, like a laptop's fingerprint
+   * reader, that approves every passkey request. Chromium only.
+   */
+  virtualAuthenticator: VirtualAuthenticator
+}
+
+const apiRoute = `${MOCK_API_URL}/api/**`
+
+export const test = base.extend<Fixtures>({
+  useScenario: async ({ page }, use) => {
+    await use(async (...names) => {
+      await page.route(apiRoute, route =>
+        route.continue({ headers: { ...route.request().headers(), 'x-mock-scenario': names.join(',') } })
+      )
+    })
+  },
+
+  goOffline: async ({ page }, use) => {
+    await use(async () => {
+      await page.route(apiRoute, route => route.abort('internetdisconnected'))
+    })
+  },
+
+  emailsTo: async ({ request }, use) => {
+    await use(async to => {
+      const response = await request.get(`${MOCK_API_URL}/__mock/outbox`)
+      const emails: OutboxEmail[] = await response.json()
+      return emails.filter(email => email.to === to)
+    })
+  },
+
+  trackedEvents: async ({ page }, use) => {
+    await use(async () => {
+      const sessionId = await page.evaluate(() => sessionStorage.getItem('analytics:session'))
+      const lines = (await readFile(ANALYTICS_FILE, 'utf8').catch(() => '')).split('\n').filter(Boolean)
+      return lines.map(line => JSON.parse(line) as TrackedEvent).filter(event => event.sessionId === sessionId)
+    })
+  },
+
+  totpCode: async ({ request }, use) => {
+    await use(async email => {
+      const response = await request.get(`${MOCK_API_URL}/__mock/totp`, { params: { email } })
+      const { code } = await response.json()
+      return code
+    })
+  },
+
+  createAccount: async ({ request }, use) => {
+    await use(async (name = 'Fresh Account') => {
+      const account = { name, email: uniqueEmail('account'), password: 'Tangerine#Sky42' }
+      await request.post(`${MOCK_API_URL}/api/auth/signup`, {
+        data: {
+          ...account,
+          mobileNumber: '+14155550123',
+          termsVersion: legalDocuments.terms.version,
+          privacyVersion: legalDocuments.privacy.version,
+          termsAcceptedAt: new Date().toISOString(),
+          marketingOptIn: false,
+        },
+      })
+      const outbox: OutboxEmail[] = await (await request.get(`${MOCK_API_URL}/__mock/outbox`)).json()
+      const { token } = outbox.find(email => email.to === account.email)!
+      await request.post(`${MOCK_API_URL}/api/auth/verify-email`, { data: { token } })
+      return account
+    })
+  },
+
+  virtualAuthenticator: async ({ page }, use) => {
+    const cdp = await page.context().newCDPSession(page)
+    await cdp.send('WebAuthn.enable')
+    const { authenticatorId } = await cdp.send('WebAuthn.addVirtualAuthenticator', {
+      options: {
+        protocol: 'ctap2',
+        transport: 'internal',
+        hasResidentKey: true,
+        hasUserVerification: true,
+        isUserVerified: true,
+        automaticPresenceSimulation: true,
+      },
+    })
+    await use({
+      credentialCount: async () => (await cdp.send('WebAuthn.getCredentials', { authenticatorId })).credentials.length,
+    })
+    await cdp.detach()
+  },
+})
+
+/** Tests share one mock API, so every signup needs its own address. */
+export function uniqueEmail(prefix = 'user') {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`
+}
+
+export async function fillLogin(page: Page, email: string, password: string) {
+  await page.getByLabel('Email').fill(email)
+  await page.getByLabel('Password', { exact: true }).fill(password)
+}
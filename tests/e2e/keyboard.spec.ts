@@ -0,0 +1,52 @@
+import { test, expect, SEED_PASSWORD } from './fixtures'
+
+test.describe('keyboard navigation', () => {
+  test('login can be completed without a mouse', async ({ page }) => {
+    await page.goto('/login')
+
+    // The email field is focused on load
+    await expect(page.getByLabel('Email')).toBeFocused()
+    await page.keyboard.type('demo@example.com')
+    await page.keyboard.press('Tab')
+    await expect(page.getByLabel('Password', { exact: true })).toBeFocused()
+    await page.keyboard.type(SEED_PASSWORD)
+    await page.keyboard.press('Enter')
+
+    await expect(page).toHaveURL('/')
+  })
+
+  test('the password visibility toggle works from the keyboard', async ({ page }) => {
+    await page.goto('/login')
+    const password = page.getByLabel('Password', { exact: true })
+
+    await password.fill(SEED_PASSWORD)
+    await page.keyboard.press('Tab')
+    await expect(page.getByRole('button', { name: 'Show password' })).toBeFocused()
+    await page.keyboard.press('Enter')
+
+    await expect(password).toHaveAttribute('type', 'text')
+  })
+
+  test('signup fields are reached in reading order', async ({ page }) => {
+    await page.goto('/signup')
+    await page.getByLabel('Full Name').focus()
+
+    const order = [
+      page.getByLabel('Country code'),
+      page.getByLabel('Mobile Number'),
+      page.getByLabel('Email'),
+      page.getByLabel('Password', { exact: true }),
+      page.getByRole('button', { name: 'Show password' }),
+      page.getByLabel('Confirm Password'),
+      page.getByLabel('I agree to the Terms and Privacy Policy'),
+      page.getByRole('link', { name: 'Terms', exact: true }).first(),
+      page.getByRole('link', { name: 'Privacy Policy', exact: true }),
+      page.getByLabel('Email me product news and tips (optional)'),
+      page.getByRole('button', { name: 'Create Account' }),
+    ]
+    for (const next of order) {
+      await page.keyboard.press('Tab')
+      await expect(next).toBeFocused()
+    }
+  })
+})
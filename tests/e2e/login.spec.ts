@@ -0,0 +1,133 @@
+import { test, expect, fillLogin, SEED_PASSWORD } from './fixtures'
+
+test.describe('login', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/login')
+  })
+
+  test('signs in with valid credentials', async ({ page }) => {
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page).toHaveURL('/')
+    await expect(page.getByRole('heading', { name: 'Welcome back, Demo!' })).toBeVisible()
+  })
+
+  test('returns to the protected page the visitor asked for', async ({ page }) => {
+    await page.goto('/settings/security')
+    await expect(page).toHaveURL(/\/login\?next=%2Fsettings%2Fsecurity/)
+
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page).toHaveURL('/settings/security')
+  })
+
+  test('ignores a redirect target on another origin', async ({ page }) => {
+    await page.goto('/login?next=https%3A%2F%2Fevil.example%2F')
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page).toHaveURL('/')
+  })
+
+  test('validates the fields before calling the API', async ({ page }) => {
+    let apiCalls = 0
+    page.on('request', request => {
+      if (request.url().includes('/api/auth/login')) apiCalls++
+    })
+
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByText('Email is required')).toBeVisible()
+    await expect(page.getByText('Password is required')).toBeVisible()
+    expect(apiCalls).toBe(0)
+  })
+
+  test('rejects a wrong password', async ({ page }) => {
+    await fillLogin(page, 'demo@example.com', 'not-the-password')
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByText('Invalid email or password').first()).toBeVisible()
+    await expect(page).toHaveURL(/\/login$/)
+  })
+
+  test('offers a new verification email to unverified accounts', async ({ page }) => {
+    await fillLogin(page, 'unverified@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByRole('button', { name: 'Resend verification email' })).toBeEnabled()
+  })
+
+  test('reports server errors', async ({ page, useScenario }) => {
+    await useScenario('server-error')
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByText('Internal server error').first()).toBeVisible()
+  })
+
+  test('reports network failures and lets the user retry', async ({ page, goOffline }) => {
+    await goOffline()
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByText('Please check your connection and try again').first()).toBeVisible()
+    await expect(page.getByRole('button', { name: 'Retry' })).toBeVisible()
+
+    await page.unrouteAll()
+    await page.getByRole('button', { name: 'Retry' }).click()
+    await expect(page).toHaveURL('/')
+  })
+
+  test('disables the submit button while signing in', async ({ page, useScenario }) => {
+    await useScenario('slow')
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByRole('button', { name: 'Signing In...' })).toBeDisabled()
+    await expect(page).toHaveURL('/', { timeout: 10_000 })
+  })
+
+  test('asks for a CAPTCHA after repeated failures, then locks the account for a while', async ({ page, createAccount }) => {
+    const { email, password } = await createAccount()
+    const signIn = page.getByRole('button', { name: 'Sign In' })
+    const captcha = page.getByRole('checkbox', { name: "I'm not a robot" })
+
+    await fillLogin(page, email, 'wrong-password')
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await signIn.click()
+      await expect(page.getByText('Invalid email or password').first()).toBeVisible()
+    }
+
+    await signIn.click()
+    await expect(captcha).toBeVisible()
+    await expect(signIn).toBeDisabled()
+
+    await captcha.check()
+    await signIn.click()
+    await expect(captcha).not.toBeChecked()
+    await captcha.check()
+    await signIn.click()
+
+    // The mock locks for MOCK_LOCKOUT_MS, 5 seconds under Playwright
+    await expect(page.getByText(/temporarily locked/).first()).toBeVisible()
+    await expect(page.getByText(/You can try again in 0:0\d/)).toBeVisible()
+    await expect(signIn).toBeDisabled()
+
+    await expect(page.getByText(/You can try again in/)).toBeHidden({ timeout: 10_000 })
+    await captcha.check()
+    await page.getByLabel('Password', { exact: true }).fill(password)
+    await signIn.click()
+    await expect(page).toHaveURL('/')
+  })
+
+  test('counts down a rate limit before the next attempt', async ({ page, useScenario }) => {
+    await useScenario('rate-limited')
+    await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByText('You can try again in 0:30')).toBeVisible()
+    await expect(page.getByRole('button', { name: 'Sign In' })).toBeDisabled()
+  })
+})
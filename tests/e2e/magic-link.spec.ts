@@ -0,0 +1,56 @@
+import { test, expect, type Page } from './fixtures'
+
+/** Asks for a sign-in link from the login page and returns its path. */
+async function requestLink(page: Page, email: string, emailsTo: (to: string) => Promise<{ kind: string; link: string }[]>) {
+  await page.getByRole('button', { name: 'Email me a sign-in link' }).click()
+  await page.getByLabel('Email').fill(email)
+  await page.getByRole('button', { name: 'Email me a sign-in link' }).click()
+  await expect(page.getByRole('heading', { name: 'Check your inbox' })).toBeVisible()
+
+  const links = (await emailsTo(email)).filter(sent => sent.kind === 'magic-link')
+  return links[links.length - 1].link.replace(/^https?:\/\/[^/]+/, '')
+}
+
+test.describe('sign-in links', () => {
+  test('signs in from the emailed link and continues to the page the user wanted', async ({ page, createAccount, emailsTo }) => {
+    const account = await createAccount('Linked Person')
+    await page.goto('/login?next=/settings')
+    const link = await requestLink(page, account.email, emailsTo)
+    expect(link).toContain('next=%2Fsettings')
+
+    await page.goto(link)
+    await expect(page).toHaveURL(/\/settings$/)
+
+    // Each link works once
+    await page.goto(link)
+    await expect(page.getByRole('heading', { name: 'Sign in on this device?' })).toBeVisible()
+    await page.getByRole('button', { name: 'Continue signing in' }).click()
+    await expect(page.getByRole('heading', { name: "This sign-in link doesn't work" })).toBeVisible()
+  })
+
+  test('asks before signing in with a link requested elsewhere', async ({ page, browser, createAccount, emailsTo }) => {
+    const account = await createAccount('Travelling Person')
+    await page.goto('/login')
+    const link = await requestLink(page, account.email, emailsTo)
+
+    const otherDevice = await browser.newPage()
+    await otherDevice.goto(link)
+    await expect(otherDevice.getByRole('heading', { name: 'Sign in on this device?' })).toBeVisible()
+    await otherDevice.getByRole('button', { name: 'Continue signing in' }).click()
+    await expect(otherDevice.getByRole('heading', { name: 'Welcome back, Travelling!' })).toBeVisible()
+    await otherDevice.close()
+  })
+
+  test('offers a new link when the old one has expired', async ({ page, useScenario, createAccount, emailsTo }) => {
+    const account = await createAccount('Late Person')
+    await page.goto('/login')
+    const link = await requestLink(page, account.email, emailsTo)
+
+    await useScenario('expired-token')
+    await page.goto(link)
+    await expect(page.getByRole('heading', { name: 'This sign-in link has expired' })).toBeVisible()
+    await page.getByLabel('Email').fill(account.email)
+    await page.getByRole('button', { name: 'Email me a sign-in link' }).click()
+    await expect(page.getByRole('heading', { name: 'Check your inbox' })).toBeVisible()
+  })
+})
@@ -0,0 +1,65 @@
+import { MOCK_API_URL } from '../../playwright.config'
+import { test, expect, uniqueEmail, type Page } from './fixtures'
+
+/** Clicks a provider button on the login page and answers the mock consent page. */
+async function signInWith(page: Page, provider: string, decision: 'Allow' | 'Deny', email = uniqueEmail('oauth')) {
+  await page.goto('/login')
+  await page.getByRole('button', { name: `Continue with ${provider}` }).click()
+  await expect(page.getByRole('heading', { name: /Mock .* sign-in/ })).toBeVisible()
+  await page.getByLabel('Email').fill(email)
+  await page.getByLabel('Name').fill('Oauth Tester')
+  await page.getByRole('button', { name: decision }).click()
+}
+
+test.describe('social sign-in', () => {
+  test('signs up a new user through the provider', async ({ page }) => {
+    await signInWith(page, 'Google', 'Allow')
+
+    await expect(page).toHaveURL(/\/$/)
+    await expect(page.getByRole('heading', { name: 'Welcome back, Oauth!' })).toBeVisible()
+  })
+
+  test('is offered on the signup page too', async ({ page }) => {
+    await page.goto('/signup')
+
+    for (const provider of ['Google', 'GitHub', 'Microsoft']) {
+      await expect(page.getByRole('button', { name: `Continue with ${provider}` })).toBeVisible()
+    }
+  })
+
+  test('explains a declined consent screen', async ({ page }) => {
+    await signInWith(page, 'GitHub', 'Deny')
+
+    await expect(page.getByRole('heading', { name: 'Sign-in cancelled' })).toBeVisible()
+    await page.getByRole('button', { name: 'Back to sign in' }).click()
+    await expect(page).toHaveURL(/\/login$/)
+  })
+
+  test('links the provider to an existing password account', async ({ page, request }) => {
+    // A fresh account, so reruns against the same mock still find it unlinked
+    const email = uniqueEmail('link')
+    const password = 'Tangerine#Sky42'
+    await request.post(`${MOCK_API_URL}/api/auth/signup`, {
+      data: { name: 'Linda Linker', email, mobileNumber: '+14155550123', password },
+    })
+
+    await signInWith(page, 'Microsoft', 'Allow', email)
+
+    await expect(page.getByRole('heading', { name: 'Link your Microsoft account' })).toBeVisible()
+    await page.getByLabel('Password', { exact: true }).fill('not-the-password')
+    await page.getByRole('button', { name: 'Link and sign in' }).click()
+    await expect(page.getByText('Incorrect password')).toBeVisible()
+
+    await page.getByLabel('Password', { exact: true }).fill(password)
+    await page.getByRole('button', { name: 'Link and sign in' }).click()
+    await expect(page.getByRole('heading', { name: 'Welcome back, Linda!' })).toBeVisible()
+  })
+
+  test('refuses a response with a forged state', async ({ page, useScenario }) => {
+    await useScenario('oauth-state-mismatch')
+    await signInWith(page, 'Google', 'Allow')
+
+    await expect(page.getByRole('heading', { name: "We couldn't verify this sign-in" })).toBeVisible()
+    await expect(page).toHaveURL(/\/auth\/callback/)
+  })
+})
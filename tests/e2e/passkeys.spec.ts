@@ -0,0 +1,65 @@
+import { test, expect, fillLogin, type Page } from './fixtures'
+
+async function signIn(page: Page, email: string, password: string, firstName: string) {
+  await page.goto('/login')
+  await fillLogin(page, email, password)
+  await page.getByRole('button', { name: 'Sign In' }).click()
+  await expect(page.getByRole('heading', { name: `Welcome back, ${firstName}!` })).toBeVisible()
+}
+
+async function signOut(page: Page) {
+  await page.getByRole('button', { name: 'Account menu' }).click()
+  await page.getByRole('menuitem', { name: 'Log out' }).click()
+  await expect(page.getByRole('button', { name: 'Sign In' })).toBeVisible()
+}
+
+test.describe('passkeys', () => {
+  test('are added in settings and then sign the user in without a password', async ({ page, createAccount, virtualAuthenticator }) => {
+    const account = await createAccount('Passkey Person')
+    await signIn(page, account.email, account.password, 'Passkey')
+
+    await page.goto('/settings/security')
+    await expect(page.getByText("You haven't added a passkey yet.")).toBeVisible()
+    await page.getByRole('button', { name: 'Add a passkey' }).click()
+    await expect(page.getByRole('list', { name: 'Passkeys' }).getByText('Passkey 1')).toBeVisible()
+    expect(await virtualAuthenticator.credentialCount()).toBe(1)
+
+    await signOut(page)
+    await page.getByRole('button', { name: 'Sign in with a passkey' }).click()
+    await expect(page.getByRole('heading', { name: 'Welcome back, Passkey!' })).toBeVisible()
+
+    // Signing in is recorded against the passkey
+    await page.goto('/settings/security')
+    await expect(page.getByText(/last used/)).toBeVisible()
+  })
+
+  test('no longer sign in once removed from the account', async ({ page, createAccount, virtualAuthenticator }) => {
+    const account = await createAccount('Former Passkey')
+    await signIn(page, account.email, account.password, 'Former')
+    await page.goto('/settings/security')
+    await page.getByRole('button', { name: 'Add a passkey' }).click()
+    await page.getByRole('button', { name: 'Remove Passkey 1' }).click()
+    await expect(page.getByText("You haven't added a passkey yet.")).toBeVisible()
+
+    await signOut(page)
+    // Still on the device, which can't know the account dropped it
+    expect(await virtualAuthenticator.credentialCount()).toBe(1)
+    await page.getByRole('button', { name: 'Sign in with a passkey' }).click()
+
+    await expect(page.getByRole('alert')).toHaveText("That passkey isn't recognized. It may have been removed from your account.")
+    await expect(page.getByRole('button', { name: 'Sign In' })).toBeVisible()
+  })
+
+  test('explain that the browser has no passkey support', async ({ page }) => {
+    await page.addInitScript(() => {
+      // @ts-expect-error Pretend to be a browser without WebAuthn
+      delete window.PublicKeyCredential
+    })
+    await page.goto('/login')
+    await page.getByRole('button', { name: 'Sign in with a passkey' }).click()
+
+    await expect(page.getByRole('alert')).toHaveText(
+      "This browser doesn't support passkeys. Sign in with your email and password, or try another browser."
+    )
+  })
+})
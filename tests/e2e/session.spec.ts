@@ -0,0 +1,72 @@
+import { test, expect, fillLogin, SEED_PASSWORD, type Page } from './fixtures'
+import { MOCK_API_URL } from '../../playwright.config'
+
+async function signIn(page: Page, { rememberMe = false } = {}) {
+  await page.goto('/login')
+  await fillLogin(page, 'demo@example.com', SEED_PASSWORD)
+  if (rememberMe) await page.getByLabel('Remember me').check()
+  await page.getByRole('button', { name: 'Sign In' }).click()
+  await expect(page.getByRole('heading', { name: 'Welcome back, Demo!' })).toBeVisible()
+}
+
+async function sessionCookie(page: Page) {
+  const cookies = await page.context().cookies(MOCK_API_URL)
+  return cookies.find(cookie => cookie.name === 'mock_session')
+}
+
+test.describe('session lifetime', () => {
+  test('"Remember me" keeps the session after the browser closes', async ({ page }) => {
+    await signIn(page, { rememberMe: true })
+    expect((await sessionCookie(page))?.expires).toBeGreaterThan(Date.now() / 1000 + 7 * 24 * 60 * 60)
+  })
+
+  test('without "Remember me" the session ends with the browser', async ({ page }) => {
+    await signIn(page)
+    // -1 marks a cookie that only lasts until the browser closes
+    expect((await sessionCookie(page))?.expires).toBe(-1)
+  })
+
+  test('warns before signing out an idle user, then signs them out', async ({ page }) => {
+    await page.clock.install()
+    await signIn(page)
+
+    await page.clock.runFor('14:01')
+    const dialog = page.getByRole('alertdialog', { name: 'Are you still there?' })
+    await expect(dialog).toBeVisible()
+    await expect(dialog.getByText(/You'll be signed out in \d+s/)).toBeVisible()
+
+    await dialog.getByRole('button', { name: 'Stay signed in' }).click()
+    await expect(dialog).toBeHidden()
+
+    await page.clock.runFor('15:00')
+    await expect(page).toHaveURL(/\/login\?.*reason=idle/)
+    await expect(page.getByText('You were signed out because you were inactive for a while.')).toBeVisible()
+  })
+
+  test('sends the user to sign in again once the session has ended on the server', async ({ page }) => {
+    await signIn(page)
+    await page.context().clearCookies()
+
+    await page.getByRole('link', { name: 'Settings' }).click()
+    // Saving stays disabled until something changes, so edit the name to get a request out
+    const name = page.getByLabel('Full Name')
+    await expect(name).toHaveValue('Demo User')
+    await name.fill('Demo Renamed')
+    await page.getByRole('button', { name: 'Save changes' }).click()
+
+    await expect(page).toHaveURL(/\/login\?next=%2Fsettings.*reason=expired/)
+    await expect(page.getByText('Your session has expired. Please sign in again.')).toBeVisible()
+  })
+
+  test('signing out in one tab signs out the others', async ({ page, context }) => {
+    await signIn(page)
+    const otherTab = await context.newPage()
+    await otherTab.goto('/settings')
+    await expect(otherTab.getByRole('heading', { name: 'Settings' })).toBeVisible()
+
+    await page.getByRole('button', { name: 'Account menu' }).click()
+    await page.getByRole('menuitem', { name: 'Log out' }).click()
+
+    await expect(otherTab).toHaveURL(/\/login\?next=%2Fsettings$/)
+  })
+})
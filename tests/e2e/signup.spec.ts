@@ -0,0 +1,124 @@
+import { test, expect, uniqueEmail, type Page } from './fixtures'
+import { MOCK_API_URL } from '../../playwright.config'
+import { legalDocuments } from '../../lib/legal'
+
+const PASSWORD = 'Tangerine#Sky42'
+
+async function fillSignUp(page: Page, email: string) {
+  await page.getByLabel('Full Name').fill('Ada Lovelace')
+  await page.getByLabel('Country code').selectOption('US')
+  await page.getByLabel('Mobile Number').fill('4155552671')
+  await page.getByLabel('Email').fill(email)
+  await page.getByLabel('Password', { exact: true }).fill(PASSWORD)
+  await page.getByLabel('Confirm Password').fill(PASSWORD)
+  await page.getByLabel('I agree to the Terms and Privacy Policy').check()
+}
+
+const submit = (page: Page) => page.getByRole('button', { name: 'Create Account' }).click()
+
+test.describe('signup', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/signup')
+  })
+
+  test('creates an account and verifies it from the emailed link', async ({ page, emailsTo }) => {
+    const email = uniqueEmail('signup')
+    await fillSignUp(page, email)
+    await submit(page)
+
+    await expect(page.getByText('Account Created Successfully!')).toBeVisible()
+    await expect(page.getByText(email)).toBeVisible()
+
+    const [verification] = await emailsTo(email)
+    expect(verification.kind).toBe('verify-email')
+
+    await page.goto(verification.link.replace(/^https?:\/\/[^/]+/, ''))
+    await expect(page.getByRole('heading', { name: 'Email Verified!' })).toBeVisible()
+  })
+
+  test('records the accepted terms version and marketing choice', async ({ page, request }) => {
+    const email = uniqueEmail('consent')
+    await fillSignUp(page, email)
+    await page.getByLabel('Email me product news and tips (optional)').check()
+    await submit(page)
+    await expect(page.getByText('Account Created Successfully!')).toBeVisible()
+
+    const consent = await (await request.get(`${MOCK_API_URL}/__mock/consent`, { params: { email } })).json()
+    expect(consent).toMatchObject({
+      termsVersion: legalDocuments.terms.version,
+      privacyVersion: legalDocuments.privacy.version,
+      marketingOptIn: true,
+    })
+    expect(Date.parse(consent.acceptedAt)).not.toBeNaN()
+  })
+
+  test('shows validation errors and focuses the first invalid field', async ({ page }) => {
+    await page.getByLabel('Email').fill('not-an-email')
+    await submit(page)
+
+    await expect(page.getByText('Full name is required')).toBeVisible()
+    await expect(page.getByText('Email address is invalid')).toBeVisible()
+    await expect(page.getByLabel('Full Name')).toBeFocused()
+  })
+
+  test('flags an email that is already registered', async ({ page }) => {
+    await fillSignUp(page, 'demo@example.com')
+    await submit(page)
+
+    await expect(page.getByText('This email is already registered.')).toBeVisible()
+    await expect(page.getByLabel('Email')).toBeFocused()
+  })
+
+  test('understands the raw duplicate-key error', async ({ page, useScenario }) => {
+    await useScenario('email-taken')
+    await fillSignUp(page, uniqueEmail('taken'))
+    await submit(page)
+
+    await expect(page.getByText('This email is already registered.')).toBeVisible()
+    await expect(page.getByLabel('Email')).toHaveAttribute('aria-invalid', 'true')
+  })
+
+  test('reports server errors and keeps the form', async ({ page, useScenario }) => {
+    await useScenario('server-error')
+    await fillSignUp(page, uniqueEmail('error'))
+    await submit(page)
+
+    await expect(page.getByText('Internal server error').first()).toBeVisible()
+    await expect(page.getByLabel('Full Name')).toHaveValue('Ada Lovelace')
+  })
+
+  test('reports network failures', async ({ page, goOffline }) => {
+    await goOffline()
+    await fillSignUp(page, uniqueEmail('offline'))
+    await submit(page)
+
+    await expect(page.getByText('Please check your connection and try again').first()).toBeVisible()
+    await expect(page.getByRole('button', { name: 'Create Account' })).toBeEnabled()
+  })
+
+  test('asks for a CAPTCHA when the backend wants one', async ({ page, useScenario }) => {
+    await useScenario('captcha-required')
+    await fillSignUp(page, uniqueEmail('captcha'))
+    await submit(page)
+
+    const checkbox = page.getByRole('checkbox', { name: "I'm not a robot" })
+    await expect(checkbox).toBeVisible()
+    await expect(page.getByRole('button', { name: 'Create Account' })).toBeDisabled()
+
+    await checkbox.check()
+    await submit(page)
+    await expect(page.getByText('Account Created Successfully!')).toBeVisible()
+  })
+
+  test('restores a draft after a reload, without the passwords', async ({ page }) => {
+    const email = uniqueEmail('draft')
+    await fillSignUp(page, email)
+    await page.reload()
+
+    await expect(page.getByLabel('Full Name')).toHaveValue('Ada Lovelace')
+    await expect(page.getByLabel('Email')).toHaveValue(email)
+    await expect(page.getByLabel('Mobile Number')).not.toHaveValue('')
+    await expect(page.getByLabel('Password', { exact: true })).toHaveValue('')
+    await expect(page.getByLabel('Confirm Password')).toHaveValue('')
+  })
+})
@@ -0,0 +1,50 @@
+// @ts-check
+// Serves a Next.js static export the way a static host would: /login -> login.html
+import { createServer } from 'node:http'
+import { readFile, stat } from 'node:fs/promises'
+import { extname, join, normalize, resolve } from 'node:path'
+
+const [root = 'out', port = '3100'] = process.argv.slice(2)
+const ROOT = resolve(root)
+
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.png': 'image/png',
+  '.woff2': 'font/woff2',
+}
+
+/** @param {string} file */
+async function isFile(file) {
+  return stat(file).then(s => s.isFile(), () => false)
+}
+
+/** @param {string} pathname */
+async function resolveFile(pathname) {
+  const base = join(ROOT, normalize(decodeURIComponent(pathname)))
+  if (!base.startsWith(ROOT)) return null
+  for (const candidate of [base, `${base}.html`, join(base, 'index.html')]) {
+    if (await isFile(candidate)) return candidate
+  }
+  return null
+}
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+  const file = await resolveFile(pathname)
+  const target = file ?? join(ROOT, '404.html')
+  const type = CONTENT_TYPES[/** @type {keyof typeof CONTENT_TYPES} */ (extname(target))] ?? 'application/octet-stream'
+
+  try {
+    res.writeHead(file ? 200 : 404, { 'Content-Type': type }).end(await readFile(target))
+  } catch {
+    res.writeHead(404).end('Not found')
+  }
+}).listen(Number(port), () => {
+  console.log(`Serving ${ROOT} on http://localhost:${port}`)
+})
@@ -0,0 +1,77 @@
+import { test, expect, fillLogin, SEED_PASSWORD } from './fixtures'
+
+test.describe('two-factor authentication', () => {
+  test('asks the seeded 2FA account for a code after the password', async ({ page, totpCode }) => {
+    await page.goto('/login')
+    await fillLogin(page, '2fa@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await expect(page.getByRole('heading', { name: 'Two-factor authentication' })).toBeVisible()
+    await expect(page.getByText(/This step expires in \d:\d\d/)).toBeVisible()
+
+    // Typing the last digit submits the code
+    await page.keyboard.type(await totpCode('2fa@example.com'))
+    await expect(page.getByRole('heading', { name: 'Welcome back, Second!' })).toBeVisible()
+  })
+
+  test('rejects a wrong code and keeps the step open', async ({ page }) => {
+    await page.goto('/login')
+    await fillLogin(page, '2fa@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+
+    await page.getByRole('textbox', { name: 'Digit 1 of 6' }).focus()
+    await page.keyboard.type('000000')
+
+    await expect(page.getByText('That code is not valid')).toBeVisible()
+    await expect(page.getByRole('textbox', { name: 'Digit 1 of 6' })).toHaveValue('')
+  })
+
+  test('reports an expired sign-in attempt', async ({ page, useScenario }) => {
+    await useScenario('two-factor-expired')
+    await page.goto('/login')
+    await fillLogin(page, '2fa@example.com', SEED_PASSWORD)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+    await page.getByRole('textbox', { name: 'Digit 1 of 6' }).focus()
+    await page.keyboard.type('123456')
+
+    await expect(page.getByText('This sign-in attempt has expired. Please sign in again.')).toBeVisible()
+    await page.getByRole('button', { name: 'Back to sign in' }).click()
+    await expect(page.getByRole('button', { name: 'Sign In' })).toBeVisible()
+  })
+
+  test('is turned on from settings, then accepts a recovery code', async ({ page, createAccount, totpCode }) => {
+    const account = await createAccount('Enrolled Person')
+    await page.goto('/login')
+    await fillLogin(page, account.email, account.password)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+    await expect(page.getByRole('heading', { name: 'Welcome back, Enrolled!' })).toBeVisible()
+
+    await page.goto('/settings/security')
+    await page.getByRole('button', { name: 'Set up authenticator app' }).click()
+    await expect(page.getByRole('img', { name: 'QR code for your authenticator app' })).toBeVisible()
+    await expect(page.getByTestId('two-factor-secret')).not.toBeEmpty()
+
+    await page.getByRole('textbox', { name: 'Digit 1 of 6' }).focus()
+    await page.keyboard.type(await totpCode(account.email))
+    await page.getByRole('button', { name: 'Verify and turn on' }).click()
+
+    const codes = page.getByRole('list', { name: 'Save your recovery codes' }).getByRole('listitem')
+    await expect(codes).toHaveCount(8)
+    const recoveryCode = (await codes.first().textContent())!
+    const download = page.waitForEvent('download')
+    await page.getByRole('button', { name: 'Download' }).click()
+    expect((await download).suggestedFilename()).toBe('digisaga-recovery-codes.txt')
+    await page.getByRole('button', { name: "I've saved them" }).click()
+    await expect(page.getByText('On', { exact: true })).toBeVisible()
+
+    await page.getByRole('button', { name: 'Account menu' }).click()
+    await page.getByRole('menuitem', { name: 'Log out' }).click()
+    await fillLogin(page, account.email, account.password)
+    await page.getByRole('button', { name: 'Sign In' }).click()
+    await page.getByRole('button', { name: 'Use a recovery code' }).click()
+    await page.getByLabel('Recovery code').fill(recoveryCode)
+    await page.getByRole('button', { name: 'Verify' }).click()
+
+    await expect(page.getByRole('heading', { name: 'Welcome back, Enrolled!' })).toBeVisible()
+  })
+})
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  addAnalyticsTransport,
+  beaconTransport,
+  getAnalyticsConsent,
+  memoryTransport,
+  setAnalyticsConsent,
+  track,
+  type AnalyticsBatch,
+} from '@/lib/analytics'
+import { runtimeConfigSchema, setRuntimeConfig } from '@/lib/config'
+
+const ENDPOINT = 'https://collect.example.test/events'
+
+let removeTransport = () => {}
+
+function captureBatches() {
+  const transport = memoryTransport()
+  removeTransport = addAnalyticsTransport(transport)
+  return transport.batches
+}
+
+const names = (batches: AnalyticsBatch[]) => batches.flatMap(batch => batch.events.map(event => event.name))
+
+describe('track', () => {
+  beforeEach(() => {
+    setRuntimeConfig(runtimeConfigSchema.parse({
+      apiUrl: 'https://api.example.test',
+      supportEmail: 'support@example.test',
+      analytics: { transports: ['console'], batchSize: 2, flushIntervalMs: 1000 },
+    }))
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    // Empties the queue, which outlives each test
+    setAnalyticsConsent('denied')
+    localStorage.clear()
+    removeTransport()
+    setRuntimeConfig(null)
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('holds events back until the user agrees, then sends them', () => {
+    const batches = captureBatches()
+
+    track('signup_viewed', { mode: 'single' })
+    track('signup_submitted', { mode: 'single' })
+    expect(batches).toEqual([])
+
+    setAnalyticsConsent('granted')
+
+    expect(getAnalyticsConsent()).toBe('granted')
+    expect(names(batches)).toEqual(['signup_viewed', 'signup_submitted'])
+    expect(batches[0].sessionId).toMatch(/^[0-9a-f]{16}$/)
+    expect(console.info).toHaveBeenCalledWith('[analytics] signup_viewed', { mode: 'single' }, expect.anything())
+  })
+
+  it('drops what was waiting, and everything after, once the user declines', () => {
+    const batches = captureBatches()
+
+    track('signup_viewed', { mode: 'single' })
+    setAnalyticsConsent('denied')
+    track('verification_link_clicked')
+    setAnalyticsConsent('granted')
+
+    expect(batches).toEqual([])
+  })
+
+  it('sends full batches at once and the rest after the flush interval', () => {
+    vi.useFakeTimers()
+    setAnalyticsConsent('granted')
+    const batches = captureBatches()
+
+    track('login_failed', { method: 'password', code: 'INVALID_CREDENTIALS' })
+    expect(batches).toEqual([])
+    track('login_succeeded', { method: 'password' })
+    expect(batches).toHaveLength(1)
+
+    track('verification_link_clicked')
+    vi.advanceTimersByTime(999)
+    expect(batches).toHaveLength(1)
+    vi.advanceTimersByTime(1)
+
+    expect(batches.map(batch => batch.events.length)).toEqual([2, 1])
+    expect(batches[1].sessionId).toBe(batches[0].sessionId)
+  })
+
+  it('keeps going when a transport throws', () => {
+    setAnalyticsConsent('granted')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const failing = addAnalyticsTransport({ send: () => { throw new Error('offline') } })
+    const batches = captureBatches()
+
+    track('login_succeeded', { method: 'passkey' })
+    track('login_succeeded', { method: 'magic_link' })
+
+    expect(batches).toHaveLength(1)
+    expect(warn).toHaveBeenCalledWith('Analytics transport failed:', expect.any(Error))
+    failing()
+  })
+})
+
+describe('beaconTransport', () => {
+  const batch: AnalyticsBatch = {
+    sessionId: '0123456789abcdef',
+    events: [{ name: 'signup_succeeded', properties: { mode: 'wizard' }, timestamp: '2026-10-19T09:30:00.000Z' }],
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('posts the batch as JSON with sendBeacon', () => {
+    const sendBeacon = vi.fn(() => true)
+    vi.stubGlobal('navigator', { sendBeacon })
+
+    beaconTransport(ENDPOINT).send(batch)
+
+    expect(sendBeacon).toHaveBeenCalledWith(ENDPOINT, JSON.stringify(batch))
+  })
+
+  it('falls back to fetch when the browser will not queue the beacon', () => {
+    const fetch = vi.fn(async () => new Response(null, { status: 204 }))
+    vi.stubGlobal('navigator', { sendBeacon: () => false })
+    vi.stubGlobal('fetch', fetch)
+
+    beaconTransport(ENDPOINT).send(batch)
+
+    expect(fetch).toHaveBeenCalledWith(ENDPOINT, { method: 'POST', body: JSON.stringify(batch), keepalive: true })
+  })
+})
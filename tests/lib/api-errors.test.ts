@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { errorFromResponse, parseRetryAfter } from '@/lib/api/errors'
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z')
+
+  it.each([
+    ['120', 120],
+    [' 0 ', 0],
+    [42, 42],
+    [1.2, 2],
+    ['Thu, 01 Jan 2026 00:01:30 GMT', 90],
+    ['Wed, 31 Dec 2025 23:59:00 GMT', 0],
+  ])('reads %j as %i seconds', (value, expected) => {
+    expect(parseRetryAfter(value, now)).toBe(expected)
+  })
+
+  it.each([null, undefined, '', 'soon', -5, '1.5'])('ignores %j', value => {
+    expect(parseRetryAfter(value, now)).toBeNull()
+  })
+})
+
+describe('errorFromResponse', () => {
+  it('prefers the Retry-After header over the body', () => {
+    const error = errorFromResponse(429, { code: 'RATE_LIMITED', message: 'Slow down', retryAfter: 10 }, 'Failed', '30')
+    expect(error).toMatchObject({ status: 429, code: 'RATE_LIMITED', message: 'Slow down', retryAfter: 30 })
+  })
+
+  it('falls back to retryAfter in the body, then to nothing', () => {
+    expect(errorFromResponse(423, { code: 'ACCOUNT_LOCKED', retryAfter: 60 }, 'Failed').retryAfter).toBe(60)
+    expect(errorFromResponse(401, { code: 'INVALID_CREDENTIALS' }, 'Failed').retryAfter).toBeNull()
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { signUpSchema } from '@/lib/schemas/auth'
+
+const valid = {
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  mobileNumber: '+14155552671',
+  password: 'Tangerine#Sky42',
+  confirmPassword: 'Tangerine#Sky42',
+  acceptTerms: true,
+  marketingOptIn: false,
+}
+
+const fieldErrors = (data: unknown) => {
+  const result = signUpSchema.safeParse(data)
+  return result.success ? {} : result.error.flatten().fieldErrors
+}
+
+describe('signUpSchema', () => {
+  it('accepts a complete form', () => {
+    expect(signUpSchema.safeParse(valid).success).toBe(true)
+  })
+
+  it('reports mismatched passwords alongside other field errors', () => {
+    expect(fieldErrors({ ...valid, email: 'not-an-email', confirmPassword: 'Tangerine#Sky43' })).toEqual({
+      email: ['Email address is invalid'],
+      confirmPassword: ['Passwords do not match'],
+    })
+  })
+
+  it('reports mismatched passwords even when another field is missing altogether', () => {
+    const { acceptTerms, ...withoutTerms } = valid
+
+    expect(fieldErrors({ ...withoutTerms, confirmPassword: 'Tangerine#Sky43' })).toMatchObject({
+      acceptTerms: [expect.any(String)],
+      confirmPassword: ['Passwords do not match'],
+    })
+  })
+})
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getRuntimeConfig, loadRuntimeConfig, parseRuntimeConfig, RuntimeConfigError, setRuntimeConfig } from '@/lib/config'
+
+const minimal = { apiUrl: 'https://api.example.com/', supportEmail: 'help@example.com' }
+
+function respondWith(response: Response | Error) {
+  vi.stubGlobal('fetch', vi.fn(async () => {
+    if (response instanceof Error) throw response
+    return response
+  }))
+}
+
+describe('parseRuntimeConfig', () => {
+  it('fills in defaults and trims the API URL', () => {
+    expect(parseRuntimeConfig(minimal)).toEqual({
+      apiUrl: 'https://api.example.com',
+      supportEmail: 'help@example.com',
+      authProviders: [],
+      features: { signupWizard: false, passkeys: true, magicLink: true },
+      idleTimeoutMinutes: 15,
+    })
+  })
+
+  it('lists every problem with the path to it', () => {
+    const parse = () => parseRuntimeConfig({ apiUrl: 'ftp://files.example.com', authProviders: ['google', 'myspace'] })
+
+    expect(parse).toThrow(RuntimeConfigError)
+    try {
+      parse()
+    } catch (err) {
+      expect((err as RuntimeConfigError).code).toBe('INVALID')
+      expect((err as RuntimeConfigError).issues).toEqual([
+        'apiUrl: Must be an http(s) URL',
+        expect.stringMatching(/^authProviders\.1: /),
+        'supportEmail: Required',
+      ])
+    }
+  })
+
+  it('needs an endpoint for the beacon analytics transport', () => {
+    expect(() => parseRuntimeConfig({ ...minimal, analytics: { transports: ['beacon'] } }))
+      .toThrow(expect.objectContaining({ issues: ['analytics.endpoint: Required for the beacon transport'] }))
+    expect(parseRuntimeConfig({ ...minimal, analytics: { transports: ['console'] } }).analytics)
+      .toEqual({ transports: ['console'], batchSize: 10, flushIntervalMs: 5000 })
+  })
+})
+
+describe('loadRuntimeConfig', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    setRuntimeConfig(null)
+  })
+
+  it('fetches /config.json and makes it the current config', async () => {
+    respondWith(new Response(JSON.stringify(minimal), { status: 200 }))
+
+    const config = await loadRuntimeConfig()
+
+    expect(fetch).toHaveBeenCalledWith('/config.json', expect.objectContaining({ cache: 'no-store' }))
+    expect(getRuntimeConfig()).toBe(config)
+  })
+
+  it.each([
+    ['MISSING', new Response('Not found', { status: 404 })],
+    ['UNREACHABLE', new Response('Oops', { status: 500 })],
+    ['UNREACHABLE', new TypeError('Failed to fetch')],
+    ['INVALID', new Response('<html>', { status: 200 })],
+  ] as const)('reports %s', async (code, response) => {
+    respondWith(response)
+
+    await expect(loadRuntimeConfig()).rejects.toMatchObject({ code })
+    expect(getRuntimeConfig()).toBeNull()
+  })
+})
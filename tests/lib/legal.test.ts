@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { renderContent } from '@/lib/content'
+import { legalContentPath, legalDocuments, type LegalDocumentId } from '@/lib/legal'
+
+describe('legal documents', () => {
+  it.each(Object.keys(legalDocuments) as LegalDocumentId[])('has the current version of %s to show', id => {
+    const html = renderContent(legalContentPath(id))
+
+    expect(html).toContain('<h2>')
+    // The page renders the title itself
+    expect(html).not.toContain('<h1>')
+  })
+
+  it('finds earlier versions by their date', () => {
+    expect(legalContentPath('terms', '2025-01-01')).toBe('legal/terms/2025-01-01.md')
+  })
+})
+
+describe('help content', () => {
+  it('has the section the "Contact Support" links point at', () => {
+    expect(renderContent('help.md')).toContain('id="contact"')
+  })
+})
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { rememberMagicLinkRequest, takeMagicLinkRequest } from '@/lib/magic-link'
+
+describe('takeMagicLinkRequest', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('returns the request this browser made, once', () => {
+    rememberMagicLinkRequest('demo@example.com')
+
+    expect(takeMagicLinkRequest('Demo@Example.com')).toMatchObject({ email: 'demo@example.com' })
+    expect(takeMagicLinkRequest('demo@example.com')).toBeNull()
+  })
+
+  it('ignores a request for another address, or a link that does not say', () => {
+    rememberMagicLinkRequest('other@example.com')
+    expect(takeMagicLinkRequest('demo@example.com')).toBeNull()
+
+    rememberMagicLinkRequest('demo@example.com')
+    expect(takeMagicLinkRequest(null)).toBeNull()
+  })
+
+  it('ignores a request from the day before', () => {
+    vi.useFakeTimers()
+    rememberMagicLinkRequest('demo@example.com')
+    vi.advanceTimersByTime(25 * 60 * 60 * 1000)
+
+    expect(takeMagicLinkRequest('demo@example.com')).toBeNull()
+  })
+
+  it('ignores a note it did not write', () => {
+    localStorage.setItem('auth:magic-link', '{"email":42}')
+
+    expect(takeMagicLinkRequest('demo@example.com')).toBeNull()
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { checkPassword, isCommonPassword } from '@/lib/password-policy'
+
+const failedRules = (password: string) =>
+  checkPassword(password).filter(result => !result.passed).map(result => result.id)
+
+describe('isCommonPassword', () => {
+  it.each(['password', 'Password1!', 'Qwerty123!', 'P@ssw0rd#', 'Summer2024!', 'm0nk3y99$'])('catches %s', password => {
+    expect(isCommonPassword(password)).toBe(true)
+  })
+
+  it.each(['Tangerine#Sky42', 'Correct-Horse-7', 'Dragonfly!2'])('lets %s through', password => {
+    expect(isCommonPassword(password)).toBe(false)
+  })
+})
+
+describe('checkPassword', () => {
+  it('rejects a common password that meets every other rule', () => {
+    expect(failedRules('Password1!')).toEqual(['common'])
+    expect(failedRules('Qwerty123!')).toEqual(['common'])
+  })
+
+  it('passes a strong password', () => {
+    expect(failedRules('Tangerine#Sky42')).toEqual([])
+  })
+})
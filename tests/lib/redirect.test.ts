@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_REDIRECT, getRedirectTarget, safeRedirect, withRedirect } from '@/lib/redirect'
+
+describe('safeRedirect', () => {
+  it.each([
+    ['/', '/'],
+    ['/settings', '/settings'],
+    ['/settings/security?tab=2fa#codes', '/settings/security?tab=2fa#codes'],
+    ['/settings/../settings/security', '/settings/security'],
+  ])('keeps the same-origin path %s', (target, expected) => {
+    expect(safeRedirect(target)).toBe(expected)
+  })
+
+  it.each([
+    ['an absolute URL', 'https://evil.example/settings'],
+    ['a protocol-relative URL', '//evil.example/settings'],
+    ['a backslash host', '/\\evil.example'],
+    ['a tab smuggling in a host', '/\t/evil.example'],
+    ['a javascript: URL', 'javascript:alert(1)'],
+    ['a relative path', 'settings'],
+    ['a path outside the allowlist', '/admin'],
+    ['a lookalike prefix', '/settings-evil'],
+    ['a dot segment escaping the allowlist', '/settings/../login'],
+    ['an encoded dot segment', '/settings/%2e%2e/login'],
+    ['an auth page', '/login?next=/settings'],
+    ['nothing', null],
+  ])('rejects %s', (_, target) => {
+    expect(safeRedirect(target)).toBeNull()
+  })
+})
+
+describe('getRedirectTarget', () => {
+  it('prefers next over returnTo', () => {
+    expect(getRedirectTarget(new URLSearchParams('returnTo=/settings&next=/settings/security'))).toBe('/settings/security')
+  })
+
+  it('falls back to returnTo when next is unsafe', () => {
+    expect(getRedirectTarget(new URLSearchParams('next=//evil.example&returnTo=/settings'))).toBe('/settings')
+  })
+
+  it('falls back to the home page', () => {
+    expect(getRedirectTarget(new URLSearchParams('next=https://evil.example'))).toBe(DEFAULT_REDIRECT)
+  })
+})
+
+describe('withRedirect', () => {
+  it('adds the target as next', () => {
+    expect(withRedirect('/login', '/settings/security')).toBe('/login?next=%2Fsettings%2Fsecurity')
+  })
+
+  it('leaves links alone for the default or an unsafe target', () => {
+    expect(withRedirect('/signup', DEFAULT_REDIRECT)).toBe('/signup')
+    expect(withRedirect('/signup', '//evil.example')).toBe('/signup')
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { getIdleTimeoutMs, refreshDelay, REFRESH_RETRY_MS } from '@/lib/session'
+
+describe('refreshDelay', () => {
+  it('refreshes a minute before the session expires', () => {
+    expect(refreshDelay(900)).toBe(840_000)
+  })
+
+  it('waits at least half the lifetime of a short session', () => {
+    expect(refreshDelay(30)).toBe(15_000)
+  })
+
+  it.each([undefined, null, '900', Number.NaN, Infinity, 0, -5])('waits the retry delay when the lifetime is %o', expiresIn => {
+    expect(refreshDelay(expiresIn)).toBe(REFRESH_RETRY_MS)
+  })
+})
+
+describe('getIdleTimeoutMs', () => {
+  it('converts the configured minutes', () => {
+    expect(getIdleTimeoutMs(30)).toBe(30 * 60_000)
+  })
+
+  it('is off when set to 0', () => {
+    expect(getIdleTimeoutMs(0)).toBeNull()
+  })
+})
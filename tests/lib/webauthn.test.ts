@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { base64urlToBuffer, bufferToBase64url, getPasskey, PasskeyError, toPasskeyError } from '@/lib/webauthn'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+
+describe('base64url', () => {
+  it('encodes without padding, using "-" and "_"', () => {
+    expect(bufferToBase64url(bytes(251, 255, 191))).toBe('-_-_')
+    expect(bufferToBase64url(bytes(104, 105))).toBe('aGk')
+    expect(bufferToBase64url(bytes().buffer)).toBe('')
+  })
+
+  it('round-trips bytes, including a view into a larger buffer', () => {
+    const all = bytes(0, 1, 2, 250, 251, 252, 253, 254, 255)
+    const view = all.subarray(3, 8)
+    expect(new Uint8Array(base64urlToBuffer(bufferToBase64url(view)))).toEqual(bytes(250, 251, 252, 253, 254))
+  })
+
+  it('accepts padded input but not plain base64', () => {
+    expect(new Uint8Array(base64urlToBuffer('aGk='))).toEqual(bytes(104, 105))
+    expect(() => base64urlToBuffer('+/+/')).toThrow(TypeError)
+  })
+})
+
+describe('toPasskeyError', () => {
+  it.each([
+    ['NotAllowedError', 'CANCELLED'],
+    ['AbortError', 'ABORTED'],
+    ['InvalidStateError', 'ALREADY_REGISTERED'],
+    ['SecurityError', 'INVALID_DOMAIN'],
+    ['NotSupportedError', 'UNSUPPORTED'],
+    ['UnknownError', 'FAILED'],
+  ])('maps a %s to %s', (name, code) => {
+    const error = toPasskeyError(new DOMException('The operation failed', name))
+    expect(error).toBeInstanceOf(PasskeyError)
+    expect(error.code).toBe(code)
+  })
+})
+
+describe('getPasskey', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('explains that the browser has no passkey support', async () => {
+    vi.stubGlobal('PublicKeyCredential', undefined)
+    await expect(getPasskey({ challenge: 'AAEC' })).rejects.toMatchObject({ code: 'UNSUPPORTED' })
+  })
+
+  it('decodes the options and encodes the assertion', async () => {
+    class FakePublicKeyCredential {}
+    const credential = Object.assign(new FakePublicKeyCredential(), {
+      id: 'AQID',
+      rawId: bytes(1, 2, 3).buffer,
+      authenticatorAttachment: 'platform',
+      response: {
+        clientDataJSON: bytes(123, 125).buffer,
+        authenticatorData: bytes(9, 9).buffer,
+        signature: bytes(255, 254).buffer,
+        userHandle: null,
+      },
+    })
+    const get = vi.fn(async (_options: CredentialRequestOptions) => credential)
+    vi.stubGlobal('isSecureContext', true)
+    vi.stubGlobal('PublicKeyCredential', FakePublicKeyCredential)
+    vi.stubGlobal('navigator', { credentials: { get } })
+
+    const assertion = await getPasskey({
+      challenge: 'AAEC',
+      rpId: 'localhost',
+      allowCredentials: [{ id: 'AQID', type: 'public-key' }],
+    })
+
+    const { publicKey } = get.mock.calls[0][0]
+    expect(new Uint8Array(publicKey!.challenge as ArrayBuffer)).toEqual(bytes(0, 1, 2))
+    expect(new Uint8Array(publicKey!.allowCredentials![0].id as ArrayBuffer)).toEqual(bytes(1, 2, 3))
+    expect(assertion).toEqual({
+      id: 'AQID',
+      rawId: 'AQID',
+      type: 'public-key',
+      response: { clientDataJSON: 'e30', authenticatorData: 'CQk', signature: '__4', userHandle: undefined },
+      authenticatorAttachment: 'platform',
+    })
+  })
+
+  it('reports a dismissed prompt as cancelled', async () => {
+    vi.stubGlobal('isSecureContext', true)
+    vi.stubGlobal('PublicKeyCredential', class {})
+    vi.stubGlobal('navigator', { credentials: { get: vi.fn().mockRejectedValue(new DOMException('Denied', 'NotAllowedError')) } })
+
+    await expect(getPasskey({ challenge: 'AAEC' })).rejects.toMatchObject({ code: 'CANCELLED' })
+  })
+})
@@ -0,0 +1,23 @@
+import { vi } from 'vitest'
+
+// Pages only use the imperative router, so a shared spy is enough to assert navigation
+export const router = {
+  push: vi.fn(),
+  replace: vi.fn(),
+  back: vi.fn(),
+  forward: vi.fn(),
+  refresh: vi.fn(),
+  prefetch: vi.fn(),
+}
+
+export let searchParams = new URLSearchParams()
+
+export function setSearchParams(init: string) {
+  searchParams = new URLSearchParams(init)
+  // AuthGuard reads the query from the location, outside the page's Suspense boundary
+  window.history.replaceState(null, '', `${window.location.pathname}${init ? `?${init}` : ''}`)
+}
+
+export const useRouter = () => router
+export const usePathname = () => window.location.pathname
+export const useSearchParams = () => searchParams
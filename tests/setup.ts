@@ -0,0 +1,19 @@
+import '@testing-library/jest-dom/vitest'
+import { afterEach, vi } from 'vitest'
+import { cleanup } from '@testing-library/react'
+import { setSearchParams } from './mocks/next-navigation'
+
+vi.mock('next/navigation', () => import('./mocks/next-navigation'))
+
+// Signed-in pages renew the session in the background; tests that care mock it themselves
+vi.mock('@/lib/api/auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/api/auth')>()),
+  refreshSession: vi.fn(async () => ({ expiresIn: 900 })),
+}))
+
+afterEach(() => {
+  cleanup()
+  setSearchParams('')
+  window.localStorage.clear()
+  window.sessionStorage.clear()
+})
@@ -0,0 +1,37 @@
+import type { ReactElement, ReactNode } from 'react'
+import { render } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { I18nProvider } from '@/components/i18n'
+import { AuthProvider } from '@/components/auth'
+import { ConfigProvider } from '@/components/config'
+import { runtimeConfigSchema, type RuntimeConfig } from '@/lib/config'
+
+/** What the app would make of a config.json with only the required settings. */
+export const testConfig: RuntimeConfig = runtimeConfigSchema.parse({
+  apiUrl: 'https://api.example.test',
+  supportEmail: 'support@example.test',
+})
+
+function Providers({ children, config }: { children: ReactNode; config: RuntimeConfig }) {
+  return (
+    <I18nProvider>
+      <ConfigProvider config={config}>
+        <AuthProvider>{children}</AuthProvider>
+      </ConfigProvider>
+    </I18nProvider>
+  )
+}
+
+interface RenderOptions {
+  /** Settings to change from `testConfig`. */
+  config?: Partial<RuntimeConfig>
+}
+
+/** Renders `ui` inside the same providers the root layout mounts; `rerender` keeps them. */
+export function renderWithProviders(ui: ReactElement, { config }: RenderOptions = {}) {
+  const merged = { ...testConfig, ...config }
+  return {
+    user: userEvent.setup(),
+    ...render(ui, { wrapper: ({ children }) => <Providers config={merged}>{children}</Providers> }),
+  }
+}